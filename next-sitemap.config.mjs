@@ -0,0 +1,38 @@
+import { defaultLocale, locales } from './src/i18n/locales.js'
+
+const SITE_URL =
+  process.env.NEXT_PUBLIC_SERVER_URL ||
+  process.env.VERCEL_PROJECT_PRODUCTION_URL ||
+  'https://example.com'
+
+// URL prefix of each locale, the default locale is served without one (see localizePath)
+const localePrefixes = locales.map(({ code }) => (code === defaultLocale ? '' : `/${code}`))
+
+/** @type {import('next-sitemap').IConfig} */
+const config = {
+  siteUrl: SITE_URL,
+  generateRobotsTxt: true,
+  // Pages and posts are listed by the per-locale server sitemaps below
+  exclude: [
+    '/posts/*',
+    ...localePrefixes.flatMap((prefix) => [
+      `${prefix}/posts-sitemap.xml`,
+      `${prefix}/pages-sitemap.xml`,
+      `${prefix}/*`,
+    ]),
+  ],
+  robotsTxtOptions: {
+    policies: [
+      {
+        userAgent: '*',
+        disallow: '/admin/*',
+      },
+    ],
+    additionalSitemaps: localePrefixes.flatMap((prefix) => [
+      `${SITE_URL}${prefix}/pages-sitemap.xml`,
+      `${SITE_URL}${prefix}/posts-sitemap.xml`,
+    ]),
+  },
+}
+
+export default config
@@ -1,6 +1,7 @@
 import { withPayload } from '@payloadcms/next/withPayload'
 
 import redirects from './redirects.js'
+import { ScrollBundleReportPlugin } from './scripts/scroll-bundle-report.mjs'
 
 const NEXT_PUBLIC_SERVER_URL = process.env.VERCEL_PROJECT_PRODUCTION_URL
   ? `https://${process.env.VERCEL_PROJECT_PRODUCTION_URL}`
@@ -20,13 +21,18 @@ const nextConfig = {
       }),
     ],
   },
-  webpack: (webpackConfig) => {
+  webpack: (webpackConfig, { dev, isServer }) => {
     webpackConfig.resolve.extensionAlias = {
       '.cjs': ['.cts', '.cjs'],
       '.js': ['.ts', '.tsx', '.js', '.jsx'],
       '.mjs': ['.mts', '.mjs'],
     }
 
+    // Per-variant bundle sizes of the lazily loaded scroll variants, see `pnpm analyze:scroll`
+    if (process.env.ANALYZE_SCROLL === 'true' && !dev && !isServer) {
+      webpackConfig.plugins.push(new ScrollBundleReportPlugin())
+    }
+
     return webpackConfig
   },
   reactStrictMode: true,
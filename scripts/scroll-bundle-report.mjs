@@ -0,0 +1,115 @@
+/**
+ * Webpack plugin reporting how much JavaScript each scroll variant downloads
+ *
+ * Scroll variants are loaded on demand (see `load` in src/scroll/definitions), each into its
+ * own `scroll-variant-<slug>` chunk group. For every variant the report lists the chunks that
+ * group loads (the variant itself and dependencies split out of it, such as GSAP or Three.js),
+ * their minified and gzipped sizes and which of them are shared with other variants.
+ *
+ * Usage: pnpm analyze:scroll
+ * Prints a table and writes the full report to .next/analyze/scroll-variants.json
+ */
+
+import { mkdirSync, writeFileSync } from 'fs'
+import { dirname, resolve } from 'path'
+import { gzipSync } from 'zlib'
+
+const PLUGIN_NAME = 'ScrollBundleReportPlugin'
+const CHUNK_GROUP_PREFIX = 'scroll-variant-'
+
+const formatKiB = (bytes) => `${(bytes / 1024).toFixed(1)} KiB`
+
+const sum = (files, key) => files.reduce((total, file) => total + file[key], 0)
+
+export class ScrollBundleReportPlugin {
+  constructor({ outputFile = '.next/analyze/scroll-variants.json' } = {}) {
+    this.outputFile = resolve(outputFile)
+  }
+
+  apply(compiler) {
+    const { Compilation } = compiler.webpack
+
+    compiler.hooks.thisCompilation.tap(PLUGIN_NAME, (compilation) => {
+      // Report stage: assets are minified and have their final names
+      compilation.hooks.processAssets.tap(
+        { name: PLUGIN_NAME, stage: Compilation.PROCESS_ASSETS_STAGE_REPORT },
+        () => this.report(compilation),
+      )
+    })
+  }
+
+  report(compilation) {
+    const sizes = new Map()
+    const sizeOf = (file) => {
+      if (!sizes.has(file)) {
+        const buffer = compilation.getAsset(file)?.source.buffer() ?? Buffer.alloc(0)
+        sizes.set(file, { gzip: gzipSync(buffer).length, size: buffer.length })
+      }
+      return sizes.get(file)
+    }
+
+    const groups = [...compilation.namedChunkGroups]
+      .filter(([name]) => name.startsWith(CHUNK_GROUP_PREFIX))
+      .map(([name, chunkGroup]) => ({
+        files: [
+          ...new Set(
+            chunkGroup.chunks
+              .flatMap((chunk) => [...chunk.files])
+              .filter((file) => file.endsWith('.js')),
+          ),
+        ],
+        variant: name.slice(CHUNK_GROUP_PREFIX.length),
+      }))
+      .sort((a, b) => a.variant.localeCompare(b.variant))
+
+    const variants = groups.map(({ files, variant }) => {
+      const chunks = files.map((file) => ({
+        file,
+        ...sizeOf(file),
+        sharedWith: groups
+          .filter((other) => other.variant !== variant && other.files.includes(file))
+          .map((other) => other.variant),
+      }))
+      const ownChunks = chunks.filter((chunk) => chunk.sharedWith.length === 0)
+
+      return {
+        chunks,
+        gzip: sum(chunks, 'gzip'),
+        ownGzip: sum(ownChunks, 'gzip'),
+        size: sum(chunks, 'size'),
+        variant,
+      }
+    })
+
+    if (variants.length === 0) {
+      console.warn(
+        `⚠️  No "${CHUNK_GROUP_PREFIX}*" chunk groups found, is the variant registry lazy?`,
+      )
+      return
+    }
+
+    mkdirSync(dirname(this.outputFile), { recursive: true })
+    writeFileSync(
+      this.outputFile,
+      JSON.stringify({ generatedAt: new Date().toISOString(), variants }, null, 2),
+    )
+
+    console.log(
+      '\n📦 Scroll variant bundles (loaded when a block of the variant nears the viewport)\n',
+    )
+    console.table(
+      Object.fromEntries(
+        variants.map(({ chunks, gzip, ownGzip, size, variant }) => [
+          variant,
+          {
+            Chunks: chunks.length,
+            Minified: formatKiB(size),
+            Gzipped: formatKiB(gzip),
+            'Only this variant (gzipped)': formatKiB(ownGzip),
+          },
+        ]),
+      ),
+    )
+    console.log(`\nFull report: ${this.outputFile}\n`)
+  }
+}
@@ -6,6 +6,7 @@ import type { Footer } from '@/payload-types'
 
 import { ThemeSelector } from '@/providers/Theme/ThemeSelector'
 import { CMSLink } from '@/components/Link'
+import { useLocale, useLocalizePath } from '@/i18n/useLocale'
 import { Logo } from '@/components/Logo/Logo'
 import Link from 'next/link'
 import { ActionButtons } from './ActionButtons'
@@ -16,6 +17,8 @@ interface FooterClientProps {
 }
 
 export const FooterClient: React.FC<FooterClientProps> = ({ data, isAuthenticated }) => {
+  const locale = useLocale()
+  const localizePath = useLocalizePath()
   const navItems = data?.navItems || []
 
   const visibleNavItems = navItems.filter((item) => {
@@ -28,7 +31,7 @@ export const FooterClient: React.FC<FooterClientProps> = ({ data, isAuthenticate
   return (
     <footer className="mt-auto border-t border-border bg-black dark:bg-card text-white">
       <div className="container py-8 gap-8 flex flex-col md:flex-row md:justify-between">
-        <Link className="flex items-center" href="/">
+        <Link className="flex items-center" href={localizePath('/')}>
           <Logo />
         </Link>
 
@@ -36,7 +39,7 @@ export const FooterClient: React.FC<FooterClientProps> = ({ data, isAuthenticate
           <ThemeSelector />
           <nav className="flex flex-col md:flex-row gap-4">
             {visibleNavItems.map(({ link }, i) => {
-              return <CMSLink className="text-white" key={i} {...link} />
+              return <CMSLink className="text-white" key={i} {...link} locale={locale} />
             })}
           </nav>
           <ActionButtons data={data} isAuthenticated={isAuthenticated} />
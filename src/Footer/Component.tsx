@@ -4,9 +4,10 @@ import { getUserAuth } from '@/utilities/getUserAuth'
 import React from 'react'
 
 import type { Footer } from '@/payload-types'
+import type { Locale } from '@/i18n/config'
 
-export async function Footer() {
-  const footerData: Footer = await getCachedGlobal('footer', 1)()
+export async function Footer({ locale }: { locale: Locale }) {
+  const footerData: Footer = await getCachedGlobal('footer', 1, locale)()
   const { isAuthenticated } = await getUserAuth()
 
   return <FooterClient data={footerData} isAuthenticated={isAuthenticated} />
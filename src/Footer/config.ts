@@ -1,5 +1,6 @@
 import type { GlobalConfig } from 'payload'
 
+import { hasRole } from '@/access/hasRole'
 import { link } from '@/fields/link'
 import { revalidateFooter } from './hooks/revalidateFooter'
 
@@ -7,6 +8,7 @@ export const Footer: GlobalConfig = {
   slug: 'footer',
   access: {
     read: () => true,
+    update: hasRole('admin', 'editor'),
   },
   fields: [
     {
@@ -5,6 +5,7 @@ import React from 'react'
 import type { Header as HeaderType } from '@/payload-types'
 
 import { CMSLink } from '@/components/Link'
+import { useLocale } from '@/i18n/useLocale'
 
 interface ActionButtonsProps {
   data: HeaderType
@@ -12,6 +13,7 @@ interface ActionButtonsProps {
 }
 
 export const ActionButtons: React.FC<ActionButtonsProps> = ({ data, isAuthenticated }) => {
+  const locale = useLocale()
   const actionButtons = data?.actionButtons || []
 
   if (!actionButtons.length) {
@@ -39,6 +41,7 @@ export const ActionButtons: React.FC<ActionButtonsProps> = ({ data, isAuthentica
             appearance={button.variant || 'default'}
             size={button.size || 'default'}
             label={button.label || ''}
+            locale={locale}
           />
         )
       })}
@@ -1,4 +1,5 @@
 'use client'
+import { useLocalizePath } from '@/i18n/useLocale'
 import { useHeaderTheme } from '@/providers/HeaderTheme'
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
@@ -20,6 +21,7 @@ export const HeaderClient: React.FC<HeaderClientProps> = ({ data, isAuthenticate
   const [theme, setTheme] = useState<string | null>(null)
   const { headerTheme, setHeaderTheme } = useHeaderTheme()
   const pathname = usePathname()
+  const localizePath = useLocalizePath()
 
   useEffect(() => {
     setHeaderTheme(null)
@@ -34,7 +36,7 @@ export const HeaderClient: React.FC<HeaderClientProps> = ({ data, isAuthenticate
   return (
     <header className="container relative z-20   " {...(theme ? { 'data-theme': theme } : {})}>
       <div className="py-8 flex justify-between items-center">
-        <Link href="/">
+        <Link href={localizePath('/')}>
           <Logo loading="eager" priority="high" className="invert dark:invert-0" />
         </Link>
         <div className="flex gap-6 items-center">
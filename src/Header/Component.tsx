@@ -4,9 +4,10 @@ import { getUserAuth } from '@/utilities/getUserAuth'
 import React from 'react'
 
 import type { Header } from '@/payload-types'
+import type { Locale } from '@/i18n/config'
 
-export async function Header() {
-  const headerData: Header = await getCachedGlobal('header', 1)()
+export async function Header({ locale }: { locale: Locale }) {
+  const headerData: Header = await getCachedGlobal('header', 1, locale)()
   const { isAuthenticated } = await getUserAuth()
 
   return <HeaderClient data={headerData} isAuthenticated={isAuthenticated} />
@@ -5,6 +5,7 @@ import React from 'react'
 import type { Header as HeaderType } from '@/payload-types'
 
 import { CMSLink } from '@/components/Link'
+import { useLocale, useLocalizePath } from '@/i18n/useLocale'
 import Link from 'next/link'
 import { SearchIcon } from 'lucide-react'
 
@@ -14,6 +15,8 @@ interface HeaderNavProps {
 }
 
 export const HeaderNav: React.FC<HeaderNavProps> = ({ data, isAuthenticated }) => {
+  const locale = useLocale()
+  const localizePath = useLocalizePath()
   const navItems = data?.navItems || []
 
   const visibleNavItems = navItems.filter((item) => {
@@ -26,9 +29,9 @@ export const HeaderNav: React.FC<HeaderNavProps> = ({ data, isAuthenticated }) =
   return (
     <nav className="flex gap-3 items-center">
       {visibleNavItems.map(({ link }, i) => {
-        return <CMSLink key={i} {...link} appearance="link" />
+        return <CMSLink key={i} {...link} appearance="link" locale={locale} />
       })}
-      <Link href="/search">
+      <Link href={localizePath('/search')}>
         <span className="sr-only">Search</span>
         <SearchIcon className="w-5 text-primary" />
       </Link>
@@ -0,0 +1,13 @@
+import { getCachedGlobal } from '@/utilities/getGlobals'
+import React from 'react'
+
+import type { Theme } from '@/payload-types'
+
+import { themeToCSS } from './tokens'
+
+// Declares the design tokens of the `theme` global as CSS custom properties
+export async function ThemeStyles() {
+  const theme = (await getCachedGlobal('theme', 0)()) as Theme
+
+  return <style dangerouslySetInnerHTML={{ __html: themeToCSS(theme) }} id="theme-tokens" />
+}
@@ -0,0 +1,71 @@
+import type { Field, GlobalConfig, TextFieldSingleValidation } from 'payload'
+
+import { hasRole } from '@/access/hasRole'
+import { revalidateTheme } from './hooks/revalidateTheme'
+import { isThemeTokenValue, themeTokenGroups, type ThemeTokenKind } from './tokens'
+
+const kindDescriptions: Record<ThemeTokenKind, string> = {
+  color: 'Hex, rgb(), hsl() or named CSS color',
+  duration: 'Duration such as 200ms or 0.3s',
+  length: 'CSS length such as 16px or 1rem',
+}
+
+const validateToken =
+  (kind: ThemeTokenKind): TextFieldSingleValidation =>
+  (value) => {
+    if (!value || isThemeTokenValue(kind, value)) return true
+    return `Enter a valid value. ${kindDescriptions[kind]}.`
+  }
+
+const tokenGroupFields: Field[] = themeTokenGroups.map(({ kind, label, name, tokens }) => ({
+  name,
+  type: 'group',
+  label,
+  fields: [
+    {
+      type: 'row',
+      fields: tokens.map(
+        (token): Field => ({
+          name: token.name,
+          type: 'text',
+          label: token.label,
+          defaultValue: token.defaultValue,
+          required: true,
+          validate: validateToken(kind),
+          admin: {
+            description: `${token.description ? `${token.description}. ` : ''}var(${token.variable})`,
+            width: kind === 'color' ? '50%' : '33%',
+            ...(kind === 'color'
+              ? {
+                  components: {
+                    Field: {
+                      path: '@/components/admin/ColorPicker',
+                    },
+                  },
+                  custom: {
+                    themeToken: true,
+                  },
+                }
+              : {}),
+          },
+        }),
+      ),
+    },
+  ],
+}))
+
+export const Theme: GlobalConfig = {
+  slug: 'theme',
+  access: {
+    read: () => true,
+    update: hasRole('admin'),
+  },
+  admin: {
+    description:
+      'Brand design tokens. Every value becomes a CSS custom property on the site, so a rebrand only needs changes here.',
+  },
+  fields: tokenGroupFields,
+  hooks: {
+    afterChange: [revalidateTheme],
+  },
+}
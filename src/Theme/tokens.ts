@@ -0,0 +1,307 @@
+import {
+  BRAND_COLORS,
+  BUTTON_STYLES,
+  SEMANTIC_COLORS,
+  SPACING,
+  TEXT_COLORS,
+  TRANSITIONS,
+  TYPOGRAPHY,
+} from '@/lib/brand-colors'
+import { isCSSLength } from '@/scroll/validation'
+import { parseColor } from '@/utilities/color'
+
+// Design tokens of the `theme` global
+//
+// Each token is one field of the global and one CSS custom property set on :root, so the
+// admin fields, the generated stylesheet and the ColorPicker swatches stay in sync.
+// The constants in `@/lib/brand-colors` are the defaults until the global is saved.
+
+export type ThemeTokenKind = 'color' | 'duration' | 'length'
+
+export type ThemeToken = {
+  defaultValue: string
+  description?: string
+  label: string
+  name: string
+  variable: string
+}
+
+export type ThemeTokenGroup = {
+  kind: ThemeTokenKind
+  label: string
+  name: ThemeGroupName
+  tokens: ThemeToken[]
+}
+
+export type ThemeGroupName = 'buttons' | 'colors' | 'spacing' | 'transitions' | 'typography'
+
+// Shape of the saved global, loose enough for partially saved or never saved documents
+export type ThemeValues = Partial<Record<ThemeGroupName, Record<string, unknown> | null>>
+
+export const themeTokenGroups: ThemeTokenGroup[] = [
+  {
+    name: 'colors',
+    kind: 'color',
+    label: 'Colors',
+    tokens: [
+      {
+        name: 'green',
+        label: 'Green',
+        variable: '--brand-green',
+        defaultValue: BRAND_COLORS.GREEN,
+        description: 'Primary accent, highlights and CTA buttons',
+      },
+      {
+        name: 'blue',
+        label: 'Blue',
+        variable: '--brand-blue',
+        defaultValue: BRAND_COLORS.BLUE,
+        description: 'Secondary accent, navigation and buttons',
+      },
+      {
+        name: 'darkNavy',
+        label: 'Dark Navy',
+        variable: '--brand-dark-navy',
+        defaultValue: BRAND_COLORS.DARK_NAVY,
+        description: 'Headings and typography',
+      },
+      {
+        name: 'charcoal',
+        label: 'Charcoal',
+        variable: '--brand-charcoal',
+        defaultValue: BRAND_COLORS.CHARCOAL,
+        description: 'Body text',
+      },
+      {
+        name: 'white',
+        label: 'White',
+        variable: '--brand-white',
+        defaultValue: BRAND_COLORS.WHITE,
+        description: 'Page background and text on dark backgrounds',
+      },
+      {
+        name: 'softGray',
+        label: 'Soft Gray',
+        variable: '--brand-soft-gray',
+        defaultValue: BRAND_COLORS.SOFT_GRAY,
+        description: 'Backgrounds and section dividers',
+      },
+      {
+        name: 'skyBlue',
+        label: 'Sky Blue',
+        variable: '--brand-sky-blue',
+        defaultValue: BRAND_COLORS.SKY_BLUE,
+        description: 'Decorative shapes and hover effects',
+      },
+      {
+        name: 'lime',
+        label: 'Lime',
+        variable: '--brand-lime',
+        defaultValue: BRAND_COLORS.LIME,
+        description: 'Subtle geometric accents',
+      },
+      {
+        name: 'muted',
+        label: 'Muted Text',
+        variable: '--brand-muted',
+        defaultValue: TEXT_COLORS.MUTED,
+      },
+      {
+        name: 'error',
+        label: 'Error',
+        variable: '--brand-error',
+        defaultValue: SEMANTIC_COLORS.ERROR,
+      },
+      {
+        name: 'warning',
+        label: 'Warning',
+        variable: '--brand-warning',
+        defaultValue: SEMANTIC_COLORS.WARNING,
+      },
+    ],
+  },
+  {
+    name: 'typography',
+    kind: 'length',
+    label: 'Typography',
+    tokens: [
+      { name: 'xs', label: 'XS', variable: '--font-size-xs', defaultValue: TYPOGRAPHY.XS },
+      { name: 'sm', label: 'SM', variable: '--font-size-sm', defaultValue: TYPOGRAPHY.SM },
+      { name: 'base', label: 'Base', variable: '--font-size-base', defaultValue: TYPOGRAPHY.BASE },
+      { name: 'lg', label: 'LG', variable: '--font-size-lg', defaultValue: TYPOGRAPHY.LG },
+      { name: 'xl', label: 'XL', variable: '--font-size-xl', defaultValue: TYPOGRAPHY.XL },
+      { name: 'xl2', label: '2XL', variable: '--font-size-2xl', defaultValue: TYPOGRAPHY['2XL'] },
+      { name: 'xl3', label: '3XL', variable: '--font-size-3xl', defaultValue: TYPOGRAPHY['3XL'] },
+      { name: 'xl4', label: '4XL', variable: '--font-size-4xl', defaultValue: TYPOGRAPHY['4XL'] },
+      { name: 'xl5', label: '5XL', variable: '--font-size-5xl', defaultValue: TYPOGRAPHY['5XL'] },
+    ],
+  },
+  {
+    name: 'spacing',
+    kind: 'length',
+    label: 'Spacing',
+    tokens: [
+      {
+        name: 'unit',
+        label: 'Spacing Unit',
+        variable: '--spacing-unit',
+        defaultValue: SPACING[1],
+        description: 'Base unit of the spacing scale, multiplied for larger gaps',
+      },
+    ],
+  },
+  {
+    name: 'buttons',
+    kind: 'length',
+    label: 'Buttons',
+    tokens: [
+      {
+        name: 'radiusSm',
+        label: 'Radius SM',
+        variable: '--button-radius-sm',
+        defaultValue: BUTTON_STYLES.BORDER_RADIUS.SM,
+      },
+      {
+        name: 'radiusMd',
+        label: 'Radius MD',
+        variable: '--button-radius-md',
+        defaultValue: BUTTON_STYLES.BORDER_RADIUS.MD,
+      },
+      {
+        name: 'radiusLg',
+        label: 'Radius LG',
+        variable: '--button-radius-lg',
+        defaultValue: BUTTON_STYLES.BORDER_RADIUS.LG,
+      },
+      {
+        name: 'paddingYMd',
+        label: 'Vertical Padding',
+        variable: '--button-padding-y',
+        defaultValue: BUTTON_STYLES.PADDING.VERTICAL.MD,
+      },
+      {
+        name: 'paddingXMd',
+        label: 'Horizontal Padding',
+        variable: '--button-padding-x',
+        defaultValue: BUTTON_STYLES.PADDING.HORIZONTAL.MD,
+      },
+    ],
+  },
+  {
+    name: 'transitions',
+    kind: 'duration',
+    label: 'Transitions',
+    tokens: [
+      {
+        name: 'fast',
+        label: 'Fast',
+        variable: '--transition-fast',
+        defaultValue: TRANSITIONS.FAST,
+      },
+      {
+        name: 'normal',
+        label: 'Normal',
+        variable: '--transition-normal',
+        defaultValue: TRANSITIONS.NORMAL,
+      },
+      {
+        name: 'slow',
+        label: 'Slow',
+        variable: '--transition-slow',
+        defaultValue: TRANSITIONS.SLOW,
+      },
+    ],
+  },
+]
+
+export type ThemeColorName =
+  | 'blue'
+  | 'charcoal'
+  | 'darkNavy'
+  | 'error'
+  | 'green'
+  | 'lime'
+  | 'muted'
+  | 'skyBlue'
+  | 'softGray'
+  | 'warning'
+  | 'white'
+
+const colorTokens = themeTokenGroups.find(({ name }) => name === 'colors')!.tokens
+
+const DURATION_PATTERN = /^(\d+(\.\d+)?|\.\d+)m?s$/
+
+/**
+ * Checks a token value before it is written into the stylesheet. Only plain values pass,
+ * so nothing saved in the global can break out of the `:root` rule
+ */
+export function isThemeTokenValue(kind: ThemeTokenKind, value: string): boolean {
+  const trimmed = value.trim()
+  if (/[;{}<>]/.test(trimmed)) return false
+
+  switch (kind) {
+    case 'color':
+      return parseColor(trimmed) !== null
+    case 'duration':
+      return DURATION_PATTERN.test(trimmed)
+    case 'length':
+      return isCSSLength(trimmed)
+  }
+}
+
+// Invalid or missing values fall back to the token default
+export function resolveThemeTokens(theme?: ThemeValues | null): Record<string, string> {
+  return Object.fromEntries(
+    themeTokenGroups.flatMap(({ kind, name, tokens }) =>
+      tokens.map((token) => {
+        const value = theme?.[name]?.[token.name]
+        const valid = typeof value === 'string' && isThemeTokenValue(kind, value)
+
+        return [token.variable, valid ? value.trim() : token.defaultValue]
+      }),
+    ),
+  )
+}
+
+// The `:root` rule declaring every token as a CSS custom property
+export function themeToCSS(theme?: ThemeValues | null): string {
+  const declarations = Object.entries(resolveThemeTokens(theme)).map(
+    ([variable, value]) => `${variable}:${value}`,
+  )
+
+  return `:root{${declarations.join(';')}}`
+}
+
+/**
+ * Reference to a brand color token, e.g. `var(--brand-dark-navy)`. Use it instead of a hex
+ * value so the color follows the `theme` global
+ */
+export function themeColor(name: ThemeColorName): string {
+  const token = colorTokens.find((color) => color.name === name)
+
+  return `var(${token!.variable})`
+}
+
+// Brand colors of the theme with their current values, used for the ColorPicker swatches
+export function getThemeSwatches(
+  theme?: ThemeValues | null,
+): { label: string; reference: string; value: string }[] {
+  const values = resolveThemeTokens(theme)
+
+  return colorTokens.map((token) => ({
+    label: token.label,
+    reference: `var(${token.variable})`,
+    value: values[token.variable],
+  }))
+}
+
+/**
+ * Resolves a `var(--brand-…)` reference to the color it currently stands for, leaving any
+ * other value as is
+ */
+export function resolveThemeColor(value: string, theme?: ThemeValues | null): string {
+  const match = value.trim().match(/^var\((--[\w-]+)\)$/)
+  if (!match) return value
+
+  return resolveThemeTokens(theme)[match[1]] ?? value
+}
@@ -0,0 +1,16 @@
+import type { Access } from 'payload'
+
+import { checkRole } from './checkRole'
+
+// Admins can manage every user, everyone else only their own account
+export const adminsOrSelf: Access = ({ req: { user } }) => {
+  if (!user) return false
+
+  if (checkRole(['admin'], user)) return true
+
+  return {
+    id: {
+      equals: user.id,
+    },
+  }
+}
@@ -0,0 +1,13 @@
+import type { Access } from 'payload'
+
+export const authenticatedOrApproved: Access = ({ req: { user } }) => {
+  if (user) {
+    return true
+  }
+
+  return {
+    status: {
+      equals: 'approved',
+    },
+  }
+}
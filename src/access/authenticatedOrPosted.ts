@@ -0,0 +1,13 @@
+import type { Access } from 'payload'
+
+export const authenticatedOrPosted: Access = ({ req: { user } }) => {
+  if (user) {
+    return true
+  }
+
+  return {
+    status: {
+      not_equals: 'draft',
+    },
+  }
+}
@@ -0,0 +1,11 @@
+import type { User } from '@/payload-types'
+
+export type Role = NonNullable<User['roles']>[number]
+
+export const ROLES: Role[] = ['admin', 'editor', 'author', 'recruiter']
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role)
+
+// True when the user has at least one of the given roles
+export const checkRole = (roles: Role[], user?: User | null): boolean =>
+  Boolean(user?.roles?.some((role) => roles.includes(role)))
@@ -0,0 +1,36 @@
+import type { Access, Where } from 'payload'
+
+import { checkRole } from './checkRole'
+
+/**
+ * Admins and editors can manage every form submission, recruiters only job applications:
+ * submissions linked to a job or sent through a form with a job select field
+ */
+export const editorsOrApplications: Access = async ({ req }) => {
+  const { payload, user } = req
+
+  if (!user) return false
+
+  if (checkRole(['admin', 'editor'], user)) return true
+
+  if (!checkRole(['recruiter'], user)) return false
+
+  const { docs: applicationForms } = await payload.find({
+    collection: 'forms',
+    depth: 0,
+    pagination: false,
+    req,
+    where: {
+      'fields.blockType': {
+        equals: 'jobSelect',
+      },
+    },
+  })
+
+  const applications: Where[] = [{ job: { exists: true } }]
+  if (applicationForms.length > 0) {
+    applications.push({ form: { in: applicationForms.map(({ id }) => id) } })
+  }
+
+  return { or: applications }
+}
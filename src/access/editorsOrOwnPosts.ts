@@ -0,0 +1,20 @@
+import type { Access } from 'payload'
+
+import { checkRole } from './checkRole'
+
+// Admins and editors can manage every post, authors only the posts they are credited on
+export const editorsOrOwnPosts: Access = ({ req: { user } }) => {
+  if (!user) return false
+
+  if (checkRole(['admin', 'editor'], user)) return true
+
+  if (checkRole(['author'], user)) {
+    return {
+      authors: {
+        in: [user.id],
+      },
+    }
+  }
+
+  return false
+}
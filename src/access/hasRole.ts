@@ -0,0 +1,16 @@
+import type { AccessArgs } from 'payload'
+
+import type { User } from '@/payload-types'
+
+import { checkRole, type Role } from './checkRole'
+
+type hasRole = (args: Pick<AccessArgs<User>, 'req'>) => boolean
+
+/**
+ * Grants access to users with any of the given roles. Works for both collection
+ * and field-level access, e.g. `update: hasRole('admin', 'editor')`
+ */
+export const hasRole =
+  (...roles: Role[]): hasRole =>
+  ({ req: { user } }) =>
+    checkRole(roles, user)
@@ -0,0 +1,99 @@
+import { getServerSideSitemap } from 'next-sitemap'
+import { getPayload } from 'payload'
+import config from '@payload-config'
+import { unstable_cache } from 'next/cache'
+import { notFound } from 'next/navigation'
+
+import { isLocale, localeCodes, localizePath, type Locale } from '@/i18n/config'
+
+// Cached per locale: unstable_cache includes the arguments in its key
+const getPagesSitemap = unstable_cache(
+  async (locale: Locale) => {
+    const payload = await getPayload({ config })
+    const SITE_URL =
+      process.env.NEXT_PUBLIC_SERVER_URL ||
+      process.env.VERCEL_PROJECT_PRODUCTION_URL ||
+      'https://example.com'
+
+    const results = await payload.find({
+      collection: 'pages',
+      overrideAccess: false,
+      draft: false,
+      depth: 0,
+      locale,
+      limit: 1000,
+      pagination: false,
+      where: {
+        _status: {
+          equals: 'published',
+        },
+      },
+      select: {
+        slug: true,
+        updatedAt: true,
+      },
+    })
+
+    const jobs = await payload.find({
+      collection: 'jobs',
+      overrideAccess: false,
+      depth: 0,
+      limit: 1000,
+      pagination: false,
+      where: {
+        status: {
+          equals: 'open',
+        },
+      },
+      select: {
+        slug: true,
+        updatedAt: true,
+      },
+    })
+
+    const dateFallback = new Date().toISOString()
+
+    const toEntry = (path: string, lastmod: string) => ({
+      loc: `${SITE_URL}${localizePath(path, locale)}`,
+      lastmod,
+      alternateRefs: localeCodes.map((code) => ({
+        href: `${SITE_URL}${localizePath(path, code)}`,
+        hreflang: code,
+      })),
+    })
+
+    const defaultSitemap = [
+      toEntry('/search', dateFallback),
+      toEntry('/posts', dateFallback),
+      toEntry('/careers', dateFallback),
+    ]
+
+    const sitemap = results.docs
+      ? results.docs
+          .filter((page) => Boolean(page?.slug))
+          .map((page) =>
+            toEntry(page?.slug === 'home' ? '/' : `/${page?.slug}`, page.updatedAt || dateFallback),
+          )
+      : []
+
+    const jobsSitemap = jobs.docs
+      .filter((job) => Boolean(job?.slug))
+      .map((job) => toEntry(`/careers/${job.slug}`, job.updatedAt || dateFallback))
+
+    return [...defaultSitemap, ...sitemap, ...jobsSitemap]
+  },
+  ['pages-sitemap'],
+  {
+    tags: ['pages-sitemap'],
+  },
+)
+
+export async function GET(_request: Request, { params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params
+
+  if (!isLocale(locale)) notFound()
+
+  const sitemap = await getPagesSitemap(locale)
+
+  return getServerSideSitemap(sitemap)
+}
@@ -2,9 +2,13 @@ import { getServerSideSitemap } from 'next-sitemap'
 import { getPayload } from 'payload'
 import config from '@payload-config'
 import { unstable_cache } from 'next/cache'
+import { notFound } from 'next/navigation'
 
+import { isLocale, localeCodes, localizePath, type Locale } from '@/i18n/config'
+
+// Cached per locale: unstable_cache includes the arguments in its key
 const getPostsSitemap = unstable_cache(
-  async () => {
+  async (locale: Locale) => {
     const payload = await getPayload({ config })
     const SITE_URL =
       process.env.NEXT_PUBLIC_SERVER_URL ||
@@ -16,6 +20,7 @@ const getPostsSitemap = unstable_cache(
       overrideAccess: false,
       draft: false,
       depth: 0,
+      locale,
       limit: 1000,
       pagination: false,
       where: {
@@ -35,8 +40,12 @@ const getPostsSitemap = unstable_cache(
       ? results.docs
           .filter((post) => Boolean(post?.slug))
           .map((post) => ({
-            loc: `${SITE_URL}/posts/${post?.slug}`,
+            loc: `${SITE_URL}${localizePath(`/posts/${post?.slug}`, locale)}`,
             lastmod: post.updatedAt || dateFallback,
+            alternateRefs: localeCodes.map((code) => ({
+              href: `${SITE_URL}${localizePath(`/posts/${post?.slug}`, code)}`,
+              hreflang: code,
+            })),
           }))
       : []
 
@@ -48,8 +57,12 @@ const getPostsSitemap = unstable_cache(
   },
 )
 
-export async function GET() {
-  const sitemap = await getPostsSitemap()
+export async function GET(_request: Request, { params }: { params: Promise<{ locale: string }> }) {
+  const { locale } = await params
+
+  if (!isLocale(locale)) notFound()
+
+  const sitemap = await getPostsSitemap(locale)
 
   return getServerSideSitemap(sitemap)
 }
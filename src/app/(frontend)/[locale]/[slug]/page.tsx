@@ -12,6 +12,7 @@ import { RenderHero } from '@/heros/RenderHero'
 import { generateMeta } from '@/utilities/generateMeta'
 import PageClient from './page.client'
 import { LivePreviewListener } from '@/components/LivePreviewListener'
+import { defaultLocale, isLocale, localizePath, type Locale } from '@/i18n/config'
 
 export async function generateStaticParams() {
   const payload = await getPayload({ config: configPromise })
@@ -39,20 +40,23 @@ export async function generateStaticParams() {
 
 type Args = {
   params: Promise<{
+    locale?: string
     slug?: string
   }>
 }
 
 export default async function Page({ params: paramsPromise }: Args) {
   const { isEnabled: draft } = await draftMode()
-  const { slug = 'home' } = await paramsPromise
+  const { locale: localeParam, slug = 'home' } = await paramsPromise
+  const locale = isLocale(localeParam) ? localeParam : defaultLocale
   // Decode to support slugs with special characters
   const decodedSlug = decodeURIComponent(slug)
-  const url = '/' + decodedSlug
+  const url = localizePath('/' + decodedSlug, locale)
   let page: RequiredDataFromCollectionSlug<'pages'> | null
 
   page = await queryPageBySlug({
     slug: decodedSlug,
+    locale,
   })
 
   // Remove this code once your website is seeded
@@ -61,7 +65,7 @@ export default async function Page({ params: paramsPromise }: Args) {
   }
 
   if (!page) {
-    return <PayloadRedirects url={url} />
+    return <PayloadRedirects locale={locale} url={url} />
   }
 
   const { hero, layout } = page
@@ -70,28 +74,34 @@ export default async function Page({ params: paramsPromise }: Args) {
     <article className="pt-16 pb-24">
       <PageClient />
       {/* Allows redirects for valid pages too */}
-      <PayloadRedirects disableNotFound url={url} />
+      <PayloadRedirects disableNotFound locale={locale} url={url} />
 
       {draft && <LivePreviewListener />}
 
-      <RenderHero {...hero} />
-      <RenderBlocks blocks={layout} />
+      <RenderHero {...hero} locale={locale} />
+      <RenderBlocks blocks={layout} locale={locale} />
     </article>
   )
 }
 
 export async function generateMetadata({ params: paramsPromise }: Args): Promise<Metadata> {
-  const { slug = 'home' } = await paramsPromise
+  const { locale: localeParam, slug = 'home' } = await paramsPromise
+  const locale = isLocale(localeParam) ? localeParam : defaultLocale
   // Decode to support slugs with special characters
   const decodedSlug = decodeURIComponent(slug)
   const page = await queryPageBySlug({
     slug: decodedSlug,
+    locale,
   })
 
-  return generateMeta({ doc: page })
+  return generateMeta({
+    doc: page,
+    locale,
+    path: decodedSlug === 'home' ? '/' : `/${decodedSlug}`,
+  })
 }
 
-const queryPageBySlug = cache(async ({ slug }: { slug: string }) => {
+const queryPageBySlug = cache(async ({ slug, locale }: { slug: string; locale: Locale }) => {
   const { isEnabled: draft } = await draftMode()
 
   const payload = await getPayload({ config: configPromise })
@@ -103,8 +113,10 @@ const queryPageBySlug = cache(async ({ slug }: { slug: string }) => {
     pagination: false,
     overrideAccess: draft,
     // Ensure sufficient depth to populate all nested relationships in scroll blocks
-    // (e.g., media icons in scroll items, background media, etc.)
-    depth: 3,
+    // (e.g., media icons in scroll items, background media, etc.), including blocks
+    // placed through a reusable section, which adds one level
+    depth: 4,
+    locale,
     where: {
       slug: {
         equals: slug,
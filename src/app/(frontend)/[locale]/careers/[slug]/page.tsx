@@ -0,0 +1,130 @@
+import type { Metadata } from 'next'
+
+import type { Form as FormType } from '@payloadcms/plugin-form-builder/types'
+
+import { FormBlock } from '@/blocks/Form/Component'
+import RichText from '@/components/RichText'
+import configPromise from '@payload-config'
+import { notFound } from 'next/navigation'
+import { getPayload } from 'payload'
+import React, { cache } from 'react'
+import PageClient from './page.client'
+import { defaultLocale, isLocale, localizePath, type Locale } from '@/i18n/config'
+import { formatJobDetails } from '@/utilities/formatJobDetails'
+import { generateJobPostingSchema } from '@/utilities/generateJobPostingSchema'
+import { getAlternates } from '@/utilities/generateMeta'
+
+export async function generateStaticParams() {
+  const payload = await getPayload({ config: configPromise })
+  const jobs = await payload.find({
+    collection: 'jobs',
+    limit: 1000,
+    overrideAccess: false,
+    pagination: false,
+    select: {
+      slug: true,
+    },
+  })
+
+  return jobs.docs.map(({ slug }) => ({ slug }))
+}
+
+type Args = {
+  params: Promise<{
+    locale?: string
+    slug?: string
+  }>
+}
+
+export default async function Job({ params: paramsPromise }: Args) {
+  const { locale: localeParam, slug = '' } = await paramsPromise
+  const locale = isLocale(localeParam) ? localeParam : defaultLocale
+  // Decode to support slugs with special characters
+  const decodedSlug = decodeURIComponent(slug)
+  const job = await queryJobBySlug({ slug: decodedSlug, locale })
+
+  if (!job) notFound()
+
+  const isOpen = job.status === 'open'
+  const applicationForm = typeof job.applicationForm === 'object' ? job.applicationForm : null
+  const jobPostingSchema = generateJobPostingSchema({
+    job,
+    url: localizePath(`/careers/${job.slug}`, locale),
+  })
+
+  return (
+    <article className="pt-24 pb-24">
+      <PageClient />
+
+      {/* Closed jobs are removed from search engine job listings */}
+      {isOpen && (
+        <script
+          // Escape `<` so description text cannot close the script tag
+          dangerouslySetInnerHTML={{
+            __html: JSON.stringify(jobPostingSchema).replace(/</g, '\\u003c'),
+          }}
+          type="application/ld+json"
+        />
+      )}
+
+      <div className="container mb-12">
+        <div className="prose dark:prose-invert max-w-[48rem] mx-auto">
+          <h1 className="mb-4">{job.title}</h1>
+          <p className="text-muted-foreground">{formatJobDetails(job)}</p>
+        </div>
+      </div>
+
+      <div className="container">
+        <RichText className="max-w-[48rem] mx-auto" data={job.description} enableGutter={false} />
+      </div>
+
+      <div className="mt-16" id="apply">
+        {isOpen && applicationForm && (
+          <FormBlock
+            enableIntro={false}
+            form={applicationForm as unknown as FormType}
+            jobID={String(job.id)}
+          />
+        )}
+        {!isOpen && (
+          <div className="container max-w-[48rem]">
+            <p>This position is no longer accepting applications.</p>
+          </div>
+        )}
+      </div>
+    </article>
+  )
+}
+
+export async function generateMetadata({ params: paramsPromise }: Args): Promise<Metadata> {
+  const { locale: localeParam, slug = '' } = await paramsPromise
+  const locale = isLocale(localeParam) ? localeParam : defaultLocale
+  // Decode to support slugs with special characters
+  const decodedSlug = decodeURIComponent(slug)
+  const job = await queryJobBySlug({ slug: decodedSlug, locale })
+
+  return {
+    alternates: getAlternates(`/careers/${decodedSlug}`, locale),
+    title: job ? `${job.title} | Careers` : 'Careers',
+  }
+}
+
+const queryJobBySlug = cache(async ({ slug, locale }: { slug: string; locale: Locale }) => {
+  const payload = await getPayload({ config: configPromise })
+
+  const result = await payload.find({
+    collection: 'jobs',
+    depth: 1,
+    limit: 1,
+    locale,
+    overrideAccess: false,
+    pagination: false,
+    where: {
+      slug: {
+        equals: slug,
+      },
+    },
+  })
+
+  return result.docs?.[0] || null
+})
@@ -0,0 +1,89 @@
+import type { Metadata } from 'next/types'
+
+import configPromise from '@payload-config'
+import Link from 'next/link'
+import { getPayload } from 'payload'
+import React from 'react'
+import PageClient from './page.client'
+import { defaultLocale, isLocale, localizePath } from '@/i18n/config'
+import { formatJobDetails } from '@/utilities/formatJobDetails'
+import { getAlternates } from '@/utilities/generateMeta'
+
+export const dynamic = 'force-static'
+export const revalidate = 600
+
+type Args = {
+  params: Promise<{
+    locale?: string
+  }>
+}
+
+export default async function Page({ params: paramsPromise }: Args) {
+  const { locale: localeParam } = await paramsPromise
+  const locale = isLocale(localeParam) ? localeParam : defaultLocale
+  const payload = await getPayload({ config: configPromise })
+
+  const jobs = await payload.find({
+    collection: 'jobs',
+    depth: 0,
+    limit: 100,
+    locale,
+    overrideAccess: false,
+    pagination: false,
+    select: {
+      title: true,
+      slug: true,
+      department: true,
+      location: true,
+      employmentType: true,
+      remote: true,
+    },
+    sort: '-datePosted',
+    where: {
+      status: {
+        equals: 'open',
+      },
+    },
+  })
+
+  return (
+    <div className="pt-24 pb-24">
+      <PageClient />
+      <div className="container mb-16">
+        <div className="prose dark:prose-invert max-w-none">
+          <h1>Careers</h1>
+        </div>
+      </div>
+
+      <div className="container">
+        {jobs.docs.length > 0 ? (
+          <ul className="grid gap-4">
+            {jobs.docs.map((job) => (
+              <li key={job.id}>
+                <Link
+                  className="block border border-border rounded-lg bg-card p-6 hover:border-primary"
+                  href={localizePath(`/careers/${job.slug}`, locale)}
+                >
+                  <h2 className="text-xl font-semibold mb-2">{job.title}</h2>
+                  <p className="text-sm text-muted-foreground">{formatJobDetails(job)}</p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p>There are no open positions right now.</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export async function generateMetadata({ params: paramsPromise }: Args): Promise<Metadata> {
+  const { locale: localeParam } = await paramsPromise
+  const locale = isLocale(localeParam) ? localeParam : defaultLocale
+
+  return {
+    alternates: getAlternates('/careers', locale),
+    title: `Careers | Payload Website Template`,
+  }
+}
@@ -7,17 +7,27 @@ import configPromise from '@payload-config'
 import { getPayload } from 'payload'
 import React from 'react'
 import PageClient from './page.client'
+import { defaultLocale, isLocale } from '@/i18n/config'
 
 export const dynamic = 'force-static'
 export const revalidate = 600
 
-export default async function Page() {
+type Args = {
+  params: Promise<{
+    locale?: string
+  }>
+}
+
+export default async function Page({ params: paramsPromise }: Args) {
+  const { locale: localeParam } = await paramsPromise
+  const locale = isLocale(localeParam) ? localeParam : defaultLocale
   const payload = await getPayload({ config: configPromise })
 
   const posts = await payload.find({
     collection: 'posts',
     depth: 1,
     limit: 12,
+    locale,
     overrideAccess: false,
     select: {
       title: true,
@@ -8,17 +8,20 @@ import { getPayload } from 'payload'
 import React from 'react'
 import PageClient from './page.client'
 import { notFound } from 'next/navigation'
+import { defaultLocale, isLocale } from '@/i18n/config'
 
 export const revalidate = 600
 
 type Args = {
   params: Promise<{
+    locale?: string
     pageNumber: string
   }>
 }
 
 export default async function Page({ params: paramsPromise }: Args) {
-  const { pageNumber } = await paramsPromise
+  const { locale: localeParam, pageNumber } = await paramsPromise
+  const locale = isLocale(localeParam) ? localeParam : defaultLocale
   const payload = await getPayload({ config: configPromise })
 
   const sanitizedPageNumber = Number(pageNumber)
@@ -29,6 +32,7 @@ export default async function Page({ params: paramsPromise }: Args) {
     collection: 'posts',
     depth: 1,
     limit: 12,
+    locale,
     page: sanitizedPageNumber,
     overrideAccess: false,
   })
@@ -0,0 +1,90 @@
+import type { Metadata } from 'next'
+
+import configPromise from '@payload-config'
+import { draftMode } from 'next/headers'
+import { notFound } from 'next/navigation'
+import { getPayload } from 'payload'
+import React from 'react'
+
+import { RenderBlocks } from '@/blocks/RenderBlocks'
+import { expandReusableSections } from '@/blocks/ReusableSection/expand'
+import { defaultLocale, isLocale } from '@/i18n/config'
+import { parseProgressPoints } from '@/scroll/progress'
+import { ScrollSnapshot } from '@/scroll/ScrollSnapshot'
+
+type Args = {
+  params: Promise<{
+    locale?: string
+    slug?: string
+  }>
+  searchParams: Promise<{
+    block?: string
+    progress?: string | string[]
+  }>
+}
+
+export const metadata: Metadata = {
+  robots: { follow: false, index: false },
+  title: 'Scroll snapshot',
+}
+
+/**
+ * Renders the scroll blocks of a page frozen at fixed progress points, e.g.
+ * `/en/scroll-snapshot/home?progress=0,0.5,1&block=<block id>`, for admin thumbnails and
+ * deterministic screenshots. Each frame is marked with `data-scroll-snapshot`.
+ */
+export default async function ScrollSnapshotPage({
+  params: paramsPromise,
+  searchParams: searchParamsPromise,
+}: Args) {
+  const { isEnabled: draft } = await draftMode()
+  const { locale: localeParam, slug = 'home' } = await paramsPromise
+  const { block: blockID, progress } = await searchParamsPromise
+  const locale = isLocale(localeParam) ? localeParam : defaultLocale
+  const payload = await getPayload({ config: configPromise })
+
+  const result = await payload.find({
+    collection: 'pages',
+    depth: 4,
+    draft,
+    limit: 1,
+    locale,
+    overrideAccess: draft,
+    pagination: false,
+    where: {
+      slug: {
+        equals: decodeURIComponent(slug),
+      },
+    },
+  })
+
+  const page = result.docs[0]
+  if (!page) notFound()
+
+  const points = parseProgressPoints(progress)
+  const scrollBlocks = expandReusableSections(page.layout).filter(
+    (block) => block.blockType === 'scroll' && (!blockID || block.id === blockID),
+  )
+
+  if (scrollBlocks.length === 0) notFound()
+
+  return (
+    <article className="pt-16 pb-24">
+      {scrollBlocks.map((block) =>
+        points.map((point) => (
+          <section
+            key={`${block.id}-${point}`}
+            data-block-id={block.id}
+            data-progress={point}
+            data-scroll-snapshot
+            className="relative"
+          >
+            <ScrollSnapshot progress={point}>
+              <RenderBlocks blocks={[block]} locale={locale} />
+            </ScrollSnapshot>
+          </section>
+        )),
+      )}
+    </article>
+  )
+}
@@ -7,13 +7,22 @@ import React from 'react'
 import { Search } from '@/search/Component'
 import PageClient from './page.client'
 import { CardPostData } from '@/components/Card'
+import { defaultLocale, isLocale } from '@/i18n/config'
 
 type Args = {
+  params: Promise<{
+    locale?: string
+  }>
   searchParams: Promise<{
     q: string
   }>
 }
-export default async function Page({ searchParams: searchParamsPromise }: Args) {
+export default async function Page({
+  params: paramsPromise,
+  searchParams: searchParamsPromise,
+}: Args) {
+  const { locale: localeParam } = await paramsPromise
+  const locale = isLocale(localeParam) ? localeParam : defaultLocale
   const { q: query } = await searchParamsPromise
   const payload = await getPayload({ config: configPromise })
 
@@ -21,6 +30,7 @@ export default async function Page({ searchParams: searchParamsPromise }: Args)
     collection: 'search',
     depth: 1,
     limit: 12,
+    locale,
     select: {
       title: true,
       slug: true,
@@ -3,13 +3,14 @@ import React from 'react'
 import RichText from '@/components/RichText'
 import AccordionComponent from '@/components/accordion'
 
+import type { Locale } from '@/i18n/config'
 import type { ContentBlock as ContentBlockProps } from '@/payload-types'
 import type { AccordionContent } from '@/components/accordion/config'
 
 import { CMSLink } from '../../components/Link'
 
-export const ContentBlock: React.FC<ContentBlockProps> = (props) => {
-  const { columns } = props
+export const ContentBlock: React.FC<ContentBlockProps & { locale?: Locale }> = (props) => {
+  const { columns, locale } = props
 
   const colsSpanClasses = {
     full: '12',
@@ -55,7 +56,9 @@ export const ContentBlock: React.FC<ContentBlockProps> = (props) => {
                   <RichText data={richText} enableGutter={false} />
                 )}
 
-                {(contentType !== 'accordion' || !contentType) && enableLink && <CMSLink {...link} />}
+                {(contentType !== 'accordion' || !contentType) && enableLink && (
+                  <CMSLink {...link} locale={locale} />
+                )}
               </div>
             )
           })}
@@ -54,6 +54,7 @@ const columnFields: Field[] = [
   {
     name: 'richText',
     type: 'richText',
+    localized: true,
     editor: lexicalEditor({
       features: ({ rootFeatures }) => {
         return [
@@ -124,12 +125,14 @@ const columnFields: Field[] = [
           {
             name: 'title',
             type: 'text',
+            localized: true,
             required: true,
             label: 'Title',
           },
           {
             name: 'content',
             type: 'textarea',
+            localized: true,
             required: true,
             label: 'Content',
           },
@@ -0,0 +1,20 @@
+'use client'
+import Script from 'next/script'
+import React from 'react'
+
+import { getChallengeProvider } from './providers'
+
+// Renders the configured challenge widget, if any. The widget adds its token to the form as a hidden input.
+export const Challenge: React.FC<{ hidden?: boolean }> = ({ hidden }) => {
+  const provider = getChallengeProvider()
+  const siteKey = process.env.NEXT_PUBLIC_FORM_CHALLENGE_SITE_KEY
+
+  if (!provider || !siteKey) return null
+
+  return (
+    <div className="mb-6" hidden={hidden}>
+      <Script async defer src={provider.scriptURL} />
+      <div className={provider.className} data-sitekey={siteKey} />
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+// Challenge widgets that post their token in a hidden input and verify it with a
+// `siteverify` endpoint. Add an entry here to support another provider.
+export type ChallengeProvider = {
+  // Class the provider's script renders its widget into
+  className: string
+  // Name of the hidden input the widget fills with its token
+  responseField: string
+  scriptURL: string
+  verifyURL: string
+}
+
+export const challengeProviders = {
+  hcaptcha: {
+    className: 'h-captcha',
+    responseField: 'h-captcha-response',
+    scriptURL: 'https://js.hcaptcha.com/1/api.js',
+    verifyURL: 'https://api.hcaptcha.com/siteverify',
+  },
+  recaptcha: {
+    className: 'g-recaptcha',
+    responseField: 'g-recaptcha-response',
+    scriptURL: 'https://www.google.com/recaptcha/api.js',
+    verifyURL: 'https://www.google.com/recaptcha/api/siteverify',
+  },
+  turnstile: {
+    className: 'cf-turnstile',
+    responseField: 'cf-turnstile-response',
+    scriptURL: 'https://challenges.cloudflare.com/turnstile/v0/api.js',
+    verifyURL: 'https://challenges.cloudflare.com/turnstile/v0/siteverify',
+  },
+} satisfies Record<string, ChallengeProvider>
+
+export type ChallengeProviderName = keyof typeof challengeProviders
+
+// The provider is optional; forms only show a challenge when one is configured
+export const getChallengeProvider = (
+  name = process.env.NEXT_PUBLIC_FORM_CHALLENGE_PROVIDER,
+): ChallengeProvider | undefined =>
+  name && name in challengeProviders ? challengeProviders[name as ChallengeProviderName] : undefined
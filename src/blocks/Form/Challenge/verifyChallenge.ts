@@ -0,0 +1,26 @@
+import type { ChallengeProvider } from './providers'
+
+export const verifyChallenge = async ({
+  ip,
+  provider,
+  secret,
+  token,
+}: {
+  ip?: string
+  provider: ChallengeProvider
+  secret: string
+  token?: null | string
+}): Promise<boolean> => {
+  if (!token) return false
+
+  const body = new URLSearchParams({ response: token, secret })
+  if (ip) body.set('remoteip', ip)
+
+  try {
+    const res = await fetch(provider.verifyURL, { body, method: 'POST' })
+    const { success } = (await res.json()) as { success?: boolean }
+    return success === true
+  } catch {
+    return false
+  }
+}
@@ -2,13 +2,18 @@
 import type { FormFieldBlock, Form as FormType } from '@payloadcms/plugin-form-builder/types'
 
 import { useRouter } from 'next/navigation'
-import React, { useCallback, useState } from 'react'
-import { useForm, FormProvider } from 'react-hook-form'
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { useForm, FormProvider, type FieldValues } from 'react-hook-form'
 import RichText from '@/components/RichText'
 import { Button } from '@/components/ui/button'
 import type { DefaultTypedEditorState } from '@payloadcms/richtext-lexical'
 
+import { Challenge } from './Challenge'
+import { getChallengeProvider } from './Challenge/providers'
+import { type ConditionalField, getFieldVisibility, splitIntoSteps } from './conditions'
 import { fields } from './fields'
+import { Progress } from './Progress'
+import { FormUploadError, uploadFormFiles } from './Upload/uploadFormFiles'
 import { getClientSideURL } from '@/utilities/getURL'
 
 export type FormBlockType = {
@@ -17,6 +22,8 @@ export type FormBlockType = {
   enableIntro: boolean
   form: FormType
   introContent?: DefaultTypedEditorState
+  // Preselected option for job select fields, e.g. on a job's own page
+  jobID?: string
 }
 
 export const FormBlock: React.FC<
@@ -29,42 +36,116 @@ export const FormBlock: React.FC<
     form: formFromProps,
     form: { id: formID, confirmationMessage, confirmationType, redirect, submitButtonLabel } = {},
     introContent,
+    jobID,
   } = props
 
-  const formMethods = useForm({
+  const formMethods = useForm<FieldValues>({
     defaultValues: formFromProps.fields,
+    // Fields hidden by show-if rules are unmounted, which drops their values and validation
+    shouldUnregister: true,
   })
   const {
     control,
     formState: { errors },
     handleSubmit,
     register,
+    trigger,
+    watch,
   } = formMethods
 
+  const formFields = useMemo(
+    () => (formFromProps.fields || []) as (FormFieldBlock & ConditionalField)[],
+    [formFromProps.fields],
+  )
+  const values = watch()
+  const visibility = getFieldVisibility(formFields, values)
+  // Steps whose fields are all hidden are skipped
+  const steps = splitIntoSteps(formFields).filter(
+    (step, index) => index === 0 || step.fieldIndexes.some((fieldIndex) => visibility[fieldIndex]),
+  )
+  const [stepIndex, setStepIndex] = useState(0)
+  const currentStep = Math.min(stepIndex, steps.length - 1)
+  const isLastStep = currentStep === steps.length - 1
+  const stepHeadingRef = useRef<HTMLParagraphElement>(null)
+  const hasChangedStep = useRef(false)
+
+  // Move focus to the new step so keyboard and screen reader users start at its first field
+  useEffect(() => {
+    if (hasChangedStep.current) stepHeadingRef.current?.focus()
+  }, [currentStep])
+
+  const goToStep = useCallback((index: number) => {
+    hasChangedStep.current = true
+    setStepIndex(index)
+  }, [])
+
+  const handleNext = useCallback(async () => {
+    const stepFieldNames = steps[currentStep].fieldIndexes
+      .filter((fieldIndex) => visibility[fieldIndex])
+      .map((fieldIndex) => formFields[fieldIndex].name)
+      .filter((name): name is string => Boolean(name))
+
+    if (await trigger(stepFieldNames)) goToStep(currentStep + 1)
+  }, [currentStep, formFields, goToStep, steps, trigger, visibility])
+
+  // Spam signals: bots fill in the hidden honeypot input and submit instantly
+  const formRef = useRef<HTMLFormElement>(null)
+  const honeypotRef = useRef<HTMLInputElement>(null)
+  const startedAt = useRef<number>(undefined)
+
+  useEffect(() => {
+    startedAt.current = Date.now()
+  }, [])
+
   const [isLoading, setIsLoading] = useState(false)
   const [hasSubmitted, setHasSubmitted] = useState<boolean>()
   const [error, setError] = useState<{ message: string; status?: string } | undefined>()
   const router = useRouter()
 
   const onSubmit = useCallback(
-    (data: FormFieldBlock[]) => {
+    (data: FieldValues) => {
       let loadingTimerID: ReturnType<typeof setTimeout>
       const submitForm = async () => {
         setError(undefined)
 
-        const dataToSend = Object.entries(data).map(([name, value]) => ({
-          field: name,
-          value,
-        }))
-
         // delay loading indicator by 1s
         loadingTimerID = setTimeout(() => {
           setIsLoading(true)
         }, 1000)
 
         try {
+          const dataToSend = await Promise.all(
+            Object.entries(data).map(async ([name, value]) => ({
+              field: name,
+              // Files are uploaded first and submitted by their upload IDs
+              value:
+                value instanceof FileList
+                  ? await uploadFormFiles({
+                      antiSpam: {
+                        honeypot: honeypotRef.current?.value,
+                        startedAt: startedAt.current,
+                      },
+                      fieldName: name,
+                      files: value,
+                      formID,
+                    })
+                  : value,
+            })),
+          )
+
+          const challengeProvider = getChallengeProvider()
+          const challengeToken =
+            challengeProvider && formRef.current
+              ? new FormData(formRef.current).get(challengeProvider.responseField)
+              : null
+
           const req = await fetch(`${getClientSideURL()}/api/form-submissions`, {
             body: JSON.stringify({
+              antiSpam: {
+                challengeToken: typeof challengeToken === 'string' ? challengeToken : null,
+                honeypot: honeypotRef.current?.value,
+                startedAt: startedAt.current,
+              },
               form: formID,
               submissionData: dataToSend,
             }),
@@ -101,9 +182,10 @@ export const FormBlock: React.FC<
           }
         } catch (err) {
           console.warn(err)
+          clearTimeout(loadingTimerID)
           setIsLoading(false)
           setError({
-            message: 'Something went wrong.',
+            message: err instanceof FormUploadError ? err.message : 'Something went wrong.',
           })
         }
       }
@@ -126,21 +208,42 @@ export const FormBlock: React.FC<
           {isLoading && !hasSubmitted && <p>Loading, please wait...</p>}
           {error && <div>{`${error.status || '500'}: ${error.message || ''}`}</div>}
           {!hasSubmitted && (
-            <form id={formID} onSubmit={handleSubmit(onSubmit)}>
-              <div className="mb-4 last:mb-0">
-                {formFromProps &&
-                  formFromProps.fields &&
-                  formFromProps.fields?.map((field, index) => {
+            <form
+              id={formID}
+              ref={formRef}
+              onSubmit={
+                isLastStep
+                  ? handleSubmit(onSubmit)
+                  : (event) => {
+                      event.preventDefault()
+                      void handleNext()
+                    }
+              }
+            >
+              {steps.length > 1 && (
+                <>
+                  <Progress currentStep={currentStep} steps={steps} />
+                  <p className="sr-only" ref={stepHeadingRef} tabIndex={-1}>
+                    {steps[currentStep].title || `Step ${currentStep + 1} of ${steps.length}`}
+                  </p>
+                </>
+              )}
+              {/* Earlier and later steps stay mounted so their values are kept */}
+              {steps.map((step, index) => (
+                <div className="mb-4 last:mb-0" hidden={index !== currentStep} key={index}>
+                  {step.fieldIndexes.map((fieldIndex) => {
+                    const field = formFields[fieldIndex]
                     // eslint-disable-next-line @typescript-eslint/no-explicit-any
                     const Field: React.FC<any> = fields?.[field.blockType as keyof typeof fields]
-                    if (Field) {
+                    if (Field && visibility[fieldIndex]) {
                       return (
-                        <div className="mb-6 last:mb-0" key={index}>
+                        <div className="mb-6 last:mb-0" key={fieldIndex}>
                           <Field
                             form={formFromProps}
                             {...field}
                             {...formMethods}
                             control={control}
+                            defaultJob={jobID}
                             errors={errors}
                             register={register}
                           />
@@ -149,11 +252,28 @@ export const FormBlock: React.FC<
                     }
                     return null
                   })}
+                </div>
+              ))}
+
+              {/* Not registered with the form, so its value is never part of the submission data */}
+              <div aria-hidden="true" className="absolute -left-[9999px] h-px w-px overflow-hidden">
+                <label>
+                  Leave this field empty
+                  <input autoComplete="off" name="website" ref={honeypotRef} tabIndex={-1} />
+                </label>
               </div>
+              <Challenge hidden={!isLastStep} />
 
-              <Button form={formID} type="submit" variant="default">
-                {submitButtonLabel}
-              </Button>
+              <div className="flex gap-4">
+                {currentStep > 0 && (
+                  <Button onClick={() => goToStep(currentStep - 1)} type="button" variant="outline">
+                    Back
+                  </Button>
+                )}
+                <Button form={formID} type="submit" variant="default">
+                  {isLastStep ? submitButtonLabel : 'Next'}
+                </Button>
+              </div>
             </form>
           )}
         </FormProvider>
@@ -0,0 +1,53 @@
+import type { Block } from 'payload'
+
+// Form builder field listing the open jobs, populated when the form is read
+export const JobSelectField: Block = {
+  slug: 'jobSelect',
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'name',
+          type: 'text',
+          label: 'Name (lowercase, no special characters)',
+          required: true,
+          admin: {
+            width: '50%',
+          },
+        },
+        {
+          name: 'label',
+          type: 'text',
+          label: 'Label',
+          localized: true,
+          admin: {
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'width',
+          type: 'number',
+          label: 'Field Width (percentage)',
+          admin: {
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'required',
+      type: 'checkbox',
+      label: 'Required',
+    },
+  ],
+  labels: {
+    plural: 'Job Select Fields',
+    singular: 'Job Select',
+  },
+}
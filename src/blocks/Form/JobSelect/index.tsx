@@ -0,0 +1,20 @@
+import type { SelectField, SelectFieldOption } from '@payloadcms/plugin-form-builder/types'
+import type { Control, FieldErrorsImpl } from 'react-hook-form'
+
+import React from 'react'
+
+import { Select } from '../Select'
+
+export const JobSelect: React.FC<
+  Omit<SelectField, 'blockType' | 'options'> & {
+    control: Control
+    defaultJob?: string
+    errors: Partial<FieldErrorsImpl>
+    options?: SelectFieldOption[]
+  }
+> = ({ defaultJob, options = [], ...props }) => {
+  // Preselect the job the form is shown for, as long as it is still open
+  const defaultValue = options.some(({ value }) => value === defaultJob) ? defaultJob : undefined
+
+  return <Select {...props} blockType="select" defaultValue={defaultValue} options={options} />
+}
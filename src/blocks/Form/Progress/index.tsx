@@ -0,0 +1,32 @@
+import { cn } from '@/utilities/ui'
+import React from 'react'
+
+import type { FormStep } from '../conditions'
+
+export const Progress: React.FC<{
+  currentStep: number
+  steps: FormStep[]
+}> = ({ currentStep, steps }) => {
+  return (
+    <div className="mb-8">
+      <p className="mb-2 text-sm text-muted-foreground">{`Step ${currentStep + 1} of ${steps.length}`}</p>
+      <div aria-hidden="true" className="h-1 w-full overflow-hidden rounded bg-muted">
+        <div
+          className="h-full bg-primary transition-[width]"
+          style={{ width: `${((currentStep + 1) / steps.length) * 100}%` }}
+        />
+      </div>
+      <ol className="mt-4 flex flex-wrap gap-x-6 gap-y-2 text-sm">
+        {steps.map((step, index) => (
+          <li
+            aria-current={index === currentStep ? 'step' : undefined}
+            className={cn(index === currentStep ? 'font-semibold' : 'text-muted-foreground')}
+            key={index}
+          >
+            {step.title || `Step ${index + 1}`}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
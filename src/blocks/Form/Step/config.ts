@@ -0,0 +1,19 @@
+import type { Block } from 'payload'
+
+// Starts a new step in a multi-step form. Fields below it belong to the step until the next one.
+export const StepField: Block = {
+  slug: 'step',
+  fields: [
+    {
+      name: 'title',
+      type: 'text',
+      label: 'Step Title',
+      localized: true,
+      required: true,
+    },
+  ],
+  labels: {
+    plural: 'Steps',
+    singular: 'Step',
+  },
+}
@@ -0,0 +1,101 @@
+import type { Block } from 'payload'
+
+import { DEFAULT_MAX_FILE_SIZE_MB, uploadMimeTypeOptions } from './validation'
+
+// Form builder field for attaching files, stored in the private `form-uploads` collection
+export const UploadField: Block = {
+  slug: 'upload',
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'name',
+          type: 'text',
+          label: 'Name (lowercase, no special characters)',
+          required: true,
+          admin: {
+            width: '50%',
+          },
+        },
+        {
+          name: 'label',
+          type: 'text',
+          label: 'Label',
+          localized: true,
+          admin: {
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'width',
+          type: 'number',
+          label: 'Field Width (percentage)',
+          admin: {
+            width: '50%',
+          },
+        },
+        {
+          name: 'maxSize',
+          type: 'number',
+          label: 'Max File Size (MB)',
+          defaultValue: DEFAULT_MAX_FILE_SIZE_MB,
+          min: 1,
+          max: 25,
+          required: true,
+          admin: {
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'mimeTypes',
+      type: 'select',
+      label: 'Allowed File Types',
+      defaultValue: ['application/pdf'],
+      hasMany: true,
+      options: uploadMimeTypeOptions,
+      required: true,
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'multiple',
+          type: 'checkbox',
+          label: 'Allow Multiple Files',
+          admin: {
+            width: '50%',
+          },
+        },
+        {
+          name: 'maxFiles',
+          type: 'number',
+          label: 'Max Files',
+          defaultValue: 3,
+          min: 2,
+          max: 10,
+          admin: {
+            condition: (_, siblingData) => Boolean(siblingData?.multiple),
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'required',
+      type: 'checkbox',
+      label: 'Required',
+    },
+  ],
+  labels: {
+    plural: 'Upload Fields',
+    singular: 'Upload',
+  },
+}
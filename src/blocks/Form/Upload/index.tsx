@@ -0,0 +1,76 @@
+import type { FieldErrorsImpl, FieldValues, UseFormRegister } from 'react-hook-form'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import React from 'react'
+
+import { Error } from '../Error'
+import { Width } from '../Width'
+import {
+  checkUploadFiles,
+  DEFAULT_MAX_FILE_SIZE_MB,
+  matchesMimeType,
+  toAcceptAttribute,
+  uploadMimeTypeOptions,
+  type UploadFormField,
+} from './validation'
+
+export const Upload: React.FC<
+  UploadFormField & {
+    errors: Partial<FieldErrorsImpl>
+    register: UseFormRegister<FieldValues>
+  }
+> = ({
+  name,
+  errors,
+  label,
+  maxFiles,
+  maxSize,
+  mimeTypes,
+  multiple,
+  register,
+  required,
+  width,
+}) => {
+  const allowedTypes = uploadMimeTypeOptions
+    .filter(({ value }) => matchesMimeType(value, mimeTypes))
+    .map(({ label }) => label)
+    .join(', ')
+
+  return (
+    <Width width={width || undefined}>
+      <Label htmlFor={name}>
+        {label}
+
+        {required && (
+          <span className="required">
+            * <span className="sr-only">(required)</span>
+          </span>
+        )}
+      </Label>
+      <Input
+        accept={toAcceptAttribute(mimeTypes)}
+        aria-describedby={`${name}-hint`}
+        id={name}
+        multiple={Boolean(multiple)}
+        type="file"
+        {...register(name, {
+          validate: (files?: FileList) =>
+            checkUploadFiles(
+              Array.from(files || []).map((file) => ({
+                mimeType: file.type,
+                name: file.name,
+                size: file.size,
+              })),
+              { maxFiles, maxSize, mimeTypes, multiple, required },
+            ) || true,
+        })}
+      />
+      <p className="mt-2 text-sm text-muted-foreground" id={`${name}-hint`}>
+        {`${allowedTypes}, up to ${maxSize || DEFAULT_MAX_FILE_SIZE_MB} MB`}
+        {multiple && maxFiles ? ` each, ${maxFiles} files max` : ''}
+      </p>
+      {errors[name] && <Error name={name} />}
+    </Width>
+  )
+}
@@ -0,0 +1,46 @@
+import { getClientSideURL } from '@/utilities/getURL'
+
+import type { AntiSpamSignals } from '../spam'
+
+// Thrown with the server's message so it can be shown to the visitor
+export class FormUploadError extends Error {}
+
+/**
+ * Uploads the selected files to the private `form-uploads` collection
+ * and returns their IDs as the comma-separated value for the submission
+ */
+export const uploadFormFiles = async ({
+  antiSpam,
+  fieldName,
+  files,
+  formID,
+}: {
+  // The form's spam signals, checked for every upload
+  antiSpam: Omit<AntiSpamSignals, 'challengeToken'>
+  fieldName: string
+  files: FileList
+  formID?: number | string
+}): Promise<string> => {
+  const ids = await Promise.all(
+    Array.from(files).map(async (file) => {
+      const body = new FormData()
+      body.append('file', file)
+      body.append('_payload', JSON.stringify({ antiSpam, fieldName, form: formID }))
+
+      const req = await fetch(`${getClientSideURL()}/api/form-uploads`, {
+        body,
+        method: 'POST',
+      })
+
+      const res = await req.json()
+
+      if (req.status >= 400) {
+        throw new FormUploadError(res.errors?.[0]?.message || `Could not upload ${file.name}.`)
+      }
+
+      return String(res.doc.id)
+    }),
+  )
+
+  return ids.join(',')
+}
@@ -0,0 +1,79 @@
+import type { Form } from '@/payload-types'
+
+export type UploadFormField = Extract<NonNullable<Form['fields']>[number], { blockType: 'upload' }>
+
+export const DEFAULT_MAX_FILE_SIZE_MB = 5
+
+// Word documents are listed under both their legacy and Office Open XML MIME types
+export const uploadMimeTypeOptions = [
+  {
+    label: 'PDF',
+    value: 'application/pdf',
+  },
+  {
+    label: 'Word (.doc)',
+    value: 'application/msword',
+  },
+  {
+    label: 'Word (.docx)',
+    value: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  },
+  {
+    label: 'Plain Text',
+    value: 'text/plain',
+  },
+  {
+    label: 'Images',
+    value: 'image/*',
+  },
+]
+
+type FileInfo = {
+  mimeType: string
+  name: string
+  size: number
+}
+
+type UploadRules = Pick<UploadFormField, 'maxFiles' | 'maxSize' | 'mimeTypes' | 'multiple'>
+
+export const matchesMimeType = (mimeType: string, allowed: string[]): boolean =>
+  allowed.some((pattern) =>
+    pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : mimeType === pattern,
+  )
+
+// Checks a single file against the field's type and size limits
+export const checkUploadFile = (file: FileInfo, rules: UploadRules): string | undefined => {
+  const maxSize = rules.maxSize || DEFAULT_MAX_FILE_SIZE_MB
+
+  if (!matchesMimeType(file.mimeType, rules.mimeTypes)) {
+    return `${file.name} is not an allowed file type.`
+  }
+
+  if (file.size > maxSize * 1024 * 1024) {
+    return `${file.name} is larger than ${maxSize} MB.`
+  }
+}
+
+// Checks the number of files, then each file, returning the first problem found
+export const checkUploadFiles = (
+  files: FileInfo[],
+  rules: UploadRules & Pick<UploadFormField, 'required'>,
+): string | undefined => {
+  if (files.length === 0) return rules.required ? 'Please attach a file.' : undefined
+
+  const maxFiles = rules.multiple ? rules.maxFiles || 1 : 1
+
+  if (files.length > maxFiles) {
+    return maxFiles === 1
+      ? 'Please attach a single file.'
+      : `Please attach up to ${maxFiles} files.`
+  }
+
+  for (const file of files) {
+    const issue = checkUploadFile(file, rules)
+    if (issue) return issue
+  }
+}
+
+// Comma-separated `accept` attribute for the file input
+export const toAcceptAttribute = (mimeTypes: string[]): string => mimeTypes.join(',')
@@ -0,0 +1,143 @@
+// Show-if rules and steps for form builder fields, shared by `FormBlock` and the submission hooks
+
+export const conditionOperatorOptions = [
+  {
+    label: 'Equals',
+    value: 'equals',
+  },
+  {
+    label: 'Does Not Equal',
+    value: 'notEquals',
+  },
+  {
+    label: 'Is Filled In',
+    value: 'isFilled',
+  },
+  {
+    label: 'Is Empty',
+    value: 'isEmpty',
+  },
+]
+
+export type FieldCondition = {
+  field?: string | null
+  operator?: 'equals' | 'isEmpty' | 'isFilled' | 'notEquals' | null
+  value?: string | null
+}
+
+export type ConditionalField = {
+  blockType: string
+  name?: string | null
+  options?: { label: string; value: string }[] | null
+  showIf?: FieldCondition | null
+  title?: string | null
+}
+
+export type FormStep = {
+  fieldIndexes: number[]
+  title?: string | null
+}
+
+// Text forms of a value, including the label of a selected option so rules can use either
+const toComparableValues = (value: unknown, field?: ConditionalField): string[] => {
+  if (value === undefined || value === null || value === false) return []
+
+  // Unchecked checkboxes are submitted as the text "false"
+  if (field?.blockType === 'checkbox' && String(value) === 'false') return []
+
+  if (typeof FileList !== 'undefined' && value instanceof FileList) {
+    return Array.from(value).map((file) => file.name)
+  }
+
+  const text = String(value).trim()
+
+  if (!text) return []
+
+  const option = field?.options?.find((option) => option.value === text)
+
+  return option ? [text, option.label] : [text]
+}
+
+export const isConditionMet = (
+  condition: FieldCondition,
+  value: unknown,
+  field?: ConditionalField,
+): boolean => {
+  const candidates = toComparableValues(value, field).map((candidate) => candidate.toLowerCase())
+  const target = (condition.value || '').trim().toLowerCase()
+
+  switch (condition.operator) {
+    case 'isEmpty':
+      return candidates.length === 0
+    case 'isFilled':
+      return candidates.length > 0
+    case 'notEquals':
+      return !candidates.includes(target)
+    default:
+      return candidates.includes(target)
+  }
+}
+
+/**
+ * Whether each field is shown for the given values. Fields whose rule depends on a hidden field
+ * are hidden too, so rules can be chained as long as they point at earlier fields.
+ */
+export const getFieldVisibility = (
+  fields: ConditionalField[],
+  values: Record<string, unknown>,
+): boolean[] => {
+  const fieldsByName = new Map(fields.map((field) => [field.name, field]))
+  const hidden = new Set<string>()
+
+  return fields.map((field) => {
+    const condition = field.showIf
+    const controllingField = condition?.field
+
+    const isVisible =
+      !condition ||
+      !controllingField ||
+      (!hidden.has(controllingField) &&
+        isConditionMet(condition, values[controllingField], fieldsByName.get(controllingField)))
+
+    if (!isVisible && field.name) hidden.add(field.name)
+
+    return isVisible
+  })
+}
+
+export const getHiddenFieldNames = (
+  fields: ConditionalField[],
+  values: Record<string, unknown>,
+): Set<string> => {
+  const visibility = getFieldVisibility(fields, values)
+
+  return new Set(
+    fields
+      .filter((field, index) => !visibility[index] && field.name)
+      .map((field) => field.name as string),
+  )
+}
+
+export const toSubmissionValues = (
+  submissionData?: { field: string; value: string }[] | null,
+): Record<string, string> =>
+  Object.fromEntries((submissionData || []).map(({ field, value }) => [field, value]))
+
+// Splits the fields into steps at each step block. Forms without step blocks have a single step.
+export const splitIntoSteps = (fields: ConditionalField[]): FormStep[] => {
+  const steps: FormStep[] = [{ fieldIndexes: [] }]
+
+  fields.forEach((field, index) => {
+    const currentStep = steps[steps.length - 1]
+
+    if (field.blockType !== 'step') {
+      currentStep.fieldIndexes.push(index)
+    } else if (currentStep.fieldIndexes.length === 0) {
+      currentStep.title = field.title
+    } else {
+      steps.push({ fieldIndexes: [], title: field.title })
+    }
+  })
+
+  return steps.filter((step, index) => index === 0 || step.fieldIndexes.length > 0)
+}
@@ -0,0 +1,101 @@
+import type { SerializedEditorState } from '@payloadcms/richtext-lexical/lexical'
+
+import {
+  convertLexicalToHTML,
+  type HTMLConvertersFunction,
+} from '@payloadcms/richtext-lexical/html'
+
+import type { Form } from '@/payload-types'
+
+export type FormEmail = NonNullable<Form['emails']>[number]
+
+export type SubmissionValue = { field: string; value: string }
+
+// A form email with its placeholders filled in, ready to be logged and sent
+export type RenderedFormEmail = {
+  bcc: string
+  cc: string
+  from: string
+  html: string
+  replyTo: string
+  subject: string
+  to: string
+  type: FormEmail['type']
+}
+
+const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const toHTMLTable = (values: SubmissionValue[]) =>
+  `<table border="0" cellpadding="4" cellspacing="0"><tbody>${values
+    .map(
+      ({ field, value }) =>
+        `<tr><td><strong>${escapeHTML(field)}</strong></td><td>${escapeHTML(value)}</td></tr>`,
+    )
+    .join('')}</tbody></table>`
+
+/**
+ * Fills in the placeholders the form builder documents: `{{field}}` with that field's value,
+ * `{{*}}` with every value and `{{*:table}}` with a table of them. Unknown placeholders are
+ * replaced with their name. In HTML, submitted values are escaped.
+ */
+export const replacePlaceholders = (
+  text: string,
+  values: SubmissionValue[],
+  { html = false }: { html?: boolean } = {},
+): string => {
+  const escape = html ? escapeHTML : (value: string) => value
+
+  return text.replace(/\{\{(.+?)\}\}/g, (_, name: string) => {
+    if (name === '*') {
+      return values
+        .map(({ field, value }) => escape(`${field} : ${value}`))
+        .join(html ? ' <br /> ' : ', ')
+    }
+    if (name === '*:table') return html ? toHTMLTable(values) : replacePlaceholders('{{*}}', values)
+
+    const match = values.find(({ field }) => field === name)
+    return match ? escape(match.value) : name
+  })
+}
+
+/**
+ * Renders one of the emails configured on a form for a submission. The email keeps its type,
+ * so deliveries can be logged as notifications or autoresponders.
+ */
+export const renderFormEmail = (
+  email: FormEmail,
+  values: SubmissionValue[],
+  defaultTo: string,
+): RenderedFormEmail => {
+  const fill = (text?: null | string) => (text ? replacePlaceholders(text, values) : '')
+
+  const converters: HTMLConvertersFunction = ({ defaultConverters }) => ({
+    ...defaultConverters,
+    text: (args) => {
+      const { text } = defaultConverters
+      return replacePlaceholders(typeof text === 'function' ? text(args) : args.node.text, values, {
+        html: true,
+      })
+    },
+  })
+
+  const message = email.message
+    ? convertLexicalToHTML({
+        converters,
+        data: email.message as unknown as SerializedEditorState,
+        disableContainer: true,
+      })
+    : ''
+
+  return {
+    bcc: fill(email.bcc),
+    cc: fill(email.cc),
+    from: fill(email.emailFrom),
+    html: `<div>${message}</div>`,
+    replyTo: fill(email.replyTo || email.emailFrom),
+    subject: fill(email.subject),
+    to: fill(email.emailTo || defaultTo),
+    type: email.type,
+  }
+}
@@ -1,21 +1,25 @@
 import { Checkbox } from './Checkbox'
 import { Country } from './Country'
 import { Email } from './Email'
+import { JobSelect } from './JobSelect'
 import { Message } from './Message'
 import { Number } from './Number'
 import { Select } from './Select'
 import { State } from './State'
 import { Text } from './Text'
 import { Textarea } from './Textarea'
+import { Upload } from './Upload'
 
 export const fields = {
   checkbox: Checkbox,
   country: Country,
   email: Email,
+  jobSelect: JobSelect,
   message: Message,
   number: Number,
   select: Select,
   state: State,
   text: Text,
   textarea: Textarea,
+  upload: Upload,
 }
@@ -0,0 +1,33 @@
+import type { CollectionBeforeChangeHook } from 'payload'
+
+import type { FormSubmission } from '@/payload-types'
+
+import { getHiddenFieldNames, toSubmissionValues } from '../conditions'
+
+// Ignores values for fields the form's show-if rules hide, whatever the client sent
+export const dropHiddenFields: CollectionBeforeChangeHook<FormSubmission> = async ({
+  data,
+  operation,
+  req,
+}) => {
+  if (operation !== 'create' || !data.form || !data.submissionData) return data
+
+  const form = await req.payload.findByID({
+    id: typeof data.form === 'object' ? data.form.id : data.form,
+    collection: 'forms',
+    depth: 0,
+    req,
+  })
+
+  const hiddenFields = getHiddenFieldNames(
+    form.fields || [],
+    toSubmissionValues(data.submissionData),
+  )
+
+  if (hiddenFields.size === 0) return data
+
+  return {
+    ...data,
+    submissionData: data.submissionData.filter(({ field }) => !hiddenFields.has(field)),
+  }
+}
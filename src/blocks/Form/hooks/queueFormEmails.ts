@@ -0,0 +1,58 @@
+import type { BeforeEmail } from '@payloadcms/plugin-form-builder/types'
+import type { CollectionAfterChangeHook } from 'payload'
+
+import type { FormSubmission } from '@/payload-types'
+
+import { renderFormEmail } from '../emails'
+
+/**
+ * Renders each email configured on the form, logs it and hands it to the job queue, which sends
+ * and retries it. The emails the plugin rendered are not used because they lose the fields it
+ * doesn't know, such as the email type. Returns no emails so the plugin does not send them itself.
+ */
+export const queueFormEmails: BeforeEmail<FormSubmission> = async (_emails, args) => {
+  // The plugin calls this from its afterChange hook, so the saved submission is available
+  const { doc, req } = args as unknown as Parameters<CollectionAfterChangeHook<FormSubmission>>[0]
+  const { payload } = req
+  const formID = typeof doc.form === 'object' ? doc.form.id : doc.form
+
+  const form = await payload.findByID({
+    id: formID,
+    collection: 'forms',
+    depth: 0,
+    locale: req.locale,
+    req,
+  })
+
+  // Same values and fallback address the plugin renders its emails with
+  const values = [
+    ...(doc.submissionData || []).map(({ field, value }) => ({ field, value })),
+    { field: 'formSubmissionID', value: String(doc.id) },
+  ]
+  const defaultTo = process.env.FORM_NOTIFICATION_EMAIL || payload.email.defaultFromAddress
+
+  await Promise.all(
+    (form.emails || []).map(async (formEmail) => {
+      const email = renderFormEmail(formEmail, values, defaultTo)
+
+      const delivery = await payload.create({
+        collection: 'email-deliveries',
+        data: {
+          ...email,
+          form: formID,
+          status: 'queued',
+          submission: doc.id,
+        },
+        req,
+      })
+
+      await payload.jobs.queue({
+        input: { delivery: delivery.id },
+        req,
+        task: 'sendFormEmail',
+      })
+    }),
+  )
+
+  return []
+}
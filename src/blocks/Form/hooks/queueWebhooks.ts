@@ -0,0 +1,61 @@
+import type { CollectionAfterChangeHook } from 'payload'
+
+import type { FormSubmission } from '@/payload-types'
+
+import { buildWebhookPayload } from '../webhooks'
+
+/**
+ * Logs a delivery for each enabled webhook of the submitted form and queues it, so slow or
+ * failing endpoints never hold up the visitor's submission.
+ */
+export const queueWebhooks: CollectionAfterChangeHook<FormSubmission> = async ({
+  doc,
+  operation,
+  req,
+}) => {
+  if (operation !== 'create') return doc
+
+  const { payload } = req
+  const formID = typeof doc.form === 'object' ? doc.form.id : doc.form
+
+  const form = await payload.findByID({
+    id: formID,
+    collection: 'forms',
+    depth: 0,
+    req,
+  })
+
+  const webhooks = (form.webhooks || []).filter(({ enabled }) => enabled !== false)
+
+  await Promise.all(
+    webhooks.map(async (webhook) => {
+      const body = buildWebhookPayload({
+        form: { id: form.id, title: form.title },
+        mapping: webhook.mapping,
+        submission: { createdAt: doc.createdAt, id: doc.id },
+        submissionData: doc.submissionData || [],
+      })
+
+      const delivery = await payload.create({
+        collection: 'webhook-deliveries',
+        data: {
+          body,
+          form: form.id,
+          status: 'queued',
+          submission: doc.id,
+          url: webhook.url,
+          webhookID: webhook.id,
+        },
+        req,
+      })
+
+      await payload.jobs.queue({
+        input: { delivery: delivery.id },
+        req,
+        task: 'deliverWebhook',
+      })
+    }),
+  )
+
+  return doc
+}
@@ -0,0 +1,93 @@
+import { APIError, type CollectionBeforeChangeHook } from 'payload'
+
+import type { FormSubmission } from '@/payload-types'
+
+import { getChallengeProvider } from '../Challenge/providers'
+import { verifyChallenge } from '../Challenge/verifyChallenge'
+import {
+  type SpamReason,
+  checkSpamSignals,
+  getClientIP,
+  hashIP,
+  RATE_LIMIT_MAX,
+  RATE_LIMIT_WINDOW_MINUTES,
+  spamReasonMessages,
+} from '../spam'
+
+/**
+ * Rejects submissions that fill in the honeypot, arrive too quickly, exceed the per-IP rate
+ * limit or fail the challenge. Rejections are logged for editors to review.
+ */
+export const rejectSpam: CollectionBeforeChangeHook<FormSubmission> = async ({
+  data,
+  operation,
+  req,
+}) => {
+  // Submissions created by the server, such as the seed, are trusted
+  if (operation !== 'create' || req.payloadAPI === 'local') return data
+
+  const { payload } = req
+  const { antiSpam, ...submission } = data
+  const formID = typeof data.form === 'object' ? data.form?.id : data.form
+  const ip = getClientIP(req.headers)
+  const ipHash = ip ? hashIP(ip, payload.secret) : undefined
+
+  const findReason = async (): Promise<SpamReason | undefined> => {
+    const signalReason = checkSpamSignals(antiSpam ?? {})
+    if (signalReason) return signalReason
+
+    if (ipHash && formID) {
+      const since = new Date(Date.now() - RATE_LIMIT_WINDOW_MINUTES * 60 * 1000)
+      const { totalDocs } = await payload.count({
+        collection: 'form-submissions',
+        req,
+        where: {
+          and: [
+            { form: { equals: formID } },
+            { ipHash: { equals: ipHash } },
+            { createdAt: { greater_than: since.toISOString() } },
+          ],
+        },
+      })
+
+      if (totalDocs >= RATE_LIMIT_MAX) return 'rateLimited'
+    }
+
+    const provider = getChallengeProvider()
+    const secret = process.env.FORM_CHALLENGE_SECRET
+
+    if (provider && secret) {
+      const passed = await verifyChallenge({
+        ip,
+        provider,
+        secret,
+        token: antiSpam?.challengeToken,
+      })
+      if (!passed) return 'challengeFailed'
+    }
+
+    return undefined
+  }
+
+  const reason = await findReason()
+
+  if (!reason) return { ...submission, ipHash }
+
+  try {
+    // Logged outside the request's transaction, which is rolled back when the error below is thrown
+    await payload.create({
+      collection: 'rejected-submissions',
+      data: {
+        form: formID,
+        ipHash,
+        reason,
+        submissionData: submission.submissionData,
+        userAgent: req.headers.get('user-agent'),
+      },
+    })
+  } catch (err) {
+    payload.logger.error({ err, msg: 'Could not log a rejected form submission.' })
+  }
+
+  throw new APIError(spamReasonMessages[reason], reason === 'rateLimited' ? 429 : 400)
+}
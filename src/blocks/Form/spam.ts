@@ -0,0 +1,85 @@
+import { createHash } from 'crypto'
+
+// Visitors who submit faster than this are almost certainly bots
+export const MIN_SUBMIT_SECONDS = 3
+
+// Accepted submissions allowed per IP address and form within the window
+export const RATE_LIMIT_MAX = 5
+export const RATE_LIMIT_WINDOW_MINUTES = 10
+
+// Files allowed per IP address and form within the same window, a submission can attach several
+export const UPLOAD_RATE_LIMIT_MAX = 20
+
+export type SpamReason = 'challengeFailed' | 'honeypot' | 'rateLimited' | 'tooFast'
+
+export const spamReasonOptions: { label: string; value: SpamReason }[] = [
+  {
+    label: 'Honeypot filled in',
+    value: 'honeypot',
+  },
+  {
+    label: 'Submitted too fast',
+    value: 'tooFast',
+  },
+  {
+    label: 'Rate limited',
+    value: 'rateLimited',
+  },
+  {
+    label: 'Challenge failed',
+    value: 'challengeFailed',
+  },
+]
+
+export const spamReasonMessages: Record<SpamReason, string> = {
+  challengeFailed: 'Please complete the verification challenge and try again.',
+  honeypot: 'Your submission could not be accepted. Please try again.',
+  rateLimited: 'Too many submissions. Please wait a few minutes and try again.',
+  tooFast: 'Your submission could not be accepted. Please try again.',
+}
+
+// Sent alongside the submission by the form block, never stored
+export type AntiSpamSignals = {
+  challengeToken?: null | string
+  honeypot?: null | string
+  startedAt?: null | number
+}
+
+// Checks the signals that need no lookups: the hidden honeypot input and how long the form was open
+export const checkSpamSignals = (
+  { honeypot, startedAt }: AntiSpamSignals,
+  now = Date.now(),
+): SpamReason | undefined => {
+  if (honeypot) return 'honeypot'
+  if (!startedAt || now - startedAt < MIN_SUBMIT_SECONDS * 1000) return 'tooFast'
+  return undefined
+}
+
+// Proxies in front of the app that append to X-Forwarded-For, 1 for a single load balancer
+const getTrustedProxyHops = (): number => {
+  const hops = Number.parseInt(process.env.TRUSTED_PROXY_HOPS ?? '', 10)
+  return Number.isNaN(hops) || hops < 0 ? 1 : hops
+}
+
+/**
+ * Each proxy appends the address it was connected from to X-Forwarded-For, so only the entries
+ * added by our own proxies can be trusted; anything left of them is whatever the client sent.
+ * The client is the entry added by the outermost trusted proxy, counting from the right.
+ * Without it, the X-Real-IP header set by the proxy is used.
+ */
+export const getClientIP = (
+  headers: Headers,
+  trustedProxyHops = getTrustedProxyHops(),
+): string | undefined => {
+  const forwardedFor = (headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter(Boolean)
+  const clientIP = trustedProxyHops > 0 ? forwardedFor.at(-trustedProxyHops) : undefined
+
+  return clientIP || headers.get('x-real-ip')?.trim() || undefined
+}
+
+// IP addresses are only kept as salted hashes, which is enough to count repeat submissions
+export const hashIP = (ip: string, secret: string): string =>
+  createHash('sha256').update(`${secret}:${ip}`).digest('hex')
@@ -0,0 +1,123 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+export const WEBHOOK_EVENT = 'form.submitted'
+
+// Receivers should reject requests that take longer than this
+export const WEBHOOK_TIMEOUT_MS = 10_000
+
+export type WebhookFieldMapping = {
+  // Form field name
+  field: string
+  // Key the value is sent under, e.g. the CRM's property name
+  key: string
+}
+
+export type WebhookPayload = {
+  data: Record<string, string>
+  event: typeof WEBHOOK_EVENT
+  form: { id: number | string; title: string }
+  submission: { createdAt: string; id: number | string }
+}
+
+/**
+ * Builds the JSON body sent to a webhook. Without a mapping every field is sent under its
+ * own name; with one, only the mapped fields are sent under their new keys.
+ */
+export const buildWebhookPayload = ({
+  form,
+  mapping,
+  submission,
+  submissionData,
+}: {
+  form: WebhookPayload['form']
+  mapping?: null | WebhookFieldMapping[]
+  submission: WebhookPayload['submission']
+  submissionData: { field: string; value: string }[]
+}): WebhookPayload => {
+  const values = new Map(submissionData.map(({ field, value }) => [field, value]))
+
+  const data = mapping?.length
+    ? Object.fromEntries(
+        mapping
+          .filter(({ field }) => values.has(field))
+          .map(({ field, key }) => [key, values.get(field) as string]),
+      )
+    : Object.fromEntries(values)
+
+  return { data, event: WEBHOOK_EVENT, form, submission }
+}
+
+// Receivers recompute this over `${timestamp}.${body}` to check the request came from us
+export const signWebhookBody = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+
+export const verifyWebhookSignature = ({
+  body,
+  secret,
+  signature,
+  timestamp,
+}: {
+  body: string
+  secret: string
+  signature: string
+  timestamp: number
+}): boolean => {
+  const expected = Buffer.from(signWebhookBody(secret, timestamp, body))
+  const received = Buffer.from(signature)
+  return expected.length === received.length && timingSafeEqual(expected, received)
+}
+
+export class WebhookDeliveryError extends Error {
+  status?: number
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'WebhookDeliveryError'
+    this.status = status
+  }
+}
+
+/**
+ * POSTs a signed body to a webhook URL and resolves with the response status.
+ * Non-2xx responses and timeouts throw a `WebhookDeliveryError`.
+ */
+export const sendWebhook = async ({
+  body,
+  secret,
+  url,
+}: {
+  body: string
+  secret?: null | string
+  url: string
+}): Promise<number> => {
+  const timestamp = Math.floor(Date.now() / 1000)
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'E-Voque-Webhooks/1.0',
+    'X-Webhook-Event': WEBHOOK_EVENT,
+    'X-Webhook-Timestamp': String(timestamp),
+  }
+
+  if (secret) headers['X-Webhook-Signature'] = signWebhookBody(secret, timestamp, body)
+
+  let res: Response
+
+  try {
+    res = await fetch(url, {
+      body,
+      headers,
+      method: 'POST',
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    })
+  } catch (err) {
+    throw new WebhookDeliveryError(
+      `Could not reach ${url}: ${err instanceof Error ? err.message : String(err)}`,
+    )
+  }
+
+  if (!res.ok) {
+    throw new WebhookDeliveryError(`${url} responded with ${res.status}`, res.status)
+  }
+
+  return res.status
+}
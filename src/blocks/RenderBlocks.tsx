@@ -1,5 +1,6 @@
 import React, { Fragment } from 'react'
 
+import type { Locale } from '@/i18n/config'
 import type { Page } from '@/payload-types'
 
 import { ArchiveBlock } from '@/blocks/ArchiveBlock/Component'
@@ -7,6 +8,7 @@ import { CallToActionBlock } from '@/blocks/CallToAction/Component'
 import { ContentBlock } from '@/blocks/Content/Component'
 import { FormBlock } from '@/blocks/Form/Component'
 import { MediaBlock } from '@/blocks/MediaBlock/Component'
+import { expandReusableSections } from '@/blocks/ReusableSection/expand'
 import { ScrollBlock } from '@/blocks/ScrollBlock/Component'
 import { TestimonialBlock } from '@/blocks/Testimonial/Component'
 
@@ -20,10 +22,24 @@ const blockComponents = {
   testimonial: TestimonialBlock,
 }
 
+type LayoutBlock = Page['layout'][0]
+
+// Nested blocks of a scroll block are rendered on the server, so the client component only
+// receives the result as children and never their data
+const splitNestedBlocks = (block: LayoutBlock) => {
+  if (block.blockType !== 'scroll') return { blockProps: block, nestedBlocks: undefined }
+
+  const { content: nestedBlocks, ...blockProps } = block
+  return { blockProps, nestedBlocks }
+}
+
 export const RenderBlocks: React.FC<{
-  blocks: Page['layout'][0][]
+  blocks: LayoutBlock[]
+  locale?: Locale
 }> = (props) => {
-  const { blocks } = props
+  const { locale } = props
+  // Reusable sections render the block they hold, as if it were placed on the page
+  const blocks = props.blocks && expandReusableSections(props.blocks)
 
   const hasBlocks = blocks && Array.isArray(blocks) && blocks.length > 0
 
@@ -37,6 +53,8 @@ export const RenderBlocks: React.FC<{
             const Block = blockComponents[blockType]
 
             if (Block) {
+              const { blockProps, nestedBlocks } = splitNestedBlocks(block)
+
               return (
                 <div 
                   className="my-16" 
@@ -48,7 +66,11 @@ export const RenderBlocks: React.FC<{
                   }}
                 >
                   {/* @ts-expect-error there may be some mismatch between the expected types here */}
-                  <Block {...block} disableInnerContainer />
+                  <Block {...blockProps} disableInnerContainer locale={locale}>
+                    {nestedBlocks?.length ? (
+                      <RenderBlocks blocks={nestedBlocks} locale={locale} />
+                    ) : null}
+                  </Block>
                 </div>
               )
             }
@@ -0,0 +1,30 @@
+import type { Block } from 'payload'
+
+export const ReusableSection: Block = {
+  slug: 'reusableSection',
+  interfaceName: 'ReusableSectionBlock',
+  fields: [
+    {
+      name: 'section',
+      type: 'relationship',
+      relationTo: 'sections',
+      required: true,
+      admin: {
+        description: 'Changes to the section appear on every page that uses it.',
+      },
+    },
+    {
+      name: 'detach',
+      type: 'ui',
+      admin: {
+        components: {
+          Field: '@/components/admin/DetachSectionButton',
+        },
+      },
+    },
+  ],
+  labels: {
+    plural: 'Reusable Sections',
+    singular: 'Reusable Section',
+  },
+}
@@ -0,0 +1,13 @@
+import type { Page } from '@/payload-types'
+
+type LayoutBlock = Page['layout'][number]
+
+export type SectionBlock = Exclude<LayoutBlock, { blockType: 'reusableSection' }>
+
+// Replaces each reusable section with the block it holds. Sections that could not be populated are skipped.
+export const expandReusableSections = (blocks: LayoutBlock[]): SectionBlock[] =>
+  blocks.flatMap((block) => {
+    if (block.blockType !== 'reusableSection') return [block]
+
+    return typeof block.section === 'object' && block.section ? (block.section.block ?? []) : []
+  })
@@ -1,41 +1,28 @@
 'use client'
 
 import React, { useMemo, useRef, useEffect, useState } from 'react'
-// ScrollBlock type will be generated by Payload after config is registered
-// Using inline type for now until types are regenerated
-type ScrollBlockType = {
-  variant: 'zoom' | 'text-image-scroll' | 'tabs-scroll' | 'title-scale-scroll' | 'bubble-list-scroll'
-  background?: any
-  richText?: any
-  links?: any[]
-  zoomSettings?: any
-  textImageSettings?: any
-  tabsSettings?: any
-  titleScaleSettings?: any
-  bubbleListSettings?: any
-  settings?: any
-  blockName?: string | null
-  blockType: 'scroll'
-}
+import type { ScrollBlock as ScrollBlockType } from '@/payload-types'
 import { ScrollRenderer } from '@/scroll/variants/registry'
-import { convertScrollBlockToConfig, convertBackground } from './utils'
+import { convertScrollBlockToConfig } from '@/scroll/definitions'
+import { useScrollReducedMotion } from '@/scroll/useScrollReducedMotion'
+import { useScrollSnapshot } from '@/scroll/ScrollSnapshot'
+import { resolveScrollConfig } from '@/scroll/breakpoints'
+import { useScrollBreakpoint } from '@/scroll/useScrollBreakpoint'
+import { convertBackground } from './utils'
 import RichText from '@/components/RichText'
 import { CMSLink } from '@/components/Link'
 import { getMediaUrl } from '@/utilities/getMediaUrl'
 import { Media } from '@/components/Media'
 import type { Media as MediaType } from '@/payload-types'
-// @ts-expect-error - GSAP doesn't have type definitions
-import gsap from 'gsap'
-// @ts-expect-error - GSAP doesn't have type definitions
-import { ScrollTrigger } from 'gsap/ScrollTrigger'
-
-// Register GSAP plugins
-if (typeof window !== 'undefined') {
-  gsap.registerPlugin(ScrollTrigger)
-}
+import type { Locale } from '@/i18n/config'
+import type { ScrollTrigger } from 'gsap/ScrollTrigger'
+import { loadGsap } from '@/scroll/loadGsap'
 
-type Props = ScrollBlockType & {
+// The nested `content` blocks are rendered on the server by RenderBlocks and passed as children
+type Props = Omit<ScrollBlockType, 'content'> & {
+  children?: React.ReactNode
   disableInnerContainer?: boolean
+  locale?: Locale
 }
 
 export const ScrollBlock: React.FC<Props> = (props) => {
@@ -45,14 +32,22 @@ export const ScrollBlock: React.FC<Props> = (props) => {
     richText,
     links,
     blockName,
+    children,
+    locale,
     ...restProps
   } = props
 
   // Convert block data to scroll config
-  const scrollConfig = useMemo(() => {
+  const blockConfig = useMemo(() => {
     return convertScrollBlockToConfig(props)
   }, [props])
 
+  // Apply the responsive overrides for the viewport's breakpoint
+  const breakpoint = useScrollBreakpoint()
+  const scrollConfig = useMemo(() => {
+    return resolveScrollConfig(blockConfig, breakpoint)
+  }, [blockConfig, breakpoint])
+
   // Convert background
   const backgroundData = useMemo(() => {
     return convertBackground(background)
@@ -277,18 +272,15 @@ export const ScrollBlock: React.FC<Props> = (props) => {
   const sectionRef = useRef<HTMLElement>(null)
   const scrollTriggerRef = useRef<ScrollTrigger | null>(null)
   const isZoomVariant = scrollConfig.variant === 'zoom'
+  const shouldReduceMotion = useScrollReducedMotion(scrollConfig)
+  // Set inside a ScrollSnapshot, the block renders frozen at that progress
+  const snapshotProgress = useScrollSnapshot()
 
-  // Set up zoom effect for zoom variant
+  // Set up zoom effect for zoom variant, reduced motion keeps the section static at its natural size
   useEffect(() => {
-    if (!isZoomVariant || !sectionRef.current) return
-
-    const { zoomStart = 1, zoomEnd = 0.9, duration = 300, enableOnMobile = true, reducedMotion = false } =
-      scrollConfig
+    if (!isZoomVariant || !sectionRef.current || shouldReduceMotion) return
 
-    // Check for reduced motion
-    if (reducedMotion || (typeof window !== 'undefined' && window.matchMedia('(prefers-reduced-motion: reduce)').matches)) {
-      return
-    }
+    const { zoomStart = 1, zoomEnd = 0.9, duration = 300, enableOnMobile = true } = scrollConfig
 
     // Check for mobile
     const isMobile = typeof window !== 'undefined' && window.innerWidth <= 768
@@ -297,45 +289,35 @@ export const ScrollBlock: React.FC<Props> = (props) => {
     }
 
     const sectionElement = sectionRef.current
-    const backgroundElement = sectionElement.querySelector('.scroll-background') as HTMLElement
+    let isCancelled = false
+    let cleanup: (() => void) | undefined
 
-    // Set initial scale
-    gsap.set(sectionElement, {
-      scale: zoomStart,
-      transformOrigin: 'center center',
-    })
+    // GSAP is downloaded on demand, only pages with a zoom section need it here
+    loadGsap().then(({ gsap, ScrollTrigger }) => {
+      if (isCancelled) return
+
+      // Looked up on every update, the background is rendered by the variant once it has loaded
+      const getBackgroundElement = () =>
+        sectionElement.querySelector<HTMLElement>('.scroll-background')
 
-    // Set initial border radius
-    if (backgroundElement) {
-      gsap.set(backgroundElement, {
-        borderRadius: '0px',
+      // Set initial scale
+      gsap.set(sectionElement, {
+        scale: zoomStart,
+        transformOrigin: 'center center',
       })
-    }
 
-    // Create scroll-triggered zoom effect
-    const getStartPosition = () => {
-      const promotionHeight =
-        parseFloat(
-          typeof window !== 'undefined'
-            ? getComputedStyle(document.documentElement).getPropertyValue('--promotion-height')
-            : '0'
-        ) || 0
-
-      if (promotionHeight > 0) {
-        return `top top-=${promotionHeight}`
+      // Set initial border radius
+      const backgroundElement = getBackgroundElement()
+      if (backgroundElement) {
+        gsap.set(backgroundElement, {
+          borderRadius: '0px',
+        })
       }
-      return 'top top'
-    }
 
-    scrollTriggerRef.current = ScrollTrigger.create({
-      trigger: sectionElement,
-      start: getStartPosition(),
-      end: `+=${duration}`,
-      scrub: true,
-      onUpdate: (self: ScrollTrigger) => {
-        const progress = self.progress
+      const applyZoom = (progress: number) => {
         const scale = zoomStart + (zoomEnd - zoomStart) * progress
         const borderRadius = 0 + 24 * progress // 0 to 24px
+        const backgroundElement = getBackgroundElement()
 
         gsap.set(sectionElement, { scale })
 
@@ -344,17 +326,62 @@ export const ScrollBlock: React.FC<Props> = (props) => {
             borderRadius: `${borderRadius}px`,
           })
         }
-      },
-      invalidateOnRefresh: true,
+      }
+
+      const resetZoom = () => {
+        // Reset to the static layout, e.g. when reduced motion gets switched on
+        const backgroundElement = getBackgroundElement()
+        gsap.set(sectionElement, { clearProps: 'transform' })
+        if (backgroundElement) {
+          gsap.set(backgroundElement, { clearProps: 'borderRadius' })
+        }
+      }
+
+      // Frozen at a snapshot progress there is no scroll listener
+      if (snapshotProgress !== undefined) {
+        applyZoom(snapshotProgress)
+        cleanup = resetZoom
+        return
+      }
+
+      // Create scroll-triggered zoom effect
+      const getStartPosition = () => {
+        const promotionHeight =
+          parseFloat(
+            typeof window !== 'undefined'
+              ? getComputedStyle(document.documentElement).getPropertyValue('--promotion-height')
+              : '0'
+          ) || 0
+
+        if (promotionHeight > 0) {
+          return `top top-=${promotionHeight}`
+        }
+        return 'top top'
+      }
+
+      scrollTriggerRef.current = ScrollTrigger.create({
+        trigger: sectionElement,
+        start: getStartPosition(),
+        end: `+=${duration}`,
+        scrub: true,
+        onUpdate: (self: ScrollTrigger) => applyZoom(self.progress),
+        invalidateOnRefresh: true,
+      })
+
+      cleanup = () => {
+        if (scrollTriggerRef.current) {
+          scrollTriggerRef.current.kill()
+          scrollTriggerRef.current = null
+        }
+        resetZoom()
+      }
     })
 
     return () => {
-      if (scrollTriggerRef.current) {
-        scrollTriggerRef.current.kill()
-        scrollTriggerRef.current = null
-      }
+      isCancelled = true
+      cleanup?.()
     }
-  }, [scrollConfig, isZoomVariant])
+  }, [scrollConfig, isZoomVariant, shouldReduceMotion, snapshotProgress])
 
   // Section style
   const sectionStyle = useMemo(() => {
@@ -382,7 +409,7 @@ export const ScrollBlock: React.FC<Props> = (props) => {
     return baseStyle
   }, [scrollConfig.variant])
 
-  // Render content (richText + links)
+  // Render content (richText + links, then the nested blocks)
   const content = useMemo(() => {
     return (
       <div className="relative z-10 w-full">
@@ -394,13 +421,14 @@ export const ScrollBlock: React.FC<Props> = (props) => {
         {links && Array.isArray(links) && links.length > 0 && (
           <div className="flex justify-center gap-4 mt-6">
             {links.map((linkItem, index) => (
-              <CMSLink key={index} {...linkItem.link} />
+              <CMSLink key={index} {...linkItem.link} locale={locale} />
             ))}
           </div>
         )}
+        {children}
       </div>
     )
-  }, [richText, links])
+  }, [richText, links, locale, children])
 
   // For zoom variant, wrap in container that allows scaling
   if (isZoomVariant) {
@@ -450,6 +478,7 @@ export const ScrollBlock: React.FC<Props> = (props) => {
             }}
             isEditing={false}
             debugMode={false}
+            progress={snapshotProgress}
           >
             {content}
           </ScrollRenderer>
@@ -497,8 +526,9 @@ export const ScrollBlock: React.FC<Props> = (props) => {
         }
         isEditing={false}
         debugMode={false}
+        progress={snapshotProgress}
       >
-        {shouldRenderContent ? content : null}
+        {shouldRenderContent ? content : children}
       </ScrollRenderer>
     </section>
   )
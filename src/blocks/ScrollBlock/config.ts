@@ -7,162 +7,19 @@ import {
   lexicalEditor,
 } from '@payloadcms/richtext-lexical'
 
+import { CallToAction } from '@/blocks/CallToAction/config'
+import { Content } from '@/blocks/Content/config'
+import { FormBlock } from '@/blocks/Form/config'
+import { MediaBlock } from '@/blocks/MediaBlock/config'
+import { Testimonial } from '@/blocks/Testimonial/config'
 import { linkGroup } from '@/fields/linkGroup'
+import { DEFAULT_SCROLL_VARIANT, scrollVariants } from '@/scroll/definitions'
+import { getScrollTimeline } from '@/scroll/timeline'
+import type { ScrollVariantDefinition } from '@/scroll/types'
 
-// Reusable background configuration fields (for title animation backgrounds)
-const createBackgroundFields = (): Field[] => [
-  {
-    name: 'type',
-    type: 'select',
-    label: 'Background Type',
-    dbName: 'bg_type',
-    defaultValue: 'COLOR',
-    options: [
-      {
-        label: 'Color',
-        value: 'COLOR',
-      },
-      {
-        label: 'Gradient',
-        value: 'GRADIENT',
-      },
-      {
-        label: 'SVG',
-        value: 'SVG',
-      },
-      {
-        label: 'Image',
-        value: 'IMAGE',
-      },
-      {
-        label: 'Video',
-        value: 'VIDEO',
-      },
-    ],
-    required: true,
-  },
-  {
-    name: 'color',
-    type: 'text',
-    label: 'Background Color',
-    defaultValue: '#000000',
-    admin: {
-      condition: (_, siblingData) => siblingData?.type === 'COLOR',
-      description: 'Enter a hex color (e.g., #000000) or CSS color name',
-      components: {
-        Field: {
-          path: '@/components/admin/ColorPicker',
-        },
-      },
-    },
-  },
-  {
-    name: 'gradient',
-    type: 'text',
-    label: 'Gradient',
-    admin: {
-      condition: (_, siblingData) => siblingData?.type === 'GRADIENT',
-      description: 'Enter CSS gradient (e.g., linear-gradient(135deg, #667eea 0%, #764ba2 100%))',
-    },
-  },
-  {
-    name: 'svg',
-    type: 'upload',
-    label: 'SVG File',
-    relationTo: 'media',
-    admin: {
-      condition: (_, siblingData) => siblingData?.type === 'SVG',
-    },
-  },
-  {
-    name: 'image',
-    type: 'upload',
-    label: 'Background Image',
-    relationTo: 'media',
-    admin: {
-      condition: (_, siblingData) => siblingData?.type === 'IMAGE',
-    },
-  },
-  {
-    name: 'video',
-    type: 'upload',
-    label: 'Background Video',
-    relationTo: 'media',
-    admin: {
-      condition: (_, siblingData) => siblingData?.type === 'VIDEO',
-    },
-  },
-  {
-    name: 'size',
-    type: 'select',
-    label: 'Background Size',
-    dbName: 'bg_size',
-    defaultValue: 'cover',
-    options: [
-      {
-        label: 'Cover',
-        value: 'cover',
-      },
-      {
-        label: 'Contain',
-        value: 'contain',
-      },
-      {
-        label: 'Auto',
-        value: 'auto',
-      },
-    ],
-    admin: {
-      condition: (_, siblingData) =>
-        ['IMAGE', 'SVG', 'VIDEO'].includes(siblingData?.type),
-    },
-  },
-  {
-    name: 'position',
-    type: 'select',
-    label: 'Background Position',
-    dbName: 'bg_pos',
-    defaultValue: 'center',
-    options: [
-      {
-        label: 'Center',
-        value: 'center',
-      },
-      {
-        label: 'Top',
-        value: 'top',
-      },
-      {
-        label: 'Bottom',
-        value: 'bottom',
-      },
-      {
-        label: 'Left',
-        value: 'left',
-      },
-      {
-        label: 'Right',
-        value: 'right',
-      },
-    ],
-    admin: {
-      condition: (_, siblingData) =>
-        ['IMAGE', 'SVG', 'VIDEO'].includes(siblingData?.type),
-    },
-  },
-  {
-    name: 'opacity',
-    type: 'number',
-    label: 'Opacity',
-    defaultValue: 1,
-    min: 0,
-    max: 1,
-    admin: {
-      condition: (_, siblingData) => siblingData?.type !== 'none',
-      step: 0.1,
-    },
-  },
-]
+import { responsiveOverridesField } from './fields'
+import { validateBackgroundMedia, validateGradient } from './validate'
+import { scrollVariantFields } from './variants'
 
 // Background configuration fields
 const backgroundFields: Field[] = [
@@ -212,6 +69,7 @@ const backgroundFields: Field[] = [
     name: 'gradient',
     type: 'text',
     label: 'Gradient',
+    validate: validateGradient,
     admin: {
       condition: (_, siblingData) => siblingData?.type === 'GRADIENT',
       description: 'Enter CSS gradient (e.g., linear-gradient(135deg, #667eea 0%, #764ba2 100%))',
@@ -222,6 +80,7 @@ const backgroundFields: Field[] = [
     type: 'upload',
     label: 'Background Image',
     relationTo: 'media',
+    validate: validateBackgroundMedia('image'),
     admin: {
       condition: (_, siblingData) => siblingData?.type === 'IMAGE',
     },
@@ -231,6 +90,7 @@ const backgroundFields: Field[] = [
     type: 'upload',
     label: 'Background Video',
     relationTo: 'media',
+    validate: validateBackgroundMedia('video'),
     admin: {
       condition: (_, siblingData) => siblingData?.type === 'VIDEO',
     },
@@ -342,314 +202,28 @@ const backgroundFields: Field[] = [
   },
 ]
 
-// Scroll item fields (for text-image-scroll, tabs-scroll, bubble-list-scroll)
-const scrollItemFields: Field[] = [
-  {
-    name: 'title',
-    type: 'text',
-    label: 'Title',
-    required: true,
-  },
-  {
-    name: 'description',
-    type: 'textarea',
-    label: 'Description',
-    required: true,
-  },
-  {
-    name: 'icon',
-    type: 'upload',
-    label: 'Icon/Image',
-    relationTo: 'media',
-  },
-  {
-    name: 'enableCTA',
-    type: 'checkbox',
-    label: 'Enable CTA Button',
-  },
-  {
-    name: 'cta',
-    type: 'group',
-    label: 'CTA Button',
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enableCTA),
-    },
-    fields: [
-      {
-        name: 'text',
-        type: 'text',
-        label: 'Button Text',
-        admin: {
-          description: 'Required when CTA is enabled',
-        },
-      },
-      {
-        name: 'href',
-        type: 'text',
-        label: 'URL',
-        admin: {
-          description: 'Required when CTA is enabled',
-        },
-      },
-      {
-        name: 'variant',
-        type: 'select',
-        label: 'Button Variant',
-        dbName: 'btnVariant',
-        defaultValue: 'primary',
-        options: [
-          { label: 'Primary', value: 'primary' },
-          { label: 'Secondary', value: 'secondary' },
-          { label: 'Outline', value: 'outline' },
-          { label: 'Ghost', value: 'ghost' },
-        ],
-      },
-      {
-        name: 'size',
-        type: 'select',
-        label: 'Button Size',
-        dbName: 'btnSize',
-        defaultValue: 'md',
-        options: [
-          { label: 'Small', value: 'sm' },
-          { label: 'Medium', value: 'md' },
-          { label: 'Large', value: 'lg' },
-        ],
-      },
-    ],
-  },
-]
-
-// Landing zone fields (for tabs-scroll, title-scale-scroll)
-const landingZoneFields: Field[] = [
-  {
-    name: 'enabled',
-    type: 'checkbox',
-    label: 'Enable Landing Zone',
-    defaultValue: false,
-  },
-  {
-    name: 'height',
-    type: 'number',
-    label: 'Height (vh)',
-    defaultValue: 20,
-    min: 0,
-    max: 100,
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-    },
-  },
-  {
-    name: 'backgroundColor',
-    type: 'text',
-    label: 'Background Color',
-    defaultValue: 'transparent',
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-    },
-  },
-  {
-    name: 'showTitle',
-    type: 'checkbox',
-    label: 'Show Title',
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-    },
-  },
-  {
-    name: 'titleText',
-    type: 'text',
-    label: 'Title Text',
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled && siblingData?.showTitle),
-    },
-  },
-  {
-    name: 'titleColor',
-    type: 'text',
-    label: 'Title Color',
-    defaultValue: '#0A1F44',
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled && siblingData?.showTitle),
-    },
-  },
-  {
-    name: 'alignment',
-    type: 'select',
-    label: 'Alignment',
-    dbName: 'align',
-    defaultValue: 'center',
-    options: [
-      { label: 'Left', value: 'left' },
-      { label: 'Center', value: 'center' },
-      { label: 'Right', value: 'right' },
-    ],
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-    },
-  },
-  {
-    name: 'padding',
-    type: 'group',
-    label: 'Padding',
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-    },
-    fields: [
-      {
-        name: 'top',
-        type: 'number',
-        label: 'Top',
-        defaultValue: 2,
-      },
-      {
-        name: 'bottom',
-        type: 'number',
-        label: 'Bottom',
-        defaultValue: 2,
-      },
-      {
-        name: 'left',
-        type: 'number',
-        label: 'Left',
-        defaultValue: 4,
-      },
-      {
-        name: 'right',
-        type: 'number',
-        label: 'Right',
-        defaultValue: 4,
-      },
-    ],
-  },
-]
+// Settings group for a registered scroll variant, with its responsive overrides last
+const variantSettingsField = ({
+  slug,
+  settingsGroup,
+  responsiveFields,
+}: ScrollVariantDefinition): Field => {
+  const fields = scrollVariantFields[slug]
 
-// Title animation fields (for title-scale-scroll)
-const titleAnimationFields: Field[] = [
-  {
-    name: 'enabled',
-    type: 'checkbox',
-    label: 'Enable Title Animation',
-    defaultValue: true,
-  },
-  {
-    name: 'variant',
-    type: 'select',
-    label: 'Animation Variant',
-    dbName: 'animVariant',
-    defaultValue: 'scale-down',
-    options: [
-      { label: 'Scale Down', value: 'scale-down' },
-      { label: 'Simple Fade', value: 'simple-fade' },
-    ],
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-    },
-  },
-  {
-    name: 'pinPosition',
-    type: 'text',
-    label: 'Pin Position',
-    defaultValue: '120vh',
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-      description: 'Position where title lands (e.g., 120vh)',
-    },
-  },
-  {
-    name: 'initialBackground',
-    type: 'group',
-    label: 'Initial Background',
-    // @ts-expect-error - dbName on groups works at runtime, but TS types don't include it
-    dbName: 'initBg',
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-    },
-    fields: createBackgroundFields(),
-  },
-  {
-    name: 'finalBackground',
+  return {
+    name: settingsGroup.name,
     type: 'group',
-    label: 'Final Background',
+    label: settingsGroup.label,
     // @ts-expect-error - dbName on groups works at runtime, but TS types don't include it
-    dbName: 'finalBg',
+    dbName: settingsGroup.dbName,
     admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+      condition: (_, siblingData) => siblingData?.variant === slug,
     },
-    fields: createBackgroundFields(),
-  },
-  {
-    name: 'overlayOpacity',
-    type: 'number',
-    label: 'Overlay Opacity',
-    defaultValue: 0.04,
-    min: 0,
-    max: 1,
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-      step: 0.01,
-    },
-  },
-  {
-    name: 'textColor',
-    type: 'text',
-    label: 'Initial Text Color',
-    defaultValue: '#FFFFFF',
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-    },
-  },
-  {
-    name: 'darkTextColor',
-    type: 'text',
-    label: 'Final Text Color',
-    defaultValue: '#0A1F44',
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-    },
-  },
-  {
-    name: 'initialScale',
-    type: 'number',
-    label: 'Initial Scale',
-    defaultValue: 1.8,
-    min: 0.5,
-    max: 3,
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-      step: 0.1,
-    },
-  },
-  {
-    name: 'pinnedY',
-    type: 'text',
-    label: 'Pinned Y Position',
-    defaultValue: '42vw',
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-    },
-  },
-  {
-    name: 'exitY',
-    type: 'text',
-    label: 'Exit Y Position',
-    defaultValue: '50vh',
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-    },
-  },
-  {
-    name: 'containerHeight',
-    type: 'number',
-    label: 'Container Height (vh)',
-    defaultValue: 150,
-    min: 50,
-    max: 500,
-    admin: {
-      condition: (_, siblingData) => Boolean(siblingData?.enabled),
-    },
-  },
-]
+    fields: responsiveFields
+      ? [...fields, responsiveOverridesField(fields, responsiveFields)]
+      : fields,
+  }
+}
 
 export const ScrollBlock: Block = {
   slug: 'scroll',
@@ -659,269 +233,26 @@ export const ScrollBlock: Block = {
       name: 'variant',
       type: 'select',
       label: 'Scroll Variant',
-      defaultValue: 'zoom',
+      defaultValue: DEFAULT_SCROLL_VARIANT,
       required: true,
-      options: [
-        {
-          label: 'Zoom Effect',
-          value: 'zoom',
-        },
-        {
-          label: 'Text-Image Scroll',
-          value: 'text-image-scroll',
-        },
-        {
-          label: 'Tabs Scroll',
-          value: 'tabs-scroll',
-        },
-        {
-          label: 'Title Scale Scroll',
-          value: 'title-scale-scroll',
-        },
-        {
-          label: 'Bubble List Scroll',
-          value: 'bubble-list-scroll',
-        },
-      ],
-    },
-    // Zoom variant fields
-    {
-      name: 'zoomSettings',
-      type: 'group',
-      label: 'Zoom Settings',
-      admin: {
-        condition: (_, siblingData) => siblingData?.variant === 'zoom',
-      },
-      fields: [
-        {
-          name: 'zoomStart',
-          type: 'number',
-          label: 'Zoom Start (scale)',
-          defaultValue: 1,
-          min: 0.5,
-          max: 3,
-          admin: {
-            step: 0.1,
-          },
-        },
-        {
-          name: 'zoomEnd',
-          type: 'number',
-          label: 'Zoom End (scale)',
-          defaultValue: 0.9,
-          min: 0.5,
-          max: 3,
-          admin: {
-            step: 0.1,
-          },
-        },
-        {
-          name: 'duration',
-          type: 'number',
-          label: 'Duration (pixels)',
-          defaultValue: 300,
-          min: 100,
-          max: 2000,
-        },
-        {
-          name: 'reverseDuration',
-          type: 'number',
-          label: 'Reverse Duration (pixels)',
-          defaultValue: 1000,
-          min: 100,
-          max: 2000,
-        },
-        {
-          name: 'borderRadius',
-          type: 'number',
-          label: 'Border Radius (px)',
-          defaultValue: 0,
-          min: 0,
-          max: 100,
-        },
-        {
-          name: 'smoothness',
-          type: 'number',
-          label: 'Smoothness',
-          defaultValue: 1,
-          min: 0.1,
-          max: 5,
-          admin: {
-            step: 0.1,
-          },
-        },
-      ],
-    },
-    // Text-Image Scroll variant fields
-    {
-      name: 'textImageSettings',
-      type: 'group',
-      label: 'Text-Image Scroll Settings',
-      // @ts-expect-error - dbName on groups works at runtime, but TS types don't include it
-      dbName: 'textImg',
-      admin: {
-        condition: (_, siblingData) => siblingData?.variant === 'text-image-scroll',
-      },
-      fields: [
-        {
-          name: 'items',
-          type: 'array',
-          label: 'Items',
-          fields: scrollItemFields,
-        },
-        {
-          name: 'foundationText',
-          type: 'text',
-          label: 'Foundation Text',
-        },
-        {
-          name: 'foundationTextVariant',
-          type: 'select',
-          label: 'Foundation Text Animation',
-          dbName: 'foundVar',
-          defaultValue: 'random-chars',
-          options: [
-            { label: 'Random Chars', value: 'random-chars' },
-            { label: 'Fade In', value: 'fade-in' },
-            { label: 'Slide Up', value: 'slide-up' },
-            { label: 'Typewriter', value: 'typewriter' },
-          ],
-        },
-        {
-          name: 'duration',
-          type: 'number',
-          label: 'Duration per Item (pixels)',
-          defaultValue: 800,
-          min: 100,
-          max: 2000,
-        },
-      ],
+      options: scrollVariants.map((variant) => ({
+        label: variant.name,
+        value: variant.slug,
+      })),
     },
-    // Tabs Scroll variant fields
+    // Preview and keyframe editor for variants with a timeline (see src/scroll/timeline.ts)
     {
-      name: 'tabsSettings',
-      type: 'group',
-      label: 'Tabs Scroll Settings',
+      name: 'timeline',
+      type: 'ui',
       admin: {
-        condition: (_, siblingData) => siblingData?.variant === 'tabs-scroll',
-      },
-      fields: [
-        {
-          name: 'items',
-          type: 'array',
-          label: 'Items',
-          fields: scrollItemFields,
-        },
-        {
-          name: 'tabClickScrollSpeed',
-          type: 'number',
-          label: 'Tab Click Scroll Speed',
-          defaultValue: 2,
-          min: 0.5,
-          max: 10,
-          admin: {
-            step: 0.5,
-            description: 'Higher = slower, smoother scroll',
-          },
-        },
-        {
-          name: 'imagePosition',
-          type: 'select',
-          label: 'Image Position',
-          defaultValue: 'left',
-          options: [
-            { label: 'Left', value: 'left' },
-            { label: 'Right', value: 'right' },
-          ],
-        },
-        {
-          name: 'landingZone',
-          type: 'group',
-          label: 'Landing Zone',
-          // @ts-expect-error - dbName on groups works at runtime, but TS types don't include it
-          dbName: 'landing',
-          fields: landingZoneFields,
+        components: {
+          Field: '@/components/admin/ScrollTimelineEditor',
         },
-        {
-          name: 'duration',
-          type: 'number',
-          label: 'Duration per Item (pixels)',
-          defaultValue: 800,
-          min: 100,
-          max: 2000,
-        },
-      ],
-    },
-    // Title Scale Scroll variant fields
-    {
-      name: 'titleScaleSettings',
-      type: 'group',
-      label: 'Title Scale Scroll Settings',
-      dbName: 'titleScale',
-      admin: {
-        condition: (_, siblingData) => siblingData?.variant === 'title-scale-scroll',
+        condition: (_, siblingData) => Boolean(getScrollTimeline(siblingData?.variant)),
       },
-      fields: [
-        {
-          name: 'title',
-          type: 'text',
-          label: 'Title',
-          defaultValue: 'Our Services',
-        },
-        {
-          name: 'subtitle',
-          type: 'text',
-          label: 'Subtitle',
-          defaultValue: 'We do more than answering your calls',
-        },
-        {
-          name: 'titleAnimation',
-          type: 'group',
-          label: 'Title Animation',
-          // @ts-expect-error - dbName on groups works at runtime, but TS types don't include it
-          dbName: 'titleAnim',
-          fields: titleAnimationFields,
-        },
-        {
-          name: 'landingZone',
-          type: 'group',
-          label: 'Landing Zone',
-          // @ts-expect-error - dbName on groups works at runtime, but TS types don't include it
-          dbName: 'landing',
-          fields: landingZoneFields,
-        },
-      ],
-    },
-    // Bubble List Scroll variant fields
-    {
-      name: 'bubbleListSettings',
-      type: 'group',
-      label: 'Bubble List Scroll Settings',
-      admin: {
-        condition: (_, siblingData) => siblingData?.variant === 'bubble-list-scroll',
-      },
-      fields: [
-        {
-          name: 'items',
-          type: 'array',
-          label: 'Items',
-          fields: scrollItemFields,
-        },
-        {
-          name: 'infinitePhaseText',
-          type: 'text',
-          label: 'Infinite Phase Text',
-        },
-        {
-          name: 'duration',
-          type: 'number',
-          label: 'Duration per Item (pixels)',
-          defaultValue: 800,
-          min: 100,
-          max: 2000,
-        },
-      ],
     },
+    // Variant settings groups, each shown only when its variant is selected
+    ...scrollVariants.map(variantSettingsField),
     // Background configuration
     {
       name: 'background',
@@ -933,6 +264,7 @@ export const ScrollBlock: Block = {
     {
       name: 'richText',
       type: 'richText',
+      localized: true,
       label: 'Content',
       editor: lexicalEditor({
         features: ({ rootFeatures }) => {
@@ -957,6 +289,17 @@ export const ScrollBlock: Block = {
         },
       },
     }),
+    // Nested blocks rendered inside the variant, e.g. a services grid in the light half
+    {
+      name: 'content',
+      type: 'blocks',
+      label: 'Nested Blocks',
+      blocks: [Content, MediaBlock, Testimonial, CallToAction, FormBlock],
+      admin: {
+        description: 'Blocks rendered inside the scroll section, below its own content',
+        initCollapsed: true,
+      },
+    },
     // Common settings
     {
       name: 'settings',
@@ -972,8 +315,12 @@ export const ScrollBlock: Block = {
         {
           name: 'reducedMotion',
           type: 'checkbox',
-          label: 'Respect Reduced Motion',
+          label: 'Always Reduce Motion',
           defaultValue: false,
+          admin: {
+            description:
+              'Visitors whose device asks for reduced motion always see the static layout. Check this to show it to everyone.',
+          },
         },
         {
           name: 'useGPU',
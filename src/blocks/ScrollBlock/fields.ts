@@ -0,0 +1,564 @@
+import type { Field } from 'payload'
+
+import { RESPONSIVE_GROUP, SCROLL_BREAKPOINTS } from '@/scroll/breakpoints'
+import { themeColor } from '@/Theme/tokens'
+
+import {
+  validateBackgroundMedia,
+  validateCSSLength,
+  validateCTAField,
+  validateGradient,
+} from './validate'
+
+// Reusable background configuration fields (for title animation backgrounds)
+export const createBackgroundFields = (): Field[] => [
+  {
+    name: 'type',
+    type: 'select',
+    label: 'Background Type',
+    dbName: 'bg_type',
+    defaultValue: 'COLOR',
+    options: [
+      {
+        label: 'Color',
+        value: 'COLOR',
+      },
+      {
+        label: 'Gradient',
+        value: 'GRADIENT',
+      },
+      {
+        label: 'SVG',
+        value: 'SVG',
+      },
+      {
+        label: 'Image',
+        value: 'IMAGE',
+      },
+      {
+        label: 'Video',
+        value: 'VIDEO',
+      },
+    ],
+    required: true,
+  },
+  {
+    name: 'color',
+    type: 'text',
+    label: 'Background Color',
+    defaultValue: '#000000',
+    admin: {
+      condition: (_, siblingData) => siblingData?.type === 'COLOR',
+      description: 'Enter a hex color (e.g., #000000) or CSS color name',
+      components: {
+        Field: {
+          path: '@/components/admin/ColorPicker',
+        },
+      },
+    },
+  },
+  {
+    name: 'gradient',
+    type: 'text',
+    label: 'Gradient',
+    validate: validateGradient,
+    admin: {
+      condition: (_, siblingData) => siblingData?.type === 'GRADIENT',
+      description: 'Enter CSS gradient (e.g., linear-gradient(135deg, #667eea 0%, #764ba2 100%))',
+    },
+  },
+  {
+    name: 'svg',
+    type: 'upload',
+    label: 'SVG File',
+    relationTo: 'media',
+    validate: validateBackgroundMedia('svg'),
+    admin: {
+      condition: (_, siblingData) => siblingData?.type === 'SVG',
+    },
+  },
+  {
+    name: 'image',
+    type: 'upload',
+    label: 'Background Image',
+    relationTo: 'media',
+    validate: validateBackgroundMedia('image'),
+    admin: {
+      condition: (_, siblingData) => siblingData?.type === 'IMAGE',
+    },
+  },
+  {
+    name: 'video',
+    type: 'upload',
+    label: 'Background Video',
+    relationTo: 'media',
+    validate: validateBackgroundMedia('video'),
+    admin: {
+      condition: (_, siblingData) => siblingData?.type === 'VIDEO',
+    },
+  },
+  {
+    name: 'size',
+    type: 'select',
+    label: 'Background Size',
+    dbName: 'bg_size',
+    defaultValue: 'cover',
+    options: [
+      {
+        label: 'Cover',
+        value: 'cover',
+      },
+      {
+        label: 'Contain',
+        value: 'contain',
+      },
+      {
+        label: 'Auto',
+        value: 'auto',
+      },
+    ],
+    admin: {
+      condition: (_, siblingData) =>
+        ['IMAGE', 'SVG', 'VIDEO'].includes(siblingData?.type),
+    },
+  },
+  {
+    name: 'position',
+    type: 'select',
+    label: 'Background Position',
+    dbName: 'bg_pos',
+    defaultValue: 'center',
+    options: [
+      {
+        label: 'Center',
+        value: 'center',
+      },
+      {
+        label: 'Top',
+        value: 'top',
+      },
+      {
+        label: 'Bottom',
+        value: 'bottom',
+      },
+      {
+        label: 'Left',
+        value: 'left',
+      },
+      {
+        label: 'Right',
+        value: 'right',
+      },
+    ],
+    admin: {
+      condition: (_, siblingData) =>
+        ['IMAGE', 'SVG', 'VIDEO'].includes(siblingData?.type),
+    },
+  },
+  {
+    name: 'opacity',
+    type: 'number',
+    label: 'Opacity',
+    defaultValue: 1,
+    min: 0,
+    max: 1,
+    admin: {
+      condition: (_, siblingData) => siblingData?.type !== 'none',
+      step: 0.1,
+    },
+  },
+]
+
+// Scroll item fields (for text-image-scroll, tabs-scroll, bubble-list-scroll)
+export const scrollItemFields: Field[] = [
+  {
+    name: 'title',
+    type: 'text',
+    localized: true,
+    label: 'Title',
+    required: true,
+  },
+  {
+    name: 'description',
+    type: 'textarea',
+    localized: true,
+    label: 'Description',
+    required: true,
+  },
+  {
+    name: 'icon',
+    type: 'upload',
+    label: 'Icon/Image',
+    relationTo: 'media',
+  },
+  {
+    name: 'enableCTA',
+    type: 'checkbox',
+    label: 'Enable CTA Button',
+  },
+  {
+    name: 'cta',
+    type: 'group',
+    label: 'CTA Button',
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enableCTA),
+    },
+    fields: [
+      {
+        name: 'text',
+        type: 'text',
+        localized: true,
+        label: 'Button Text',
+        validate: validateCTAField('text'),
+        admin: {
+          description: 'Required when CTA is enabled',
+        },
+      },
+      {
+        name: 'href',
+        type: 'text',
+        localized: true,
+        label: 'URL',
+        validate: validateCTAField('href'),
+        admin: {
+          description: 'Required when CTA is enabled',
+        },
+      },
+      {
+        name: 'variant',
+        type: 'select',
+        label: 'Button Variant',
+        dbName: 'btnVariant',
+        defaultValue: 'primary',
+        options: [
+          { label: 'Primary', value: 'primary' },
+          { label: 'Secondary', value: 'secondary' },
+          { label: 'Outline', value: 'outline' },
+          { label: 'Ghost', value: 'ghost' },
+        ],
+      },
+      {
+        name: 'size',
+        type: 'select',
+        label: 'Button Size',
+        dbName: 'btnSize',
+        defaultValue: 'md',
+        options: [
+          { label: 'Small', value: 'sm' },
+          { label: 'Medium', value: 'md' },
+          { label: 'Large', value: 'lg' },
+        ],
+      },
+    ],
+  },
+]
+
+// Landing zone fields (for tabs-scroll, title-scale-scroll)
+export const landingZoneFields: Field[] = [
+  {
+    name: 'enabled',
+    type: 'checkbox',
+    label: 'Enable Landing Zone',
+    defaultValue: false,
+  },
+  {
+    name: 'height',
+    type: 'number',
+    label: 'Height (vh)',
+    defaultValue: 20,
+    min: 0,
+    max: 100,
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+    },
+  },
+  {
+    name: 'backgroundColor',
+    type: 'text',
+    label: 'Background Color',
+    defaultValue: 'transparent',
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+      components: {
+        Field: {
+          path: '@/components/admin/ColorPicker',
+        },
+      },
+    },
+  },
+  {
+    name: 'showTitle',
+    type: 'checkbox',
+    label: 'Show Title',
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+    },
+  },
+  {
+    name: 'titleText',
+    type: 'text',
+    localized: true,
+    label: 'Title Text',
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled && siblingData?.showTitle),
+    },
+  },
+  {
+    name: 'titleColor',
+    type: 'text',
+    label: 'Title Color',
+    defaultValue: themeColor('darkNavy'),
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled && siblingData?.showTitle),
+      components: {
+        Field: {
+          path: '@/components/admin/ColorPicker',
+        },
+      },
+      custom: {
+        contrastWith: { field: 'backgroundColor', label: 'Background Color' },
+      },
+    },
+  },
+  {
+    name: 'alignment',
+    type: 'select',
+    label: 'Alignment',
+    dbName: 'align',
+    defaultValue: 'center',
+    options: [
+      { label: 'Left', value: 'left' },
+      { label: 'Center', value: 'center' },
+      { label: 'Right', value: 'right' },
+    ],
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+    },
+  },
+  {
+    name: 'padding',
+    type: 'group',
+    label: 'Padding',
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+    },
+    fields: [
+      {
+        name: 'top',
+        type: 'number',
+        label: 'Top',
+        defaultValue: 2,
+      },
+      {
+        name: 'bottom',
+        type: 'number',
+        label: 'Bottom',
+        defaultValue: 2,
+      },
+      {
+        name: 'left',
+        type: 'number',
+        label: 'Left',
+        defaultValue: 4,
+      },
+      {
+        name: 'right',
+        type: 'number',
+        label: 'Right',
+        defaultValue: 4,
+      },
+    ],
+  },
+]
+
+// Title animation fields (for title-scale-scroll)
+export const titleAnimationFields: Field[] = [
+  {
+    name: 'enabled',
+    type: 'checkbox',
+    label: 'Enable Title Animation',
+    defaultValue: true,
+  },
+  {
+    name: 'variant',
+    type: 'select',
+    label: 'Animation Variant',
+    dbName: 'animVariant',
+    defaultValue: 'scale-down',
+    options: [
+      { label: 'Scale Down', value: 'scale-down' },
+      { label: 'Simple Fade', value: 'simple-fade' },
+    ],
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+    },
+  },
+  {
+    name: 'pinPosition',
+    type: 'text',
+    label: 'Pin Position',
+    validate: validateCSSLength('Pin Position'),
+    defaultValue: '120vh',
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+      description: 'Position where title lands (e.g., 120vh)',
+    },
+  },
+  {
+    name: 'initialBackground',
+    type: 'group',
+    label: 'Initial Background',
+    // @ts-expect-error - dbName on groups works at runtime, but TS types don't include it
+    dbName: 'initBg',
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+    },
+    fields: createBackgroundFields(),
+  },
+  {
+    name: 'finalBackground',
+    type: 'group',
+    label: 'Final Background',
+    // @ts-expect-error - dbName on groups works at runtime, but TS types don't include it
+    dbName: 'finalBg',
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+    },
+    fields: createBackgroundFields(),
+  },
+  {
+    name: 'overlayOpacity',
+    type: 'number',
+    label: 'Overlay Opacity',
+    defaultValue: 0.04,
+    min: 0,
+    max: 1,
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+      step: 0.01,
+    },
+  },
+  {
+    name: 'textColor',
+    type: 'text',
+    label: 'Initial Text Color',
+    defaultValue: themeColor('white'),
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+      components: {
+        Field: {
+          path: '@/components/admin/ColorPicker',
+        },
+      },
+      custom: {
+        contrastWith: { field: 'initialBackground', label: 'Initial Background' },
+      },
+    },
+  },
+  {
+    name: 'darkTextColor',
+    type: 'text',
+    label: 'Final Text Color',
+    defaultValue: themeColor('darkNavy'),
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+      components: {
+        Field: {
+          path: '@/components/admin/ColorPicker',
+        },
+      },
+      custom: {
+        contrastWith: { field: 'finalBackground', label: 'Final Background' },
+      },
+    },
+  },
+  {
+    name: 'initialScale',
+    type: 'number',
+    label: 'Initial Scale',
+    defaultValue: 1.8,
+    min: 0.5,
+    max: 3,
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+      step: 0.1,
+    },
+  },
+  {
+    name: 'pinnedY',
+    type: 'text',
+    label: 'Pinned Y Position',
+    validate: validateCSSLength('Pinned Y Position'),
+    defaultValue: '42vw',
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+    },
+  },
+  {
+    name: 'exitY',
+    type: 'text',
+    label: 'Exit Y Position',
+    validate: validateCSSLength('Exit Y Position'),
+    defaultValue: '50vh',
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+    },
+  },
+  {
+    name: 'containerHeight',
+    type: 'number',
+    label: 'Container Height (vh)',
+    defaultValue: 150,
+    min: 50,
+    max: 500,
+    admin: {
+      condition: (_, siblingData) => Boolean(siblingData?.enabled),
+    },
+  },
+]
+
+// Copy of a setting for a breakpoint override: no default and always shown, so an empty
+// override falls back to the base setting. Selects get their own short enum name per breakpoint
+const toOverrideField = (field: Field, breakpoint: string): Field => {
+  const overrideField: Record<string, unknown> = {
+    ...field,
+    admin: { ...field.admin, condition: undefined },
+  }
+  delete overrideField.defaultValue
+  delete overrideField.required
+  if (field.type === 'select') overrideField.dbName = `resp_${breakpoint}_${field.name}`
+
+  return overrideField as Field
+}
+
+// The setting at `path`, e.g. `titleAnimation.pinnedY` in the `titleAnimation` group
+const findField = (fields: Field[], path: string): Field | undefined => {
+  const [name, ...rest] = path.split('.')
+  const field = fields.find((candidate) => 'name' in candidate && candidate.name === name)
+
+  if (rest.length === 0 || field?.type !== 'group') return field
+  return findField(field.fields, rest.join('.'))
+}
+
+// Per-breakpoint overrides of a variant's settings, flat groups of the settings at `paths`
+// (see src/scroll/breakpoints.ts)
+export const responsiveOverridesField = (fields: Field[], paths: string[]): Field => ({
+  name: RESPONSIVE_GROUP,
+  type: 'group',
+  label: 'Responsive Overrides',
+  // @ts-expect-error - dbName on groups works at runtime, but TS types don't include it
+  dbName: 'resp',
+  admin: {
+    description:
+      'Optional values per screen size, matching the live preview sizes: mobile up to 767px, tablet 768–1439px and desktop 1440px and up. Empty fields use the settings above.',
+  },
+  fields: SCROLL_BREAKPOINTS.map(({ label, name }) => ({
+    name,
+    type: 'group',
+    label,
+    fields: paths.flatMap((path) => {
+      const field = findField(fields, path)
+      return field ? [toOverrideField(field, name)] : []
+    }),
+  })),
+})
@@ -1,5 +1,6 @@
 import type { ScrollBlock as ScrollBlockType, Media as MediaType } from '@/payload-types'
-import type { ScrollConfig, ScrollItem, LandingZoneConfig, BackgroundConfig } from '@/scroll/types'
+import type { ScrollItem, LandingZoneConfig, BackgroundConfig } from '@/scroll/types'
+import { themeColor } from '@/Theme/tokens'
 
 /**
  * Convert Payload block background to scroll background format
@@ -217,7 +218,7 @@ export function convertLandingZone(
     backgroundColor: landingZone.backgroundColor || 'transparent',
     showTitle: landingZone.showTitle || false,
     titleText: landingZone.titleText || '',
-    titleColor: landingZone.titleColor || '#0A1F44',
+    titleColor: landingZone.titleColor || themeColor('darkNavy'),
     alignment: landingZone.alignment || 'center',
     padding: landingZone.padding
       ? {
@@ -230,169 +231,3 @@ export function convertLandingZone(
     separatorAfter: undefined, // Not in current config, can be added later if needed
   }
 }
-
-/**
- * Convert Payload ScrollBlock to ScrollConfig
- */
-export function convertScrollBlockToConfig(
-  block: Partial<ScrollBlockType> | {
-    variant: 'zoom' | 'text-image-scroll' | 'tabs-scroll' | 'title-scale-scroll' | 'bubble-list-scroll'
-    background?: any
-    richText?: any
-    links?: any[]
-    zoomSettings?: any
-    textImageSettings?: any
-    tabsSettings?: any
-    titleScaleSettings?: any
-    bubbleListSettings?: any
-    settings?: any
-    blockName?: string | null
-    blockType: 'scroll'
-  },
-): ScrollConfig {
-  const variant = block.variant || 'zoom'
-  const settings = block.settings || {}
-  const baseConfig: Partial<ScrollConfig> = {
-    variant: variant as ScrollConfig['variant'],
-    enableOnMobile: settings.enableOnMobile ?? true,
-    reducedMotion: settings.reducedMotion || false,
-    useGPU: settings.useGPU !== false,
-  }
-
-  // Variant-specific configurations
-  switch (variant) {
-    case 'zoom': {
-      const zoomSettings = block.zoomSettings || {}
-      return {
-        ...baseConfig,
-        zoomStart: zoomSettings.zoomStart ?? 1,
-        zoomEnd: zoomSettings.zoomEnd ?? 0.9,
-        duration: zoomSettings.duration ?? 300,
-        reverseDuration: zoomSettings.reverseDuration ?? 1000,
-        borderRadius: zoomSettings.borderRadius ?? 0,
-        smoothness: zoomSettings.smoothness ?? 1,
-      } as ScrollConfig
-    }
-
-    case 'text-image-scroll': {
-      const textImageSettings = block.textImageSettings || {}
-      // Extract title from richText (first heading)
-      let title: string | undefined = undefined
-      if (block.richText?.root?.children) {
-        const firstHeading = block.richText.root.children.find(
-          (child: any) => child.type === 'heading'
-        )
-        if (firstHeading?.children?.[0]?.text) {
-          title = firstHeading.children[0].text
-        }
-      }
-      return {
-        ...baseConfig,
-        items: convertScrollItems(textImageSettings.items),
-        foundationText: textImageSettings.foundationText || undefined,
-        foundationTextVariant: (textImageSettings.foundationTextVariant || 'random-chars') as
-          | 'random-chars'
-          | 'fade-in'
-          | 'slide-up'
-          | 'typewriter',
-        duration: textImageSettings.duration ?? 800,
-        title: title,
-      } as ScrollConfig
-    }
-
-    case 'tabs-scroll': {
-      const tabsSettings = block.tabsSettings || {}
-      return {
-        ...baseConfig,
-        items: convertScrollItems(tabsSettings.items),
-        tabClickScrollSpeed: tabsSettings.tabClickScrollSpeed ?? 2,
-        imagePosition: (tabsSettings.imagePosition || 'left') as 'left' | 'right',
-        landingZone: convertLandingZone(tabsSettings.landingZone),
-        duration: tabsSettings.duration ?? 800,
-      } as ScrollConfig
-    }
-
-    case 'title-scale-scroll': {
-      const titleScaleSettings = block.titleScaleSettings || {}
-      const titleAnimation = titleScaleSettings.titleAnimation || {}
-      
-      // Convert backgrounds - handle both old string format and new structured format
-      let initialBackground: BackgroundConfig | undefined
-      let finalBackground: BackgroundConfig | undefined
-      
-      // Check if backgrounds are in new structured format
-      if (titleAnimation.initialBackground && typeof titleAnimation.initialBackground === 'object') {
-        initialBackground = convertTitleAnimationBackground(titleAnimation.initialBackground)
-      } else if (typeof titleAnimation.initialBackground === 'string') {
-        // Legacy format: assume it's a gradient string
-        initialBackground = {
-          type: 'GRADIENT',
-          gradient: titleAnimation.initialBackground,
-          opacity: 1,
-        }
-      } else {
-        // Default gradient
-        initialBackground = {
-          type: 'GRADIENT',
-          gradient: 'linear-gradient(135deg, #0A1F44 0%, #1a3a6b 50%, #2c5aa0 100%)',
-          opacity: 1,
-        }
-      }
-      
-      if (titleAnimation.finalBackground && typeof titleAnimation.finalBackground === 'object') {
-        finalBackground = convertTitleAnimationBackground(titleAnimation.finalBackground)
-      } else if (typeof titleAnimation.finalBackground === 'string') {
-        // Legacy format: assume it's a gradient string
-        finalBackground = {
-          type: 'GRADIENT',
-          gradient: titleAnimation.finalBackground,
-          opacity: 1,
-        }
-      } else {
-        // Default gradient
-        finalBackground = {
-          type: 'GRADIENT',
-          gradient: 'linear-gradient(to bottom right, #eff6ff, #ffffff)',
-          opacity: 1,
-        }
-      }
-      
-      return {
-        ...baseConfig,
-        title: titleScaleSettings.title || 'Our Services',
-        subtitle: titleScaleSettings.subtitle || 'We do more than answering your calls',
-        showTitle: true,
-        titleAnimation: titleAnimation.enabled
-          ? {
-              enabled: true,
-              variant: (titleAnimation.variant || 'scale-down') as 'scale-down' | 'simple-fade',
-              pinPosition: titleAnimation.pinPosition || '120vh',
-              initialBackground,
-              finalBackground,
-              overlayOpacity: titleAnimation.overlayOpacity ?? 0.04,
-              textColor: titleAnimation.textColor || '#FFFFFF',
-              darkTextColor: titleAnimation.darkTextColor || '#0A1F44',
-              initialScale: titleAnimation.initialScale ?? 1.8,
-              pinnedY: titleAnimation.pinnedY || '42vw',
-              exitY: titleAnimation.exitY || '50vh',
-              containerHeight: titleAnimation.containerHeight ?? 150,
-            }
-          : undefined,
-        landingZone: convertLandingZone(titleScaleSettings.landingZone),
-      } as ScrollConfig
-    }
-
-    case 'bubble-list-scroll': {
-      const bubbleListSettings = block.bubbleListSettings || {}
-      return {
-        ...baseConfig,
-        items: convertScrollItems(bubbleListSettings.items),
-        infinitePhaseText: bubbleListSettings.infinitePhaseText || undefined,
-        duration: bubbleListSettings.duration ?? 800,
-      } as ScrollConfig
-    }
-
-    default:
-      return baseConfig as ScrollConfig
-  }
-}
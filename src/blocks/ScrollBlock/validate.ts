@@ -0,0 +1,69 @@
+import type {
+  ArrayFieldValidation,
+  NumberFieldSingleValidation,
+  TextFieldSingleValidation,
+  UploadFieldSingleValidation,
+} from 'payload'
+import { array, number, text, upload } from 'payload/shared'
+
+import {
+  checkBackgroundMedia,
+  checkCSSLength,
+  checkCTAField,
+  checkGradient,
+  checkItems,
+  checkZoomRange,
+} from '@/scroll/validation'
+
+/**
+ * Payload field validators for the scroll block.
+ *
+ * Each one runs the field type's built-in validation first (required, min/max…) and then the
+ * matching rule from `@/scroll/validation`, so editors get per-field errors in the admin.
+ * Payload skips them for fields hidden by an admin condition and for draft saves.
+ */
+
+export const validateZoomEnd: NumberFieldSingleValidation = (value, options) => {
+  const result = number(value, options)
+  if (result !== true) return result
+  const siblingData = options.siblingData as { zoomStart?: number | null }
+  return checkZoomRange(siblingData?.zoomStart, value) ?? true
+}
+
+export const validateScrollItems: ArrayFieldValidation = (value, options) => {
+  const result = array(value, options)
+  if (result !== true) return result
+  return checkItems(value) ?? true
+}
+
+export const validateCSSLength =
+  (label: string): TextFieldSingleValidation =>
+  (value, options) => {
+    const result = text(value, options)
+    if (result !== true) return result
+    return checkCSSLength(value, label) ?? true
+  }
+
+export const validateGradient: TextFieldSingleValidation = (value, options) => {
+  const result = text(value, options)
+  if (result !== true) return result
+  return checkGradient(value) ?? true
+}
+
+export const validateBackgroundMedia =
+  (field: 'image' | 'video' | 'svg'): UploadFieldSingleValidation =>
+  (value, options) => {
+    const result = upload(value, options)
+    if (result !== true) return result
+    const background = options.siblingData as Parameters<typeof checkBackgroundMedia>[0]
+    return checkBackgroundMedia(background, field) ?? true
+  }
+
+// Only runs while the CTA group is visible, i.e. when `enableCTA` is checked
+export const validateCTAField =
+  (field: 'text' | 'href'): TextFieldSingleValidation =>
+  (value, options) => {
+    const result = text(value, options)
+    if (result !== true) return result
+    return checkCTAField({ enableCTA: true, cta: { [field]: value } }, field) ?? true
+  }
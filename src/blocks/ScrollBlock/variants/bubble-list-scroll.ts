@@ -0,0 +1,28 @@
+import type { Field } from 'payload'
+
+import { scrollItemFields } from '../fields'
+import { validateScrollItems } from '../validate'
+
+export const bubbleListSettingsFields: Field[] = [
+  {
+    name: 'items',
+    type: 'array',
+    label: 'Items',
+    fields: scrollItemFields,
+    validate: validateScrollItems,
+  },
+  {
+    name: 'infinitePhaseText',
+    type: 'text',
+    localized: true,
+    label: 'Infinite Phase Text',
+  },
+  {
+    name: 'duration',
+    type: 'number',
+    label: 'Duration per Item (pixels)',
+    defaultValue: 800,
+    min: 100,
+    max: 2000,
+  },
+]
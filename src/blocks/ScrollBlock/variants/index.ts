@@ -0,0 +1,42 @@
+import type { Field } from 'payload'
+
+import { scrollVariants } from '@/scroll/definitions'
+import type { ScrollVariant, ScrollVariantDefinition } from '@/scroll/types'
+
+import { bubbleListSettingsFields } from './bubble-list-scroll'
+import { tabsSettingsFields } from './tabs-scroll'
+import { textImageSettingsFields } from './text-image-scroll'
+import { titleScaleSettingsFields } from './title-scale-scroll'
+import { zoomSettingsFields } from './zoom'
+
+// Settings fields of each scroll variant. They are kept apart from the variant definitions in
+// src/scroll/definitions, which are also bundled for the browser. Keyed by the generated variant
+// slugs, so a variant whose fields are missing here fails the type-check.
+const fieldsByVariant: Record<ScrollVariant, Field[]> = {
+  'bubble-list-scroll': bubbleListSettingsFields,
+  'tabs-scroll': tabsSettingsFields,
+  'text-image-scroll': textImageSettingsFields,
+  'title-scale-scroll': titleScaleSettingsFields,
+  zoom: zoomSettingsFields,
+}
+
+/**
+ * Pairs every registered variant with its settings fields, keyed by slug. Throws for a
+ * definition without fields, so a variant can't be registered without its settings.
+ */
+export const collectScrollVariantFields = (
+  definitions: ScrollVariantDefinition[],
+): Record<string, Field[]> =>
+  Object.fromEntries(
+    definitions.map(({ slug }) => {
+      const fields = (fieldsByVariant as Record<string, Field[] | undefined>)[slug]
+      if (!fields) {
+        throw new Error(
+          `Scroll variant "${slug}" has no settings fields, add them in src/blocks/ScrollBlock/variants`,
+        )
+      }
+      return [slug, fields]
+    }),
+  )
+
+export const scrollVariantFields = collectScrollVariantFields(scrollVariants)
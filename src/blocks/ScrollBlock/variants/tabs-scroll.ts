@@ -0,0 +1,65 @@
+import type { Field } from 'payload'
+
+import { landingZoneFields, scrollItemFields } from '../fields'
+import { validateScrollItems } from '../validate'
+
+export const tabsSettingsFields: Field[] = [
+  {
+    name: 'items',
+    type: 'array',
+    label: 'Items',
+    fields: scrollItemFields,
+    validate: validateScrollItems,
+  },
+  {
+    name: 'tabClickScrollSpeed',
+    type: 'number',
+    label: 'Tab Click Scroll Speed',
+    defaultValue: 2,
+    min: 0.5,
+    max: 10,
+    admin: {
+      step: 0.5,
+      description: 'Higher = slower, smoother scroll',
+    },
+  },
+  {
+    name: 'imagePosition',
+    type: 'select',
+    label: 'Image Position',
+    defaultValue: 'left',
+    options: [
+      { label: 'Left', value: 'left' },
+      { label: 'Right', value: 'right' },
+    ],
+  },
+  {
+    name: 'itemLayout',
+    type: 'select',
+    label: 'Item Layout',
+    defaultValue: 'split',
+    options: [
+      { label: 'Image beside text', value: 'split' },
+      { label: 'Image above text', value: 'stacked' },
+    ],
+    admin: {
+      description: 'Image beside text applies from tablet width up, phones always stack the card',
+    },
+  },
+  {
+    name: 'landingZone',
+    type: 'group',
+    label: 'Landing Zone',
+    // @ts-expect-error - dbName on groups works at runtime, but TS types don't include it
+    dbName: 'landing',
+    fields: landingZoneFields,
+  },
+  {
+    name: 'duration',
+    type: 'number',
+    label: 'Duration per Item (pixels)',
+    defaultValue: 800,
+    min: 100,
+    max: 2000,
+  },
+]
@@ -0,0 +1,41 @@
+import type { Field } from 'payload'
+
+import { scrollItemFields } from '../fields'
+import { validateScrollItems } from '../validate'
+
+export const textImageSettingsFields: Field[] = [
+  {
+    name: 'items',
+    type: 'array',
+    label: 'Items',
+    fields: scrollItemFields,
+    validate: validateScrollItems,
+  },
+  {
+    name: 'foundationText',
+    type: 'text',
+    localized: true,
+    label: 'Foundation Text',
+  },
+  {
+    name: 'foundationTextVariant',
+    type: 'select',
+    label: 'Foundation Text Animation',
+    dbName: 'foundVar',
+    defaultValue: 'random-chars',
+    options: [
+      { label: 'Random Chars', value: 'random-chars' },
+      { label: 'Fade In', value: 'fade-in' },
+      { label: 'Slide Up', value: 'slide-up' },
+      { label: 'Typewriter', value: 'typewriter' },
+    ],
+  },
+  {
+    name: 'duration',
+    type: 'number',
+    label: 'Duration per Item (pixels)',
+    defaultValue: 800,
+    min: 100,
+    max: 2000,
+  },
+]
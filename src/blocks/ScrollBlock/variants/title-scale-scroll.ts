@@ -0,0 +1,36 @@
+import type { Field } from 'payload'
+
+import { landingZoneFields, titleAnimationFields } from '../fields'
+
+export const titleScaleSettingsFields: Field[] = [
+  {
+    name: 'title',
+    type: 'text',
+    localized: true,
+    label: 'Title',
+    defaultValue: 'Our Services',
+  },
+  {
+    name: 'subtitle',
+    type: 'text',
+    localized: true,
+    label: 'Subtitle',
+    defaultValue: 'We do more than answering your calls',
+  },
+  {
+    name: 'titleAnimation',
+    type: 'group',
+    label: 'Title Animation',
+    // @ts-expect-error - dbName on groups works at runtime, but TS types don't include it
+    dbName: 'titleAnim',
+    fields: titleAnimationFields,
+  },
+  {
+    name: 'landingZone',
+    type: 'group',
+    label: 'Landing Zone',
+    // @ts-expect-error - dbName on groups works at runtime, but TS types don't include it
+    dbName: 'landing',
+    fields: landingZoneFields,
+  },
+]
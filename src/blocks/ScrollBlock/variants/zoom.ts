@@ -0,0 +1,64 @@
+import type { Field } from 'payload'
+
+import { validateZoomEnd } from '../validate'
+
+export const zoomSettingsFields: Field[] = [
+  {
+    name: 'zoomStart',
+    type: 'number',
+    label: 'Zoom Start (scale)',
+    defaultValue: 1,
+    min: 0.5,
+    max: 3,
+    admin: {
+      step: 0.1,
+    },
+  },
+  {
+    name: 'zoomEnd',
+    type: 'number',
+    label: 'Zoom End (scale)',
+    defaultValue: 0.9,
+    min: 0.5,
+    max: 3,
+    validate: validateZoomEnd,
+    admin: {
+      step: 0.1,
+    },
+  },
+  {
+    name: 'duration',
+    type: 'number',
+    label: 'Duration (pixels)',
+    defaultValue: 300,
+    min: 100,
+    max: 2000,
+  },
+  {
+    name: 'reverseDuration',
+    type: 'number',
+    label: 'Reverse Duration (pixels)',
+    defaultValue: 1000,
+    min: 100,
+    max: 2000,
+  },
+  {
+    name: 'borderRadius',
+    type: 'number',
+    label: 'Border Radius (px)',
+    defaultValue: 0,
+    min: 0,
+    max: 100,
+  },
+  {
+    name: 'smoothness',
+    type: 'number',
+    label: 'Smoothness',
+    defaultValue: 1,
+    min: 0.1,
+    max: 5,
+    admin: {
+      step: 0.1,
+    },
+  },
+]
@@ -1,42 +1,66 @@
-'use client'
+import type { Testimonial, TestimonialBlock as TestimonialBlockProps } from '@/payload-types'
 
+import configPromise from '@payload-config'
+import { getPayload } from 'payload'
 import React from 'react'
-import type { TestimonialBlock as TestimonialBlockProps } from '@/payload-types'
+
+import type { Locale } from '@/i18n/config'
+
 import TestimonialShowcaseComponent from './index'
+import {
+  buildTestimonialsWhere,
+  pickApprovedTestimonials,
+  toShowcaseOptions,
+  toShowcaseTestimonial,
+} from './resolve'
+
+export const TestimonialBlock: React.FC<
+  TestimonialBlockProps & {
+    locale?: Locale
+  }
+> = async (props) => {
+  const {
+    variant,
+    headline,
+    description,
+    populateBy,
+    testimonials: selection,
+    industries,
+    limit: limitFromProps,
+    locale,
+    centerCards,
+  } = props
+
+  let testimonials: Testimonial[] = []
 
-export const TestimonialBlock: React.FC<TestimonialBlockProps> = (props) => {
-  const { variant, headline, description, testimonials, centerCards } = props
-
-  // Transform testimonials to match the component's expected format
-  const transformedTestimonials = (testimonials || []).map((testimonial) => {
-    const avatarUrl =
-      typeof testimonial.avatar === 'object' && testimonial.avatar?.url
-        ? testimonial.avatar.url
-        : typeof testimonial.avatar === 'string'
-          ? testimonial.avatar
-          : undefined
-
-    return {
-      quote: testimonial.quote || '',
-      author: testimonial.author || '',
-      title: testimonial.title ?? undefined,
-      company: testimonial.company ?? undefined,
-      avatar: avatarUrl,
-      metric: testimonial.metric ?? undefined,
-      videoUrl: testimonial.videoUrl ?? undefined,
-    }
-  })
+  if (populateBy === 'tag') {
+    const payload = await getPayload({ config: configPromise })
+
+    const fetchedTestimonials = await payload.find({
+      collection: 'testimonials',
+      depth: 1,
+      limit: limitFromProps || 6,
+      locale,
+      sort: '-createdAt',
+      where: buildTestimonialsWhere(industries),
+    })
+
+    testimonials = fetchedTestimonials.docs
+  } else {
+    testimonials = pickApprovedTestimonials(selection)
+  }
 
   return (
     <TestimonialShowcaseComponent
       content={{
-        variant: (variant as 'spotlight' | 'cascade' | 'flow' | 'layered' | 'horizontal') || 'spotlight',
+        variant:
+          (variant as 'spotlight' | 'cascade' | 'flow' | 'layered' | 'horizontal') || 'spotlight',
         headline: headline || '',
         description: description || '',
-        testimonials: transformedTestimonials,
+        testimonials: testimonials.map(toShowcaseTestimonial),
         centerCards: centerCards ?? true,
+        ...toShowcaseOptions(props),
       }}
     />
   )
 }
-
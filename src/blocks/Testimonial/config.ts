@@ -1,4 +1,8 @@
-import type { Block, Field } from 'payload'
+import type { Block } from 'payload'
+
+import { testimonialIndustries } from '@/fields/testimonialIndustries'
+
+import { cardStyleFields } from './fields'
 
 // Original testimonialConfig for the editor and component
 export const testimonialConfig = {
@@ -170,54 +174,6 @@ export const testimonialConfig = {
   availableLayouts: ['split', 'grid', 'carousel', 'layered', 'horizontal-scroll'] as const,
 }
 
-// Testimonial item fields for Payload Block
-const testimonialItemFields: Field[] = [
-  {
-    name: 'quote',
-    type: 'textarea',
-    label: 'Quote',
-    required: true,
-  },
-  {
-    name: 'author',
-    type: 'text',
-    label: 'Author Name',
-    required: true,
-  },
-  {
-    name: 'title',
-    type: 'text',
-    label: 'Title/Position',
-  },
-  {
-    name: 'company',
-    type: 'text',
-    label: 'Company',
-  },
-  {
-    name: 'avatar',
-    type: 'upload',
-    label: 'Avatar Image',
-    relationTo: 'media',
-  },
-  {
-    name: 'metric',
-    type: 'text',
-    label: 'Metric (optional)',
-    admin: {
-      description: 'Optional metric or stat to display',
-    },
-  },
-  {
-    name: 'videoUrl',
-    type: 'text',
-    label: 'Video URL (optional)',
-    admin: {
-      description: 'Optional video URL for modal playback',
-    },
-  },
-]
-
 // Payload Block configuration
 export const Testimonial: Block = {
   slug: 'testimonial',
@@ -254,19 +210,63 @@ export const Testimonial: Block = {
     {
       name: 'headline',
       type: 'text',
+      localized: true,
       label: 'Headline',
     },
     {
       name: 'description',
       type: 'textarea',
+      localized: true,
       label: 'Description',
     },
+    {
+      name: 'populateBy',
+      type: 'select',
+      defaultValue: 'selection',
+      options: [
+        {
+          label: 'Individual Selection',
+          value: 'selection',
+        },
+        {
+          label: 'Industry Tag',
+          value: 'tag',
+        },
+      ],
+    },
     {
       name: 'testimonials',
-      type: 'array',
+      type: 'relationship',
+      admin: {
+        condition: (_, siblingData) => siblingData.populateBy !== 'tag',
+        description: 'Only approved testimonials are shown.',
+      },
+      filterOptions: {
+        status: {
+          not_equals: 'retired',
+        },
+      },
+      hasMany: true,
       label: 'Testimonials',
-      minRows: 1,
-      fields: testimonialItemFields,
+      relationTo: 'testimonials',
+    },
+    {
+      ...testimonialIndustries,
+      admin: {
+        condition: (_, siblingData) => siblingData.populateBy === 'tag',
+        description: 'Leave empty to show the latest approved testimonials.',
+      },
+      label: 'Industries To Show',
+    },
+    {
+      name: 'limit',
+      type: 'number',
+      admin: {
+        condition: (_, siblingData) => siblingData.populateBy === 'tag',
+        step: 1,
+      },
+      defaultValue: 6,
+      label: 'Limit',
     },
     {
       name: 'centerCards',
@@ -278,6 +278,7 @@ export const Testimonial: Block = {
         condition: (_, siblingData) => siblingData.variant === 'horizontal',
       },
     },
+    ...cardStyleFields,
   ],
   labels: {
     plural: 'Testimonials',
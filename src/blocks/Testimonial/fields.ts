@@ -0,0 +1,369 @@
+import type { Field, SelectField } from 'payload'
+
+import { validateBackgroundMedia, validateGradient } from '@/blocks/ScrollBlock/validate'
+
+import { validateCardOverlap } from './validate'
+
+const alignOptions = [
+  {
+    label: 'Left',
+    value: 'left',
+  },
+  {
+    label: 'Center',
+    value: 'center',
+  },
+  {
+    label: 'Right',
+    value: 'right',
+  },
+]
+
+const fontSizeLabels: Record<string, string> = {
+  xs: 'Extra Small',
+  sm: 'Small',
+  base: 'Base',
+  lg: 'Large',
+  xl: 'Extra Large',
+  '2xl': '2XL',
+  '3xl': '3XL',
+  '4xl': '4XL',
+}
+
+// Font size select limited to the sizes the showcase supports for that text
+const fontSizeField = (
+  name: string,
+  label: string,
+  sizes: string[],
+  defaultValue: string,
+): SelectField => ({
+  name,
+  type: 'select',
+  label,
+  defaultValue,
+  options: sizes.map((size) => ({ label: fontSizeLabels[size], value: size })),
+  admin: {
+    width: '33%',
+  },
+})
+
+const imageOnly = { mimeType: { contains: 'image' } }
+const videoOnly = { mimeType: { contains: 'video' } }
+
+// Layout and typography of the cards, shared by every testimonial the block shows
+export const cardStyleFields: Field[] = [
+  {
+    type: 'collapsible',
+    label: 'Card Layout',
+    admin: {
+      initCollapsed: true,
+    },
+    fields: [
+      {
+        type: 'row',
+        fields: [
+          {
+            name: 'cardSpacing',
+            type: 'select',
+            label: 'Card Spacing',
+            defaultValue: 'gap',
+            options: [
+              {
+                label: 'Gap',
+                value: 'gap',
+              },
+              {
+                label: 'Overlap',
+                value: 'overlap',
+              },
+            ],
+            admin: {
+              width: '50%',
+            },
+          },
+          {
+            name: 'cardOverlap',
+            type: 'number',
+            label: 'Card Overlap (px)',
+            defaultValue: 65,
+            min: 0,
+            validate: validateCardOverlap,
+            admin: {
+              condition: (_, siblingData) => siblingData?.cardSpacing === 'overlap',
+              step: 5,
+              width: '50%',
+            },
+          },
+        ],
+      },
+      {
+        type: 'row',
+        fields: [
+          {
+            name: 'cardWidth',
+            type: 'number',
+            label: 'Card Width (px)',
+            defaultValue: 260,
+            min: 160,
+            max: 640,
+            admin: {
+              step: 10,
+              width: '50%',
+            },
+          },
+          {
+            name: 'cardHeight',
+            type: 'number',
+            label: 'Card Height (px)',
+            defaultValue: 380,
+            min: 200,
+            max: 800,
+            admin: {
+              step: 10,
+              width: '50%',
+            },
+          },
+        ],
+      },
+      {
+        type: 'row',
+        fields: [
+          {
+            name: 'textAlign',
+            type: 'select',
+            label: 'Card Text Alignment',
+            defaultValue: 'left',
+            options: alignOptions,
+            admin: {
+              width: '50%',
+            },
+          },
+          {
+            name: 'titleAlign',
+            type: 'select',
+            label: 'Headline Alignment',
+            defaultValue: 'center',
+            options: alignOptions,
+            admin: {
+              width: '50%',
+            },
+          },
+        ],
+      },
+      {
+        name: 'showPlayButton',
+        type: 'checkbox',
+        label: 'Show Play Button',
+        defaultValue: true,
+        admin: {
+          description: 'Shown on cards that have a video',
+        },
+      },
+    ],
+  },
+  {
+    type: 'collapsible',
+    label: 'Typography',
+    admin: {
+      initCollapsed: true,
+    },
+    fields: [
+      {
+        type: 'row',
+        fields: [
+          fontSizeField(
+            'headlineFontSize',
+            'Headline',
+            ['sm', 'base', 'lg', 'xl', '2xl', '3xl', '4xl'],
+            '2xl',
+          ),
+          fontSizeField('descriptionFontSize', 'Description', ['xs', 'sm', 'base', 'lg'], 'sm'),
+          fontSizeField('quoteFontSize', 'Quote', ['xs', 'sm', 'base', 'lg', 'xl'], 'base'),
+        ],
+      },
+      {
+        type: 'row',
+        fields: [
+          fontSizeField('authorFontSize', 'Author', ['xs', 'sm', 'base', 'lg'], 'sm'),
+          fontSizeField('titleFontSize', 'Title/Company', ['xs', 'sm', 'base'], 'xs'),
+          fontSizeField('metricFontSize', 'Metric', ['xs', 'sm'], 'xs'),
+        ],
+      },
+    ],
+  },
+]
+
+// Backgrounds and video of a single card, set on the testimonial itself
+export const cardMediaFields: Field[] = [
+  {
+    name: 'cardBackground',
+    type: 'group',
+    label: 'Card Background',
+    fields: [
+      {
+        name: 'type',
+        type: 'select',
+        label: 'Background Type',
+        dbName: 'bg_type',
+        defaultValue: 'none',
+        options: [
+          {
+            label: 'None',
+            value: 'none',
+          },
+          {
+            label: 'Color',
+            value: 'COLOR',
+          },
+          {
+            label: 'Gradient',
+            value: 'GRADIENT',
+          },
+          {
+            label: 'Image',
+            value: 'IMAGE',
+          },
+          {
+            label: 'SVG',
+            value: 'SVG',
+          },
+        ],
+      },
+      {
+        name: 'color',
+        type: 'text',
+        label: 'Background Color',
+        admin: {
+          condition: (_, siblingData) => siblingData?.type === 'COLOR',
+          description: 'Enter a hex color (e.g., #0A1F44) or CSS color name',
+          components: {
+            Field: {
+              path: '@/components/admin/ColorPicker',
+            },
+          },
+        },
+      },
+      {
+        name: 'gradient',
+        type: 'text',
+        label: 'Gradient',
+        validate: validateGradient,
+        admin: {
+          condition: (_, siblingData) => siblingData?.type === 'GRADIENT',
+          description:
+            'Enter CSS gradient (e.g., linear-gradient(135deg, #667eea 0%, #764ba2 100%))',
+        },
+      },
+      {
+        name: 'image',
+        type: 'upload',
+        label: 'Background Image',
+        filterOptions: imageOnly,
+        relationTo: 'media',
+        validate: validateBackgroundMedia('image'),
+        admin: {
+          condition: (_, siblingData) => siblingData?.type === 'IMAGE',
+        },
+      },
+      {
+        name: 'svg',
+        type: 'upload',
+        label: 'SVG File',
+        filterOptions: imageOnly,
+        relationTo: 'media',
+        validate: validateBackgroundMedia('svg'),
+        admin: {
+          condition: (_, siblingData) => siblingData?.type === 'SVG',
+        },
+      },
+    ],
+  },
+  {
+    name: 'hoverBackground',
+    type: 'group',
+    label: 'Hover Background',
+    admin: {
+      description: 'Replaces the card background while the card is hovered',
+    },
+    fields: [
+      {
+        name: 'type',
+        type: 'select',
+        label: 'Background Type',
+        dbName: 'bg_type',
+        defaultValue: 'none',
+        options: [
+          {
+            label: 'None',
+            value: 'none',
+          },
+          {
+            label: 'Image',
+            value: 'IMAGE',
+          },
+          {
+            label: 'SVG',
+            value: 'SVG',
+          },
+          {
+            label: 'Video',
+            value: 'VIDEO',
+          },
+        ],
+      },
+      {
+        name: 'image',
+        type: 'upload',
+        label: 'Background Image',
+        filterOptions: imageOnly,
+        relationTo: 'media',
+        validate: validateBackgroundMedia('image'),
+        admin: {
+          condition: (_, siblingData) => siblingData?.type === 'IMAGE',
+        },
+      },
+      {
+        name: 'svg',
+        type: 'upload',
+        label: 'SVG File',
+        filterOptions: imageOnly,
+        relationTo: 'media',
+        validate: validateBackgroundMedia('svg'),
+        admin: {
+          condition: (_, siblingData) => siblingData?.type === 'SVG',
+        },
+      },
+      {
+        name: 'video',
+        type: 'upload',
+        label: 'Background Video',
+        filterOptions: videoOnly,
+        relationTo: 'media',
+        validate: validateBackgroundMedia('video'),
+        admin: {
+          condition: (_, siblingData) => siblingData?.type === 'VIDEO',
+        },
+      },
+    ],
+  },
+  {
+    name: 'hoverVideoUrl',
+    type: 'text',
+    label: 'Hover Video URL (optional)',
+    admin: {
+      condition: (_, siblingData) =>
+        !siblingData?.hoverBackground?.type || siblingData.hoverBackground.type === 'none',
+      description: 'External video played on hover when no hover background is set',
+    },
+  },
+  {
+    name: 'modalMedia',
+    type: 'upload',
+    label: 'Modal Video',
+    filterOptions: videoOnly,
+    relationTo: 'media',
+    admin: {
+      description: 'Played when the card is clicked. Falls back to the Video URL.',
+    },
+  },
+]
@@ -154,7 +154,7 @@ const TestimonialCard = ({
   const hasGradientOrColorBackground = testimonial.cardBackground && 
     (testimonial.cardBackground.type === 'GRADIENT' || testimonial.cardBackground.type === 'COLOR');
   const hasCardImage = testimonial.cardBackground?.type === 'IMAGE' || testimonial.cardBackground?.type === 'SVG';
-  const cardImageSrc = testimonial.cardImage ?? testimonial.avatar ?? '';
+  const cardImageSrc = (hasCardImage ? testimonial.cardBackground?.value : undefined) || testimonial.cardImage || testimonial.avatar || '';
 
   // Check for hover background
   const hasHoverImage = testimonial.hoverBackground?.type === 'IMAGE' || testimonial.hoverBackground?.type === 'SVG';
@@ -193,7 +193,7 @@ const TestimonialCard = ({
         className="w-full h-full rounded-lg border shadow-sm relative cursor-pointer overflow-hidden flex flex-col transition-all duration-300"
         style={{
           backgroundColor: hasGradientOrColorBackground || hasCardImage || hasHoverImage ? 'transparent' : '#ffffff',
-          background: !hasCardImage && !hasHoverImage && testimonial.cardBackground?.type === 'GRADIENT' ? testimonial.cardBackground.value : undefined,
+          background: !hasCardImage && !hasHoverImage && hasGradientOrColorBackground ? testimonial.cardBackground?.value : undefined,
           backgroundImage: (hasCardImage || hasHoverImage) ? `url(${currentBackgroundImage})` : undefined,
           backgroundSize: 'cover',
           backgroundPosition: 'center',
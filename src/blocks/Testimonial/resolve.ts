@@ -0,0 +1,127 @@
+import type { Where } from 'payload'
+
+import type { Media, Testimonial, TestimonialBlock } from '@/payload-types'
+
+export type ShowcaseBackground = {
+  alt?: string
+  type: 'COLOR' | 'GRADIENT' | 'IMAGE' | 'SVG' | 'VIDEO'
+  value: string
+}
+
+export type ShowcaseTestimonial = {
+  author: string
+  avatar?: string
+  cardBackground?: ShowcaseBackground
+  company?: string
+  hoverBackground?: ShowcaseBackground
+  hoverVideoUrl?: string
+  metric?: string
+  modalMedia?: ShowcaseBackground
+  quote: string
+  title?: string
+  videoUrl?: string
+}
+
+type CardBackground = {
+  color?: string | null
+  gradient?: string | null
+  image?: (number | null) | Media
+  svg?: (number | null) | Media
+  type?: string | null
+  video?: (number | null) | Media
+}
+
+const mediaURL = (media?: (number | null) | Media): string | undefined =>
+  typeof media === 'object' && media?.url ? media.url : undefined
+
+/**
+ * Resolves a card or hover background group to the `{ type, value }` the showcase renders.
+ * Backgrounds whose color, gradient or media is missing are left out
+ */
+export const toShowcaseBackground = (
+  background?: CardBackground | null,
+): ShowcaseBackground | undefined => {
+  switch (background?.type) {
+    case 'COLOR':
+      return background.color ? { type: 'COLOR', value: background.color } : undefined
+    case 'GRADIENT':
+      return background.gradient ? { type: 'GRADIENT', value: background.gradient } : undefined
+    case 'IMAGE':
+    case 'SVG':
+    case 'VIDEO': {
+      const media =
+        background[
+          background.type === 'SVG' ? 'svg' : background.type === 'IMAGE' ? 'image' : 'video'
+        ]
+      const url = mediaURL(media)
+      if (!url) return undefined
+
+      return {
+        alt: typeof media === 'object' ? media?.alt || undefined : undefined,
+        type: background.type,
+        value: url,
+      }
+    }
+    default:
+      return undefined
+  }
+}
+
+// Approved testimonials, narrowed to the block's industry tags when it has any
+export const buildTestimonialsWhere = (industries?: TestimonialBlock['industries']): Where => {
+  const where: Where[] = [{ status: { equals: 'approved' } }]
+
+  if (industries && industries.length > 0) {
+    where.push({ industries: { in: industries } })
+  }
+
+  return { and: where }
+}
+
+/**
+ * Keeps the populated, approved testimonials of a hand-picked selection in the order
+ * they were picked, so retiring a testimonial removes it from every page at once
+ */
+export const pickApprovedTestimonials = (
+  selection?: TestimonialBlock['testimonials'],
+): Testimonial[] =>
+  (selection || []).filter(
+    (testimonial): testimonial is Testimonial =>
+      typeof testimonial === 'object' && testimonial?.status === 'approved',
+  )
+
+// Maps a testimonial to the shape the showcase component renders
+export const toShowcaseTestimonial = (testimonial: Testimonial): ShowcaseTestimonial => {
+  const modalVideoUrl = mediaURL(testimonial.modalMedia)
+
+  return {
+    quote: testimonial.quote || '',
+    author: testimonial.author || '',
+    title: testimonial.title ?? undefined,
+    company: testimonial.company ?? undefined,
+    avatar: mediaURL(testimonial.avatar),
+    metric: testimonial.metric ?? undefined,
+    videoUrl: testimonial.videoUrl ?? undefined,
+    cardBackground: toShowcaseBackground(testimonial.cardBackground),
+    hoverBackground: toShowcaseBackground(testimonial.hoverBackground),
+    hoverVideoUrl: testimonial.hoverVideoUrl ?? undefined,
+    modalMedia: modalVideoUrl ? { type: 'VIDEO', value: modalVideoUrl } : undefined,
+  }
+}
+
+// Card layout and typography options of the block, leaving unset ones to the showcase defaults
+export const toShowcaseOptions = (block: TestimonialBlock) => ({
+  cardSpacing: block.cardSpacing ?? undefined,
+  cardOverlap: block.cardOverlap ?? undefined,
+  cardWidth: block.cardWidth ?? undefined,
+  cardHeight: block.cardHeight ?? undefined,
+  textAlign: block.textAlign ?? undefined,
+  titleAlign: block.titleAlign ?? undefined,
+  showPlayButton: block.showPlayButton ?? undefined,
+  headlineFontSize: block.headlineFontSize ?? undefined,
+  descriptionFontSize: block.descriptionFontSize ?? undefined,
+  quoteFontSize: block.quoteFontSize ?? undefined,
+  authorFontSize: block.authorFontSize ?? undefined,
+  titleFontSize: block.titleFontSize ?? undefined,
+  metricFontSize: block.metricFontSize ?? undefined,
+})
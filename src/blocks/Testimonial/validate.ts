@@ -0,0 +1,21 @@
+import type { NumberFieldSingleValidation } from 'payload'
+import { number } from 'payload/shared'
+
+export function checkCardOverlap(
+  cardOverlap: number | null | undefined,
+  cardWidth: number | null | undefined,
+): string | undefined {
+  if (typeof cardOverlap !== 'number' || typeof cardWidth !== 'number') return undefined
+  if (cardOverlap >= cardWidth) {
+    return `Card Overlap (${cardOverlap}px) must be smaller than the Card Width (${cardWidth}px) so every card stays visible.`
+  }
+  return undefined
+}
+
+// Overlapping cards must still leave part of each card uncovered
+export const validateCardOverlap: NumberFieldSingleValidation = (value, options) => {
+  const result = number(value, options)
+  if (result !== true) return result
+  const siblingData = options.siblingData as { cardWidth?: number | null }
+  return checkCardOverlap(value, siblingData?.cardWidth) ?? true
+}
@@ -1,16 +1,16 @@
 import type { CollectionConfig } from 'payload'
 
 import { anyone } from '../access/anyone'
-import { authenticated } from '../access/authenticated'
+import { hasRole } from '../access/hasRole'
 import { slugField } from 'payload'
 
 export const Categories: CollectionConfig = {
   slug: 'categories',
   access: {
-    create: authenticated,
-    delete: authenticated,
+    create: hasRole('admin', 'editor', 'author'),
+    delete: hasRole('admin', 'editor'),
     read: anyone,
-    update: authenticated,
+    update: hasRole('admin', 'editor', 'author'),
   },
   admin: {
     useAsTitle: 'title',
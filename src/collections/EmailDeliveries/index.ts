@@ -0,0 +1,138 @@
+import type { CollectionConfig } from 'payload'
+
+import { hasRole } from '../../access/hasRole'
+import { formEmailTypeOptions } from '../../fields/formEmailType'
+
+export const EmailDeliveries: CollectionConfig = {
+  slug: 'email-deliveries',
+  access: {
+    // Deliveries are written by the form submission hooks and the job queue only
+    create: () => false,
+    delete: hasRole('admin'),
+    read: hasRole('admin', 'editor'),
+    update: () => false,
+  },
+  admin: {
+    defaultColumns: ['subject', 'to', 'type', 'status', 'attempts', 'createdAt'],
+    description: 'Every email sent for a form submission, with its delivery status.',
+    useAsTitle: 'subject',
+  },
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'to',
+          type: 'text',
+          required: true,
+        },
+        {
+          name: 'from',
+          type: 'text',
+        },
+        {
+          name: 'replyTo',
+          type: 'text',
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'cc',
+          type: 'text',
+        },
+        {
+          name: 'bcc',
+          type: 'text',
+        },
+      ],
+    },
+    {
+      name: 'subject',
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'html',
+      type: 'code',
+      admin: {
+        language: 'html',
+      },
+    },
+    {
+      name: 'type',
+      type: 'select',
+      options: formEmailTypeOptions,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      defaultValue: 'queued',
+      options: [
+        {
+          label: 'Queued',
+          value: 'queued',
+        },
+        {
+          label: 'Sent',
+          value: 'sent',
+        },
+        {
+          label: 'Failed',
+          value: 'failed',
+        },
+      ],
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'attempts',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'sentAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'error',
+      type: 'textarea',
+      admin: {
+        condition: (_, siblingData) => siblingData?.status === 'failed',
+        description: 'The error from the last failed attempt',
+      },
+    },
+    {
+      name: 'form',
+      type: 'relationship',
+      relationTo: 'forms',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'submission',
+      type: 'relationship',
+      relationTo: 'form-submissions',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+  ],
+}
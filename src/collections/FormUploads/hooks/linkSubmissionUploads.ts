@@ -0,0 +1,127 @@
+import { APIError, type CollectionAfterChangeHook, type CollectionBeforeChangeHook } from 'payload'
+
+import type { FormSubmission } from '../../../payload-types'
+
+import { getHiddenFieldNames, toSubmissionValues } from '../../../blocks/Form/conditions'
+import { checkUploadFiles, type UploadFormField } from '../../../blocks/Form/Upload/validation'
+
+/**
+ * Upload fields are submitted as comma-separated `form-uploads` IDs. Verifies the files were
+ * uploaded for this form and field and have not been claimed by another submission, re-checks
+ * the field's limits and links the files to the submission.
+ */
+export const linkSubmissionUploads: CollectionBeforeChangeHook<FormSubmission> = async ({
+  data,
+  operation,
+  req,
+}) => {
+  if (operation !== 'create' || !data.form) return data
+
+  const form = await req.payload.findByID({
+    id: typeof data.form === 'object' ? data.form.id : data.form,
+    collection: 'forms',
+    depth: 0,
+    req,
+  })
+
+  const hiddenFields = getHiddenFieldNames(
+    form.fields || [],
+    toSubmissionValues(data.submissionData),
+  )
+
+  const uploadFields = (form.fields || []).filter(
+    (field): field is UploadFormField =>
+      field.blockType === 'upload' && !hiddenFields.has(field.name),
+  )
+
+  if (uploadFields.length === 0) return data
+
+  let submissionData = data.submissionData
+  const files: number[] = []
+
+  for (const field of uploadFields) {
+    const entry = submissionData?.find((item) => item.field === field.name)
+    const ids = (entry?.value || '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean)
+
+    const { docs: uploads } = ids.length
+      ? await req.payload.find({
+          collection: 'form-uploads',
+          depth: 0,
+          limit: ids.length,
+          pagination: false,
+          req,
+          where: {
+            and: [
+              { id: { in: ids } },
+              { form: { equals: form.id } },
+              { fieldName: { equals: field.name } },
+              { submission: { exists: false } },
+            ],
+          },
+        })
+      : { docs: [] }
+
+    if (uploads.length !== ids.length) {
+      throw new APIError(
+        'One of the attached files could not be found. Please attach it again.',
+        400,
+      )
+    }
+
+    const issue = checkUploadFiles(
+      uploads.map((upload) => ({
+        mimeType: upload.mimeType || '',
+        name: upload.filename || 'This file',
+        size: upload.filesize || 0,
+      })),
+      field,
+    )
+
+    if (issue) throw new APIError(issue, 400)
+
+    files.push(...uploads.map((upload) => upload.id))
+
+    // Keep file names in the submission data so notification emails stay readable
+    submissionData = submissionData?.map((item) =>
+      item === entry
+        ? { ...item, value: uploads.map((upload) => upload.filename).join(', ') }
+        : item,
+    )
+  }
+
+  return {
+    ...data,
+    files,
+    submissionData,
+  }
+}
+
+// Marks the linked files as claimed so they cannot be attached to another submission
+export const claimSubmissionUploads: CollectionAfterChangeHook<FormSubmission> = async ({
+  doc,
+  operation,
+  req,
+}) => {
+  const fileIDs = (doc.files || []).map((file) => (typeof file === 'object' ? file.id : file))
+
+  if (operation === 'create' && fileIDs.length > 0) {
+    await req.payload.update({
+      collection: 'form-uploads',
+      data: {
+        submission: doc.id,
+      },
+      depth: 0,
+      req,
+      where: {
+        id: {
+          in: fileIDs,
+        },
+      },
+    })
+  }
+
+  return doc
+}
@@ -0,0 +1,56 @@
+import { APIError, type CollectionBeforeChangeHook } from 'payload'
+
+import type { FormUpload } from '../../../payload-types'
+
+import {
+  checkSpamSignals,
+  getClientIP,
+  hashIP,
+  RATE_LIMIT_WINDOW_MINUTES,
+  spamReasonMessages,
+  UPLOAD_RATE_LIMIT_MAX,
+} from '../../../blocks/Form/spam'
+
+/**
+ * Anyone can upload, so uploads get the same honeypot, timing and per-IP rate checks as
+ * submissions. Challenge tokens can only be verified once, so the challenge is left to the
+ * submission the files are attached to.
+ */
+export const rejectUploadSpam: CollectionBeforeChangeHook<FormUpload> = async ({
+  data,
+  operation,
+  req,
+}) => {
+  // Files uploaded by the server, such as the seed, are trusted
+  if (operation !== 'create' || req.payloadAPI === 'local') return data
+
+  const { payload } = req
+  const { antiSpam, ...upload } = data
+  const formID = typeof data.form === 'object' ? data.form?.id : data.form
+  const ip = getClientIP(req.headers)
+  const ipHash = ip ? hashIP(ip, payload.secret) : undefined
+
+  const signalReason = checkSpamSignals(antiSpam ?? {})
+  if (signalReason) throw new APIError(spamReasonMessages[signalReason], 400)
+
+  if (ipHash && formID) {
+    const since = new Date(Date.now() - RATE_LIMIT_WINDOW_MINUTES * 60 * 1000)
+    const { totalDocs } = await payload.count({
+      collection: 'form-uploads',
+      req,
+      where: {
+        and: [
+          { form: { equals: formID } },
+          { ipHash: { equals: ipHash } },
+          { createdAt: { greater_than: since.toISOString() } },
+        ],
+      },
+    })
+
+    if (totalDocs >= UPLOAD_RATE_LIMIT_MAX) {
+      throw new APIError(spamReasonMessages.rateLimited, 429)
+    }
+  }
+
+  return { ...upload, ipHash }
+}
@@ -0,0 +1,45 @@
+import { APIError, type CollectionBeforeChangeHook } from 'payload'
+
+import type { FormUpload } from '../../../payload-types'
+
+import { checkUploadFile, type UploadFormField } from '../../../blocks/Form/Upload/validation'
+
+// Checks each uploaded file against the type and size limits of the form field it was attached to
+export const validateFormUpload: CollectionBeforeChangeHook<FormUpload> = async ({
+  data,
+  operation,
+  req,
+}) => {
+  if (operation !== 'create') return data
+
+  if (!data.form || !data.fieldName) {
+    throw new APIError('Uploads must be attached to a form field.', 400)
+  }
+
+  const form = await req.payload.findByID({
+    id: typeof data.form === 'object' ? data.form.id : data.form,
+    collection: 'forms',
+    depth: 0,
+    req,
+  })
+
+  const field = form.fields?.find(
+    (field): field is UploadFormField =>
+      field.blockType === 'upload' && field.name === data.fieldName,
+  )
+
+  if (!field) throw new APIError('This form does not accept file uploads.', 400)
+
+  const issue = checkUploadFile(
+    {
+      mimeType: data.mimeType || '',
+      name: data.filename || 'This file',
+      size: data.filesize || 0,
+    },
+    field,
+  )
+
+  if (issue) throw new APIError(issue, 400)
+
+  return data
+}
@@ -0,0 +1,91 @@
+import type { CollectionConfig } from 'payload'
+
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+import { anyone } from '../../access/anyone'
+import { hasRole } from '../../access/hasRole'
+import { uploadMimeTypeOptions } from '../../blocks/Form/Upload/validation'
+import { rejectUploadSpam } from './hooks/rejectUploadSpam'
+import { validateFormUpload } from './hooks/validateFormUpload'
+
+const filename = fileURLToPath(import.meta.url)
+const dirname = path.dirname(filename)
+
+export const FormUploads: CollectionConfig = {
+  slug: 'form-uploads',
+  access: {
+    // Visitors upload files while filling in a form, but only staff can download them. Spam is
+    // rejected by rejectUploadSpam and files never attached to a submission are deleted by the
+    // deleteUnclaimedUploads task
+    create: anyone,
+    delete: hasRole('admin', 'editor'),
+    read: hasRole('admin', 'editor', 'recruiter'),
+    update: () => false,
+  },
+  admin: {
+    defaultColumns: ['filename', 'form', 'submission', 'createdAt'],
+    description: 'Files attached to form submissions, such as résumés. These are not public.',
+    useAsTitle: 'filename',
+  },
+  fields: [
+    {
+      name: 'form',
+      type: 'relationship',
+      relationTo: 'forms',
+      required: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'fieldName',
+      type: 'text',
+      required: true,
+      admin: {
+        readOnly: true,
+      },
+    },
+    {
+      name: 'submission',
+      type: 'relationship',
+      relationTo: 'form-submissions',
+      admin: {
+        description: 'Set once the form has been submitted',
+        readOnly: true,
+      },
+    },
+    {
+      name: 'ipHash',
+      type: 'text',
+      // Used for rate limiting only
+      hidden: true,
+      index: true,
+    },
+    {
+      name: 'antiSpam',
+      type: 'group',
+      hidden: true,
+      // Checked by rejectUploadSpam and never stored
+      virtual: true,
+      fields: [
+        {
+          name: 'honeypot',
+          type: 'text',
+        },
+        {
+          name: 'startedAt',
+          type: 'number',
+        },
+      ],
+    },
+  ],
+  hooks: {
+    beforeChange: [rejectUploadSpam, validateFormUpload],
+  },
+  upload: {
+    // Stored outside the public directory so files are only served through the access-controlled API
+    staticDir: path.resolve(dirname, '../../../form-uploads'),
+    mimeTypes: uploadMimeTypeOptions.map(({ value }) => value),
+  },
+}
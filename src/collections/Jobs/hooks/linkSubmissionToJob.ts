@@ -0,0 +1,74 @@
+import { APIError, type CollectionBeforeChangeHook } from 'payload'
+
+import type { FormSubmission } from '../../../payload-types'
+
+import { getHiddenFieldNames, toSubmissionValues } from '../../../blocks/Form/conditions'
+
+/**
+ * Links an application to the job picked in the form's job select field. The submitted job ID
+ * is replaced with the job title so notification emails stay readable.
+ */
+export const linkSubmissionToJob: CollectionBeforeChangeHook<FormSubmission> = async ({
+  data,
+  operation,
+  req,
+}) => {
+  if (operation !== 'create' || !data.form) return data
+
+  const form = await req.payload.findByID({
+    id: typeof data.form === 'object' ? data.form.id : data.form,
+    collection: 'forms',
+    depth: 0,
+    req,
+  })
+
+  const jobField = form.fields?.find((field) => field.blockType === 'jobSelect')
+  const entry = jobField && data.submissionData?.find(({ field }) => field === jobField.name)
+
+  if (!jobField || !entry?.value) {
+    const isHidden =
+      jobField &&
+      getHiddenFieldNames(form.fields || [], toSubmissionValues(data.submissionData)).has(
+        jobField.name,
+      )
+
+    if (jobField?.required && !isHidden) throw new APIError('Please select a position.', 400)
+
+    return data
+  }
+
+  const {
+    docs: [job],
+  } = await req.payload.find({
+    collection: 'jobs',
+    depth: 0,
+    limit: 1,
+    locale: req.locale,
+    pagination: false,
+    req,
+    where: {
+      and: [
+        {
+          id: {
+            equals: entry.value,
+          },
+        },
+        {
+          status: {
+            equals: 'open',
+          },
+        },
+      ],
+    },
+  })
+
+  if (!job) throw new APIError('This position is no longer accepting applications.', 400)
+
+  return {
+    ...data,
+    job: job.id,
+    submissionData: data.submissionData?.map((item) =>
+      item === entry ? { ...item, value: job.title } : item,
+    ),
+  }
+}
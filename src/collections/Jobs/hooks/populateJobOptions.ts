@@ -0,0 +1,35 @@
+import type { CollectionAfterReadHook } from 'payload'
+
+import type { Form } from '../../../payload-types'
+
+// Fills every job select field on a form with the currently open jobs
+export const populateJobOptions: CollectionAfterReadHook<Form> = async ({ doc, req }) => {
+  if (!doc?.fields?.some((field) => field.blockType === 'jobSelect')) return doc
+
+  const { docs: openJobs } = await req.payload.find({
+    collection: 'jobs',
+    depth: 0,
+    limit: 100,
+    locale: req.locale,
+    pagination: false,
+    req,
+    select: {
+      title: true,
+    },
+    sort: 'title',
+    where: {
+      status: {
+        equals: 'open',
+      },
+    },
+  })
+
+  const options = openJobs.map((job) => ({ label: job.title, value: String(job.id) }))
+
+  return {
+    ...doc,
+    fields: doc.fields.map((field) =>
+      field.blockType === 'jobSelect' ? { ...field, options } : field,
+    ),
+  }
+}
@@ -0,0 +1,41 @@
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook } from 'payload'
+
+import { revalidatePath, revalidateTag } from 'next/cache'
+
+import { getLocaleRoutePaths } from '@/i18n/config'
+
+import type { Job } from '../../../payload-types'
+
+const revalidateCareers = (path: string) => {
+  getLocaleRoutePaths(path).forEach((localePath) => revalidatePath(localePath))
+  getLocaleRoutePaths('/careers').forEach((localePath) => revalidatePath(localePath))
+  revalidateTag('pages-sitemap')
+}
+
+export const revalidateJob: CollectionAfterChangeHook<Job> = ({
+  doc,
+  previousDoc,
+  req: { payload, context },
+}) => {
+  if (!context.disableRevalidate) {
+    const path = `/careers/${doc.slug}`
+
+    payload.logger.info(`Revalidating job at path: ${path}`)
+
+    revalidateCareers(path)
+
+    // The slug changed, so the old job page needs to be revalidated too
+    if (previousDoc?.slug && previousDoc.slug !== doc.slug) {
+      revalidateCareers(`/careers/${previousDoc.slug}`)
+    }
+  }
+  return doc
+}
+
+export const revalidateDelete: CollectionAfterDeleteHook<Job> = ({ doc, req: { context } }) => {
+  if (!context.disableRevalidate) {
+    revalidateCareers(`/careers/${doc?.slug}`)
+  }
+
+  return doc
+}
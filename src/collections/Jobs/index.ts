@@ -0,0 +1,192 @@
+import type { CollectionConfig } from 'payload'
+
+import {
+  FixedToolbarFeature,
+  HeadingFeature,
+  InlineToolbarFeature,
+  lexicalEditor,
+} from '@payloadcms/richtext-lexical'
+import { slugField } from 'payload'
+
+import { authenticatedOrPosted } from '../../access/authenticatedOrPosted'
+import { hasRole } from '../../access/hasRole'
+import { revalidateDelete, revalidateJob } from './hooks/revalidateJob'
+
+const employmentTypeOptions = [
+  {
+    label: 'Full-time',
+    value: 'full-time',
+  },
+  {
+    label: 'Part-time',
+    value: 'part-time',
+  },
+  {
+    label: 'Contract',
+    value: 'contract',
+  },
+  {
+    label: 'Temporary',
+    value: 'temporary',
+  },
+  {
+    label: 'Internship',
+    value: 'internship',
+  },
+]
+
+export const Jobs: CollectionConfig<'jobs'> = {
+  slug: 'jobs',
+  access: {
+    create: hasRole('admin', 'editor', 'recruiter'),
+    delete: hasRole('admin', 'editor', 'recruiter'),
+    read: authenticatedOrPosted,
+    update: hasRole('admin', 'editor', 'recruiter'),
+  },
+  defaultPopulate: {
+    title: true,
+    slug: true,
+    department: true,
+    location: true,
+    employmentType: true,
+    status: true,
+  },
+  admin: {
+    defaultColumns: ['title', 'department', 'location', 'status', 'updatedAt'],
+    useAsTitle: 'title',
+  },
+  fields: [
+    {
+      name: 'title',
+      type: 'text',
+      localized: true,
+      required: true,
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'department',
+          type: 'text',
+          localized: true,
+          admin: {
+            width: '50%',
+          },
+        },
+        {
+          name: 'location',
+          type: 'text',
+          localized: true,
+          admin: {
+            description: 'City and region, e.g. "Lima, Peru"',
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'employmentType',
+          type: 'select',
+          defaultValue: 'full-time',
+          options: employmentTypeOptions,
+          required: true,
+          admin: {
+            width: '50%',
+          },
+        },
+        {
+          name: 'remote',
+          type: 'checkbox',
+          label: 'Remote position',
+          admin: {
+            style: {
+              alignSelf: 'flex-end',
+            },
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'description',
+      type: 'richText',
+      localized: true,
+      required: true,
+      editor: lexicalEditor({
+        features: ({ rootFeatures }) => {
+          return [
+            ...rootFeatures,
+            HeadingFeature({ enabledHeadingSizes: ['h2', 'h3', 'h4'] }),
+            FixedToolbarFeature(),
+            InlineToolbarFeature(),
+          ]
+        },
+      }),
+    },
+    {
+      name: 'status',
+      type: 'select',
+      defaultValue: 'draft',
+      options: [
+        {
+          label: 'Draft',
+          value: 'draft',
+        },
+        {
+          label: 'Open',
+          value: 'open',
+        },
+        {
+          label: 'Closed',
+          value: 'closed',
+        },
+      ],
+      required: true,
+      admin: {
+        description:
+          'Drafts are only visible to signed-in users. Closed jobs are hidden from the careers page and application forms',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'datePosted',
+      type: 'date',
+      defaultValue: () => new Date().toISOString(),
+      admin: {
+        date: {
+          pickerAppearance: 'dayOnly',
+        },
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'validThrough',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayOnly',
+        },
+        description: 'Search engines stop listing the job after this date',
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'applicationForm',
+      type: 'relationship',
+      relationTo: 'forms',
+      admin: {
+        description: 'Shown on the job page so candidates can apply directly',
+        position: 'sidebar',
+      },
+    },
+    slugField(),
+  ],
+  hooks: {
+    afterChange: [revalidateJob],
+    afterDelete: [revalidateDelete],
+  },
+  timestamps: true,
+}
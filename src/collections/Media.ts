@@ -9,7 +9,7 @@ import path from 'path'
 import { fileURLToPath } from 'url'
 
 import { anyone } from '../access/anyone'
-import { authenticated } from '../access/authenticated'
+import { hasRole } from '../access/hasRole'
 
 const filename = fileURLToPath(import.meta.url)
 const dirname = path.dirname(filename)
@@ -18,10 +18,10 @@ export const Media: CollectionConfig = {
   slug: 'media',
   folders: true,
   access: {
-    create: authenticated,
-    delete: authenticated,
+    create: hasRole('admin', 'editor', 'author'),
+    delete: hasRole('admin', 'editor'),
     read: anyone,
-    update: authenticated,
+    update: hasRole('admin', 'editor', 'author'),
   },
   fields: [
     {
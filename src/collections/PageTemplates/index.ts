@@ -0,0 +1,72 @@
+import type { CollectionConfig } from 'payload'
+
+import { authenticated } from '../../access/authenticated'
+import { hasRole } from '../../access/hasRole'
+import { Archive } from '../../blocks/ArchiveBlock/config'
+import { CallToAction } from '../../blocks/CallToAction/config'
+import { Content } from '../../blocks/Content/config'
+import { FormBlock } from '../../blocks/Form/config'
+import { MediaBlock } from '../../blocks/MediaBlock/config'
+import { ReusableSection } from '../../blocks/ReusableSection/config'
+import { ScrollBlock } from '../../blocks/ScrollBlock/config'
+import { Testimonial } from '../../blocks/Testimonial/config'
+import { hero } from '@/heros/config'
+
+export const PageTemplates: CollectionConfig<'page-templates'> = {
+  slug: 'page-templates',
+  // Keeps generated table and index names within Postgres' 63 character limit
+  dbName: 'page_tpl',
+  access: {
+    create: hasRole('admin', 'editor'),
+    delete: hasRole('admin', 'editor'),
+    read: authenticated,
+    update: hasRole('admin', 'editor'),
+  },
+  admin: {
+    defaultColumns: ['title', 'description', 'updatedAt'],
+    description: 'Starting points for new pages. Use "New from template" on the Pages list.',
+    useAsTitle: 'title',
+  },
+  fields: [
+    {
+      name: 'title',
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'description',
+      type: 'textarea',
+    },
+    {
+      type: 'tabs',
+      tabs: [
+        {
+          fields: [hero],
+          label: 'Hero',
+        },
+        {
+          fields: [
+            {
+              name: 'layout',
+              type: 'blocks',
+              blocks: [
+                CallToAction,
+                Content,
+                MediaBlock,
+                Archive,
+                FormBlock,
+                ScrollBlock,
+                Testimonial,
+                ReusableSection,
+              ],
+              admin: {
+                initCollapsed: true,
+              },
+            },
+          ],
+          label: 'Content',
+        },
+      ],
+    },
+  ],
+}
@@ -0,0 +1,12 @@
+import type { RequiredDataFromCollectionSlug } from 'payload'
+
+// Turns page data, such as a seed page, into a template holding its hero and layout
+export const toPageTemplate = (
+  { description, title }: { description?: string; title: string },
+  { hero, layout }: Pick<RequiredDataFromCollectionSlug<'pages'>, 'hero' | 'layout'>,
+): RequiredDataFromCollectionSlug<'page-templates'> => ({
+  description,
+  hero,
+  layout,
+  title,
+})
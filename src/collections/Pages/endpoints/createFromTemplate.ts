@@ -0,0 +1,77 @@
+import { APIError, type Endpoint } from 'payload'
+
+import { hasRole } from '../../../access/hasRole'
+import { defaultLocale, type Locale, localeCodes } from '../../../i18n/config'
+import { alignRowIDs } from '../../../utilities/alignRowIDs'
+
+/**
+ * Creates a draft page with the hero and layout of a page template, in every locale,
+ * and responds with the new page's ID
+ */
+export const createFromTemplate: Endpoint = {
+  path: '/from-template',
+  method: 'post',
+  handler: async (req) => {
+    const { payload } = req
+
+    if (!hasRole('admin', 'editor')({ req })) {
+      throw new APIError('You are not allowed to create pages.', 403)
+    }
+
+    const { templateID, title } = ((await req.json?.()) ?? {}) as {
+      templateID?: number | string
+      title?: string
+    }
+
+    if (!templateID || !title?.trim()) {
+      throw new APIError('Choose a template and enter a title.', 400)
+    }
+
+    // Reads without fallbacks so one locale's content is never copied into another
+    const readTemplate = (locale: Locale) =>
+      payload.findByID({
+        collection: 'page-templates',
+        id: templateID,
+        depth: 0,
+        fallbackLocale: false,
+        locale,
+        req,
+      })
+
+    const template = await readTemplate(defaultLocale)
+
+    // The default locale creates the rows the other locales then fill in
+    const page = await payload.create({
+      collection: 'pages',
+      data: {
+        _status: 'draft',
+        hero: alignRowIDs(template.hero),
+        layout: alignRowIDs(template.layout ?? []),
+        title: title.trim(),
+      },
+      depth: 0,
+      draft: true,
+      locale: defaultLocale,
+      req,
+    })
+
+    for (const locale of localeCodes.filter((code) => code !== defaultLocale)) {
+      const localized = await readTemplate(locale)
+
+      await payload.update({
+        collection: 'pages',
+        id: page.id,
+        data: {
+          hero: alignRowIDs(localized.hero, page.hero),
+          layout: alignRowIDs(localized.layout ?? [], page.layout),
+        },
+        depth: 0,
+        draft: true,
+        locale,
+        req,
+      })
+    }
+
+    return Response.json({ id: page.id }, { status: 201 })
+  },
+}
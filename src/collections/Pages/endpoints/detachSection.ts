@@ -0,0 +1,84 @@
+import { APIError, type Endpoint } from 'payload'
+
+import { hasRole } from '../../../access/hasRole'
+import { alignRowIDs } from '../../../utilities/alignRowIDs'
+import { defaultLocale, type Locale, localeCodes } from '../../../i18n/config'
+
+/**
+ * Replaces a Reusable Section block on a page with a copy of the section's block, so it can be
+ * edited on that page alone. Every locale is copied and the result is saved as a draft.
+ */
+export const detachSection: Endpoint = {
+  path: '/:id/detach-section',
+  method: 'post',
+  handler: async (req) => {
+    const { payload, routeParams } = req
+
+    if (!hasRole('admin', 'editor')({ req })) {
+      throw new APIError('You are not allowed to edit pages.', 403)
+    }
+
+    const { blockID } = ((await req.json?.()) ?? {}) as { blockID?: string }
+    const pageID = String(routeParams?.id)
+
+    // Reads without fallbacks so one locale's content is never copied into another
+    const readPage = (locale: Locale) =>
+      payload.findByID({
+        collection: 'pages',
+        id: pageID,
+        depth: 0,
+        draft: true,
+        fallbackLocale: false,
+        locale,
+        req,
+      })
+
+    const page = await readPage(defaultLocale)
+    const block = page.layout?.find(({ id }) => id === blockID)
+
+    if (!block || block.blockType !== 'reusableSection') {
+      throw new APIError('This page has no such Reusable Section block.', 404)
+    }
+
+    const sectionID = typeof block.section === 'object' ? block.section.id : block.section
+    // The default locale goes first; it creates the rows the other locales then fill in
+    const locales = [defaultLocale, ...localeCodes.filter((code) => code !== defaultLocale)]
+
+    for (const locale of locales) {
+      const current = locale === defaultLocale ? page : await readPage(locale)
+      const section = await payload.findByID({
+        collection: 'sections',
+        id: sectionID,
+        depth: 0,
+        fallbackLocale: false,
+        locale,
+        req,
+      })
+      const [sectionBlock] = section.block ?? []
+
+      if (!sectionBlock) throw new APIError('This section is empty.', 400)
+
+      const detached =
+        locale === defaultLocale
+          ? { ...alignRowIDs(sectionBlock), id: blockID }
+          : alignRowIDs(
+              sectionBlock,
+              current.layout?.find(({ id }) => id === blockID),
+            )
+
+      await payload.update({
+        collection: 'pages',
+        id: pageID,
+        data: {
+          layout: current.layout?.map((row) => (row.id === blockID ? detached : row)),
+        },
+        depth: 0,
+        draft: true,
+        locale,
+        req,
+      })
+    }
+
+    return Response.json({ message: 'Section detached into the page.' })
+  },
+}
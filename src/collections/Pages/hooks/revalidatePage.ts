@@ -2,6 +2,8 @@ import type { CollectionAfterChangeHook, CollectionAfterDeleteHook } from 'paylo
 
 import { revalidatePath, revalidateTag } from 'next/cache'
 
+import { getLocaleRoutePaths } from '@/i18n/config'
+
 import type { Page } from '../../../payload-types'
 
 export const revalidatePage: CollectionAfterChangeHook<Page> = ({
@@ -15,7 +17,7 @@ export const revalidatePage: CollectionAfterChangeHook<Page> = ({
 
       payload.logger.info(`Revalidating page at path: ${path}`)
 
-      revalidatePath(path)
+      getLocaleRoutePaths(path).forEach((localePath) => revalidatePath(localePath))
       revalidateTag('pages-sitemap')
     }
 
@@ -25,7 +27,7 @@ export const revalidatePage: CollectionAfterChangeHook<Page> = ({
 
       payload.logger.info(`Revalidating old page at path: ${oldPath}`)
 
-      revalidatePath(oldPath)
+      getLocaleRoutePaths(oldPath).forEach((localePath) => revalidatePath(localePath))
       revalidateTag('pages-sitemap')
     }
   }
@@ -35,7 +37,7 @@ export const revalidatePage: CollectionAfterChangeHook<Page> = ({
 export const revalidateDelete: CollectionAfterDeleteHook<Page> = ({ doc, req: { context } }) => {
   if (!context.disableRevalidate) {
     const path = doc?.slug === 'home' ? '/' : `/${doc?.slug}`
-    revalidatePath(path)
+    getLocaleRoutePaths(path).forEach((localePath) => revalidatePath(localePath))
     revalidateTag('pages-sitemap')
   }
 
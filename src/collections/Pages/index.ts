@@ -1,18 +1,21 @@
 import type { CollectionConfig } from 'payload'
 
-import { authenticated } from '../../access/authenticated'
 import { authenticatedOrPublished } from '../../access/authenticatedOrPublished'
+import { hasRole } from '../../access/hasRole'
 import { Archive } from '../../blocks/ArchiveBlock/config'
 import { CallToAction } from '../../blocks/CallToAction/config'
 import { Content } from '../../blocks/Content/config'
 import { FormBlock } from '../../blocks/Form/config'
 import { MediaBlock } from '../../blocks/MediaBlock/config'
+import { ReusableSection } from '../../blocks/ReusableSection/config'
 import { ScrollBlock } from '../../blocks/ScrollBlock/config'
 import { Testimonial } from '../../blocks/Testimonial/config'
 import { hero } from '@/heros/config'
 import { slugField } from 'payload'
 import { populatePublishedAt } from '../../hooks/populatePublishedAt'
 import { generatePreviewPath } from '../../utilities/generatePreviewPath'
+import { createFromTemplate } from './endpoints/createFromTemplate'
+import { detachSection } from './endpoints/detachSection'
 import { revalidateDelete, revalidatePage } from './hooks/revalidatePage'
 
 import {
@@ -26,10 +29,10 @@ import {
 export const Pages: CollectionConfig<'pages'> = {
   slug: 'pages',
   access: {
-    create: authenticated,
-    delete: authenticated,
+    create: hasRole('admin', 'editor'),
+    delete: hasRole('admin', 'editor'),
     read: authenticatedOrPublished,
-    update: authenticated,
+    update: hasRole('admin', 'editor'),
   },
   // This config controls what's populated by default when a page is referenced
   // https://payloadcms.com/docs/queries/select#defaultpopulate-collection-config-property
@@ -39,27 +42,34 @@ export const Pages: CollectionConfig<'pages'> = {
     slug: true,
   },
   admin: {
+    components: {
+      beforeListTable: ['@/components/admin/NewFromTemplate'],
+    },
     defaultColumns: ['title', 'slug', 'updatedAt'],
     livePreview: {
-      url: ({ data, req }) =>
+      url: ({ data, req, locale }) =>
         generatePreviewPath({
           slug: data?.slug,
           collection: 'pages',
           req,
+          locale: locale?.code,
         }),
     },
-    preview: (data, { req }) =>
+    preview: (data, { req, locale }) =>
       generatePreviewPath({
         slug: data?.slug as string,
         collection: 'pages',
         req,
+        locale,
       }),
     useAsTitle: 'title',
   },
+  endpoints: [createFromTemplate, detachSection],
   fields: [
     {
       name: 'title',
       type: 'text',
+      localized: true,
       required: true,
     },
     {
@@ -74,7 +84,16 @@ export const Pages: CollectionConfig<'pages'> = {
             {
               name: 'layout',
               type: 'blocks',
-              blocks: [CallToAction, Content, MediaBlock, Archive, FormBlock, ScrollBlock, Testimonial],
+              blocks: [
+                CallToAction,
+                Content,
+                MediaBlock,
+                Archive,
+                FormBlock,
+                ScrollBlock,
+                Testimonial,
+                ReusableSection,
+              ],
               required: true,
               admin: {
                 initCollapsed: true,
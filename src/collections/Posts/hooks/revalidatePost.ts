@@ -2,6 +2,8 @@ import type { CollectionAfterChangeHook, CollectionAfterDeleteHook } from 'paylo
 
 import { revalidatePath, revalidateTag } from 'next/cache'
 
+import { getLocaleRoutePaths } from '@/i18n/config'
+
 import type { Post } from '../../../payload-types'
 
 export const revalidatePost: CollectionAfterChangeHook<Post> = ({
@@ -15,7 +17,7 @@ export const revalidatePost: CollectionAfterChangeHook<Post> = ({
 
       payload.logger.info(`Revalidating post at path: ${path}`)
 
-      revalidatePath(path)
+      getLocaleRoutePaths(path).forEach((localePath) => revalidatePath(localePath))
       revalidateTag('posts-sitemap')
     }
 
@@ -25,7 +27,7 @@ export const revalidatePost: CollectionAfterChangeHook<Post> = ({
 
       payload.logger.info(`Revalidating old post at path: ${oldPath}`)
 
-      revalidatePath(oldPath)
+      getLocaleRoutePaths(oldPath).forEach((localePath) => revalidatePath(localePath))
       revalidateTag('posts-sitemap')
     }
   }
@@ -36,7 +38,7 @@ export const revalidateDelete: CollectionAfterDeleteHook<Post> = ({ doc, req: {
   if (!context.disableRevalidate) {
     const path = `/posts/${doc?.slug}`
 
-    revalidatePath(path)
+    getLocaleRoutePaths(path).forEach((localePath) => revalidatePath(localePath))
     revalidateTag('posts-sitemap')
   }
 
@@ -9,8 +9,9 @@ import {
   lexicalEditor,
 } from '@payloadcms/richtext-lexical'
 
-import { authenticated } from '../../access/authenticated'
 import { authenticatedOrPublished } from '../../access/authenticatedOrPublished'
+import { editorsOrOwnPosts } from '../../access/editorsOrOwnPosts'
+import { hasRole } from '../../access/hasRole'
 import { Banner } from '../../blocks/Banner/config'
 import { Code } from '../../blocks/Code/config'
 import { MediaBlock } from '../../blocks/MediaBlock/config'
@@ -30,10 +31,10 @@ import { slugField } from 'payload'
 export const Posts: CollectionConfig<'posts'> = {
   slug: 'posts',
   access: {
-    create: authenticated,
-    delete: authenticated,
+    create: hasRole('admin', 'editor', 'author'),
+    delete: editorsOrOwnPosts,
     read: authenticatedOrPublished,
-    update: authenticated,
+    update: editorsOrOwnPosts,
   },
   // This config controls what's populated by default when a post is referenced
   // https://payloadcms.com/docs/queries/select#defaultpopulate-collection-config-property
@@ -50,18 +51,20 @@ export const Posts: CollectionConfig<'posts'> = {
   admin: {
     defaultColumns: ['title', 'slug', 'updatedAt'],
     livePreview: {
-      url: ({ data, req }) =>
+      url: ({ data, req, locale }) =>
         generatePreviewPath({
           slug: data?.slug,
           collection: 'posts',
           req,
+          locale: locale?.code,
         }),
     },
-    preview: (data, { req }) =>
+    preview: (data, { req, locale }) =>
       generatePreviewPath({
         slug: data?.slug as string,
         collection: 'posts',
         req,
+        locale,
       }),
     useAsTitle: 'title',
   },
@@ -69,6 +72,7 @@ export const Posts: CollectionConfig<'posts'> = {
     {
       name: 'title',
       type: 'text',
+      localized: true,
       required: true,
     },
     {
@@ -84,6 +88,7 @@ export const Posts: CollectionConfig<'posts'> = {
             {
               name: 'content',
               type: 'richText',
+              localized: true,
               editor: lexicalEditor({
                 features: ({ rootFeatures }) => {
                   return [
@@ -184,9 +189,16 @@ export const Posts: CollectionConfig<'posts'> = {
     {
       name: 'authors',
       type: 'relationship',
+      access: {
+        // Authors are credited on the posts they create but cannot change who is credited
+        create: hasRole('admin', 'editor'),
+        update: hasRole('admin', 'editor'),
+      },
       admin: {
         position: 'sidebar',
       },
+      // Credit the creator so authors can keep editing the posts they start
+      defaultValue: ({ user }) => (user ? [user.id] : []),
       hasMany: true,
       relationTo: 'users',
     },
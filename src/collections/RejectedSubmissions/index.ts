@@ -0,0 +1,47 @@
+import type { CollectionConfig } from 'payload'
+
+import { hasRole } from '../../access/hasRole'
+import { spamReasonOptions } from '../../blocks/Form/spam'
+
+export const RejectedSubmissions: CollectionConfig = {
+  slug: 'rejected-submissions',
+  access: {
+    // Written by the spam checks on form submissions only
+    create: () => false,
+    delete: hasRole('admin', 'editor'),
+    read: hasRole('admin', 'editor'),
+    update: () => false,
+  },
+  admin: {
+    defaultColumns: ['form', 'reason', 'ipHash', 'createdAt'],
+    description:
+      'Form submissions blocked as spam. Repeated attempts from one visitor share the same IP hash.',
+  },
+  fields: [
+    {
+      name: 'form',
+      type: 'relationship',
+      relationTo: 'forms',
+    },
+    {
+      name: 'reason',
+      type: 'select',
+      options: spamReasonOptions,
+      required: true,
+    },
+    {
+      name: 'ipHash',
+      type: 'text',
+      label: 'IP Hash',
+      index: true,
+    },
+    {
+      name: 'userAgent',
+      type: 'text',
+    },
+    {
+      name: 'submissionData',
+      type: 'json',
+    },
+  ],
+}
@@ -0,0 +1,46 @@
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook, Payload } from 'payload'
+
+import { revalidatePath } from 'next/cache'
+
+import { getLocaleRoutePaths } from '@/i18n/config'
+
+import type { Section } from '../../../payload-types'
+
+// Revalidates every published page that places the section
+const revalidatePagesUsingSection = async (payload: Payload, sectionID: Section['id']) => {
+  const pages = await payload.find({
+    collection: 'pages',
+    depth: 0,
+    pagination: false,
+    select: { slug: true },
+    where: {
+      and: [{ 'layout.section': { equals: sectionID } }, { _status: { equals: 'published' } }],
+    },
+  })
+
+  pages.docs.forEach(({ slug }) => {
+    const path = slug === 'home' ? '/' : `/${slug}`
+
+    payload.logger.info(`Revalidating page at path: ${path}`)
+
+    getLocaleRoutePaths(path).forEach((localePath) => revalidatePath(localePath))
+  })
+}
+
+export const revalidateSection: CollectionAfterChangeHook<Section> = async ({
+  doc,
+  req: { payload, context },
+}) => {
+  if (!context.disableRevalidate) await revalidatePagesUsingSection(payload, doc.id)
+
+  return doc
+}
+
+export const revalidateSectionDelete: CollectionAfterDeleteHook<Section> = async ({
+  doc,
+  req: { payload, context },
+}) => {
+  if (!context.disableRevalidate) await revalidatePagesUsingSection(payload, doc.id)
+
+  return doc
+}
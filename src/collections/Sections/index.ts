@@ -0,0 +1,47 @@
+import type { CollectionConfig } from 'payload'
+
+import { anyone } from '../../access/anyone'
+import { hasRole } from '../../access/hasRole'
+import { Archive } from '../../blocks/ArchiveBlock/config'
+import { CallToAction } from '../../blocks/CallToAction/config'
+import { Content } from '../../blocks/Content/config'
+import { FormBlock } from '../../blocks/Form/config'
+import { MediaBlock } from '../../blocks/MediaBlock/config'
+import { ScrollBlock } from '../../blocks/ScrollBlock/config'
+import { Testimonial } from '../../blocks/Testimonial/config'
+import { revalidateSection, revalidateSectionDelete } from './hooks/revalidateSection'
+
+export const Sections: CollectionConfig<'sections'> = {
+  slug: 'sections',
+  access: {
+    create: hasRole('admin', 'editor'),
+    delete: hasRole('admin', 'editor'),
+    read: anyone,
+    update: hasRole('admin', 'editor'),
+  },
+  admin: {
+    defaultColumns: ['title', 'updatedAt'],
+    description:
+      'Blocks shared by several pages. Add one to a page with the Reusable Section block.',
+    useAsTitle: 'title',
+  },
+  fields: [
+    {
+      name: 'title',
+      type: 'text',
+      required: true,
+    },
+    {
+      name: 'block',
+      type: 'blocks',
+      blocks: [CallToAction, Content, MediaBlock, Archive, FormBlock, ScrollBlock, Testimonial],
+      maxRows: 1,
+      minRows: 1,
+      required: true,
+    },
+  ],
+  hooks: {
+    afterChange: [revalidateSection],
+    afterDelete: [revalidateSectionDelete],
+  },
+}
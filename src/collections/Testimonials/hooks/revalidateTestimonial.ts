@@ -0,0 +1,79 @@
+import type { CollectionAfterChangeHook, CollectionAfterDeleteHook, Payload, Where } from 'payload'
+
+import { revalidatePath } from 'next/cache'
+
+import { getLocaleRoutePaths } from '@/i18n/config'
+
+import type { Testimonial } from '../../../payload-types'
+
+/**
+ * Revalidates every published page that can show the testimonial: blocks that select it,
+ * blocks that pull testimonials by tag, either on the page or nested in a scroll block, and
+ * reusable sections holding any of those
+ */
+const revalidatePagesShowingTestimonial = async (
+  payload: Payload,
+  testimonialID: Testimonial['id'],
+) => {
+  const sections = await payload.find({
+    collection: 'sections',
+    depth: 0,
+    pagination: false,
+    select: {},
+    where: {
+      or: [
+        { 'block.testimonials': { in: [testimonialID] } },
+        { 'block.populateBy': { equals: 'tag' } },
+        { 'block.content.testimonials': { in: [testimonialID] } },
+        { 'block.content.populateBy': { equals: 'tag' } },
+      ],
+    },
+  })
+
+  const showsTestimonial: Where[] = [
+    { 'layout.testimonials': { in: [testimonialID] } },
+    { 'layout.populateBy': { equals: 'tag' } },
+    { 'layout.content.testimonials': { in: [testimonialID] } },
+    { 'layout.content.populateBy': { equals: 'tag' } },
+  ]
+
+  if (sections.docs.length > 0) {
+    showsTestimonial.push({ 'layout.section': { in: sections.docs.map(({ id }) => id) } })
+  }
+
+  const pages = await payload.find({
+    collection: 'pages',
+    depth: 0,
+    pagination: false,
+    select: { slug: true },
+    where: {
+      and: [{ or: showsTestimonial }, { _status: { equals: 'published' } }],
+    },
+  })
+
+  pages.docs.forEach(({ slug }) => {
+    const path = slug === 'home' ? '/' : `/${slug}`
+
+    payload.logger.info(`Revalidating page at path: ${path}`)
+
+    getLocaleRoutePaths(path).forEach((localePath) => revalidatePath(localePath))
+  })
+}
+
+export const revalidateTestimonial: CollectionAfterChangeHook<Testimonial> = async ({
+  doc,
+  req: { payload, context },
+}) => {
+  if (!context.disableRevalidate) await revalidatePagesShowingTestimonial(payload, doc.id)
+
+  return doc
+}
+
+export const revalidateTestimonialDelete: CollectionAfterDeleteHook<Testimonial> = async ({
+  doc,
+  req: { payload, context },
+}) => {
+  if (!context.disableRevalidate) await revalidatePagesShowingTestimonial(payload, doc.id)
+
+  return doc
+}
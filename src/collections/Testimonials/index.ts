@@ -0,0 +1,138 @@
+import type { CollectionConfig } from 'payload'
+
+import { authenticatedOrApproved } from '../../access/authenticatedOrApproved'
+import { hasRole } from '../../access/hasRole'
+import { cardMediaFields } from '../../blocks/Testimonial/fields'
+import { testimonialIndustries } from '../../fields/testimonialIndustries'
+import { revalidateTestimonial, revalidateTestimonialDelete } from './hooks/revalidateTestimonial'
+
+export const Testimonials: CollectionConfig<'testimonials'> = {
+  slug: 'testimonials',
+  access: {
+    create: hasRole('admin', 'editor'),
+    delete: hasRole('admin', 'editor'),
+    read: authenticatedOrApproved,
+    update: hasRole('admin', 'editor'),
+  },
+  defaultPopulate: {
+    author: true,
+    avatar: true,
+    cardBackground: true,
+    company: true,
+    hoverBackground: true,
+    hoverVideoUrl: true,
+    metric: true,
+    modalMedia: true,
+    quote: true,
+    status: true,
+    title: true,
+    videoUrl: true,
+  },
+  admin: {
+    defaultColumns: ['author', 'company', 'industries', 'status', 'updatedAt'],
+    description:
+      'Quotes shared by every Testimonial block. Only approved testimonials are shown on the site.',
+    useAsTitle: 'author',
+  },
+  fields: [
+    {
+      name: 'quote',
+      type: 'textarea',
+      localized: true,
+      required: true,
+    },
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'author',
+          type: 'text',
+          label: 'Author Name',
+          required: true,
+          admin: {
+            width: '50%',
+          },
+        },
+        {
+          name: 'title',
+          type: 'text',
+          localized: true,
+          label: 'Title/Position',
+          admin: {
+            width: '50%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'company',
+      type: 'text',
+    },
+    {
+      name: 'avatar',
+      type: 'upload',
+      label: 'Avatar Image',
+      relationTo: 'media',
+    },
+    {
+      name: 'metric',
+      type: 'text',
+      localized: true,
+      label: 'Metric (optional)',
+      admin: {
+        description: 'Optional metric or stat to display',
+      },
+    },
+    {
+      name: 'videoUrl',
+      type: 'text',
+      label: 'Video URL (optional)',
+      admin: {
+        description: 'Optional video URL for modal playback',
+      },
+    },
+    {
+      type: 'collapsible',
+      label: 'Card Media',
+      admin: {
+        initCollapsed: true,
+      },
+      fields: cardMediaFields,
+    },
+    {
+      ...testimonialIndustries,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      defaultValue: 'pending',
+      index: true,
+      options: [
+        {
+          label: 'Pending Approval',
+          value: 'pending',
+        },
+        {
+          label: 'Approved',
+          value: 'approved',
+        },
+        {
+          label: 'Retired',
+          value: 'retired',
+        },
+      ],
+      required: true,
+      admin: {
+        description: 'Retire a testimonial to remove it from every page at once.',
+        position: 'sidebar',
+      },
+    },
+  ],
+  hooks: {
+    afterChange: [revalidateTestimonial],
+    afterDelete: [revalidateTestimonialDelete],
+  },
+}
@@ -0,0 +1,44 @@
+import type { Payload } from 'payload'
+
+import { isRole } from '../../access/checkRole'
+
+/**
+ * Users created before roles existed have none, so nobody could edit content or assign roles.
+ * Gives them `USER_BACKFILL_ROLE` (admin by default) when Payload starts; users with roles are
+ * left alone, so this only ever changes anything once.
+ */
+export const backfillUserRoles = async (
+  payload: Pick<Payload, 'find' | 'logger' | 'update'>,
+  role: string = process.env.USER_BACKFILL_ROLE || 'admin',
+): Promise<number> => {
+  if (!isRole(role)) {
+    payload.logger.error(`USER_BACKFILL_ROLE "${role}" is not a role, user roles not backfilled`)
+    return 0
+  }
+
+  const { docs: users } = await payload.find({
+    collection: 'users',
+    depth: 0,
+    overrideAccess: true,
+    pagination: false,
+    select: { roles: true },
+  })
+
+  const usersWithoutRoles = users.filter((user) => !user.roles?.length)
+
+  for (const user of usersWithoutRoles) {
+    await payload.update({
+      collection: 'users',
+      id: user.id,
+      data: { roles: [role] },
+      depth: 0,
+      overrideAccess: true,
+    })
+  }
+
+  if (usersWithoutRoles.length > 0) {
+    payload.logger.info(`Gave ${usersWithoutRoles.length} user(s) without roles the ${role} role`)
+  }
+
+  return usersWithoutRoles.length
+}
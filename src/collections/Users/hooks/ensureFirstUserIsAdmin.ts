@@ -0,0 +1,21 @@
+import type { FieldHook } from 'payload'
+
+import type { User } from '@/payload-types'
+
+// The first user is created before anyone can assign roles, so make them an admin
+export const ensureFirstUserIsAdmin: FieldHook<User, User['roles'] | undefined> = async ({
+  operation,
+  req,
+  value,
+}) => {
+  if (operation !== 'create') return value
+
+  const { totalDocs } = await req.payload.count({
+    collection: 'users',
+    req,
+  })
+
+  if (totalDocs === 0) return ['admin']
+
+  return value
+}
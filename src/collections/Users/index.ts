@@ -1,18 +1,21 @@
 import type { CollectionConfig } from 'payload'
 
+import { adminsOrSelf } from '../../access/adminsOrSelf'
 import { authenticated } from '../../access/authenticated'
+import { hasRole } from '../../access/hasRole'
+import { ensureFirstUserIsAdmin } from './hooks/ensureFirstUserIsAdmin'
 
 export const Users: CollectionConfig = {
   slug: 'users',
   access: {
     admin: authenticated,
-    create: authenticated,
-    delete: authenticated,
-    read: authenticated,
-    update: authenticated,
+    create: hasRole('admin'),
+    delete: hasRole('admin'),
+    read: adminsOrSelf,
+    update: adminsOrSelf,
   },
   admin: {
-    defaultColumns: ['name', 'email'],
+    defaultColumns: ['name', 'email', 'roles'],
     useAsTitle: 'name',
   },
   auth: true,
@@ -21,6 +24,45 @@ export const Users: CollectionConfig = {
       name: 'name',
       type: 'text',
     },
+    {
+      name: 'roles',
+      type: 'select',
+      access: {
+        // Users can update their own account, but only admins can change roles
+        create: hasRole('admin'),
+        update: hasRole('admin'),
+      },
+      admin: {
+        position: 'sidebar',
+        description:
+          'Editors manage pages, posts and forms. Authors can only edit their own posts. Recruiters can read form submissions.',
+      },
+      defaultValue: ['author'],
+      hasMany: true,
+      hooks: {
+        beforeChange: [ensureFirstUserIsAdmin],
+      },
+      options: [
+        {
+          label: 'Admin',
+          value: 'admin',
+        },
+        {
+          label: 'Editor',
+          value: 'editor',
+        },
+        {
+          label: 'Author',
+          value: 'author',
+        },
+        {
+          label: 'Recruiter',
+          value: 'recruiter',
+        },
+      ],
+      required: true,
+      saveToJWT: true,
+    },
   ],
   timestamps: true,
 }
@@ -0,0 +1,34 @@
+import { APIError, type Endpoint } from 'payload'
+
+import { hasRole } from '../../../access/hasRole'
+
+// Queues a delivery again, e.g. after the receiving system has been fixed
+export const replayWebhookDelivery: Endpoint = {
+  path: '/:id/replay',
+  method: 'post',
+  handler: async (req) => {
+    const { payload, routeParams } = req
+
+    if (!hasRole('admin', 'editor')({ req })) {
+      throw new APIError('You are not allowed to replay webhooks.', 403)
+    }
+
+    const delivery = await payload.update({
+      collection: 'webhook-deliveries',
+      id: String(routeParams?.id),
+      data: {
+        error: null,
+        status: 'queued',
+      },
+      req,
+    })
+
+    await payload.jobs.queue({
+      input: { delivery: delivery.id },
+      req,
+      task: 'deliverWebhook',
+    })
+
+    return Response.json({ message: 'Webhook queued for delivery.' })
+  },
+}
@@ -0,0 +1,124 @@
+import type { CollectionConfig } from 'payload'
+
+import { hasRole } from '../../access/hasRole'
+import { replayWebhookDelivery } from './endpoints/replay'
+
+export const WebhookDeliveries: CollectionConfig = {
+  slug: 'webhook-deliveries',
+  access: {
+    // Deliveries are written by the form submission hooks and the job queue only
+    create: () => false,
+    delete: hasRole('admin'),
+    read: hasRole('admin', 'editor'),
+    update: () => false,
+  },
+  admin: {
+    defaultColumns: ['url', 'status', 'responseStatus', 'attempts', 'createdAt'],
+    description: 'Every webhook request sent for a form submission, with its delivery status.',
+    useAsTitle: 'url',
+  },
+  endpoints: [replayWebhookDelivery],
+  fields: [
+    {
+      name: 'url',
+      type: 'text',
+      label: 'URL',
+      required: true,
+    },
+    {
+      name: 'body',
+      type: 'json',
+      required: true,
+    },
+    {
+      name: 'replay',
+      type: 'ui',
+      admin: {
+        components: {
+          Field: '@/components/admin/ReplayWebhookButton',
+        },
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'status',
+      type: 'select',
+      defaultValue: 'queued',
+      options: [
+        {
+          label: 'Queued',
+          value: 'queued',
+        },
+        {
+          label: 'Delivered',
+          value: 'delivered',
+        },
+        {
+          label: 'Failed',
+          value: 'failed',
+        },
+      ],
+      required: true,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'responseStatus',
+      type: 'number',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'attempts',
+      type: 'number',
+      defaultValue: 0,
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'deliveredAt',
+      type: 'date',
+      admin: {
+        date: {
+          pickerAppearance: 'dayAndTime',
+        },
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'error',
+      type: 'textarea',
+      admin: {
+        condition: (_, siblingData) => siblingData?.status === 'failed',
+        description: 'The error from the last failed attempt',
+      },
+    },
+    {
+      name: 'form',
+      type: 'relationship',
+      relationTo: 'forms',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      name: 'submission',
+      type: 'relationship',
+      relationTo: 'form-submissions',
+      admin: {
+        position: 'sidebar',
+      },
+    },
+    {
+      // ID of the webhook row on the form, used to look up its current secret
+      name: 'webhookID',
+      type: 'text',
+      admin: {
+        hidden: true,
+      },
+    },
+  ],
+}
@@ -8,6 +8,7 @@ import {
   PaginationNext,
   PaginationPrevious,
 } from '@/components/ui/pagination'
+import { useLocalizePath } from '@/i18n/useLocale'
 import { cn } from '@/utilities/ui'
 import { useRouter } from 'next/navigation'
 import React from 'react'
@@ -18,6 +19,7 @@ export const Pagination: React.FC<{
   totalPages: number
 }> = (props) => {
   const router = useRouter()
+  const localizePath = useLocalizePath()
 
   const { className, page, totalPages } = props
   const hasNextPage = page < totalPages
@@ -34,7 +36,7 @@ export const Pagination: React.FC<{
             <PaginationPrevious
               disabled={!hasPrevPage}
               onClick={() => {
-                router.push(`/posts/page/${page - 1}`)
+                router.push(localizePath(`/posts/page/${page - 1}`))
               }}
             />
           </PaginationItem>
@@ -49,7 +51,7 @@ export const Pagination: React.FC<{
             <PaginationItem>
               <PaginationLink
                 onClick={() => {
-                  router.push(`/posts/page/${page - 1}`)
+                  router.push(localizePath(`/posts/page/${page - 1}`))
                 }}
               >
                 {page - 1}
@@ -61,7 +63,7 @@ export const Pagination: React.FC<{
             <PaginationLink
               isActive
               onClick={() => {
-                router.push(`/posts/page/${page}`)
+                router.push(localizePath(`/posts/page/${page}`))
               }}
             >
               {page}
@@ -72,7 +74,7 @@ export const Pagination: React.FC<{
             <PaginationItem>
               <PaginationLink
                 onClick={() => {
-                  router.push(`/posts/page/${page + 1}`)
+                  router.push(localizePath(`/posts/page/${page + 1}`))
                 }}
               >
                 {page + 1}
@@ -90,7 +92,7 @@ export const Pagination: React.FC<{
             <PaginationNext
               disabled={!hasNextPage}
               onClick={() => {
-                router.push(`/posts/page/${page + 1}`)
+                router.push(localizePath(`/posts/page/${page + 1}`))
               }}
             />
           </PaginationItem>
@@ -0,0 +1,65 @@
+import type { ThemeValues } from '@/Theme/tokens'
+
+import { resolveThemeColor } from '@/Theme/tokens'
+import {
+  contrastLevel,
+  contrastRatio,
+  gradientColors,
+  parseColor,
+  type ContrastLevel,
+} from '@/utilities/color'
+
+// A plain color field, or a background group such as the scroll block's `initialBackground`
+export type ContrastBackground =
+  | string
+  | {
+      color?: string | null
+      gradient?: string | null
+      type?: string | null
+    }
+  | null
+  | undefined
+
+export type ContrastResult = {
+  level: ContrastLevel
+  ratio: number
+}
+
+// Colors the text may sit on. Image and video backgrounds can't be checked
+const backgroundColors = (background: ContrastBackground): string[] => {
+  if (!background) return []
+  if (typeof background === 'string') return [background]
+
+  switch (background.type) {
+    case 'COLOR':
+      return background.color ? [background.color] : []
+    case 'GRADIENT':
+      return gradientColors(background.gradient)
+    default:
+      return []
+  }
+}
+
+/**
+ * Contrast of a text color against its background. Gradients are checked stop by stop and
+ * the weakest stop counts, since the text can end up over any of them
+ */
+export const checkContrast = (
+  color: string | null | undefined,
+  background: ContrastBackground,
+  theme?: ThemeValues | null,
+): ContrastResult | null => {
+  const foreground = color ? parseColor(resolveThemeColor(color, theme)) : null
+  if (!foreground) return null
+
+  const ratios = backgroundColors(background)
+    .map((stop) => parseColor(resolveThemeColor(stop, theme)))
+    .filter((stop) => stop !== null)
+    .map((stop) => contrastRatio(foreground, stop))
+
+  if (ratios.length === 0) return null
+
+  const ratio = Math.min(...ratios)
+
+  return { level: contrastLevel(ratio), ratio }
+}
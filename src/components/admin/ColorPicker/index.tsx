@@ -1,7 +1,20 @@
 'use client'
 
-import React from 'react'
-import { useField } from '@payloadcms/ui'
+import React, { useEffect, useRef, useState } from 'react'
+import { toast, useConfig, useField, useFormFields, useFormProcessing } from '@payloadcms/ui'
+
+import type { Theme } from '@/payload-types'
+
+import { getThemeSwatches, resolveThemeColor } from '@/Theme/tokens'
+import { parseColor, toHex } from '@/utilities/color'
+import { checkContrast } from './contrast'
+
+const levelColors = {
+  AAA: '#047857',
+  AA: '#047857',
+  'AA Large': '#b45309',
+  Fail: '#b91c1c',
+}
 
 interface ColorPickerProps {
   path: string
@@ -9,35 +22,100 @@ interface ColorPickerProps {
   label?: string
 }
 
-export const ColorPicker: React.FC<ColorPickerProps> = ({
-  path,
-  field,
-  label,
-}) => {
+export const ColorPicker: React.FC<ColorPickerProps> = ({ path, field, label }) => {
+  const {
+    config: {
+      routes: { api: apiRoute },
+      serverURL,
+    },
+  } = useConfig()
   const colorField = useField<string>({ path })
   const value = colorField.value || '#000000'
+  const [theme, setTheme] = useState<Theme | null>(null)
+
+  // Brand colors come from the theme global, so the swatches follow a rebrand
+  useEffect(() => {
+    let cancelled = false
+
+    fetch(`${serverURL}${apiRoute}/globals/theme?depth=0`, { credentials: 'include' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((doc: Theme | null) => {
+        if (!cancelled) setTheme(doc)
+      })
+      .catch(() => {})
+
+    return () => {
+      cancelled = true
+    }
+  }, [apiRoute, serverURL])
+
+  // The theme global's own fields hold the colors themselves, not references to them
+  const isThemeField = Boolean(field?.admin?.custom?.themeToken)
+  const swatches = getThemeSwatches(theme)
+
+  // Text colors name the sibling background they are read on, e.g.
+  // `custom: { contrastWith: { field: 'backgroundColor', label: 'Background Color' } }`
+  const contrastWith: { field: string; label: string } | undefined =
+    field?.admin?.custom?.contrastWith
+  const backgroundPath = contrastWith
+    ? [...path.split('.').slice(0, -1), contrastWith.field].join('.')
+    : ''
+  const backgroundValue = useFormFields(([fields]) => fields[backgroundPath]?.value)
+  const backgroundType = useFormFields(([fields]) => fields[`${backgroundPath}.type`]?.value)
+  const backgroundColor = useFormFields(([fields]) => fields[`${backgroundPath}.color`]?.value)
+  const backgroundGradient = useFormFields(
+    ([fields]) => fields[`${backgroundPath}.gradient`]?.value,
+  )
+
+  const contrast = contrastWith
+    ? checkContrast(
+        colorField.value,
+        typeof backgroundValue === 'string'
+          ? backgroundValue
+          : {
+              color: backgroundColor as string | undefined,
+              gradient: backgroundGradient as string | undefined,
+              type: backgroundType as string | undefined,
+            },
+        theme,
+      )
+    : null
+
+  // Warn on save, without blocking it, when the text fails WCAG AA for normal text
+  const processing = useFormProcessing()
+  const warnedRef = useRef(false)
+
+  useEffect(() => {
+    if (!processing) {
+      warnedRef.current = false
+      return
+    }
+
+    if (warnedRef.current || !contrast || contrast.ratio >= 4.5) return
+    warnedRef.current = true
+
+    toast.warning(
+      `${field?.label || 'Color'} has a contrast of ${contrast.ratio.toFixed(2)}:1 against the ${contrastWith?.label}, below the WCAG AA minimum of 4.5:1.`,
+    )
+  }, [processing, contrast, contrastWith, field?.label])
 
   const handleColorChange = (newValue: string) => {
     colorField.setValue(newValue)
   }
 
-  // Extract hex color from value for the color input
-  // If value is a hex color, use it; otherwise default to #000000
+  // The color input only takes #rrggbb, so named, rgb() and hsl() values are converted
+  // and theme references resolved. Unparseable values show as black
   const getHexColor = (colorValue: string): string => {
-    // Check if it's a hex color
-    if (/^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(colorValue)) {
-      return colorValue
-    }
-    // Try to convert CSS color names to hex (basic conversion)
-    // For now, just return a default if it's not a hex
-    return '#000000'
+    const parsed = parseColor(resolveThemeColor(colorValue, theme))
+    return parsed ? toHex(parsed) : '#000000'
   }
 
   const hexColor = getHexColor(value)
+  const linkedSwatch = swatches.find((swatch) => swatch.reference === value.trim())
 
   return (
     <div style={{ marginBottom: '1rem' }}>
-      {label && (
+      {(label || field?.label) && (
         <label
           style={{
             display: 'block',
@@ -46,7 +124,7 @@ export const ColorPicker: React.FC<ColorPickerProps> = ({
             fontSize: '14px',
           }}
         >
-          {label}
+          {label || field?.label}
         </label>
       )}
       <div
@@ -73,7 +151,7 @@ export const ColorPicker: React.FC<ColorPickerProps> = ({
           type="text"
           value={value}
           onChange={(e) => handleColorChange(e.target.value)}
-          placeholder="#000000 or color name"
+          placeholder="#000000, rgb(), hsl() or color name"
           style={{
             flex: 1,
             padding: '0.5rem',
@@ -84,6 +162,75 @@ export const ColorPicker: React.FC<ColorPickerProps> = ({
           }}
         />
       </div>
+      {!isThemeField && (
+        <div
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            gap: '0.375rem',
+            marginTop: '0.5rem',
+          }}
+        >
+          {swatches.map((swatch) => (
+            <button
+              key={swatch.reference}
+              type="button"
+              aria-label={`Use ${swatch.label}`}
+              title={`${swatch.label} (${swatch.value})`}
+              onClick={() => handleColorChange(swatch.reference)}
+              style={{
+                width: '24px',
+                height: '24px',
+                borderRadius: '50%',
+                border:
+                  linkedSwatch?.reference === swatch.reference
+                    ? '2px solid #000'
+                    : '1px solid #ddd',
+                backgroundColor: swatch.value,
+                cursor: 'pointer',
+                padding: 0,
+              }}
+            />
+          ))}
+        </div>
+      )}
+      {contrast && (
+        <div
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '0.5rem',
+            marginTop: '0.5rem',
+            fontSize: '12px',
+            color: '#666',
+          }}
+        >
+          <span
+            style={{
+              padding: '0.125rem 0.5rem',
+              borderRadius: '9999px',
+              backgroundColor: levelColors[contrast.level],
+              color: '#fff',
+              fontWeight: 600,
+            }}
+          >
+            {contrast.level === 'Fail' ? 'Fails WCAG' : contrast.level}
+          </span>
+          {contrast.ratio.toFixed(2)}:1 against the {contrastWith?.label}
+          {contrast.level === 'AA Large' && ' (large text only)'}
+        </div>
+      )}
+      {linkedSwatch && (
+        <div
+          style={{
+            marginTop: '0.5rem',
+            fontSize: '12px',
+            color: '#666',
+          }}
+        >
+          Linked to the theme&apos;s {linkedSwatch.label}, so it follows brand changes.
+        </div>
+      )}
       {field?.admin?.description && (
         <div
           style={{
@@ -100,4 +247,3 @@ export const ColorPicker: React.FC<ColorPickerProps> = ({
 }
 
 export default ColorPicker
-
@@ -0,0 +1,63 @@
+'use client'
+
+import type { UIFieldClientComponent } from 'payload'
+
+import { Button, toast, useDocumentInfo, useFormFields, useFormModified } from '@payloadcms/ui'
+import React, { useCallback, useState } from 'react'
+
+// Shown inside a Reusable Section block to replace it with an editable copy of the section
+const DetachSectionButton: UIFieldClientComponent = ({ path }) => {
+  const { collectionSlug, id: pageID } = useDocumentInfo()
+  const isModified = useFormModified()
+  const blockPath = path.split('.').slice(0, -1).join('.')
+  const blockID = useFormFields(([fields]) => fields[`${blockPath}.id`]?.value) as
+    | string
+    | undefined
+  const section = useFormFields(([fields]) => fields[`${blockPath}.section`]?.value)
+  const [isDetaching, setIsDetaching] = useState(false)
+
+  const detach = useCallback(async () => {
+    if (isModified) {
+      toast.warning('Save your changes before detaching the section.')
+      return
+    }
+
+    if (
+      !window.confirm(
+        'Replace this block with a copy of the section? Later changes to the section will no longer appear on this page.',
+      )
+    ) {
+      return
+    }
+
+    setIsDetaching(true)
+
+    try {
+      const res = await fetch(`/api/pages/${pageID}/detach-section`, {
+        body: JSON.stringify({ blockID }),
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        method: 'POST',
+      })
+
+      if (!res.ok) throw new Error()
+
+      // Reload so the editor shows the copied block from the new draft
+      window.location.reload()
+    } catch {
+      toast.error('Could not detach the section.')
+      setIsDetaching(false)
+    }
+  }, [blockID, isModified, pageID])
+
+  // Only saved pages with a chosen section can be detached; templates are edited as they are
+  if (collectionSlug !== 'pages' || !pageID || !blockID || !section) return null
+
+  return (
+    <Button buttonStyle="secondary" disabled={isDetaching} onClick={detach} size="small">
+      {isDetaching ? 'Detaching...' : 'Detach into page'}
+    </Button>
+  )
+}
+
+export default DetachSectionButton
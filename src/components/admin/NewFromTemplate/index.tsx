@@ -0,0 +1,105 @@
+'use client'
+
+import { Button, toast, useConfig } from '@payloadcms/ui'
+import { useRouter } from 'next/navigation'
+import { formatAdminURL } from 'payload/shared'
+import React, { useCallback, useEffect, useState } from 'react'
+
+import './index.scss'
+
+const baseClass = 'new-from-template'
+
+type TemplateOption = { id: number | string; title: string }
+
+// Shown above the Pages list to start a page from a page template
+const NewFromTemplate: React.FC = () => {
+  const {
+    config: {
+      routes: { admin: adminRoute, api: apiRoute },
+      serverURL,
+    },
+  } = useConfig()
+  const router = useRouter()
+  const [templates, setTemplates] = useState<TemplateOption[]>([])
+  const [templateID, setTemplateID] = useState('')
+  const [title, setTitle] = useState('')
+  const [isCreating, setIsCreating] = useState(false)
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const res = await fetch(
+          `${serverURL}${apiRoute}/page-templates?depth=0&limit=100&sort=title&select[title]=true`,
+          { credentials: 'include' },
+        )
+        if (!res.ok) throw new Error()
+
+        setTemplates((await res.json()).docs)
+      } catch {
+        toast.error('Could not load the page templates.')
+      }
+    }
+
+    void loadTemplates()
+  }, [apiRoute, serverURL])
+
+  const create = useCallback(
+    async (event: React.FormEvent) => {
+      event.preventDefault()
+      setIsCreating(true)
+
+      try {
+        const res = await fetch(`${serverURL}${apiRoute}/pages/from-template`, {
+          body: JSON.stringify({ templateID, title }),
+          credentials: 'include',
+          headers: { 'Content-Type': 'application/json' },
+          method: 'POST',
+        })
+        const json = await res.json()
+
+        if (!res.ok) throw new Error(json.errors?.[0]?.message)
+
+        router.push(formatAdminURL({ adminRoute, path: `/collections/pages/${json.id}` }))
+      } catch (err) {
+        toast.error(
+          err instanceof Error && err.message ? err.message : 'Could not create the page.',
+        )
+        setIsCreating(false)
+      }
+    },
+    [adminRoute, apiRoute, router, serverURL, templateID, title],
+  )
+
+  if (templates.length === 0) return null
+
+  return (
+    <form className={baseClass} onSubmit={create}>
+      <strong>New from template</strong>
+      <select
+        aria-label="Template"
+        onChange={(event) => setTemplateID(event.target.value)}
+        required
+        value={templateID}
+      >
+        <option value="">Choose a template</option>
+        {templates.map(({ id, title }) => (
+          <option key={id} value={id}>
+            {title}
+          </option>
+        ))}
+      </select>
+      <input
+        aria-label="Page title"
+        onChange={(event) => setTitle(event.target.value)}
+        placeholder="Page title"
+        required
+        value={title}
+      />
+      <Button buttonStyle="secondary" disabled={isCreating} size="small" type="submit">
+        {isCreating ? 'Creating...' : 'Create page'}
+      </Button>
+    </form>
+  )
+}
+
+export default NewFromTemplate
@@ -0,0 +1,42 @@
+'use client'
+
+import { Button, toast, useDocumentInfo } from '@payloadcms/ui'
+import { useRouter } from 'next/navigation'
+import React, { useCallback, useState } from 'react'
+
+// Sidebar action on a webhook delivery that sends it again
+const ReplayWebhookButton: React.FC = () => {
+  const { id } = useDocumentInfo()
+  const router = useRouter()
+  const [isQueueing, setIsQueueing] = useState(false)
+
+  const replay = useCallback(async () => {
+    setIsQueueing(true)
+
+    try {
+      const res = await fetch(`/api/webhook-deliveries/${id}/replay`, {
+        credentials: 'include',
+        method: 'POST',
+      })
+
+      if (!res.ok) throw new Error()
+
+      toast.success('Webhook queued for delivery.')
+      router.refresh()
+    } catch {
+      toast.error('Could not replay this webhook.')
+    } finally {
+      setIsQueueing(false)
+    }
+  }, [id, router])
+
+  if (!id) return null
+
+  return (
+    <Button buttonStyle="secondary" disabled={isQueueing} onClick={replay} size="small">
+      {isQueueing ? 'Queueing...' : 'Replay'}
+    </Button>
+  )
+}
+
+export default ReplayWebhookButton
@@ -0,0 +1,142 @@
+'use client'
+
+import React from 'react'
+
+import { resolveThemeTokens, themeColor } from '@/Theme/tokens'
+
+const baseClass = 'scroll-timeline-editor'
+
+type BackgroundValue = { color?: unknown; gradient?: unknown; type?: unknown }
+
+type PreviewProps = {
+  // Block field value by path relative to the block, e.g. `background.type`
+  getValue: (path: string) => unknown
+  // Track values at the scrubbed progress, see src/scroll/timeline.ts
+  sample: Record<string, number>
+  variant: string
+}
+
+// CSS for a color or gradient background group; media backgrounds show the fallback
+const backgroundCSS = (background: BackgroundValue, fallback: string): string => {
+  if (background.type === 'COLOR' && typeof background.color === 'string') return background.color
+  if (background.type === 'GRADIENT' && typeof background.gradient === 'string')
+    return background.gradient
+  return fallback
+}
+
+const readBackground = (getValue: PreviewProps['getValue'], path: string): BackgroundValue => ({
+  color: getValue(`${path}.color`),
+  gradient: getValue(`${path}.gradient`),
+  type: getValue(`${path}.type`),
+})
+
+const TitleScalePreview: React.FC<PreviewProps> = ({ getValue, sample }) => {
+  const settings = (path: string) => getValue(`titleScaleSettings.${path}`)
+  const text = (path: string, fallback: string) => {
+    const value = settings(path)
+    return typeof value === 'string' && value ? value : fallback
+  }
+
+  const landingZoneHeight = Number(settings('landingZone.height') ?? 20) || 20
+  const landingZoneEnabled = settings('landingZone.enabled') !== false
+  // Vertical offsets are in vh, so percentages of the 100vh stage
+  const pushedBy = (1 - sample.landingZone) * landingZoneHeight * 2
+
+  return (
+    <>
+      <div
+        className={`${baseClass}__layer`}
+        style={{
+          background: backgroundCSS(
+            readBackground(getValue, 'titleScaleSettings.titleAnimation.initialBackground'),
+            `linear-gradient(135deg, ${themeColor('darkNavy')} 0%, #1a3a6b 50%, #2c5aa0 100%)`,
+          ),
+          top: `-${pushedBy}%`,
+        }}
+      />
+      <div
+        className={`${baseClass}__layer`}
+        style={{
+          background: backgroundCSS(
+            readBackground(getValue, 'titleScaleSettings.titleAnimation.finalBackground'),
+            'linear-gradient(to bottom right, #eff6ff, #ffffff)',
+          ),
+          opacity: sample.finalBackground,
+          top: `-${pushedBy}%`,
+        }}
+      />
+      <div className={`${baseClass}__title`} style={{ top: `${sample.titleY}%` }}>
+        <div style={{ position: 'relative', transform: `scale(${sample.scale})` }}>
+          <span
+            style={{
+              color: text('titleAnimation.textColor', themeColor('white')),
+              opacity: 1 - sample.darkText,
+            }}
+          >
+            {text('title', 'Our Services')}
+          </span>
+          <span
+            style={{
+              color: text('titleAnimation.darkTextColor', themeColor('darkNavy')),
+              inset: 0,
+              opacity: sample.darkText,
+              position: 'absolute',
+            }}
+          >
+            {text('title', 'Our Services')}
+          </span>
+        </div>
+        <p
+          style={{
+            color: text('titleAnimation.darkTextColor', themeColor('darkNavy')),
+            opacity: sample.subtitle,
+          }}
+        >
+          {text('subtitle', 'We do more than answering your calls')}
+        </p>
+      </div>
+      {landingZoneEnabled && (
+        <div
+          className={`${baseClass}__landing-zone`}
+          style={{
+            background: text('landingZone.backgroundColor', 'transparent'),
+            height: `${landingZoneHeight * 2}%`,
+            transform: `translateY(${sample.landingZone * 100}%)`,
+          }}
+        />
+      )}
+    </>
+  )
+}
+
+const ZoomPreview: React.FC<PreviewProps> = ({ getValue, sample }) => (
+  <div
+    className={`${baseClass}__section`}
+    style={{
+      background: backgroundCSS(readBackground(getValue, 'background'), themeColor('softGray')),
+      borderRadius: `${sample.radius}px`,
+      transform: `scale(${sample.scale})`,
+    }}
+  >
+    Section
+  </div>
+)
+
+const previews: Record<string, React.FC<PreviewProps>> = {
+  'title-scale-scroll': TitleScalePreview,
+  zoom: ZoomPreview,
+}
+
+/**
+ * Sketch of the variant at the scrubbed progress. The stage stands in for the viewport and
+ * carries the default brand tokens, so theme color references resolve inside the admin
+ */
+export const TimelinePreview: React.FC<PreviewProps> = (props) => {
+  const VariantPreview = previews[props.variant]
+
+  return (
+    <div className={`${baseClass}__stage`} style={resolveThemeTokens() as React.CSSProperties}>
+      {VariantPreview && <VariantPreview {...props} />}
+    </div>
+  )
+}
@@ -0,0 +1,243 @@
+'use client'
+
+import type { UIFieldClientComponent } from 'payload'
+
+import { useAllFormFields, useForm } from '@payloadcms/ui'
+import React, { useState } from 'react'
+
+import type { ScrollKeyframe, ScrollTimelineTrack } from '@/scroll/timeline'
+
+import {
+  getScrollTimeline,
+  keyframeFraction,
+  keyframeFromFraction,
+  readKeyframes,
+  sampleTimeline,
+  writeKeyframe,
+} from '@/scroll/timeline'
+
+import { TimelinePreview } from './Preview'
+
+import './index.scss'
+
+const baseClass = 'scroll-timeline-editor'
+
+type HandleProps = {
+  keyframe: ScrollKeyframe
+  onChange: (keyframe: ScrollKeyframe, value: number) => void
+  value: number
+}
+
+const nudgeKeys: Record<string, number> = {
+  ArrowDown: -1,
+  ArrowLeft: -1,
+  ArrowRight: 1,
+  ArrowUp: 1,
+}
+
+const formatValue = ({ unit = '' }: ScrollKeyframe, value: number) =>
+  `${Number(value.toFixed(2))}${unit}`
+
+/**
+ * Draggable keyframe handle. Value keyframes move up and down within their lane, duration
+ * keyframes sideways; arrow keys nudge by one step
+ */
+const KeyframeHandle: React.FC<HandleProps & { style: React.CSSProperties }> = ({
+  keyframe,
+  onChange,
+  style,
+  value,
+}) => {
+  const isDuration = keyframe.kind === 'duration'
+
+  const drag = (event: React.PointerEvent<HTMLButtonElement>) => {
+    if (!event.currentTarget.hasPointerCapture(event.pointerId)) return
+
+    const lane = event.currentTarget.parentElement!.getBoundingClientRect()
+    const fraction = isDuration
+      ? (event.clientX - lane.left) / lane.width
+      : 1 - (event.clientY - lane.top) / lane.height
+
+    onChange(keyframe, keyframeFromFraction(keyframe, fraction))
+  }
+
+  const nudge = (event: React.KeyboardEvent<HTMLButtonElement>) => {
+    const direction = nudgeKeys[event.key]
+    if (!direction) return
+
+    event.preventDefault()
+    onChange(keyframe, value + direction * keyframe.step)
+  }
+
+  return (
+    <button
+      aria-label={keyframe.label}
+      aria-orientation={isDuration ? 'horizontal' : 'vertical'}
+      aria-valuemax={keyframe.max}
+      aria-valuemin={keyframe.min}
+      aria-valuenow={value}
+      className={`${baseClass}__handle`}
+      onKeyDown={nudge}
+      onPointerDown={(event) => event.currentTarget.setPointerCapture(event.pointerId)}
+      onPointerMove={drag}
+      role="slider"
+      style={style}
+      title={`${keyframe.label}: ${formatValue(keyframe, value)}`}
+      type="button"
+    />
+  )
+}
+
+// Lane showing one track's curve over scroll progress with the keyframes that shape it
+const TrackLane: React.FC<{
+  keyframes: ScrollKeyframe[]
+  onChange: HandleProps['onChange']
+  progress: number
+  track: ScrollTimelineTrack
+  values: Record<string, number>
+}> = ({ keyframes, onChange, progress, track, values }) => {
+  // Keyframes on one track share a range, so the first one scales the curve
+  const [range] = keyframes
+  const points = track.stops
+    .map(
+      (stop, index) => `${stop * 100},${(1 - keyframeFraction(range, track.values[index])) * 100}`,
+    )
+    .join(' ')
+
+  return (
+    <div className={`${baseClass}__row`}>
+      <div className={`${baseClass}__labels`}>
+        {keyframes.map((keyframe) => (
+          <span key={keyframe.path}>
+            {keyframe.label} <strong>{formatValue(keyframe, values[keyframe.path])}</strong>
+          </span>
+        ))}
+      </div>
+      <div className={`${baseClass}__lane`}>
+        <svg preserveAspectRatio="none" viewBox="0 0 100 100">
+          <polyline points={points} vectorEffect="non-scaling-stroke" />
+        </svg>
+        <div className={`${baseClass}__cursor`} style={{ left: `${progress * 100}%` }} />
+        {keyframes.map((keyframe) => (
+          <KeyframeHandle
+            key={keyframe.path}
+            keyframe={keyframe}
+            onChange={onChange}
+            style={{
+              left: `${(keyframe.at ?? 0) * 100}%`,
+              top: `${(1 - keyframeFraction(keyframe, values[keyframe.path])) * 100}%`,
+            }}
+            value={values[keyframe.path]}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+// Lane for a scroll distance, the handle's position within the range sets the duration
+const DurationLane: React.FC<HandleProps> = ({ keyframe, onChange, value }) => (
+  <div className={`${baseClass}__row`}>
+    <div className={`${baseClass}__labels`}>
+      <span>
+        {keyframe.label} <strong>{formatValue(keyframe, value)}</strong>
+      </span>
+    </div>
+    <div className={`${baseClass}__lane ${baseClass}__lane--duration`}>
+      <div
+        className={`${baseClass}__duration`}
+        style={{ width: `${keyframeFraction(keyframe, value) * 100}%` }}
+      />
+      <KeyframeHandle
+        keyframe={keyframe}
+        onChange={onChange}
+        style={{ left: `${keyframeFraction(keyframe, value) * 100}%`, top: '50%' }}
+        value={value}
+      />
+    </div>
+  </div>
+)
+
+/**
+ * Timeline editor shown in the scroll block: a preview of the selected variant scrubbed by
+ * scroll progress, and keyframes that write back to the variant's settings fields
+ */
+const ScrollTimelineEditor: UIFieldClientComponent = ({ path }) => {
+  const blockPath = path.split('.').slice(0, -1).join('.')
+  const [fields, dispatchFields] = useAllFormFields()
+  const { setModified } = useForm()
+  const [progress, setProgress] = useState(0)
+
+  const variant = fields[`${blockPath}.variant`]?.value as string | undefined
+  const timeline = getScrollTimeline(variant)
+  if (!variant || !timeline) return null
+
+  const getValue = (relativePath: string) => fields[`${blockPath}.${relativePath}`]?.value
+  const values = readKeyframes(timeline, (keyframePath) =>
+    getValue(`${timeline.settingsGroup}.${keyframePath}`),
+  )
+  const tracks = timeline.tracks(values)
+
+  const setKeyframe = (keyframe: ScrollKeyframe, value: number) => {
+    const fieldPath = `${blockPath}.${timeline.settingsGroup}.${keyframe.path}`
+    const fieldValue = writeKeyframe(keyframe, value, fields[fieldPath]?.value)
+
+    // Pointer moves within one step snap to the value the field already has
+    if (fields[fieldPath]?.value === fieldValue) return
+
+    dispatchFields({ type: 'UPDATE', path: fieldPath, value: fieldValue })
+    setModified(true)
+  }
+
+  const valueKeyframes = timeline.keyframes.filter((keyframe) => keyframe.kind === 'value')
+  const trackNames = [...new Set(valueKeyframes.map((keyframe) => keyframe.track!))]
+
+  return (
+    <div className={baseClass}>
+      <div className={`${baseClass}__header`}>
+        <span className="field-label">Scroll Timeline</span>
+        <span className={`${baseClass}__hint`}>
+          Drag the keyframes or use the arrow keys. Changes are written to the settings below.
+        </span>
+      </div>
+      <TimelinePreview
+        getValue={getValue}
+        sample={sampleTimeline(timeline, values, progress)}
+        variant={variant}
+      />
+      <label className={`${baseClass}__scrub`}>
+        <span>Scroll progress {Math.round(progress * 100)}%</span>
+        <input
+          max={1}
+          min={0}
+          onChange={(event) => setProgress(Number(event.target.value))}
+          step={0.01}
+          type="range"
+          value={progress}
+        />
+      </label>
+      {trackNames.map((trackName) => (
+        <TrackLane
+          key={trackName}
+          keyframes={valueKeyframes.filter((keyframe) => keyframe.track === trackName)}
+          onChange={setKeyframe}
+          progress={progress}
+          track={tracks[trackName]}
+          values={values}
+        />
+      ))}
+      {timeline.keyframes
+        .filter((keyframe) => keyframe.kind === 'duration')
+        .map((keyframe) => (
+          <DurationLane
+            key={keyframe.path}
+            keyframe={keyframe}
+            onChange={setKeyframe}
+            value={values[keyframe.path]}
+          />
+        ))}
+    </div>
+  )
+}
+
+export default ScrollTimelineEditor
@@ -0,0 +1,195 @@
+'use client'
+
+import { toast, useConfig } from '@payloadcms/ui'
+import { formatAdminURL } from 'payload/shared'
+import React, { useCallback, useState } from 'react'
+
+import { type SubmissionStatus, submissionStatusOptions } from '@/fields/submissionStatus'
+
+import type { SubmissionColumn, SubmissionFilters, SubmissionRow } from './pivot'
+
+const baseClass = 'submissions-dashboard'
+
+type Props = {
+  columns: SubmissionColumn[]
+  filters: SubmissionFilters
+  forms: { id: string; title: string }[]
+  limit: number
+  rows: SubmissionRow[]
+  totalDocs: number
+}
+
+const toQueryString = (params: Record<string, string | undefined>) =>
+  new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] => Boolean(entry[1])),
+  ).toString()
+
+export const SubmissionsTable: React.FC<Props> = ({
+  columns,
+  filters,
+  forms,
+  limit,
+  rows,
+  totalDocs,
+}) => {
+  const {
+    config: {
+      routes: { admin: adminRoute, api: apiRoute },
+      serverURL,
+    },
+  } = useConfig()
+  const [statuses, setStatuses] = useState<Record<string, SubmissionStatus>>({})
+
+  const apiURL = `${serverURL}${apiRoute}/form-submissions`
+
+  const updateStatus = useCallback(
+    async (id: SubmissionRow['id'], status: SubmissionStatus) => {
+      setStatuses((current) => ({ ...current, [id]: status }))
+
+      const res = await fetch(`${apiURL}/${id}`, {
+        body: JSON.stringify({ status }),
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        method: 'PATCH',
+      })
+
+      if (res.ok) {
+        toast.success('Status updated.')
+      } else {
+        setStatuses(({ [id]: _, ...rest }) => rest)
+        toast.error('Could not update the status.')
+      }
+    },
+    [apiURL],
+  )
+
+  const exportURL = (format: 'csv' | 'xlsx') =>
+    `${apiURL}/export?${toQueryString({ ...filters, format })}`
+
+  return (
+    <div>
+      {/* A plain GET form reloads this view with the filters in the query string */}
+      <form className={`${baseClass}__filters`} method="get">
+        <label>
+          Form
+          <select defaultValue={filters.form ?? ''} name="form">
+            <option value="">All forms</option>
+            {forms.map(({ id, title }) => (
+              <option key={id} value={id}>
+                {title}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Status
+          <select defaultValue={filters.status ?? ''} name="status">
+            <option value="">Any status</option>
+            {submissionStatusOptions.map(({ label, value }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          From
+          <input defaultValue={filters.from} name="from" type="date" />
+        </label>
+        <label>
+          To
+          <input defaultValue={filters.to} name="to" type="date" />
+        </label>
+        <label>
+          Field
+          <select defaultValue={filters.field ?? ''} name="field">
+            <option value="">Any field</option>
+            {columns.map(({ label, name }) => (
+              <option key={name} value={name}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Contains
+          <input defaultValue={filters.value} name="value" type="search" />
+        </label>
+        <button className="btn btn--style-secondary btn--size-small" type="submit">
+          Filter
+        </button>
+        <a className={`${baseClass}__reset`} href="?">
+          Reset
+        </a>
+      </form>
+
+      <div className={`${baseClass}__actions`}>
+        <span>
+          {totalDocs > limit
+            ? `Showing the latest ${limit} of ${totalDocs} submissions`
+            : `${rows.length} submission${rows.length === 1 ? '' : 's'}`}
+        </span>
+        <a className="btn btn--style-primary btn--size-small" href={exportURL('csv')}>
+          Export CSV
+        </a>
+        <a className="btn btn--style-primary btn--size-small" href={exportURL('xlsx')}>
+          Export XLSX
+        </a>
+      </div>
+
+      {rows.length === 0 ? (
+        <p>No submissions match these filters.</p>
+      ) : (
+        <div className={`${baseClass}__table-wrap`}>
+          <table className={`${baseClass}__table`}>
+            <thead>
+              <tr>
+                <th>Submitted</th>
+                <th>Form</th>
+                <th>Status</th>
+                {columns.map(({ label, name }) => (
+                  <th key={name}>{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.id}>
+                  <td>
+                    <a
+                      href={formatAdminURL({
+                        adminRoute,
+                        path: `/collections/form-submissions/${row.id}`,
+                      })}
+                    >
+                      {new Date(row.createdAt).toLocaleString()}
+                    </a>
+                  </td>
+                  <td>{row.form}</td>
+                  <td>
+                    <select
+                      aria-label="Status"
+                      onChange={(event) =>
+                        void updateStatus(row.id, event.target.value as SubmissionStatus)
+                      }
+                      value={statuses[row.id] ?? row.status}
+                    >
+                      {submissionStatusOptions.map(({ label, value }) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  {columns.map(({ name }) => (
+                    <td key={name}>{row.values[name] ?? ''}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+import type { ListViewServerProps } from 'payload'
+
+import type { Form } from '@/payload-types'
+
+import {
+  buildSubmissionsWhere,
+  filterRowsByValue,
+  pivotSubmissions,
+  type SubmissionColumn,
+  type SubmissionFilters,
+  type SubmissionRow,
+} from './pivot'
+
+type Args = Pick<ListViewServerProps, 'payload' | 'user'> & {
+  filters: SubmissionFilters
+  limit: number
+}
+
+type SubmissionRows = {
+  columns: SubmissionColumn[]
+  forms: Pick<Form, 'fields' | 'id' | 'title'>[]
+  rows: SubmissionRow[]
+  // Number of submissions matching every filter, of which `rows` holds the latest `limit`
+  totalDocs: number
+}
+
+/**
+ * Loads the latest submissions matching the filters as dashboard rows. The database can't tell
+ * whether a field and a value were matched in the same entry, so with a field value filter
+ * every candidate is loaded and filtered before the rows are limited.
+ */
+export const findSubmissionRows = async ({
+  filters,
+  limit,
+  payload,
+  user,
+}: Args): Promise<SubmissionRows> => {
+  const filterByValue = Boolean(filters.field && filters.value)
+
+  const [submissions, forms] = await Promise.all([
+    payload.find({
+      collection: 'form-submissions',
+      depth: 0,
+      overrideAccess: false,
+      sort: '-createdAt',
+      user,
+      where: buildSubmissionsWhere(filters),
+      ...(filterByValue ? { pagination: false } : { limit }),
+    }),
+    payload.find({
+      collection: 'forms',
+      depth: 0,
+      pagination: false,
+      select: { fields: true, title: true },
+    }),
+  ])
+
+  const { columns, rows } = pivotSubmissions(submissions.docs, forms.docs)
+
+  if (!filterByValue) {
+    return { columns, forms: forms.docs, rows, totalDocs: submissions.totalDocs }
+  }
+
+  const matches = filterRowsByValue(rows, filters)
+
+  return { columns, forms: forms.docs, rows: matches.slice(0, limit), totalDocs: matches.length }
+}
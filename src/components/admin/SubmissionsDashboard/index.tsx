@@ -0,0 +1,49 @@
+import type { ListViewServerProps } from 'payload'
+
+import { Gutter } from '@payloadcms/ui'
+import React from 'react'
+
+import { findSubmissionRows } from './findSubmissionRows'
+import { parseSubmissionFilters } from './pivot'
+import { SubmissionsTable } from './SubmissionsTable'
+import './index.scss'
+
+// The dashboard shows the latest submissions; exports include every match
+const DASHBOARD_LIMIT = 500
+
+const baseClass = 'submissions-dashboard'
+
+/**
+ * List view for form submissions with one column per form field instead of the raw
+ * `submissionData` array
+ */
+const SubmissionsDashboard: React.FC<ListViewServerProps> = async ({
+  payload,
+  searchParams,
+  user,
+}) => {
+  const filters = parseSubmissionFilters(searchParams)
+
+  const { columns, forms, rows, totalDocs } = await findSubmissionRows({
+    filters,
+    limit: DASHBOARD_LIMIT,
+    payload,
+    user,
+  })
+
+  return (
+    <Gutter className={baseClass}>
+      <h1 className={`${baseClass}__title`}>Form Submissions</h1>
+      <SubmissionsTable
+        columns={columns}
+        filters={filters}
+        forms={forms.map(({ id, title }) => ({ id: String(id), title }))}
+        limit={DASHBOARD_LIMIT}
+        rows={rows}
+        totalDocs={totalDocs}
+      />
+    </Gutter>
+  )
+}
+
+export default SubmissionsDashboard
@@ -0,0 +1,160 @@
+import type { Where } from 'payload'
+
+import type { Form, FormSubmission } from '@/payload-types'
+
+import { type SubmissionStatus, submissionStatusOptions } from '@/fields/submissionStatus'
+
+export type SubmissionFilters = {
+  field?: string
+  form?: string
+  from?: string
+  status?: SubmissionStatus
+  to?: string
+  value?: string
+}
+
+export type SubmissionColumn = {
+  label: string
+  name: string
+}
+
+export type SubmissionRow = {
+  createdAt: string
+  form: string
+  id: number | string
+  status: SubmissionStatus
+  values: Record<string, string>
+}
+
+type SearchParams = Record<string, string | string[] | undefined> | URLSearchParams
+
+const isDate = (value?: string) => Boolean(value && /^\d{4}-\d{2}-\d{2}$/.test(value))
+
+// Reads dashboard and export filters from the query string, ignoring anything malformed
+export const parseSubmissionFilters = (searchParams: SearchParams = {}): SubmissionFilters => {
+  const get = (key: keyof SubmissionFilters) => {
+    const value =
+      searchParams instanceof URLSearchParams ? searchParams.get(key) : searchParams[key]
+    const first = Array.isArray(value) ? value[0] : value
+    return first?.trim() || undefined
+  }
+
+  const status = get('status')
+
+  return {
+    field: get('field'),
+    form: get('form'),
+    from: isDate(get('from')) ? get('from') : undefined,
+    status: submissionStatusOptions.some(({ value }) => value === status)
+      ? (status as SubmissionStatus)
+      : undefined,
+    to: isDate(get('to')) ? get('to') : undefined,
+    value: get('value'),
+  }
+}
+
+/**
+ * Narrows the query as far as the database can. Field values are stored as separate array rows,
+ * so the field name and value are matched again per row by `filterRowsByValue`.
+ */
+export const buildSubmissionsWhere = ({
+  field,
+  form,
+  from,
+  status,
+  to,
+  value,
+}: SubmissionFilters): Where => {
+  const and: Where[] = []
+
+  if (form) and.push({ form: { equals: form } })
+  if (status) and.push({ status: { equals: status } })
+  if (from) and.push({ createdAt: { greater_than_equal: `${from}T00:00:00.000Z` } })
+  if (to) and.push({ createdAt: { less_than_equal: `${to}T23:59:59.999Z` } })
+  if (field && value) {
+    and.push({ 'submissionData.field': { equals: field } })
+    and.push({ 'submissionData.value': { contains: value } })
+  }
+
+  return { and }
+}
+
+type FormSummary = Pick<Form, 'fields' | 'id' | 'title'>
+
+/**
+ * Turns each submission's `{ field, value }` pairs into one row with a column per form field.
+ * Columns follow the form's field order, followed by any fields the form no longer has.
+ */
+export const pivotSubmissions = (
+  submissions: FormSubmission[],
+  forms: FormSummary[],
+): { columns: SubmissionColumn[]; rows: SubmissionRow[] } => {
+  const formsByID = new Map(forms.map((form) => [String(form.id), form]))
+  const columns = new Map<string, SubmissionColumn>()
+
+  const formIDs = new Set(
+    submissions.map(({ form }) => String(typeof form === 'object' ? form.id : form)),
+  )
+
+  formIDs.forEach((formID) => {
+    formsByID.get(formID)?.fields?.forEach((field) => {
+      if (!('name' in field) || !field.name || columns.has(field.name)) return
+      const label = 'label' in field && field.label ? field.label : field.name
+      columns.set(field.name, { label, name: field.name })
+    })
+  })
+
+  const rows = submissions.map((submission) => {
+    const formID = String(
+      typeof submission.form === 'object' ? submission.form.id : submission.form,
+    )
+    const values: Record<string, string> = {}
+
+    submission.submissionData?.forEach(({ field, value }) => {
+      if (!columns.has(field)) columns.set(field, { label: field, name: field })
+      values[field] = value
+    })
+
+    return {
+      createdAt: submission.createdAt,
+      form: formsByID.get(formID)?.title ?? formID,
+      id: submission.id,
+      status: submission.status ?? 'new',
+      values,
+    }
+  })
+
+  return { columns: [...columns.values()], rows }
+}
+
+export const filterRowsByValue = (
+  rows: SubmissionRow[],
+  { field, value }: Pick<SubmissionFilters, 'field' | 'value'>,
+): SubmissionRow[] => {
+  if (!field || !value) return rows
+  const needle = value.toLowerCase()
+
+  return rows.filter((row) => row.values[field]?.toLowerCase().includes(needle))
+}
+
+const statusLabels = new Map(submissionStatusOptions.map(({ label, value }) => [value, label]))
+
+// Header and rows shared by the CSV and XLSX exports
+export const toTable = (columns: SubmissionColumn[], rows: SubmissionRow[]): string[][] => [
+  ['Submitted', 'Form', 'Status', ...columns.map(({ label }) => label)],
+  ...rows.map((row) => [
+    row.createdAt,
+    row.form,
+    statusLabels.get(row.status) ?? row.status,
+    ...columns.map(({ name }) => row.values[name] ?? ''),
+  ]),
+]
+
+const escapeCSVCell = (cell: string) => {
+  // Stop spreadsheet apps from running visitor input as a formula
+  const safe = /^[=+\-@\t\r]/.test(cell) ? `'${cell}` : cell
+  return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export const toCSV = (table: string[][]): string =>
+  table.map((row) => row.map(escapeCSVCell).join(',')).join('\r\n')
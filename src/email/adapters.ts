@@ -0,0 +1,86 @@
+import type { EmailAdapter, SendEmailOptions } from 'payload'
+
+import { nodemailerAdapter } from '@payloadcms/email-nodemailer'
+import { randomUUID } from 'crypto'
+import { mkdir, writeFile } from 'fs/promises'
+import path from 'path'
+
+export type EmailTransport = 'console' | 'file' | 'smtp'
+
+const defaultFromAddress = process.env.EMAIL_FROM_ADDRESS || 'no-reply@e-voque.com'
+const defaultFromName = process.env.EMAIL_FROM_NAME || 'E-Voque'
+
+const formatRecipients = (to: SendEmailOptions['to']): string => {
+  if (!to) return ''
+  const list = Array.isArray(to) ? to : [to]
+
+  return list.map((entry) => (typeof entry === 'string' ? entry : entry.address)).join(', ')
+}
+
+/**
+ * Writes each email to a JSON file instead of sending it, so local development and tests
+ * can inspect exactly what would have been delivered.
+ */
+export const fileEmailAdapter =
+  (outboxDir: string): EmailAdapter<{ file: string }> =>
+  ({ payload }) => ({
+    name: 'file',
+    defaultFromAddress,
+    defaultFromName,
+    sendEmail: async (message) => {
+      await mkdir(outboxDir, { recursive: true })
+
+      const file = path.join(outboxDir, `${Date.now()}-${randomUUID()}.json`)
+      await writeFile(file, JSON.stringify(message, null, 2))
+
+      payload.logger.info(`Email to ${formatRecipients(message.to)} written to ${file}`)
+      return { file }
+    },
+  })
+
+/**
+ * Logs each email instead of sending it
+ */
+export const consoleEmailAdapter: EmailAdapter<{ logged: true }> = ({ payload }) => ({
+  name: 'console',
+  defaultFromAddress,
+  defaultFromName,
+  sendEmail: async (message) => {
+    payload.logger.info({
+      msg: `Email to ${formatRecipients(message.to)}: ${message.subject}`,
+      html: message.html,
+      text: message.text,
+    })
+    return { logged: true }
+  },
+})
+
+/**
+ * Picks the email adapter from `EMAIL_TRANSPORT`. SMTP is used in production, and local
+ * development falls back to the console so nothing is delivered by accident.
+ */
+export const getEmailAdapter = (
+  transport = process.env.EMAIL_TRANSPORT as EmailTransport | undefined,
+): EmailAdapter | Promise<EmailAdapter> => {
+  switch (transport) {
+    case 'smtp':
+      return nodemailerAdapter({
+        defaultFromAddress,
+        defaultFromName,
+        transportOptions: {
+          auth: process.env.SMTP_USER
+            ? { pass: process.env.SMTP_PASS, user: process.env.SMTP_USER }
+            : undefined,
+          host: process.env.SMTP_HOST,
+          port: Number(process.env.SMTP_PORT || 587),
+          secure: process.env.SMTP_PORT === '465',
+        },
+      })
+    case 'file':
+      return fileEmailAdapter(
+        process.env.EMAIL_OUTBOX_DIR || path.resolve(process.cwd(), '.email-outbox'),
+      )
+    default:
+      return consoleEmailAdapter
+  }
+}
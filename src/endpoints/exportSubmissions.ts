@@ -0,0 +1,73 @@
+import type { Endpoint } from 'payload'
+
+import writeXlsxFile from 'write-excel-file/node'
+
+import {
+  buildSubmissionsWhere,
+  filterRowsByValue,
+  parseSubmissionFilters,
+  pivotSubmissions,
+  toCSV,
+  toTable,
+} from '@/components/admin/SubmissionsDashboard/pivot'
+
+/**
+ * Downloads the submissions matching the dashboard filters as CSV or XLSX,
+ * e.g. `/api/form-submissions/export?format=xlsx&form=1`
+ */
+export const exportSubmissions: Endpoint = {
+  path: '/export',
+  method: 'get',
+  handler: async (req) => {
+    const { payload, searchParams, user } = req
+    const filters = parseSubmissionFilters(searchParams)
+    const format = searchParams.get('format') === 'xlsx' ? 'xlsx' : 'csv'
+
+    // Runs with the user's access, so only people who can read submissions can export them
+    const submissions = await payload.find({
+      collection: 'form-submissions',
+      depth: 0,
+      overrideAccess: false,
+      pagination: false,
+      req,
+      sort: '-createdAt',
+      user,
+      where: buildSubmissionsWhere(filters),
+    })
+
+    const forms = await payload.find({
+      collection: 'forms',
+      depth: 0,
+      pagination: false,
+      req,
+      select: { fields: true, title: true },
+    })
+
+    const { columns, rows } = pivotSubmissions(submissions.docs, forms.docs)
+    const table = toTable(columns, filterRowsByValue(rows, filters))
+    const filename = `submissions-${new Date().toISOString().slice(0, 10)}.${format}`
+
+    if (format === 'csv') {
+      return new Response(toCSV(table), {
+        headers: {
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Content-Type': 'text/csv; charset=utf-8',
+        },
+      })
+    }
+
+    const buffer = await writeXlsxFile(
+      table.map((row, index) =>
+        row.map((value) => ({ fontWeight: index === 0 ? 'bold' : undefined, type: String, value })),
+      ),
+      { sheet: 'Submissions', stickyRowsCount: 1 },
+    ).toBuffer()
+
+    return new Response(new Uint8Array(buffer), {
+      headers: {
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      },
+    })
+  },
+}
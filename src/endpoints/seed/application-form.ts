@@ -53,6 +53,41 @@ export const applicationForm: RequiredDataFromCollectionSlug<'forms'> = {
   confirmationType: 'message',
   createdAt: '2023-01-12T21:47:41.374Z',
   emails: [
+    {
+      message: {
+        root: {
+          type: 'root',
+          children: [
+            {
+              type: 'paragraph',
+              children: [
+                {
+                  type: 'text',
+                  detail: 0,
+                  format: 0,
+                  mode: 'normal',
+                  style: '',
+                  text: '{{*:table}}',
+                  version: 1,
+                },
+              ],
+              direction: 'ltr',
+              format: '',
+              indent: 0,
+              textFormat: 0,
+              version: 1,
+            },
+          ],
+          direction: 'ltr',
+          format: '',
+          indent: 0,
+          version: 1,
+        },
+      },
+      replyTo: '{{email}}',
+      subject: 'New application from {{firstName}}',
+      type: 'notification',
+    },
     {
       emailFrom: '"E-Voque Talent Team" <talent@e-voque.com>',
       emailTo: '{{email}}',
@@ -87,9 +122,15 @@ export const applicationForm: RequiredDataFromCollectionSlug<'forms'> = {
         },
       },
       subject: 'Thank you for your application to E-Voque',
+      type: 'autoresponder',
     },
   ],
   fields: [
+    {
+      blockName: 'aboutYou',
+      blockType: 'step',
+      title: 'About You',
+    },
     {
       name: 'firstName',
       blockName: 'firstName',
@@ -114,39 +155,50 @@ export const applicationForm: RequiredDataFromCollectionSlug<'forms'> = {
       required: true,
       width: 100,
     },
+    {
+      blockName: 'positionStep',
+      blockType: 'step',
+      title: 'Position',
+    },
     {
       name: 'position',
       blockName: 'position',
-      blockType: 'select',
+      blockType: 'jobSelect',
       label: 'Position of Interest',
       required: true,
       width: 100,
-      options: [
-        {
-          label: 'Sales Representative',
-          value: 'sales-representative',
-        },
-        {
-          label: 'Billing Specialist',
-          value: 'billing-specialist',
-        },
-        {
-          label: 'Collections Agent',
-          value: 'collections-agent',
-        },
-        {
-          label: 'Customer Service Representative',
-          value: 'customer-service-representative',
-        },
-        {
-          label: 'Interpreter',
-          value: 'interpreter',
-        },
-        {
-          label: 'Help Desk Technician',
-          value: 'help-desk-technician',
-        },
+    },
+    {
+      name: 'languages',
+      blockName: 'languages',
+      blockType: 'text',
+      label: 'Languages Spoken',
+      required: true,
+      showIf: {
+        field: 'position',
+        operator: 'equals',
+        value: 'Interpreter',
+      },
+      width: 100,
+    },
+    {
+      name: 'resume',
+      blockName: 'resume',
+      blockType: 'upload',
+      label: 'Résumé',
+      maxSize: 5,
+      mimeTypes: [
+        'application/pdf',
+        'application/msword',
+        'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
       ],
+      required: true,
+      width: 100,
+    },
+    {
+      blockName: 'motivation',
+      blockType: 'step',
+      title: 'Motivation',
     },
     {
       name: 'coverLetter',
@@ -34,6 +34,41 @@ export const contactForm: RequiredDataFromCollectionSlug<'forms'> = {
   confirmationType: 'message',
   createdAt: '2023-01-12T21:47:41.374Z',
   emails: [
+    {
+      message: {
+        root: {
+          type: 'root',
+          children: [
+            {
+              type: 'paragraph',
+              children: [
+                {
+                  type: 'text',
+                  detail: 0,
+                  format: 0,
+                  mode: 'normal',
+                  style: '',
+                  text: '{{*:table}}',
+                  version: 1,
+                },
+              ],
+              direction: 'ltr',
+              format: '',
+              indent: 0,
+              textFormat: 0,
+              version: 1,
+            },
+          ],
+          direction: 'ltr',
+          format: '',
+          indent: 0,
+          version: 1,
+        },
+      },
+      replyTo: '{{email}}',
+      subject: 'New message from {{name}}',
+      type: 'notification',
+    },
     {
       emailFrom: '"Payload" \u003Cdemo@payloadcms.com\u003E',
       emailTo: '{{email}}',
@@ -68,6 +103,7 @@ export const contactForm: RequiredDataFromCollectionSlug<'forms'> = {
         },
       },
       subject: 'Thank you for contacting E-Voque',
+      type: 'autoresponder',
     },
   ],
   fields: [
@@ -1,5 +1,6 @@
 import type { RequiredDataFromCollectionSlug } from 'payload'
 import type { Media } from '@/payload-types'
+import { themeColor } from '../../Theme/tokens'
 import {
   createHeadingNode,
   createParagraphNode,
@@ -213,8 +214,8 @@ export const home: (args: HomeArgs) => RequiredDataFromCollectionSlug<'pages'> =
               opacity: 1,
             },
             overlayOpacity: 0.04,
-            textColor: '#FFFFFF',
-            darkTextColor: '#0A1F44',
+            textColor: themeColor('white'),
+            darkTextColor: themeColor('darkNavy'),
             initialScale: 1.8,
             pinnedY: '42vw',
             exitY: '50vh',
@@ -236,38 +237,8 @@ export const home: (args: HomeArgs) => RequiredDataFromCollectionSlug<'pages'> =
         variant: 'horizontal',
         headline: "We've Helped 200+ Members",
         description: '',
-        testimonials: [
-          {
-            quote: 'E-Voque has transformed our customer service operations. Their bilingual support team handles our Spanish-speaking customers with professionalism and care, significantly improving our customer satisfaction scores.',
-            author: 'Maria Rodriguez',
-            title: 'Operations Manager',
-            company: 'Tech Solutions Inc.',
-          },
-          {
-            quote: 'The interpretation services provided by E-Voque have been invaluable. They help us communicate effectively with our diverse client base, breaking down language barriers and building stronger relationships.',
-            author: 'James Chen',
-            title: 'Customer Success Director',
-            company: 'Global Services LLC',
-          },
-          {
-            quote: 'Outsourcing our collections to E-Voque was one of the best decisions we made. Their multilingual team understands cultural nuances and communicates with empathy, resulting in higher recovery rates.',
-            author: 'Sarah Johnson',
-            title: 'Finance Manager',
-            company: 'Healthcare Partners',
-          },
-          {
-            quote: 'E-Voque\'s help desk support has been exceptional. They handle complex technical questions with expertise, allowing our internal team to focus on strategic initiatives. Highly recommended!',
-            author: 'David Martinez',
-            title: 'IT Director',
-            company: 'Innovation Corp',
-          },
-          {
-            quote: 'Working with E-Voque has been a game-changer for our sales team. Their trained agents understand our products and can effectively communicate value propositions in multiple languages.',
-            author: 'Emily Thompson',
-            title: 'Sales VP',
-            company: 'Enterprise Solutions',
-          },
-        ],
+        populateBy: 'tag',
+        limit: 5,
       },
       {
         blockName: 'FAQ Section',
@@ -12,23 +12,35 @@ import { image1 } from './image-1'
 import { image2 } from './image-2'
 import { image3 } from './image-3'
 import { imageHero1 } from './image-hero-1'
+import { jobs } from './jobs'
 import { join } from './join'
 import { post1 } from './post-1'
 import { post2 } from './post-2'
 import { post3 } from './post-3'
 import { services } from './services'
+import { testimonials } from './testimonials'
+import { toPageTemplate } from '../../collections/PageTemplates/toPageTemplate'
 
 const collections: CollectionSlug[] = [
   'categories',
   'media',
   'pages',
+  'page-templates',
+  'sections',
+  'testimonials',
   'posts',
   'forms',
   'form-submissions',
+  'form-uploads',
+  'email-deliveries',
+  'rejected-submissions',
+  'webhook-deliveries',
+  'jobs',
   'search',
 ]
 
-const globals: GlobalSlug[] = ['header', 'footer']
+// The theme global keeps its values, a reseed only resets the navigation
+const globals: Extract<GlobalSlug, 'footer' | 'header'>[] = ['header', 'footer']
 
 const categories = ['Technology', 'News', 'Finance', 'Design', 'Software', 'Engineering']
 
@@ -132,6 +144,7 @@ export const seed = async ({
       name: 'Admin User',
       email: 'admin@e-voque.com',
       password: 'admin123',
+      roles: ['admin'],
     },
   })
 
@@ -142,6 +155,7 @@ export const seed = async ({
       name: 'Rodrigo Vasquez',
       email: 'rodrigovdev01@gmail.com',
       password: '1Ewe9920.',
+      roles: ['admin'],
     },
   })
 
@@ -152,6 +166,7 @@ export const seed = async ({
       name: 'Alberto Matmax',
       email: 'alberto@matmax.world',
       password: 'Matmax2026',
+      roles: ['admin'],
     },
   })
 
@@ -162,6 +177,7 @@ export const seed = async ({
       name: 'Demo Author',
       email: 'demo-author@example.com',
       password: 'password',
+      roles: ['author'],
     },
   })
 
@@ -297,6 +313,35 @@ export const seed = async ({
   ])
 
   payload.logger.info('✅ Forms created')
+  payload.logger.info('— Seeding jobs...')
+
+  for (const data of jobs({ applicationForm })) {
+    await payload.create({
+      collection: 'jobs',
+      depth: 0,
+      context: {
+        disableRevalidate: true,
+      },
+      data,
+    })
+  }
+
+  payload.logger.info('✅ Jobs created')
+  payload.logger.info('— Seeding testimonials...')
+
+  // Created last to first so the newest-first Testimonial block keeps them in this order
+  for (const data of [...testimonials].reverse()) {
+    await payload.create({
+      collection: 'testimonials',
+      depth: 0,
+      context: {
+        disableRevalidate: true,
+      },
+      data,
+    })
+  }
+
+  payload.logger.info('✅ Testimonials created')
   payload.logger.info('— Seeding pages...')
   payload.logger.info('  Upserting homepage...')
 
@@ -391,6 +436,37 @@ export const seed = async ({
   })
 
   payload.logger.info('✅ All 6 pages created (home, about, services, benefits, join, contact)')
+  payload.logger.info('— Seeding page templates...')
+
+  // The seed pages double as starting points for new pages
+  const pageTemplates = [
+    toPageTemplate(
+      { title: 'Landing Page', description: 'Scroll-driven home page with testimonials' },
+      homeData,
+    ),
+    toPageTemplate(
+      { title: 'About Page', description: 'Company story, mission and values' },
+      about({ heroImage: imageHomeDoc, metaImage: image2Doc }),
+    ),
+    toPageTemplate(
+      { title: 'Services Page', description: 'Service overview with calls to action' },
+      services({ heroImage: imageHomeDoc, metaImage: image2Doc }),
+    ),
+    toPageTemplate(
+      { title: 'Benefits Page', description: 'Benefits overview with a call to action' },
+      benefits({ heroImage: imageHomeDoc, metaImage: image2Doc }),
+    ),
+  ]
+
+  for (const data of pageTemplates) {
+    await payload.create({
+      collection: 'page-templates',
+      depth: 0,
+      data,
+    })
+  }
+
+  payload.logger.info(`✅ Created ${pageTemplates.length} page templates`)
   payload.logger.info('— Seeding globals...')
   payload.logger.info('  Updating header and footer navigation...')
 
@@ -506,6 +582,8 @@ export const seed = async ({
   payload.logger.info('   • 4 media files')
   payload.logger.info('   • 3 posts')
   payload.logger.info('   • 2 forms (contact, application)')
+  payload.logger.info('   • 6 jobs')
+  payload.logger.info(`   • ${testimonials.length} testimonials`)
   payload.logger.info('   • 6 pages (home, about, services, benefits, join, contact)')
   payload.logger.info('   • 4 users (admin, rodrigo, alberto, demo-author)')
   payload.logger.info('   • Header and footer navigation configured')
@@ -0,0 +1,75 @@
+import type { RequiredDataFromCollectionSlug } from 'payload'
+import type { Form } from '@/payload-types'
+import { createHeadingNode, createParagraphNode, createRichTextRoot } from './richTextHelpers'
+
+type JobsArgs = {
+  applicationForm: Form
+}
+
+const openings = [
+  {
+    title: 'Sales Representative',
+    slug: 'sales-representative',
+    department: 'Sales',
+    summary:
+      'Build relationships with healthcare and legal clients and help them find the right interpretation services for their needs.',
+  },
+  {
+    title: 'Billing Specialist',
+    slug: 'billing-specialist',
+    department: 'Finance',
+    summary:
+      'Prepare accurate invoices, reconcile accounts and answer billing questions from our clients.',
+  },
+  {
+    title: 'Collections Agent',
+    slug: 'collections-agent',
+    department: 'Finance',
+    summary:
+      'Follow up on outstanding balances with empathy and professionalism, keeping client relationships strong.',
+  },
+  {
+    title: 'Customer Service Representative',
+    slug: 'customer-service-representative',
+    department: 'Customer Success',
+    summary:
+      'Be the first point of contact for our clients, scheduling interpreters and resolving requests in English and Spanish.',
+  },
+  {
+    title: 'Interpreter',
+    slug: 'interpreter',
+    department: 'Interpretation',
+    summary:
+      'Provide accurate English–Spanish interpretation for medical, legal and business conversations over phone and video.',
+  },
+  {
+    title: 'Help Desk Technician',
+    slug: 'help-desk-technician',
+    department: 'IT',
+    summary:
+      'Support our interpreters and staff with their equipment, accounts and connectivity so every call runs smoothly.',
+  },
+]
+
+export const jobs: (args: JobsArgs) => RequiredDataFromCollectionSlug<'jobs'>[] = ({
+  applicationForm,
+}) =>
+  openings.map(
+    ({ title, slug, department, summary }) =>
+      ({
+        title,
+        slug,
+        department,
+        employmentType: 'full-time',
+        remote: true,
+        status: 'open',
+        applicationForm: applicationForm.id,
+        description: createRichTextRoot([
+          createParagraphNode(summary),
+          createHeadingNode('What we look for'),
+          createParagraphNode(
+            'Fluent English and Spanish, clear communication, reliability and a genuine interest in helping people.',
+          ),
+        ]),
+      }) as RequiredDataFromCollectionSlug<'jobs'>,
+  )
@@ -0,0 +1,49 @@
+import type { RequiredDataFromCollectionSlug } from 'payload'
+
+export const testimonials: RequiredDataFromCollectionSlug<'testimonials'>[] = [
+  {
+    quote:
+      'E-Voque has transformed our customer service operations. Their bilingual support team handles our Spanish-speaking customers with professionalism and care, significantly improving our customer satisfaction scores.',
+    author: 'Maria Rodriguez',
+    title: 'Operations Manager',
+    company: 'Tech Solutions Inc.',
+    industries: ['technology'],
+    status: 'approved',
+  },
+  {
+    quote:
+      'The interpretation services provided by E-Voque have been invaluable. They help us communicate effectively with our diverse client base, breaking down language barriers and building stronger relationships.',
+    author: 'James Chen',
+    title: 'Customer Success Director',
+    company: 'Global Services LLC',
+    industries: ['telecommunications'],
+    status: 'approved',
+  },
+  {
+    quote:
+      'Outsourcing our collections to E-Voque was one of the best decisions we made. Their multilingual team understands cultural nuances and communicates with empathy, resulting in higher recovery rates.',
+    author: 'Sarah Johnson',
+    title: 'Finance Manager',
+    company: 'Healthcare Partners',
+    industries: ['healthcare', 'finance'],
+    status: 'approved',
+  },
+  {
+    quote:
+      "E-Voque's help desk support has been exceptional. They handle complex technical questions with expertise, allowing our internal team to focus on strategic initiatives. Highly recommended!",
+    author: 'David Martinez',
+    title: 'IT Director',
+    company: 'Innovation Corp',
+    industries: ['technology'],
+    status: 'approved',
+  },
+  {
+    quote:
+      'Working with E-Voque has been a game-changer for our sales team. Their trained agents understand our products and can effectively communicate value propositions in multiple languages.',
+    author: 'Emily Thompson',
+    title: 'Sales VP',
+    company: 'Enterprise Solutions',
+    industries: ['retail'],
+    status: 'approved',
+  },
+]
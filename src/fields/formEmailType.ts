@@ -0,0 +1,25 @@
+import type { Field } from 'payload'
+
+export const formEmailTypeOptions = [
+  {
+    label: 'Notification',
+    value: 'notification',
+  },
+  {
+    label: 'Autoresponder',
+    value: 'autoresponder',
+  },
+]
+
+// Added to each email of a form so deliveries can be told apart in the log
+export const formEmailType: Field = {
+  name: 'type',
+  type: 'select',
+  defaultValue: 'notification',
+  options: formEmailTypeOptions,
+  required: true,
+  admin: {
+    description:
+      'Notifications go to your team (leave Email To empty to use the default address). Autoresponders go to the visitor, e.g. {{email}}.',
+  },
+}
@@ -0,0 +1,90 @@
+import type { Field } from 'payload'
+
+import { hasRole } from '@/access/hasRole'
+
+// Outbound webhooks fired for each new submission of a form, e.g. to a CRM
+export const formWebhooks: Field = {
+  name: 'webhooks',
+  type: 'array',
+  // Forms are public, but webhook URLs and secrets are not
+  access: {
+    read: hasRole('admin', 'editor'),
+  },
+  admin: {
+    description:
+      'Send each new submission to another system. Requests are signed with the secret and retried if they fail.',
+  },
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'url',
+          type: 'text',
+          label: 'URL',
+          required: true,
+          validate: (value: null | string | undefined) =>
+            !value || /^https?:\/\//.test(value) || 'Enter a full http(s) URL.',
+          admin: {
+            placeholder: 'https://crm.example.com/hooks/contact',
+            width: '60%',
+          },
+        },
+        {
+          name: 'enabled',
+          type: 'checkbox',
+          defaultValue: true,
+          admin: {
+            style: {
+              alignSelf: 'flex-end',
+            },
+            width: '20%',
+          },
+        },
+      ],
+    },
+    {
+      name: 'secret',
+      type: 'text',
+      label: 'Signing Secret',
+      admin: {
+        description:
+          'Requests carry an X-Webhook-Signature header: sha256= followed by the HMAC-SHA256 hex digest of "{X-Webhook-Timestamp}.{body}".',
+      },
+    },
+    {
+      name: 'mapping',
+      type: 'array',
+      label: 'Field Mapping',
+      admin: {
+        description: 'Leave empty to send every field under its own name.',
+        initCollapsed: true,
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'field',
+              type: 'text',
+              label: 'Form Field Name',
+              required: true,
+              admin: {
+                width: '50%',
+              },
+            },
+            {
+              name: 'key',
+              type: 'text',
+              label: 'Sent As',
+              required: true,
+              admin: {
+                width: '50%',
+              },
+            },
+          ],
+        },
+      ],
+    },
+  ],
+}
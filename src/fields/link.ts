@@ -103,6 +103,7 @@ export const link: LinkType = ({ appearances, disableLabel = false, overrides =
         {
           name: 'label',
           type: 'text',
+          localized: true,
           admin: {
             width: '50%',
           },
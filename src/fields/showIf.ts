@@ -0,0 +1,48 @@
+import type { Field } from 'payload'
+
+import { conditionOperatorOptions } from '@/blocks/Form/conditions'
+
+// Show-if rule added to every form builder field
+export const showIf: Field = {
+  name: 'showIf',
+  type: 'group',
+  label: 'Show If',
+  admin: {
+    description:
+      'Only show this field when another field matches. Leave the field name empty to always show it.',
+  },
+  fields: [
+    {
+      type: 'row',
+      fields: [
+        {
+          name: 'field',
+          type: 'text',
+          label: 'Field Name',
+          admin: {
+            width: '33%',
+          },
+        },
+        {
+          name: 'operator',
+          type: 'select',
+          defaultValue: 'equals',
+          options: conditionOperatorOptions,
+          admin: {
+            width: '33%',
+          },
+        },
+        {
+          name: 'value',
+          type: 'text',
+          admin: {
+            condition: (_, siblingData) =>
+              ['equals', 'notEquals'].includes(siblingData?.operator ?? 'equals'),
+            description: 'Matches the option value or label, ignoring case',
+            width: '33%',
+          },
+        },
+      ],
+    },
+  ],
+}
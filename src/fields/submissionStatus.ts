@@ -0,0 +1,35 @@
+import type { Field } from 'payload'
+
+export type SubmissionStatus = 'contacted' | 'new' | 'rejected' | 'reviewed'
+
+export const submissionStatusOptions: { label: string; value: SubmissionStatus }[] = [
+  {
+    label: 'New',
+    value: 'new',
+  },
+  {
+    label: 'Reviewed',
+    value: 'reviewed',
+  },
+  {
+    label: 'Contacted',
+    value: 'contacted',
+  },
+  {
+    label: 'Rejected',
+    value: 'rejected',
+  },
+]
+
+// Review progress of a form submission, tracked from the submissions dashboard
+export const submissionStatus: Field = {
+  name: 'status',
+  type: 'select',
+  defaultValue: 'new',
+  index: true,
+  options: submissionStatusOptions,
+  required: true,
+  admin: {
+    position: 'sidebar',
+  },
+}
@@ -0,0 +1,40 @@
+import type { SelectField } from 'payload'
+
+export const testimonialIndustryOptions = [
+  {
+    label: 'Healthcare',
+    value: 'healthcare',
+  },
+  {
+    label: 'Finance',
+    value: 'finance',
+  },
+  {
+    label: 'Insurance',
+    value: 'insurance',
+  },
+  {
+    label: 'Technology',
+    value: 'technology',
+  },
+  {
+    label: 'Retail',
+    value: 'retail',
+  },
+  {
+    label: 'Telecommunications',
+    value: 'telecommunications',
+  },
+  {
+    label: 'Government',
+    value: 'government',
+  },
+]
+
+// Industry tags of a testimonial, also used by the Testimonial block to pick quotes by tag
+export const testimonialIndustries: SelectField = {
+  name: 'industries',
+  type: 'select',
+  hasMany: true,
+  options: testimonialIndustryOptions,
+}
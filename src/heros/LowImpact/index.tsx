@@ -3,23 +3,25 @@ import React from 'react'
 import type { Page } from '@/payload-types'
 
 import RichText from '@/components/RichText'
+import { HeroScrollEffect } from '@/heros/ScrollEffect'
 
 type LowImpactHeroType =
   | {
       children?: React.ReactNode
       richText?: never
+      scroll?: never
     }
   | (Omit<Page['hero'], 'richText'> & {
       children?: never
       richText?: Page['hero']['richText']
     })
 
-export const LowImpactHero: React.FC<LowImpactHeroType> = ({ children, richText }) => {
+export const LowImpactHero: React.FC<LowImpactHeroType> = ({ children, richText, scroll }) => {
   return (
-    <div className="container mt-16">
-      <div className="max-w-[48rem]">
+    <HeroScrollEffect scroll={scroll} className="container mt-16">
+      <div className="max-w-[48rem]" data-hero-layer="content">
         {children || (richText && <RichText data={richText} enableGutter={false} />)}
       </div>
-    </div>
+    </HeroScrollEffect>
   )
 }
@@ -1,15 +1,15 @@
 import React from 'react'
 
+import type { Locale } from '@/i18n/config'
 import type { Page } from '@/payload-types'
 
 import { CMSLink } from '@/components/Link'
 import { Media } from '@/components/Media'
 import RichText from '@/components/RichText'
+import { HeroScrollEffect } from '@/heros/ScrollEffect'
 
-export const MediumImpactHero: React.FC<Page['hero']> = (props) => {
-  const { links, media, richText } = props
-  // @ts-expect-error - brRadius is in the type but TypeScript isn't recognizing it yet
-  const borderRadius = props.brRadius
+export const MediumImpactHero: React.FC<Page['hero'] & { locale?: Locale }> = (props) => {
+  const { links, locale, media, richText, scroll, brRadius: borderRadius } = props
 
   // Calculate border radius style (using parseInt for select values)
   const borderRadiusStyle = borderRadius
@@ -23,8 +23,8 @@ export const MediumImpactHero: React.FC<Page['hero']> = (props) => {
     : {}
 
   return (
-    <div className="">
-      <div className="container mb-8">
+    <HeroScrollEffect scroll={scroll} className="">
+      <div className="container mb-8" data-hero-layer="content">
         {richText && <RichText className="mb-6" data={richText} enableGutter={false} />}
 
         {Array.isArray(links) && links.length > 0 && (
@@ -32,14 +32,14 @@ export const MediumImpactHero: React.FC<Page['hero']> = (props) => {
             {links.map(({ link }, i) => {
               return (
                 <li key={i}>
-                  <CMSLink {...link} />
+                  <CMSLink {...link} locale={locale} />
                 </li>
               )
             })}
           </ul>
         )}
       </div>
-      <div className="container">
+      <div className="container" data-hero-layer="media">
         {media && typeof media === 'object' && (
           <div style={borderRadiusStyle}>
             <Media
@@ -56,6 +56,6 @@ export const MediumImpactHero: React.FC<Page['hero']> = (props) => {
           </div>
         )}
       </div>
-    </div>
+    </HeroScrollEffect>
   )
 }
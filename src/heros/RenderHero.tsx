@@ -1,5 +1,6 @@
 import React from 'react'
 
+import type { Locale } from '@/i18n/config'
 import type { Page } from '@/payload-types'
 
 import { HighImpactHero } from '@/heros/HighImpact'
@@ -12,7 +13,7 @@ const heroes = {
   mediumImpact: MediumImpactHero,
 }
 
-export const RenderHero: React.FC<Page['hero']> = (props) => {
+export const RenderHero: React.FC<Page['hero'] & { locale?: Locale }> = (props) => {
   const { type } = props || {}
 
   if (!type || type === 'none') return null
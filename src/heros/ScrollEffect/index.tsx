@@ -0,0 +1,208 @@
+'use client'
+import React, { useEffect, useRef } from 'react'
+
+import type { Page } from '@/payload-types'
+import { loadGsap, type GsapModules } from '@/scroll/loadGsap'
+
+import {
+  getFadeOpacity,
+  getHeroScrollEffect,
+  getParallaxOffset,
+  MOBILE_MAX_WIDTH,
+  resolveFadeOut,
+  resolveParallax,
+  resolveZoomOut,
+  type HeroScroll,
+} from './settings'
+
+type Props = React.HTMLAttributes<HTMLDivElement> & {
+  scroll?: Page['hero']['scroll']
+}
+
+// Layers inside the hero that effects can target (e.g. parallax), marked with `data-hero-layer`
+const getLayer = (hero: HTMLElement, layer: 'content' | 'media') =>
+  hero.querySelector<HTMLElement>(`[data-hero-layer="${layer}"]`)
+
+// Calculate start position considering promotion height
+const getStartPosition = () => {
+  const promotionHeight =
+    parseFloat(getComputedStyle(document.documentElement).getPropertyValue('--promotion-height')) ||
+    0
+
+  if (promotionHeight > 0) {
+    return `top top-=${promotionHeight}`
+  }
+  return 'top top'
+}
+
+const setupZoomOut = (
+  hero: HTMLElement,
+  zoom: HeroScroll['zoom'],
+  { gsap, ScrollTrigger }: GsapModules,
+) => {
+  const { zoomStart, zoomEnd, duration } = resolveZoomOut(zoom)
+
+  // Border radius settings
+  const borderRadiusValue = parseInt(zoom?.brRadius?.value || '0', 10)
+  const enabledCorners = zoom?.brRadius?.corners || {}
+  const corners = {
+    borderTopLeftRadius: enabledCorners.topLeft,
+    borderTopRightRadius: enabledCorners.topRight,
+    borderBottomRightRadius: enabledCorners.bottomRight,
+    borderBottomLeftRadius: enabledCorners.bottomLeft,
+  }
+  const activeCorners = Object.keys(corners).filter(
+    (corner) => corners[corner as keyof typeof corners],
+  )
+  const hasBorderRadius = borderRadiusValue > 0 && activeCorners.length > 0
+
+  const setBorderRadius = (radius: number) => {
+    if (!hasBorderRadius) return
+    gsap.set(
+      hero,
+      Object.fromEntries(activeCorners.map((corner) => [corner, `${radius}px`])),
+    )
+  }
+
+  // Set initial scale and border radius
+  gsap.set(hero, {
+    scale: zoomStart,
+    transformOrigin: 'center center',
+  })
+  setBorderRadius(0)
+
+  const trigger = ScrollTrigger.create({
+    trigger: hero,
+    start: getStartPosition(),
+    end: `+=${duration}`,
+    scrub: true,
+    onUpdate: (self) => {
+      const progress = self.progress
+      gsap.set(hero, { scale: zoomStart + (zoomEnd - zoomStart) * progress })
+      // Animate border radius if enabled
+      setBorderRadius(borderRadiusValue * progress)
+    },
+    invalidateOnRefresh: true,
+  })
+
+  return () => {
+    trigger.kill()
+    gsap.set(hero, { clearProps: ['transform', 'transformOrigin', ...activeCorners].join(',') })
+  }
+}
+
+const setupFadeOut = (
+  hero: HTMLElement,
+  fade: HeroScroll['fade'],
+  { gsap, ScrollTrigger }: GsapModules,
+) => {
+  const settings = resolveFadeOut(fade)
+  const { opacityStart, duration } = settings
+
+  gsap.set(hero, { opacity: opacityStart })
+
+  const trigger = ScrollTrigger.create({
+    trigger: hero,
+    start: getStartPosition(),
+    end: `+=${duration}`,
+    scrub: true,
+    onUpdate: (self) => {
+      gsap.set(hero, { opacity: getFadeOpacity(settings, self.progress) })
+    },
+    invalidateOnRefresh: true,
+  })
+
+  return () => {
+    trigger.kill()
+    gsap.set(hero, { clearProps: 'opacity' })
+  }
+}
+
+const setupParallax = (
+  hero: HTMLElement,
+  parallax: HeroScroll['parallax'],
+  { gsap, ScrollTrigger }: GsapModules,
+) => {
+  const { mediaSpeed, contentSpeed, duration } = resolveParallax(parallax)
+
+  const layers = [
+    { element: getLayer(hero, 'media'), speed: mediaSpeed },
+    { element: getLayer(hero, 'content'), speed: contentSpeed },
+  ].filter(
+    (layer): layer is { element: HTMLElement; speed: number } =>
+      Boolean(layer.element) && layer.speed !== 0,
+  )
+
+  if (layers.length === 0) return
+
+  const trigger = ScrollTrigger.create({
+    trigger: hero,
+    start: getStartPosition(),
+    end: `+=${duration}`,
+    scrub: true,
+    onUpdate: (self) => {
+      layers.forEach(({ element, speed }) => {
+        gsap.set(element, { y: getParallaxOffset(duration, speed, self.progress) })
+      })
+    },
+    invalidateOnRefresh: true,
+  })
+
+  return () => {
+    trigger.kill()
+    gsap.set(
+      layers.map(({ element }) => element),
+      { clearProps: 'transform' },
+    )
+  }
+}
+
+/**
+ * Hero wrapper that applies the scroll effect configured in the hero's `scroll` group.
+ * Effects are skipped when the user prefers reduced motion, and on mobile unless enabled.
+ * GSAP is only downloaded once an effect actually runs.
+ */
+export const HeroScrollEffect: React.FC<Props> = ({ scroll, children, ...rest }) => {
+  const heroRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const hero = heroRef.current
+    if (!hero || !scroll) return
+
+    const effect = getHeroScrollEffect(scroll, {
+      isMobile: window.innerWidth <= MOBILE_MAX_WIDTH,
+      prefersReducedMotion: window.matchMedia('(prefers-reduced-motion: reduce)').matches,
+    })
+    if (!effect) return
+
+    let isCancelled = false
+    let cleanup: (() => void) | undefined
+
+    loadGsap().then((modules) => {
+      if (isCancelled) return
+
+      switch (effect) {
+        case 'zoom-out':
+          cleanup = setupZoomOut(hero, scroll.zoom, modules)
+          break
+        case 'fade-out':
+          cleanup = setupFadeOut(hero, scroll.fade, modules)
+          break
+        case 'parallax':
+          cleanup = setupParallax(hero, scroll.parallax, modules)
+          break
+      }
+    })
+
+    return () => {
+      isCancelled = true
+      cleanup?.()
+    }
+  }, [scroll])
+
+  return (
+    <div ref={heroRef} {...rest}>
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import type { Page } from '@/payload-types'
+
+export type HeroScroll = NonNullable<Page['hero']['scroll']>
+
+// Effects that animate the hero, `none` leaves it static
+export type HeroScrollType = Exclude<NonNullable<HeroScroll['type']>, 'none'>
+
+// What the visitor's device allows, read from the browser by the hero
+export interface HeroScrollEnvironment {
+  isMobile: boolean
+  prefersReducedMotion: boolean
+}
+
+export const MOBILE_MAX_WIDTH = 768
+
+// Parallax is heavier than the other effects, so it stays off on mobile unless enabled
+const ENABLED_ON_MOBILE_BY_DEFAULT: Record<HeroScrollType, boolean> = {
+  'zoom-out': true,
+  'fade-out': true,
+  parallax: false,
+}
+
+const getEnableOnMobile = (scroll: HeroScroll, type: HeroScrollType) => {
+  switch (type) {
+    case 'zoom-out':
+      return scroll.zoom?.enableOnMobile
+    case 'fade-out':
+      return scroll.fade?.enableOnMobile
+    case 'parallax':
+      return scroll.parallax?.enableOnMobile
+  }
+}
+
+/**
+ * Effect to run for the hero's `scroll` settings, undefined when the hero stays static:
+ * effects are off, the user prefers reduced motion, or the effect is not enabled on mobile.
+ */
+export function getHeroScrollEffect(
+  scroll: Page['hero']['scroll'],
+  { isMobile, prefersReducedMotion }: HeroScrollEnvironment,
+): HeroScrollType | undefined {
+  if (!scroll?.enabled || !scroll.type || scroll.type === 'none' || prefersReducedMotion) {
+    return undefined
+  }
+
+  const enableOnMobile =
+    getEnableOnMobile(scroll, scroll.type) ?? ENABLED_ON_MOBILE_BY_DEFAULT[scroll.type]
+  if (isMobile && !enableOnMobile) return undefined
+
+  return scroll.type
+}
+
+export function resolveZoomOut(zoom: HeroScroll['zoom']) {
+  return {
+    zoomStart: zoom?.zoomStart ?? 1,
+    zoomEnd: zoom?.zoomEnd ?? 0.95,
+    duration: zoom?.duration ?? 300,
+  }
+}
+
+export function resolveFadeOut(fade: HeroScroll['fade']) {
+  return {
+    opacityStart: fade?.opacityStart ?? 1,
+    opacityEnd: fade?.opacityEnd ?? 0,
+    duration: fade?.duration ?? 400,
+  }
+}
+
+export function resolveParallax(parallax: HeroScroll['parallax']) {
+  return {
+    mediaSpeed: parallax?.mediaSpeed ?? 0.5,
+    contentSpeed: parallax?.contentSpeed ?? 0.2,
+    duration: parallax?.duration ?? 600,
+  }
+}
+
+// Hero opacity at a scroll progress between 0 and 1
+export function getFadeOpacity(fade: ReturnType<typeof resolveFadeOut>, progress: number) {
+  return fade.opacityStart + (fade.opacityEnd - fade.opacityStart) * progress
+}
+
+// A layer is offset by a fraction of the scrolled distance, so it appears to move slower
+export function getParallaxOffset(duration: number, speed: number, progress: number) {
+  return progress * duration * speed
+}
@@ -41,6 +41,7 @@ export const hero: Field = {
     {
       name: 'richText',
       type: 'richText',
+      localized: true,
       editor: lexicalEditor({
         features: ({ rootFeatures }) => {
           return [
@@ -151,8 +152,10 @@ export const hero: Field = {
       type: 'group',
       label: 'Scroll Effect',
       admin: {
-        condition: (_, { type } = {}) => type === 'highImpact',
-        description: 'Configure scroll animations for the hero section',
+        condition: (_, { type } = {}) =>
+          ['highImpact', 'mediumImpact', 'lowImpact'].includes(type),
+        description:
+          'Configure scroll animations for the hero section. Effects are disabled for visitors who prefer reduced motion.',
       },
       fields: [
         {
@@ -328,6 +331,114 @@ export const hero: Field = {
             },
           ],
         },
+        {
+          name: 'fade',
+          type: 'group',
+          label: 'Fade Settings',
+          admin: {
+            condition: (_, siblingData) => siblingData?.type === 'fade-out' && Boolean(siblingData?.enabled),
+          },
+          fields: [
+            {
+              name: 'opacityStart',
+              type: 'number',
+              label: 'Opacity Start',
+              defaultValue: 1,
+              min: 0,
+              max: 1,
+              admin: {
+                step: 0.05,
+                description: 'Opacity when the hero is at the top of the viewport',
+              },
+            },
+            {
+              name: 'opacityEnd',
+              type: 'number',
+              label: 'Opacity End',
+              defaultValue: 0,
+              min: 0,
+              max: 1,
+              admin: {
+                step: 0.05,
+                description: 'Opacity once the scroll distance has been covered',
+              },
+            },
+            {
+              name: 'duration',
+              type: 'number',
+              label: 'Scroll Distance (pixels)',
+              defaultValue: 400,
+              min: 100,
+              max: 2000,
+              admin: {
+                step: 50,
+                description: 'How many pixels to scroll for full effect',
+              },
+            },
+            {
+              name: 'enableOnMobile',
+              type: 'checkbox',
+              label: 'Enable on Mobile',
+              defaultValue: true,
+            },
+          ],
+        },
+        {
+          name: 'parallax',
+          type: 'group',
+          label: 'Parallax Settings',
+          admin: {
+            condition: (_, siblingData) => siblingData?.type === 'parallax' && Boolean(siblingData?.enabled),
+          },
+          fields: [
+            {
+              name: 'mediaSpeed',
+              type: 'number',
+              label: 'Media Layer Speed',
+              defaultValue: 0.5,
+              min: 0,
+              max: 1,
+              admin: {
+                step: 0.1,
+                description:
+                  'How much the background media lags behind the scroll (0 = scrolls normally, 1 = stays fixed)',
+              },
+            },
+            {
+              name: 'contentSpeed',
+              type: 'number',
+              label: 'Content Layer Speed',
+              defaultValue: 0.2,
+              min: 0,
+              max: 1,
+              admin: {
+                step: 0.1,
+                description: 'How much the text and buttons lag behind the scroll',
+              },
+            },
+            {
+              name: 'duration',
+              type: 'number',
+              label: 'Scroll Distance (pixels)',
+              defaultValue: 600,
+              min: 100,
+              max: 2000,
+              admin: {
+                step: 50,
+                description: 'How many pixels to scroll for full effect',
+              },
+            },
+            {
+              name: 'enableOnMobile',
+              type: 'checkbox',
+              label: 'Enable on Mobile',
+              defaultValue: false,
+              admin: {
+                description: 'Parallax can feel janky on touch devices, so it is off by default',
+              },
+            },
+          ],
+        },
       ],
     },
   ],
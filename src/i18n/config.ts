@@ -0,0 +1,55 @@
+import { defaultLocale, locales } from './locales.js'
+
+export { defaultLocale, locales }
+
+export type Locale = (typeof locales)[number]['code']
+
+export const localeCodes: Locale[] = locales.map(({ code }) => code)
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && localeCodes.includes(value as Locale)
+
+/**
+ * Public URL path for a locale. The default locale is served without a prefix,
+ * e.g. `/about` (English) and `/es/about` (Spanish).
+ */
+export const localizePath = (path: string, locale: Locale = defaultLocale): string => {
+  const normalizedPath = path.startsWith('/') ? path : `/${path}`
+
+  if (locale === defaultLocale) return normalizedPath
+
+  return normalizedPath === '/' ? `/${locale}` : `/${locale}${normalizedPath}`
+}
+
+/**
+ * Link target in a locale: internal paths are prefixed unless they already carry a locale,
+ * external and protocol-relative URLs are left as-is
+ */
+export const localizeHref = (href: string, locale: Locale = defaultLocale): string => {
+  const isInternal = href.startsWith('/') && !href.startsWith('//')
+
+  if (!isInternal || splitLocalePath(href).locale) return href
+
+  return localizePath(href, locale)
+}
+
+/**
+ * Splits a pathname into its locale prefix and the remaining path,
+ * e.g. `/es/about` → `{ locale: 'es', path: '/about' }`, `/about` → `{ locale: undefined, path: '/about' }`
+ */
+export const splitLocalePath = (pathname: string): { locale?: Locale; path: string } => {
+  const [, firstSegment, ...rest] = pathname.split('/')
+
+  if (isLocale(firstSegment)) {
+    return { locale: firstSegment, path: `/${rest.join('/')}` }
+  }
+
+  return { path: pathname }
+}
+
+/**
+ * Internal route paths (including the `[locale]` segment) for every locale, used with `revalidatePath`
+ * since unprefixed URLs are rewritten to the default locale by the middleware
+ */
+export const getLocaleRoutePaths = (path: string): string[] =>
+  localeCodes.map((locale) => (path === '/' ? `/${locale}` : `/${locale}${path}`))
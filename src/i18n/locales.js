@@ -0,0 +1,17 @@
+// @ts-check
+
+// Locales of the site, in plain JavaScript so next-sitemap.config.mjs can read them as well.
+// Everything else imports them through '@/i18n/config'.
+export const locales = /** @type {const} */ ([
+  {
+    code: 'en',
+    label: 'English',
+  },
+  {
+    code: 'es',
+    label: 'Español',
+  },
+])
+
+/** @type {(typeof locales)[number]['code']} */
+export const defaultLocale = 'en'
@@ -0,0 +1,24 @@
+'use client'
+
+import { useParams } from 'next/navigation'
+import { useCallback } from 'react'
+
+import { defaultLocale, isLocale, localizePath, splitLocalePath, type Locale } from './config'
+
+// Locale of the current frontend route, from the `[locale]` segment
+export const useLocale = (): Locale => {
+  const params = useParams<{ locale?: string }>()
+
+  return isLocale(params?.locale) ? params.locale : defaultLocale
+}
+
+// Prefixes internal paths with the current route's locale, e.g. `/search` → `/es/search`.
+// Paths that already carry a locale prefix are returned unchanged.
+export const useLocalizePath = (): ((path: string) => string) => {
+  const locale = useLocale()
+
+  return useCallback(
+    (path: string) => (splitLocalePath(path).locale ? path : localizePath(path, locale)),
+    [locale],
+  )
+}
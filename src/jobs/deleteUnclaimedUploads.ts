@@ -0,0 +1,38 @@
+import type { TaskConfig } from 'payload'
+
+// Uploads not attached to a submission within this time were abandoned or never meant to be
+export const UNCLAIMED_UPLOAD_HOURS = 24
+
+/**
+ * Deletes form uploads, and their files, that no submission claimed in time. Runs every hour
+ * so files uploaded to `/api/form-uploads` without submitting the form don't fill the disk.
+ */
+export const deleteUnclaimedUploads: TaskConfig<'deleteUnclaimedUploads'> = {
+  slug: 'deleteUnclaimedUploads',
+  label: 'Delete unclaimed form uploads',
+  schedule: [{ cron: '0 0 * * * *', queue: 'default' }],
+  handler: async ({ req }) => {
+    const { payload } = req
+    const cutoff = new Date(Date.now() - UNCLAIMED_UPLOAD_HOURS * 60 * 60 * 1000)
+
+    const { docs, errors } = await payload.delete({
+      collection: 'form-uploads',
+      depth: 0,
+      req,
+      where: {
+        and: [
+          { submission: { exists: false } },
+          { createdAt: { less_than: cutoff.toISOString() } },
+        ],
+      },
+    })
+
+    if (docs.length > 0) payload.logger.info(`Deleted ${docs.length} unclaimed form upload(s)`)
+
+    for (const { id, message } of errors) {
+      payload.logger.error(`Could not delete unclaimed form upload ${id}: ${message}`)
+    }
+
+    return { output: {} }
+  },
+}
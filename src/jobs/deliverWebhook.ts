@@ -0,0 +1,96 @@
+import type { TaskConfig } from 'payload'
+
+import { sendWebhook, WebhookDeliveryError } from '@/blocks/Form/webhooks'
+
+/**
+ * Posts a logged webhook delivery. The signing secret is read from the form at send time, so
+ * replays use the current secret. Failures are recorded and rethrown for the queue to retry.
+ */
+export const deliverWebhook: TaskConfig<'deliverWebhook'> = {
+  slug: 'deliverWebhook',
+  label: 'Deliver webhook',
+  inputSchema: [
+    {
+      name: 'delivery',
+      type: 'relationship',
+      relationTo: 'webhook-deliveries',
+      required: true,
+    },
+  ],
+  retries: {
+    attempts: 5,
+    backoff: {
+      type: 'exponential',
+      delay: 30_000,
+    },
+  },
+  handler: async ({ input, req }) => {
+    const { payload } = req
+    const delivery = await payload.findByID({
+      collection: 'webhook-deliveries',
+      id: typeof input.delivery === 'object' ? input.delivery.id : input.delivery,
+      depth: 0,
+      req,
+    })
+
+    if (delivery.status === 'delivered') return { output: {} }
+
+    const attempts = (delivery.attempts ?? 0) + 1
+    const formID = typeof delivery.form === 'object' ? delivery.form?.id : delivery.form
+    const form = formID
+      ? await payload.findByID({ collection: 'forms', id: formID, depth: 0, req })
+      : undefined
+    const webhook = form?.webhooks?.find(({ id }) => id === delivery.webhookID)
+
+    // Nothing to retry once the webhook has been removed from its form
+    if (!webhook) {
+      await payload.update({
+        collection: 'webhook-deliveries',
+        id: delivery.id,
+        data: {
+          attempts,
+          error: 'The webhook no longer exists on its form.',
+          status: 'failed',
+        },
+        req,
+      })
+      return { output: {} }
+    }
+
+    try {
+      const responseStatus = await sendWebhook({
+        body: JSON.stringify(delivery.body),
+        secret: webhook.secret,
+        url: delivery.url,
+      })
+
+      await payload.update({
+        collection: 'webhook-deliveries',
+        id: delivery.id,
+        data: {
+          attempts,
+          deliveredAt: new Date().toISOString(),
+          error: null,
+          responseStatus,
+          status: 'delivered',
+        },
+        req,
+      })
+    } catch (err) {
+      await payload.update({
+        collection: 'webhook-deliveries',
+        id: delivery.id,
+        data: {
+          attempts,
+          error: err instanceof Error ? err.message : String(err),
+          responseStatus: err instanceof WebhookDeliveryError ? err.status : null,
+          status: 'failed',
+        },
+        req,
+      })
+      throw err
+    }
+
+    return { output: {} }
+  },
+}
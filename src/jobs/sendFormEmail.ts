@@ -0,0 +1,76 @@
+import type { TaskConfig } from 'payload'
+
+/**
+ * Sends a logged form email. Failures are recorded on the delivery and rethrown so the
+ * job queue retries them with backoff.
+ */
+export const sendFormEmail: TaskConfig<'sendFormEmail'> = {
+  slug: 'sendFormEmail',
+  label: 'Send form email',
+  inputSchema: [
+    {
+      name: 'delivery',
+      type: 'relationship',
+      relationTo: 'email-deliveries',
+      required: true,
+    },
+  ],
+  retries: {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 60_000,
+    },
+  },
+  handler: async ({ input, req }) => {
+    const { payload } = req
+    const delivery = await payload.findByID({
+      collection: 'email-deliveries',
+      id: typeof input.delivery === 'object' ? input.delivery.id : input.delivery,
+      depth: 0,
+      req,
+    })
+
+    // A retried job must not send the same email twice
+    if (delivery.status === 'sent') return { output: {} }
+
+    const attempts = (delivery.attempts ?? 0) + 1
+
+    try {
+      await payload.sendEmail({
+        bcc: delivery.bcc || undefined,
+        cc: delivery.cc || undefined,
+        from: delivery.from || undefined,
+        html: delivery.html ?? '',
+        replyTo: delivery.replyTo || undefined,
+        subject: delivery.subject,
+        to: delivery.to,
+      })
+    } catch (err) {
+      await payload.update({
+        collection: 'email-deliveries',
+        id: delivery.id,
+        data: {
+          attempts,
+          error: err instanceof Error ? err.message : String(err),
+          status: 'failed',
+        },
+        req,
+      })
+      throw err
+    }
+
+    await payload.update({
+      collection: 'email-deliveries',
+      id: delivery.id,
+      data: {
+        attempts,
+        sentAt: new Date().toISOString(),
+        status: 'sent',
+      },
+      req,
+    })
+
+    return { output: {} }
+  },
+}
@@ -2,7 +2,8 @@
 // E-Voque Brand Color Palette
 // ============================================================================
 // Official brand colors used throughout the application
-// See: docs/BRAND_COLOR_PALETTE.md for full documentation
+// These are the defaults of the `theme` global (src/Theme/tokens.ts). Styles should use
+// `themeColor()` or the `var(--brand-…)` properties so the CMS values apply
 // ============================================================================
 export const BRAND_COLORS = {
   // Primary Colors
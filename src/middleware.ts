@@ -0,0 +1,37 @@
+import { NextResponse, type NextRequest } from 'next/server'
+
+import { defaultLocale, localizePath, splitLocalePath } from '@/i18n/config'
+
+// Localized sitemaps are served by routes under `[locale]`
+const isLocalizedSitemap = (pathname: string) => /-sitemap\.xml$/.test(pathname)
+
+/**
+ * Maps public URLs onto the `[locale]` route segment. The default locale has no prefix,
+ * so `/about` is rewritten to `/en/about` and `/en/about` redirects to `/about`.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl
+
+  // Static files such as /favicon.ico or /robots.txt are not localized
+  if (/\.[^/]+$/.test(pathname) && !isLocalizedSitemap(pathname)) {
+    return NextResponse.next()
+  }
+
+  const { locale, path } = splitLocalePath(pathname)
+
+  if (locale === defaultLocale) {
+    return NextResponse.redirect(new URL(`${localizePath(path)}${search}`, request.url), 308)
+  }
+
+  if (locale) return NextResponse.next()
+
+  return NextResponse.rewrite(
+    new URL(`/${defaultLocale}${pathname === '/' ? '' : pathname}${search}`, request.url),
+  )
+}
+
+export const config = {
+  // Skip the admin panel, API routes, preview/seed endpoints and Next.js internals. Only whole
+  // segments are skipped, so slugs such as `/apiary` or `/nextgen` are still localized
+  matcher: ['/((?!(?:admin|api|next)(?:/|$)|_next/static|_next/image).*)'],
+}
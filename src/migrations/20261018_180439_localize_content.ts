@@ -0,0 +1,151 @@
+import {
+  type MigrateDownArgs,
+  type MigrateUpArgs,
+  type PostgresAdapter,
+  sql,
+} from '@payloadcms/db-postgres'
+
+import { defaultLocale, localeCodes } from '@/i18n/config'
+
+import { findColumnsToLocalize, LOCALES_TABLE_SUFFIX } from './utilities/localizedColumns'
+
+// Enum Payload types the `_locale` column with
+const LOCALE_ENUM = 'enum__locales'
+const BASE_COLUMNS = ['id', '_locale', '_parent_id']
+
+type Database = MigrateUpArgs['db']
+
+// Columns of the tables in the current schema, with their SQL types keyed `table.column`
+const getDatabaseColumns = async (db: Database) => {
+  const { rows } = await db.execute(sql`
+    SELECT c.relname AS table_name, a.attname AS column_name,
+      format_type(a.atttypid, a.atttypmod) AS column_type
+    FROM pg_attribute a
+    JOIN pg_class c ON c.oid = a.attrelid
+    JOIN pg_namespace n ON n.oid = c.relnamespace
+    WHERE n.nspname = current_schema() AND c.relkind = 'r' AND a.attnum > 0 AND NOT a.attisdropped
+  `)
+
+  const columns: Record<string, string[]> = {}
+  const types: Record<string, string> = {}
+  for (const row of rows as { table_name: string; column_name: string; column_type: string }[]) {
+    ;(columns[row.table_name] ??= []).push(row.column_name)
+    types[`${row.table_name}.${row.column_name}`] = row.column_type
+  }
+
+  return { columns, types }
+}
+
+const identifiers = (names: string[]) =>
+  sql.join(
+    names.map((name) => sql.identifier(name)),
+    sql`, `,
+  )
+
+/**
+ * Moves existing content of fields that became localized into their `_locales`
+ * tables as the default locale, then drops the old columns so the schema push has nothing left
+ * to delete. Run `pnpm payload migrate` (which skips the push) on an existing database before
+ * starting the localized build, see "Localization" in the README.
+ */
+export async function up({ db, payload }: MigrateUpArgs): Promise<void> {
+  const { rawTables } = payload.db as unknown as PostgresAdapter
+  const { columns, types } = await getDatabaseColumns(db)
+  const moves = findColumnsToLocalize(Object.values(rawTables), columns)
+
+  if (moves.length === 0) return
+
+  // DDL takes no bind parameters, the locale codes are constants from src/i18n/config.ts
+  await db.execute(sql`
+    DO $$ BEGIN
+      CREATE TYPE ${sql.identifier(LOCALE_ENUM)} AS ENUM (${sql.raw(
+        localeCodes.map((code) => `'${code}'`).join(', '),
+      )});
+    EXCEPTION WHEN duplicate_object THEN null;
+    END $$;
+  `)
+
+  for (const { table, localesTable, columns: moved } of moves) {
+    const parent = sql.identifier(table)
+    const locales = sql.identifier(localesTable)
+
+    // Same names as Payload's own, so the next schema push finds the table as it expects
+    if (!columns[localesTable]) {
+      await db.execute(sql`
+        CREATE TABLE ${locales} (
+          "id" serial PRIMARY KEY NOT NULL,
+          "_locale" ${sql.identifier(LOCALE_ENUM)} NOT NULL,
+          "_parent_id" ${sql.raw(types[`${table}.id`])} NOT NULL,
+          CONSTRAINT ${sql.identifier(`${localesTable}_parent_id_fk`)}
+            FOREIGN KEY ("_parent_id") REFERENCES ${parent}("id") ON DELETE cascade
+        )
+      `)
+      await db.execute(sql`
+        CREATE UNIQUE INDEX ${sql.identifier(`${localesTable}_locale_parent_id_unique`)}
+          ON ${locales} ("_locale", "_parent_id")
+      `)
+    }
+
+    for (const column of moved) {
+      await db.execute(sql`
+        ALTER TABLE ${locales}
+          ADD COLUMN IF NOT EXISTS ${sql.identifier(column)} ${sql.raw(types[`${table}.${column}`])}
+      `)
+    }
+
+    // Translations already in the table are kept, only their empty fields are filled in
+    await db.execute(sql`
+      INSERT INTO ${locales} ("_locale", "_parent_id", ${identifiers(moved)})
+      SELECT ${defaultLocale}::${sql.identifier(LOCALE_ENUM)}, "id", ${identifiers(moved)}
+      FROM ${parent}
+      ON CONFLICT ("_locale", "_parent_id") DO UPDATE SET ${sql.join(
+        moved.map(
+          (column) =>
+            sql`${sql.identifier(column)} = COALESCE(${locales}.${sql.identifier(column)}, EXCLUDED.${sql.identifier(column)})`,
+        ),
+        sql`, `,
+      )}
+    `)
+
+    for (const column of moved) {
+      await db.execute(sql`ALTER TABLE ${parent} DROP COLUMN ${sql.identifier(column)}`)
+    }
+
+    payload.logger.info(`Localized ${table}: ${moved.join(', ')}`)
+  }
+}
+
+/**
+ * Puts the default locale's values back on the parent tables and drops the `_locales` tables.
+ * Translations into the other locales are lost.
+ */
+export async function down({ db, payload }: MigrateDownArgs): Promise<void> {
+  const { columns, types } = await getDatabaseColumns(db)
+
+  for (const localesTable of Object.keys(columns)) {
+    if (!localesTable.endsWith(LOCALES_TABLE_SUFFIX)) continue
+
+    const table = localesTable.slice(0, -LOCALES_TABLE_SUFFIX.length)
+    if (!columns[table]) continue
+
+    const parent = sql.identifier(table)
+    const locales = sql.identifier(localesTable)
+    const localized = columns[localesTable].filter((column) => !BASE_COLUMNS.includes(column))
+
+    for (const column of localized) {
+      await db.execute(sql`
+        ALTER TABLE ${parent}
+          ADD COLUMN IF NOT EXISTS ${sql.identifier(column)} ${sql.raw(types[`${localesTable}.${column}`])}
+      `)
+      await db.execute(sql`
+        UPDATE ${parent} SET ${sql.identifier(column)} = ${locales}.${sql.identifier(column)}
+        FROM ${locales}
+        WHERE ${locales}."_parent_id" = ${parent}."id"
+          AND ${locales}."_locale" = ${defaultLocale}::${sql.identifier(LOCALE_ENUM)}
+      `)
+    }
+
+    await db.execute(sql`DROP TABLE ${locales}`)
+    payload.logger.info(`Unlocalized ${table}: ${localized.join(', ')}`)
+  }
+}
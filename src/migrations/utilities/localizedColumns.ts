@@ -0,0 +1,38 @@
+// Suffix of the tables Payload stores localized field values in, one row per locale
+export const LOCALES_TABLE_SUFFIX = '_locales'
+
+// Columns every `_locales` table has besides the localized fields
+const LOCALES_TABLE_COLUMNS = ['id', '_locale', '_parent_id']
+
+// Table from the adapter's schema (`payload.db.rawTables`), only what is needed here
+export interface SchemaTable {
+  name: string
+  columns: Record<string, { name: string }>
+}
+
+export interface LocalizedColumns {
+  table: string
+  localesTable: string
+  columns: string[]
+}
+
+/**
+ * Columns of fields that became localized: the schema has them on a `_locales` table while the
+ * database still has them on the parent table. `databaseColumns` lists the columns per table
+ * as they are in the database.
+ */
+export const findColumnsToLocalize = (
+  schemaTables: SchemaTable[],
+  databaseColumns: Record<string, string[]>,
+): LocalizedColumns[] =>
+  schemaTables.flatMap(({ name, columns }) => {
+    if (!name.endsWith(LOCALES_TABLE_SUFFIX)) return []
+
+    const table = name.slice(0, -LOCALES_TABLE_SUFFIX.length)
+    const parentColumns = databaseColumns[table] ?? []
+    const moved = Object.values(columns)
+      .map((column) => column.name)
+      .filter((column) => !LOCALES_TABLE_COLUMNS.includes(column) && parentColumns.includes(column))
+
+    return moved.length > 0 ? [{ table, localesTable: name, columns: moved }] : []
+  })
@@ -68,8 +68,16 @@ export interface Config {
   blocks: {};
   collections: {
     pages: Page;
+    'page-templates': PageTemplate;
     posts: Post;
+    sections: Section;
+    testimonials: Testimonial;
+    jobs: Job;
     media: Media;
+    'form-uploads': FormUpload;
+    'email-deliveries': EmailDelivery;
+    'rejected-submissions': RejectedSubmission;
+    'webhook-deliveries': WebhookDelivery;
     categories: Category;
     users: User;
     redirects: Redirect;
@@ -90,8 +98,16 @@ export interface Config {
   };
   collectionsSelect: {
     pages: PagesSelect<false> | PagesSelect<true>;
+    'page-templates': PageTemplatesSelect<false> | PageTemplatesSelect<true>;
     posts: PostsSelect<false> | PostsSelect<true>;
+    sections: SectionsSelect<false> | SectionsSelect<true>;
+    testimonials: TestimonialsSelect<false> | TestimonialsSelect<true>;
+    jobs: JobsSelect<false> | JobsSelect<true>;
     media: MediaSelect<false> | MediaSelect<true>;
+    'form-uploads': FormUploadsSelect<false> | FormUploadsSelect<true>;
+    'email-deliveries': EmailDeliveriesSelect<false> | EmailDeliveriesSelect<true>;
+    'rejected-submissions': RejectedSubmissionsSelect<false> | RejectedSubmissionsSelect<true>;
+    'webhook-deliveries': WebhookDeliveriesSelect<false> | WebhookDeliveriesSelect<true>;
     categories: CategoriesSelect<false> | CategoriesSelect<true>;
     users: UsersSelect<false> | UsersSelect<true>;
     redirects: RedirectsSelect<false> | RedirectsSelect<true>;
@@ -111,17 +127,24 @@ export interface Config {
   globals: {
     header: Header;
     footer: Footer;
+    theme: Theme;
+    'payload-jobs-stats': PayloadJobsStat;
   };
   globalsSelect: {
     header: HeaderSelect<false> | HeaderSelect<true>;
     footer: FooterSelect<false> | FooterSelect<true>;
+    theme: ThemeSelect<false> | ThemeSelect<true>;
+    'payload-jobs-stats': PayloadJobsStatsSelect<false> | PayloadJobsStatsSelect<true>;
   };
-  locale: null;
+  locale: 'en' | 'es';
   user: User & {
     collection: 'users';
   };
   jobs: {
     tasks: {
+      deleteUnclaimedUploads: TaskDeleteUnclaimedUploads;
+      deliverWebhook: TaskDeliverWebhook;
+      sendFormEmail: TaskSendFormEmail;
       schedulePublish: TaskSchedulePublish;
       inline: {
         input: unknown;
@@ -208,7 +231,7 @@ export interface Page {
       bottomLeft?: ('0' | '8' | '16' | '24' | '32' | '48' | '64' | '96') | null;
     };
     /**
-     * Configure scroll animations for the hero section
+     * Configure scroll animations for the hero section. Effects are disabled for visitors who prefer reduced motion.
      */
     scroll?: {
       enabled?: boolean | null;
@@ -246,9 +269,51 @@ export interface Page {
           value?: ('0' | '8' | '16' | '24' | '32' | '48' | '64' | '96') | null;
         };
       };
+      fade?: {
+        /**
+         * Opacity when the hero is at the top of the viewport
+         */
+        opacityStart?: number | null;
+        /**
+         * Opacity once the scroll distance has been covered
+         */
+        opacityEnd?: number | null;
+        /**
+         * How many pixels to scroll for full effect
+         */
+        duration?: number | null;
+        enableOnMobile?: boolean | null;
+      };
+      parallax?: {
+        /**
+         * How much the background media lags behind the scroll (0 = scrolls normally, 1 = stays fixed)
+         */
+        mediaSpeed?: number | null;
+        /**
+         * How much the text and buttons lag behind the scroll
+         */
+        contentSpeed?: number | null;
+        /**
+         * How many pixels to scroll for full effect
+         */
+        duration?: number | null;
+        /**
+         * Parallax can feel janky on touch devices, so it is off by default
+         */
+        enableOnMobile?: boolean | null;
+      };
     };
   };
-  layout: (CallToActionBlock | ContentBlock | MediaBlock | ArchiveBlock | FormBlock | ScrollBlock | TestimonialBlock)[];
+  layout: (
+    | CallToActionBlock
+    | ContentBlock
+    | MediaBlock
+    | ArchiveBlock
+    | FormBlock
+    | ScrollBlock
+    | TestimonialBlock
+    | ReusableSectionBlock
+  )[];
   meta?: {
     title?: string | null;
     /**
@@ -467,6 +532,10 @@ export interface Category {
 export interface User {
   id: number;
   name?: string | null;
+  /**
+   * Editors manage pages, posts and forms. Authors can only edit their own posts. Recruiters can read form submissions.
+   */
+  roles: ('admin' | 'editor' | 'author' | 'recruiter')[];
   updatedAt: string;
   createdAt: string;
   email: string;
@@ -688,6 +757,17 @@ export interface Form {
             width?: number | null;
             required?: boolean | null;
             defaultValue?: boolean | null;
+            /**
+             * Only show this field when another field matches. Leave the field name empty to always show it.
+             */
+            showIf?: {
+              field?: string | null;
+              operator?: ('equals' | 'notEquals' | 'isFilled' | 'isEmpty') | null;
+              /**
+               * Matches the option value or label, ignoring case
+               */
+              value?: string | null;
+            };
             id?: string | null;
             blockName?: string | null;
             blockType: 'checkbox';
@@ -697,6 +777,17 @@ export interface Form {
             label?: string | null;
             width?: number | null;
             required?: boolean | null;
+            /**
+             * Only show this field when another field matches. Leave the field name empty to always show it.
+             */
+            showIf?: {
+              field?: string | null;
+              operator?: ('equals' | 'notEquals' | 'isFilled' | 'isEmpty') | null;
+              /**
+               * Matches the option value or label, ignoring case
+               */
+              value?: string | null;
+            };
             id?: string | null;
             blockName?: string | null;
             blockType: 'country';
@@ -706,6 +797,17 @@ export interface Form {
             label?: string | null;
             width?: number | null;
             required?: boolean | null;
+            /**
+             * Only show this field when another field matches. Leave the field name empty to always show it.
+             */
+            showIf?: {
+              field?: string | null;
+              operator?: ('equals' | 'notEquals' | 'isFilled' | 'isEmpty') | null;
+              /**
+               * Matches the option value or label, ignoring case
+               */
+              value?: string | null;
+            };
             id?: string | null;
             blockName?: string | null;
             blockType: 'email';
@@ -726,6 +828,17 @@ export interface Form {
               };
               [k: string]: unknown;
             } | null;
+            /**
+             * Only show this field when another field matches. Leave the field name empty to always show it.
+             */
+            showIf?: {
+              field?: string | null;
+              operator?: ('equals' | 'notEquals' | 'isFilled' | 'isEmpty') | null;
+              /**
+               * Matches the option value or label, ignoring case
+               */
+              value?: string | null;
+            };
             id?: string | null;
             blockName?: string | null;
             blockType: 'message';
@@ -736,6 +849,17 @@ export interface Form {
             width?: number | null;
             defaultValue?: number | null;
             required?: boolean | null;
+            /**
+             * Only show this field when another field matches. Leave the field name empty to always show it.
+             */
+            showIf?: {
+              field?: string | null;
+              operator?: ('equals' | 'notEquals' | 'isFilled' | 'isEmpty') | null;
+              /**
+               * Matches the option value or label, ignoring case
+               */
+              value?: string | null;
+            };
             id?: string | null;
             blockName?: string | null;
             blockType: 'number';
@@ -754,6 +878,17 @@ export interface Form {
                 }[]
               | null;
             required?: boolean | null;
+            /**
+             * Only show this field when another field matches. Leave the field name empty to always show it.
+             */
+            showIf?: {
+              field?: string | null;
+              operator?: ('equals' | 'notEquals' | 'isFilled' | 'isEmpty') | null;
+              /**
+               * Matches the option value or label, ignoring case
+               */
+              value?: string | null;
+            };
             id?: string | null;
             blockName?: string | null;
             blockType: 'select';
@@ -763,6 +898,17 @@ export interface Form {
             label?: string | null;
             width?: number | null;
             required?: boolean | null;
+            /**
+             * Only show this field when another field matches. Leave the field name empty to always show it.
+             */
+            showIf?: {
+              field?: string | null;
+              operator?: ('equals' | 'notEquals' | 'isFilled' | 'isEmpty') | null;
+              /**
+               * Matches the option value or label, ignoring case
+               */
+              value?: string | null;
+            };
             id?: string | null;
             blockName?: string | null;
             blockType: 'state';
@@ -773,6 +919,17 @@ export interface Form {
             width?: number | null;
             defaultValue?: string | null;
             required?: boolean | null;
+            /**
+             * Only show this field when another field matches. Leave the field name empty to always show it.
+             */
+            showIf?: {
+              field?: string | null;
+              operator?: ('equals' | 'notEquals' | 'isFilled' | 'isEmpty') | null;
+              /**
+               * Matches the option value or label, ignoring case
+               */
+              value?: string | null;
+            };
             id?: string | null;
             blockName?: string | null;
             blockType: 'text';
@@ -783,10 +940,77 @@ export interface Form {
             width?: number | null;
             defaultValue?: string | null;
             required?: boolean | null;
+            /**
+             * Only show this field when another field matches. Leave the field name empty to always show it.
+             */
+            showIf?: {
+              field?: string | null;
+              operator?: ('equals' | 'notEquals' | 'isFilled' | 'isEmpty') | null;
+              /**
+               * Matches the option value or label, ignoring case
+               */
+              value?: string | null;
+            };
             id?: string | null;
             blockName?: string | null;
             blockType: 'textarea';
           }
+        | {
+            name: string;
+            label?: string | null;
+            width?: number | null;
+            required?: boolean | null;
+            /**
+             * Only show this field when another field matches. Leave the field name empty to always show it.
+             */
+            showIf?: {
+              field?: string | null;
+              operator?: ('equals' | 'notEquals' | 'isFilled' | 'isEmpty') | null;
+              /**
+               * Matches the option value or label, ignoring case
+               */
+              value?: string | null;
+            };
+            id?: string | null;
+            blockName?: string | null;
+            blockType: 'jobSelect';
+          }
+        | {
+            title: string;
+            id?: string | null;
+            blockName?: string | null;
+            blockType: 'step';
+          }
+        | {
+            name: string;
+            label?: string | null;
+            width?: number | null;
+            maxSize: number;
+            mimeTypes: (
+              | 'application/pdf'
+              | 'application/msword'
+              | 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+              | 'text/plain'
+              | 'image/*'
+            )[];
+            multiple?: boolean | null;
+            maxFiles?: number | null;
+            required?: boolean | null;
+            /**
+             * Only show this field when another field matches. Leave the field name empty to always show it.
+             */
+            showIf?: {
+              field?: string | null;
+              operator?: ('equals' | 'notEquals' | 'isFilled' | 'isEmpty') | null;
+              /**
+               * Matches the option value or label, ignoring case
+               */
+              value?: string | null;
+            };
+            id?: string | null;
+            blockName?: string | null;
+            blockType: 'upload';
+          }
       )[]
     | null;
   submitButtonLabel?: string | null;
@@ -817,6 +1041,10 @@ export interface Form {
    */
   emails?:
     | {
+        /**
+         * Notifications go to your team (leave Email To empty to use the default address). Autoresponders go to the visitor, e.g. {{email}}.
+         */
+        type: 'notification' | 'autoresponder';
         emailTo?: string | null;
         cc?: string | null;
         bcc?: string | null;
@@ -844,6 +1072,30 @@ export interface Form {
         id?: string | null;
       }[]
     | null;
+  /**
+   * Send each new submission to another system. Requests are signed with the secret and retried if they fail.
+   */
+  webhooks?:
+    | {
+        url: string;
+        enabled?: boolean | null;
+        /**
+         * Requests carry an X-Webhook-Signature header: sha256= followed by the HMAC-SHA256 hex digest of "{X-Webhook-Timestamp}.{body}".
+         */
+        secret?: string | null;
+        /**
+         * Leave empty to send every field under its own name.
+         */
+        mapping?:
+          | {
+              field: string;
+              key: string;
+              id?: string | null;
+            }[]
+          | null;
+        id?: string | null;
+      }[]
+    | null;
   updatedAt: string;
   createdAt: string;
 }
@@ -860,6 +1112,32 @@ export interface ScrollBlock {
     reverseDuration?: number | null;
     borderRadius?: number | null;
     smoothness?: number | null;
+    /**
+     * Optional values per screen size, matching the live preview sizes: mobile up to 767px, tablet 768–1439px and desktop 1440px and up. Empty fields use the settings above.
+     */
+    responsive?: {
+      mobile?: {
+        zoomStart?: number | null;
+        zoomEnd?: number | null;
+        duration?: number | null;
+        reverseDuration?: number | null;
+        borderRadius?: number | null;
+      };
+      tablet?: {
+        zoomStart?: number | null;
+        zoomEnd?: number | null;
+        duration?: number | null;
+        reverseDuration?: number | null;
+        borderRadius?: number | null;
+      };
+      desktop?: {
+        zoomStart?: number | null;
+        zoomEnd?: number | null;
+        duration?: number | null;
+        reverseDuration?: number | null;
+        borderRadius?: number | null;
+      };
+    };
   };
   textImageSettings?: {
     items?:
@@ -886,6 +1164,20 @@ export interface ScrollBlock {
     foundationText?: string | null;
     foundationTextVariant?: ('random-chars' | 'fade-in' | 'slide-up' | 'typewriter') | null;
     duration?: number | null;
+    /**
+     * Optional values per screen size, matching the live preview sizes: mobile up to 767px, tablet 768–1439px and desktop 1440px and up. Empty fields use the settings above.
+     */
+    responsive?: {
+      mobile?: {
+        duration?: number | null;
+      };
+      tablet?: {
+        duration?: number | null;
+      };
+      desktop?: {
+        duration?: number | null;
+      };
+    };
   };
   tabsSettings?: {
     items?:
@@ -914,6 +1206,10 @@ export interface ScrollBlock {
      */
     tabClickScrollSpeed?: number | null;
     imagePosition?: ('left' | 'right') | null;
+    /**
+     * Image beside text applies from tablet width up, phones always stack the card
+     */
+    itemLayout?: ('split' | 'stacked') | null;
     landingZone?: {
       enabled?: boolean | null;
       height?: number | null;
@@ -930,6 +1226,35 @@ export interface ScrollBlock {
       };
     };
     duration?: number | null;
+    /**
+     * Optional values per screen size, matching the live preview sizes: mobile up to 767px, tablet 768–1439px and desktop 1440px and up. Empty fields use the settings above.
+     */
+    responsive?: {
+      mobile?: {
+        duration?: number | null;
+        imagePosition?: ('left' | 'right') | null;
+        /**
+         * Image beside text applies from tablet width up, phones always stack the card
+         */
+        itemLayout?: ('split' | 'stacked') | null;
+      };
+      tablet?: {
+        duration?: number | null;
+        imagePosition?: ('left' | 'right') | null;
+        /**
+         * Image beside text applies from tablet width up, phones always stack the card
+         */
+        itemLayout?: ('split' | 'stacked') | null;
+      };
+      desktop?: {
+        duration?: number | null;
+        imagePosition?: ('left' | 'right') | null;
+        /**
+         * Image beside text applies from tablet width up, phones always stack the card
+         */
+        itemLayout?: ('split' | 'stacked') | null;
+      };
+    };
   };
   titleScaleSettings?: {
     title?: string | null;
@@ -998,6 +1323,26 @@ export interface ScrollBlock {
         right?: number | null;
       };
     };
+    /**
+     * Optional values per screen size, matching the live preview sizes: mobile up to 767px, tablet 768–1439px and desktop 1440px and up. Empty fields use the settings above.
+     */
+    responsive?: {
+      mobile?: {
+        initialScale?: number | null;
+        pinnedY?: string | null;
+        containerHeight?: number | null;
+      };
+      tablet?: {
+        initialScale?: number | null;
+        pinnedY?: string | null;
+        containerHeight?: number | null;
+      };
+      desktop?: {
+        initialScale?: number | null;
+        pinnedY?: string | null;
+        containerHeight?: number | null;
+      };
+    };
   };
   bubbleListSettings?: {
     items?:
@@ -1023,6 +1368,20 @@ export interface ScrollBlock {
       | null;
     infinitePhaseText?: string | null;
     duration?: number | null;
+    /**
+     * Optional values per screen size, matching the live preview sizes: mobile up to 767px, tablet 768–1439px and desktop 1440px and up. Empty fields use the settings above.
+     */
+    responsive?: {
+      mobile?: {
+        duration?: number | null;
+      };
+      tablet?: {
+        duration?: number | null;
+      };
+      desktop?: {
+        duration?: number | null;
+      };
+    };
   };
   background: {
     type: 'none' | 'COLOR' | 'GRADIENT' | 'IMAGE' | 'VIDEO' | 'CAROUSEL';
@@ -1095,8 +1454,15 @@ export interface ScrollBlock {
         id?: string | null;
       }[]
     | null;
+  /**
+   * Blocks rendered inside the scroll section, below its own content
+   */
+  content?: (ContentBlock | MediaBlock | TestimonialBlock | CallToActionBlock | FormBlock)[] | null;
   settings?: {
     enableOnMobile?: boolean | null;
+    /**
+     * Visitors whose device asks for reduced motion always see the static layout. Check this to show it to everyone.
+     */
     reducedMotion?: boolean | null;
     useGPU?: boolean | null;
   };
@@ -1112,118 +1478,542 @@ export interface TestimonialBlock {
   variant?: ('spotlight' | 'cascade' | 'flow' | 'layered' | 'horizontal') | null;
   headline?: string | null;
   description?: string | null;
-  testimonials?:
-    | {
-        quote: string;
-        author: string;
-        title?: string | null;
-        company?: string | null;
-        avatar?: (number | null) | Media;
-        /**
-         * Optional metric or stat to display
-         */
-        metric?: string | null;
-        /**
-         * Optional video URL for modal playback
-         */
-        videoUrl?: string | null;
-        id?: string | null;
-      }[]
+  populateBy?: ('selection' | 'tag') | null;
+  /**
+   * Only approved testimonials are shown.
+   */
+  testimonials?: (number | Testimonial)[] | null;
+  /**
+   * Leave empty to show the latest approved testimonials.
+   */
+  industries?:
+    | ('healthcare' | 'finance' | 'insurance' | 'technology' | 'retail' | 'telecommunications' | 'government')[]
     | null;
+  limit?: number | null;
   /**
    * Center the testimonial cards horizontally when there is extra space
    */
   centerCards?: boolean | null;
+  cardSpacing?: ('gap' | 'overlap') | null;
+  cardOverlap?: number | null;
+  cardWidth?: number | null;
+  cardHeight?: number | null;
+  textAlign?: ('left' | 'center' | 'right') | null;
+  titleAlign?: ('left' | 'center' | 'right') | null;
+  /**
+   * Shown on cards that have a video
+   */
+  showPlayButton?: boolean | null;
+  headlineFontSize?: ('sm' | 'base' | 'lg' | 'xl' | '2xl' | '3xl' | '4xl') | null;
+  descriptionFontSize?: ('xs' | 'sm' | 'base' | 'lg') | null;
+  quoteFontSize?: ('xs' | 'sm' | 'base' | 'lg' | 'xl') | null;
+  authorFontSize?: ('xs' | 'sm' | 'base' | 'lg') | null;
+  titleFontSize?: ('xs' | 'sm' | 'base') | null;
+  metricFontSize?: ('xs' | 'sm') | null;
   id?: string | null;
   blockName?: string | null;
   blockType: 'testimonial';
 }
 /**
+ * Quotes shared by every Testimonial block. Only approved testimonials are shown on the site.
+ *
  * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "redirects".
+ * via the `definition` "testimonials".
  */
-export interface Redirect {
+export interface Testimonial {
   id: number;
+  quote: string;
+  author: string;
+  title?: string | null;
+  company?: string | null;
+  avatar?: (number | null) | Media;
   /**
-   * You will need to rebuild the website when changing this field.
+   * Optional metric or stat to display
    */
-  from: string;
-  to?: {
-    type?: ('reference' | 'custom') | null;
-    reference?:
-      | ({
-          relationTo: 'pages';
-          value: number | Page;
-        } | null)
-      | ({
-          relationTo: 'posts';
-          value: number | Post;
-        } | null);
-    url?: string | null;
+  metric?: string | null;
+  /**
+   * Optional video URL for modal playback
+   */
+  videoUrl?: string | null;
+  cardBackground?: {
+    type?: ('none' | 'COLOR' | 'GRADIENT' | 'IMAGE' | 'SVG') | null;
+    /**
+     * Enter a hex color (e.g., #0A1F44) or CSS color name
+     */
+    color?: string | null;
+    /**
+     * Enter CSS gradient (e.g., linear-gradient(135deg, #667eea 0%, #764ba2 100%))
+     */
+    gradient?: string | null;
+    image?: (number | null) | Media;
+    svg?: (number | null) | Media;
+  };
+  /**
+   * Replaces the card background while the card is hovered
+   */
+  hoverBackground?: {
+    type?: ('none' | 'IMAGE' | 'SVG' | 'VIDEO') | null;
+    image?: (number | null) | Media;
+    svg?: (number | null) | Media;
+    video?: (number | null) | Media;
   };
+  /**
+   * External video played on hover when no hover background is set
+   */
+  hoverVideoUrl?: string | null;
+  /**
+   * Played when the card is clicked. Falls back to the Video URL.
+   */
+  modalMedia?: (number | null) | Media;
+  industries?:
+    | ('healthcare' | 'finance' | 'insurance' | 'technology' | 'retail' | 'telecommunications' | 'government')[]
+    | null;
+  /**
+   * Retire a testimonial to remove it from every page at once.
+   */
+  status: 'pending' | 'approved' | 'retired';
   updatedAt: string;
   createdAt: string;
 }
 /**
  * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "form-submissions".
+ * via the `definition` "ReusableSectionBlock".
  */
-export interface FormSubmission {
-  id: number;
-  form: number | Form;
-  submissionData?:
-    | {
-        field: string;
-        value: string;
-        id?: string | null;
-      }[]
-    | null;
-  updatedAt: string;
-  createdAt: string;
+export interface ReusableSectionBlock {
+  /**
+   * Changes to the section appear on every page that uses it.
+   */
+  section: number | Section;
+  id?: string | null;
+  blockName?: string | null;
+  blockType: 'reusableSection';
 }
 /**
- * This is a collection of automatically created search results. These results are used by the global site search and will be updated automatically as documents in the CMS are created or updated.
+ * Blocks shared by several pages. Add one to a page with the Reusable Section block.
  *
  * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "search".
+ * via the `definition` "sections".
  */
-export interface Search {
+export interface Section {
   id: number;
-  title?: string | null;
-  priority?: number | null;
-  doc: {
-    relationTo: 'posts';
-    value: number | Post;
-  };
-  slug?: string | null;
-  meta?: {
-    title?: string | null;
-    description?: string | null;
-    image?: (number | null) | Media;
-  };
-  categories?:
-    | {
-        relationTo?: string | null;
-        categoryID?: string | null;
-        title?: string | null;
-        id?: string | null;
-      }[]
-    | null;
+  title: string;
+  block: (CallToActionBlock | ContentBlock | MediaBlock | ArchiveBlock | FormBlock | ScrollBlock | TestimonialBlock)[];
   updatedAt: string;
   createdAt: string;
 }
 /**
+ * Starting points for new pages. Use "New from template" on the Pages list.
+ *
  * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "payload-kv".
+ * via the `definition` "page-templates".
  */
-export interface PayloadKv {
+export interface PageTemplate {
   id: number;
-  key: string;
-  data:
-    | {
-        [k: string]: unknown;
-      }
-    | unknown[]
+  title: string;
+  description?: string | null;
+  hero: {
+    type: 'none' | 'highImpact' | 'mediumImpact' | 'lowImpact';
+    richText?: {
+      root: {
+        type: string;
+        children: {
+          type: any;
+          version: number;
+          [k: string]: unknown;
+        }[];
+        direction: ('ltr' | 'rtl') | null;
+        format: 'left' | 'start' | 'center' | 'right' | 'end' | 'justify' | '';
+        indent: number;
+        version: number;
+      };
+      [k: string]: unknown;
+    } | null;
+    links?:
+      | {
+          link: {
+            type?: ('reference' | 'custom') | null;
+            newTab?: boolean | null;
+            reference?:
+              | ({
+                  relationTo: 'pages';
+                  value: number | Page;
+                } | null)
+              | ({
+                  relationTo: 'posts';
+                  value: number | Post;
+                } | null);
+            url?: string | null;
+            label: string;
+            /**
+             * Choose how the link should be rendered.
+             */
+            appearance?: ('default' | 'outline') | null;
+          };
+          id?: string | null;
+        }[]
+      | null;
+    media?: (number | null) | Media;
+    /**
+     * Configure static border radius for medium impact hero
+     */
+    brRadius?: {
+      topLeft?: ('0' | '8' | '16' | '24' | '32' | '48' | '64' | '96') | null;
+      topRight?: ('0' | '8' | '16' | '24' | '32' | '48' | '64' | '96') | null;
+      bottomRight?: ('0' | '8' | '16' | '24' | '32' | '48' | '64' | '96') | null;
+      bottomLeft?: ('0' | '8' | '16' | '24' | '32' | '48' | '64' | '96') | null;
+    };
+    /**
+     * Configure scroll animations for the hero section. Effects are disabled for visitors who prefer reduced motion.
+     */
+    scroll?: {
+      enabled?: boolean | null;
+      type?: ('none' | 'zoom-out' | 'fade-out' | 'parallax') | null;
+      zoom?: {
+        /**
+         * Starting scale (1 = normal size)
+         */
+        zoomStart?: number | null;
+        /**
+         * Ending scale (smaller = more zoom out)
+         */
+        zoomEnd?: number | null;
+        /**
+         * How many pixels to scroll for full effect
+         */
+        duration?: number | null;
+        enableOnMobile?: boolean | null;
+        /**
+         * Border radius animates during scroll zoom effect
+         */
+        brRadius?: {
+          /**
+           * Select which corners should have border radius applied
+           */
+          corners?: {
+            topLeft?: boolean | null;
+            topRight?: boolean | null;
+            bottomRight?: boolean | null;
+            bottomLeft?: boolean | null;
+          };
+          /**
+           * Final border radius value when scroll completes
+           */
+          value?: ('0' | '8' | '16' | '24' | '32' | '48' | '64' | '96') | null;
+        };
+      };
+      fade?: {
+        /**
+         * Opacity when the hero is at the top of the viewport
+         */
+        opacityStart?: number | null;
+        /**
+         * Opacity once the scroll distance has been covered
+         */
+        opacityEnd?: number | null;
+        /**
+         * How many pixels to scroll for full effect
+         */
+        duration?: number | null;
+        enableOnMobile?: boolean | null;
+      };
+      parallax?: {
+        /**
+         * How much the background media lags behind the scroll (0 = scrolls normally, 1 = stays fixed)
+         */
+        mediaSpeed?: number | null;
+        /**
+         * How much the text and buttons lag behind the scroll
+         */
+        contentSpeed?: number | null;
+        /**
+         * How many pixels to scroll for full effect
+         */
+        duration?: number | null;
+        /**
+         * Parallax can feel janky on touch devices, so it is off by default
+         */
+        enableOnMobile?: boolean | null;
+      };
+    };
+  };
+  layout?:
+    | (
+        | CallToActionBlock
+        | ContentBlock
+        | MediaBlock
+        | ArchiveBlock
+        | FormBlock
+        | ScrollBlock
+        | TestimonialBlock
+        | ReusableSectionBlock
+      )[]
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "jobs".
+ */
+export interface Job {
+  id: number;
+  title: string;
+  department?: string | null;
+  /**
+   * City and region, e.g. "Lima, Peru"
+   */
+  location?: string | null;
+  employmentType: 'full-time' | 'part-time' | 'contract' | 'temporary' | 'internship';
+  remote?: boolean | null;
+  description: {
+    root: {
+      type: string;
+      children: {
+        type: any;
+        version: number;
+        [k: string]: unknown;
+      }[];
+      direction: ('ltr' | 'rtl') | null;
+      format: 'left' | 'start' | 'center' | 'right' | 'end' | 'justify' | '';
+      indent: number;
+      version: number;
+    };
+    [k: string]: unknown;
+  };
+  /**
+   * Drafts are only visible to signed-in users. Closed jobs are hidden from the careers page and application forms
+   */
+  status: 'draft' | 'open' | 'closed';
+  datePosted?: string | null;
+  /**
+   * Search engines stop listing the job after this date
+   */
+  validThrough?: string | null;
+  /**
+   * Shown on the job page so candidates can apply directly
+   */
+  applicationForm?: (number | null) | Form;
+  /**
+   * When enabled, the slug will auto-generate from the title field on save and autosave.
+   */
+  generateSlug?: boolean | null;
+  slug: string;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Files attached to form submissions, such as résumés. These are not public.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "form-uploads".
+ */
+export interface FormUpload {
+  id: number;
+  form: number | Form;
+  fieldName: string;
+  /**
+   * Set once the form has been submitted
+   */
+  submission?: (number | null) | FormSubmission;
+  ipHash?: string | null;
+  antiSpam?: {
+    honeypot?: string | null;
+    startedAt?: number | null;
+  };
+  updatedAt: string;
+  createdAt: string;
+  url?: string | null;
+  thumbnailURL?: string | null;
+  filename?: string | null;
+  mimeType?: string | null;
+  filesize?: number | null;
+  width?: number | null;
+  height?: number | null;
+  focalX?: number | null;
+  focalY?: number | null;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "form-submissions".
+ */
+export interface FormSubmission {
+  id: number;
+  form: number | Form;
+  submissionData?:
+    | {
+        field: string;
+        value: string;
+        id?: string | null;
+      }[]
+    | null;
+  status: 'new' | 'reviewed' | 'contacted' | 'rejected';
+  /**
+   * The job this application was filed against
+   */
+  job?: (number | null) | Job;
+  files?: (number | FormUpload)[] | null;
+  ipHash?: string | null;
+  antiSpam?: {
+    honeypot?: string | null;
+    startedAt?: number | null;
+    challengeToken?: string | null;
+  };
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Every email sent for a form submission, with its delivery status.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "email-deliveries".
+ */
+export interface EmailDelivery {
+  id: number;
+  to: string;
+  from?: string | null;
+  replyTo?: string | null;
+  cc?: string | null;
+  bcc?: string | null;
+  subject: string;
+  html?: string | null;
+  type?: ('notification' | 'autoresponder') | null;
+  status: 'queued' | 'sent' | 'failed';
+  attempts?: number | null;
+  sentAt?: string | null;
+  /**
+   * The error from the last failed attempt
+   */
+  error?: string | null;
+  form?: (number | null) | Form;
+  submission?: (number | null) | FormSubmission;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Form submissions blocked as spam. Repeated attempts from one visitor share the same IP hash.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "rejected-submissions".
+ */
+export interface RejectedSubmission {
+  id: number;
+  form?: (number | null) | Form;
+  reason: 'honeypot' | 'tooFast' | 'rateLimited' | 'challengeFailed';
+  ipHash?: string | null;
+  userAgent?: string | null;
+  submissionData?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Every webhook request sent for a form submission, with its delivery status.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "webhook-deliveries".
+ */
+export interface WebhookDelivery {
+  id: number;
+  url: string;
+  body:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  status: 'queued' | 'delivered' | 'failed';
+  responseStatus?: number | null;
+  attempts?: number | null;
+  deliveredAt?: string | null;
+  /**
+   * The error from the last failed attempt
+   */
+  error?: string | null;
+  form?: (number | null) | Form;
+  submission?: (number | null) | FormSubmission;
+  webhookID?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "redirects".
+ */
+export interface Redirect {
+  id: number;
+  /**
+   * You will need to rebuild the website when changing this field.
+   */
+  from: string;
+  to?: {
+    type?: ('reference' | 'custom') | null;
+    reference?:
+      | ({
+          relationTo: 'pages';
+          value: number | Page;
+        } | null)
+      | ({
+          relationTo: 'posts';
+          value: number | Post;
+        } | null);
+    url?: string | null;
+  };
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This is a collection of automatically created search results. These results are used by the global site search and will be updated automatically as documents in the CMS are created or updated.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "search".
+ */
+export interface Search {
+  id: number;
+  title?: string | null;
+  priority?: number | null;
+  doc: {
+    relationTo: 'posts';
+    value: number | Post;
+  };
+  slug?: string | null;
+  meta?: {
+    title?: string | null;
+    description?: string | null;
+    image?: (number | null) | Media;
+  };
+  categories?:
+    | {
+        relationTo?: string | null;
+        categoryID?: string | null;
+        title?: string | null;
+        id?: string | null;
+      }[]
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-kv".
+ */
+export interface PayloadKv {
+  id: number;
+  key: string;
+  data:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
     | string
     | number
     | boolean
@@ -1281,7 +2071,7 @@ export interface PayloadJob {
     | {
         executedAt: string;
         completedAt: string;
-        taskSlug: 'inline' | 'schedulePublish';
+        taskSlug: 'inline' | 'deleteUnclaimedUploads' | 'deliverWebhook' | 'sendFormEmail' | 'schedulePublish';
         taskID: string;
         input?:
           | {
@@ -1314,10 +2104,19 @@ export interface PayloadJob {
         id?: string | null;
       }[]
     | null;
-  taskSlug?: ('inline' | 'schedulePublish') | null;
+  taskSlug?: ('inline' | 'deleteUnclaimedUploads' | 'deliverWebhook' | 'sendFormEmail' | 'schedulePublish') | null;
   queue?: string | null;
   waitUntil?: string | null;
   processing?: boolean | null;
+  meta?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
   updatedAt: string;
   createdAt: string;
 }
@@ -1333,13 +2132,45 @@ export interface PayloadLockedDocument {
         value: number | Page;
       } | null)
     | ({
-        relationTo: 'posts';
-        value: number | Post;
+        relationTo: 'page-templates';
+        value: number | PageTemplate;
+      } | null)
+    | ({
+        relationTo: 'posts';
+        value: number | Post;
+      } | null)
+    | ({
+        relationTo: 'sections';
+        value: number | Section;
+      } | null)
+    | ({
+        relationTo: 'testimonials';
+        value: number | Testimonial;
+      } | null)
+    | ({
+        relationTo: 'jobs';
+        value: number | Job;
       } | null)
     | ({
         relationTo: 'media';
         value: number | Media;
       } | null)
+    | ({
+        relationTo: 'form-uploads';
+        value: number | FormUpload;
+      } | null)
+    | ({
+        relationTo: 'email-deliveries';
+        value: number | EmailDelivery;
+      } | null)
+    | ({
+        relationTo: 'rejected-submissions';
+        value: number | RejectedSubmission;
+      } | null)
+    | ({
+        relationTo: 'webhook-deliveries';
+        value: number | WebhookDelivery;
+      } | null)
     | ({
         relationTo: 'categories';
         value: number | Category;
@@ -1471,6 +2302,22 @@ export interface PagesSelect<T extends boolean = true> {
                           value?: T;
                         };
                   };
+              fade?:
+                | T
+                | {
+                    opacityStart?: T;
+                    opacityEnd?: T;
+                    duration?: T;
+                    enableOnMobile?: T;
+                  };
+              parallax?:
+                | T
+                | {
+                    mediaSpeed?: T;
+                    contentSpeed?: T;
+                    duration?: T;
+                    enableOnMobile?: T;
+                  };
             };
       };
   layout?:
@@ -1483,6 +2330,7 @@ export interface PagesSelect<T extends boolean = true> {
         formBlock?: T | FormBlockSelect<T>;
         scroll?: T | ScrollBlockSelect<T>;
         testimonial?: T | TestimonialBlockSelect<T>;
+        reusableSection?: T | ReusableSectionBlockSelect<T>;
       };
   meta?:
     | T
@@ -1613,6 +2461,37 @@ export interface ScrollBlockSelect<T extends boolean = true> {
         reverseDuration?: T;
         borderRadius?: T;
         smoothness?: T;
+        responsive?:
+          | T
+          | {
+              mobile?:
+                | T
+                | {
+                    zoomStart?: T;
+                    zoomEnd?: T;
+                    duration?: T;
+                    reverseDuration?: T;
+                    borderRadius?: T;
+                  };
+              tablet?:
+                | T
+                | {
+                    zoomStart?: T;
+                    zoomEnd?: T;
+                    duration?: T;
+                    reverseDuration?: T;
+                    borderRadius?: T;
+                  };
+              desktop?:
+                | T
+                | {
+                    zoomStart?: T;
+                    zoomEnd?: T;
+                    duration?: T;
+                    reverseDuration?: T;
+                    borderRadius?: T;
+                  };
+            };
       };
   textImageSettings?:
     | T
@@ -1637,6 +2516,25 @@ export interface ScrollBlockSelect<T extends boolean = true> {
         foundationText?: T;
         foundationTextVariant?: T;
         duration?: T;
+        responsive?:
+          | T
+          | {
+              mobile?:
+                | T
+                | {
+                    duration?: T;
+                  };
+              tablet?:
+                | T
+                | {
+                    duration?: T;
+                  };
+              desktop?:
+                | T
+                | {
+                    duration?: T;
+                  };
+            };
       };
   tabsSettings?:
     | T
@@ -1660,6 +2558,7 @@ export interface ScrollBlockSelect<T extends boolean = true> {
             };
         tabClickScrollSpeed?: T;
         imagePosition?: T;
+        itemLayout?: T;
         landingZone?:
           | T
           | {
@@ -1680,6 +2579,31 @@ export interface ScrollBlockSelect<T extends boolean = true> {
                   };
             };
         duration?: T;
+        responsive?:
+          | T
+          | {
+              mobile?:
+                | T
+                | {
+                    duration?: T;
+                    imagePosition?: T;
+                    itemLayout?: T;
+                  };
+              tablet?:
+                | T
+                | {
+                    duration?: T;
+                    imagePosition?: T;
+                    itemLayout?: T;
+                  };
+              desktop?:
+                | T
+                | {
+                    duration?: T;
+                    imagePosition?: T;
+                    itemLayout?: T;
+                  };
+            };
       };
   titleScaleSettings?:
     | T
@@ -1745,6 +2669,31 @@ export interface ScrollBlockSelect<T extends boolean = true> {
                     right?: T;
                   };
             };
+        responsive?:
+          | T
+          | {
+              mobile?:
+                | T
+                | {
+                    initialScale?: T;
+                    pinnedY?: T;
+                    containerHeight?: T;
+                  };
+              tablet?:
+                | T
+                | {
+                    initialScale?: T;
+                    pinnedY?: T;
+                    containerHeight?: T;
+                  };
+              desktop?:
+                | T
+                | {
+                    initialScale?: T;
+                    pinnedY?: T;
+                    containerHeight?: T;
+                  };
+            };
       };
   bubbleListSettings?:
     | T
@@ -1768,6 +2717,25 @@ export interface ScrollBlockSelect<T extends boolean = true> {
             };
         infinitePhaseText?: T;
         duration?: T;
+        responsive?:
+          | T
+          | {
+              mobile?:
+                | T
+                | {
+                    duration?: T;
+                  };
+              tablet?:
+                | T
+                | {
+                    duration?: T;
+                  };
+              desktop?:
+                | T
+                | {
+                    duration?: T;
+                  };
+            };
       };
   background?:
     | T
@@ -1809,6 +2777,15 @@ export interface ScrollBlockSelect<T extends boolean = true> {
             };
         id?: T;
       };
+  content?:
+    | T
+    | {
+        content?: T | ContentBlockSelect<T>;
+        mediaBlock?: T | MediaBlockSelect<T>;
+        testimonial?: T | TestimonialBlockSelect<T>;
+        cta?: T | CallToActionBlockSelect<T>;
+        formBlock?: T | FormBlockSelect<T>;
+      };
   settings?:
     | T
     | {
@@ -1827,22 +2804,131 @@ export interface TestimonialBlockSelect<T extends boolean = true> {
   variant?: T;
   headline?: T;
   description?: T;
-  testimonials?:
-    | T
-    | {
-        quote?: T;
-        author?: T;
-        title?: T;
-        company?: T;
-        avatar?: T;
-        metric?: T;
-        videoUrl?: T;
-        id?: T;
-      };
+  populateBy?: T;
+  testimonials?: T;
+  industries?: T;
+  limit?: T;
   centerCards?: T;
+  cardSpacing?: T;
+  cardOverlap?: T;
+  cardWidth?: T;
+  cardHeight?: T;
+  textAlign?: T;
+  titleAlign?: T;
+  showPlayButton?: T;
+  headlineFontSize?: T;
+  descriptionFontSize?: T;
+  quoteFontSize?: T;
+  authorFontSize?: T;
+  titleFontSize?: T;
+  metricFontSize?: T;
+  id?: T;
+  blockName?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "ReusableSectionBlock_select".
+ */
+export interface ReusableSectionBlockSelect<T extends boolean = true> {
+  section?: T;
   id?: T;
   blockName?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "page-templates_select".
+ */
+export interface PageTemplatesSelect<T extends boolean = true> {
+  title?: T;
+  description?: T;
+  hero?:
+    | T
+    | {
+        type?: T;
+        richText?: T;
+        links?:
+          | T
+          | {
+              link?:
+                | T
+                | {
+                    type?: T;
+                    newTab?: T;
+                    reference?: T;
+                    url?: T;
+                    label?: T;
+                    appearance?: T;
+                  };
+              id?: T;
+            };
+        media?: T;
+        brRadius?:
+          | T
+          | {
+              topLeft?: T;
+              topRight?: T;
+              bottomRight?: T;
+              bottomLeft?: T;
+            };
+        scroll?:
+          | T
+          | {
+              enabled?: T;
+              type?: T;
+              zoom?:
+                | T
+                | {
+                    zoomStart?: T;
+                    zoomEnd?: T;
+                    duration?: T;
+                    enableOnMobile?: T;
+                    brRadius?:
+                      | T
+                      | {
+                          corners?:
+                            | T
+                            | {
+                                topLeft?: T;
+                                topRight?: T;
+                                bottomRight?: T;
+                                bottomLeft?: T;
+                              };
+                          value?: T;
+                        };
+                  };
+              fade?:
+                | T
+                | {
+                    opacityStart?: T;
+                    opacityEnd?: T;
+                    duration?: T;
+                    enableOnMobile?: T;
+                  };
+              parallax?:
+                | T
+                | {
+                    mediaSpeed?: T;
+                    contentSpeed?: T;
+                    duration?: T;
+                    enableOnMobile?: T;
+                  };
+            };
+      };
+  layout?:
+    | T
+    | {
+        cta?: T | CallToActionBlockSelect<T>;
+        content?: T | ContentBlockSelect<T>;
+        mediaBlock?: T | MediaBlockSelect<T>;
+        archive?: T | ArchiveBlockSelect<T>;
+        formBlock?: T | FormBlockSelect<T>;
+        scroll?: T | ScrollBlockSelect<T>;
+        testimonial?: T | TestimonialBlockSelect<T>;
+        reusableSection?: T | ReusableSectionBlockSelect<T>;
+      };
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "posts_select".
@@ -1874,6 +2960,82 @@ export interface PostsSelect<T extends boolean = true> {
   createdAt?: T;
   _status?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "sections_select".
+ */
+export interface SectionsSelect<T extends boolean = true> {
+  title?: T;
+  block?:
+    | T
+    | {
+        cta?: T | CallToActionBlockSelect<T>;
+        content?: T | ContentBlockSelect<T>;
+        mediaBlock?: T | MediaBlockSelect<T>;
+        archive?: T | ArchiveBlockSelect<T>;
+        formBlock?: T | FormBlockSelect<T>;
+        scroll?: T | ScrollBlockSelect<T>;
+        testimonial?: T | TestimonialBlockSelect<T>;
+      };
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "testimonials_select".
+ */
+export interface TestimonialsSelect<T extends boolean = true> {
+  quote?: T;
+  author?: T;
+  title?: T;
+  company?: T;
+  avatar?: T;
+  metric?: T;
+  videoUrl?: T;
+  cardBackground?:
+    | T
+    | {
+        type?: T;
+        color?: T;
+        gradient?: T;
+        image?: T;
+        svg?: T;
+      };
+  hoverBackground?:
+    | T
+    | {
+        type?: T;
+        image?: T;
+        svg?: T;
+        video?: T;
+      };
+  hoverVideoUrl?: T;
+  modalMedia?: T;
+  industries?: T;
+  status?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "jobs_select".
+ */
+export interface JobsSelect<T extends boolean = true> {
+  title?: T;
+  department?: T;
+  location?: T;
+  employmentType?: T;
+  remote?: T;
+  description?: T;
+  status?: T;
+  datePosted?: T;
+  validThrough?: T;
+  applicationForm?: T;
+  generateSlug?: T;
+  slug?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "media_select".
@@ -1968,6 +3130,86 @@ export interface MediaSelect<T extends boolean = true> {
             };
       };
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "form-uploads_select".
+ */
+export interface FormUploadsSelect<T extends boolean = true> {
+  form?: T;
+  fieldName?: T;
+  submission?: T;
+  ipHash?: T;
+  antiSpam?:
+    | T
+    | {
+        honeypot?: T;
+        startedAt?: T;
+      };
+  updatedAt?: T;
+  createdAt?: T;
+  url?: T;
+  thumbnailURL?: T;
+  filename?: T;
+  mimeType?: T;
+  filesize?: T;
+  width?: T;
+  height?: T;
+  focalX?: T;
+  focalY?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "email-deliveries_select".
+ */
+export interface EmailDeliveriesSelect<T extends boolean = true> {
+  to?: T;
+  from?: T;
+  replyTo?: T;
+  cc?: T;
+  bcc?: T;
+  subject?: T;
+  html?: T;
+  type?: T;
+  status?: T;
+  attempts?: T;
+  sentAt?: T;
+  error?: T;
+  form?: T;
+  submission?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "rejected-submissions_select".
+ */
+export interface RejectedSubmissionsSelect<T extends boolean = true> {
+  form?: T;
+  reason?: T;
+  ipHash?: T;
+  userAgent?: T;
+  submissionData?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "webhook-deliveries_select".
+ */
+export interface WebhookDeliveriesSelect<T extends boolean = true> {
+  url?: T;
+  body?: T;
+  status?: T;
+  responseStatus?: T;
+  attempts?: T;
+  deliveredAt?: T;
+  error?: T;
+  form?: T;
+  submission?: T;
+  webhookID?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "categories_select".
@@ -1994,6 +3236,7 @@ export interface CategoriesSelect<T extends boolean = true> {
  */
 export interface UsersSelect<T extends boolean = true> {
   name?: T;
+  roles?: T;
   updatedAt?: T;
   createdAt?: T;
   email?: T;
@@ -2044,6 +3287,13 @@ export interface FormsSelect<T extends boolean = true> {
               width?: T;
               required?: T;
               defaultValue?: T;
+              showIf?:
+                | T
+                | {
+                    field?: T;
+                    operator?: T;
+                    value?: T;
+                  };
               id?: T;
               blockName?: T;
             };
@@ -2054,6 +3304,13 @@ export interface FormsSelect<T extends boolean = true> {
               label?: T;
               width?: T;
               required?: T;
+              showIf?:
+                | T
+                | {
+                    field?: T;
+                    operator?: T;
+                    value?: T;
+                  };
               id?: T;
               blockName?: T;
             };
@@ -2064,6 +3321,13 @@ export interface FormsSelect<T extends boolean = true> {
               label?: T;
               width?: T;
               required?: T;
+              showIf?:
+                | T
+                | {
+                    field?: T;
+                    operator?: T;
+                    value?: T;
+                  };
               id?: T;
               blockName?: T;
             };
@@ -2071,6 +3335,13 @@ export interface FormsSelect<T extends boolean = true> {
           | T
           | {
               message?: T;
+              showIf?:
+                | T
+                | {
+                    field?: T;
+                    operator?: T;
+                    value?: T;
+                  };
               id?: T;
               blockName?: T;
             };
@@ -2082,6 +3353,13 @@ export interface FormsSelect<T extends boolean = true> {
               width?: T;
               defaultValue?: T;
               required?: T;
+              showIf?:
+                | T
+                | {
+                    field?: T;
+                    operator?: T;
+                    value?: T;
+                  };
               id?: T;
               blockName?: T;
             };
@@ -2101,6 +3379,13 @@ export interface FormsSelect<T extends boolean = true> {
                     id?: T;
                   };
               required?: T;
+              showIf?:
+                | T
+                | {
+                    field?: T;
+                    operator?: T;
+                    value?: T;
+                  };
               id?: T;
               blockName?: T;
             };
@@ -2111,6 +3396,13 @@ export interface FormsSelect<T extends boolean = true> {
               label?: T;
               width?: T;
               required?: T;
+              showIf?:
+                | T
+                | {
+                    field?: T;
+                    operator?: T;
+                    value?: T;
+                  };
               id?: T;
               blockName?: T;
             };
@@ -2122,6 +3414,13 @@ export interface FormsSelect<T extends boolean = true> {
               width?: T;
               defaultValue?: T;
               required?: T;
+              showIf?:
+                | T
+                | {
+                    field?: T;
+                    operator?: T;
+                    value?: T;
+                  };
               id?: T;
               blockName?: T;
             };
@@ -2133,6 +3432,58 @@ export interface FormsSelect<T extends boolean = true> {
               width?: T;
               defaultValue?: T;
               required?: T;
+              showIf?:
+                | T
+                | {
+                    field?: T;
+                    operator?: T;
+                    value?: T;
+                  };
+              id?: T;
+              blockName?: T;
+            };
+        jobSelect?:
+          | T
+          | {
+              name?: T;
+              label?: T;
+              width?: T;
+              required?: T;
+              showIf?:
+                | T
+                | {
+                    field?: T;
+                    operator?: T;
+                    value?: T;
+                  };
+              id?: T;
+              blockName?: T;
+            };
+        step?:
+          | T
+          | {
+              title?: T;
+              id?: T;
+              blockName?: T;
+            };
+        upload?:
+          | T
+          | {
+              name?: T;
+              label?: T;
+              width?: T;
+              maxSize?: T;
+              mimeTypes?: T;
+              multiple?: T;
+              maxFiles?: T;
+              required?: T;
+              showIf?:
+                | T
+                | {
+                    field?: T;
+                    operator?: T;
+                    value?: T;
+                  };
               id?: T;
               blockName?: T;
             };
@@ -2148,6 +3499,7 @@ export interface FormsSelect<T extends boolean = true> {
   emails?:
     | T
     | {
+        type?: T;
         emailTo?: T;
         cc?: T;
         bcc?: T;
@@ -2157,6 +3509,21 @@ export interface FormsSelect<T extends boolean = true> {
         message?: T;
         id?: T;
       };
+  webhooks?:
+    | T
+    | {
+        url?: T;
+        enabled?: T;
+        secret?: T;
+        mapping?:
+          | T
+          | {
+              field?: T;
+              key?: T;
+              id?: T;
+            };
+        id?: T;
+      };
   updatedAt?: T;
   createdAt?: T;
 }
@@ -2173,6 +3540,17 @@ export interface FormSubmissionsSelect<T extends boolean = true> {
         value?: T;
         id?: T;
       };
+  status?: T;
+  job?: T;
+  files?: T;
+  ipHash?: T;
+  antiSpam?:
+    | T
+    | {
+        honeypot?: T;
+        startedAt?: T;
+        challengeToken?: T;
+      };
   updatedAt?: T;
   createdAt?: T;
 }
@@ -2239,6 +3617,7 @@ export interface PayloadJobsSelect<T extends boolean = true> {
   queue?: T;
   waitUntil?: T;
   processing?: T;
+  meta?: T;
   updatedAt?: T;
   createdAt?: T;
 }
@@ -2432,6 +3811,161 @@ export interface Footer {
   updatedAt?: string | null;
   createdAt?: string | null;
 }
+/**
+ * Brand design tokens. Every value becomes a CSS custom property on the site, so a rebrand only needs changes here.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "theme".
+ */
+export interface Theme {
+  id: number;
+  colors: {
+    /**
+     * Primary accent, highlights and CTA buttons. var(--brand-green)
+     */
+    green: string;
+    /**
+     * Secondary accent, navigation and buttons. var(--brand-blue)
+     */
+    blue: string;
+    /**
+     * Headings and typography. var(--brand-dark-navy)
+     */
+    darkNavy: string;
+    /**
+     * Body text. var(--brand-charcoal)
+     */
+    charcoal: string;
+    /**
+     * Page background and text on dark backgrounds. var(--brand-white)
+     */
+    white: string;
+    /**
+     * Backgrounds and section dividers. var(--brand-soft-gray)
+     */
+    softGray: string;
+    /**
+     * Decorative shapes and hover effects. var(--brand-sky-blue)
+     */
+    skyBlue: string;
+    /**
+     * Subtle geometric accents. var(--brand-lime)
+     */
+    lime: string;
+    /**
+     * var(--brand-muted)
+     */
+    muted: string;
+    /**
+     * var(--brand-error)
+     */
+    error: string;
+    /**
+     * var(--brand-warning)
+     */
+    warning: string;
+  };
+  typography: {
+    /**
+     * var(--font-size-xs)
+     */
+    xs: string;
+    /**
+     * var(--font-size-sm)
+     */
+    sm: string;
+    /**
+     * var(--font-size-base)
+     */
+    base: string;
+    /**
+     * var(--font-size-lg)
+     */
+    lg: string;
+    /**
+     * var(--font-size-xl)
+     */
+    xl: string;
+    /**
+     * var(--font-size-2xl)
+     */
+    xl2: string;
+    /**
+     * var(--font-size-3xl)
+     */
+    xl3: string;
+    /**
+     * var(--font-size-4xl)
+     */
+    xl4: string;
+    /**
+     * var(--font-size-5xl)
+     */
+    xl5: string;
+  };
+  spacing: {
+    /**
+     * Base unit of the spacing scale, multiplied for larger gaps. var(--spacing-unit)
+     */
+    unit: string;
+  };
+  buttons: {
+    /**
+     * var(--button-radius-sm)
+     */
+    radiusSm: string;
+    /**
+     * var(--button-radius-md)
+     */
+    radiusMd: string;
+    /**
+     * var(--button-radius-lg)
+     */
+    radiusLg: string;
+    /**
+     * var(--button-padding-y)
+     */
+    paddingYMd: string;
+    /**
+     * var(--button-padding-x)
+     */
+    paddingXMd: string;
+  };
+  transitions: {
+    /**
+     * var(--transition-fast)
+     */
+    fast: string;
+    /**
+     * var(--transition-normal)
+     */
+    normal: string;
+    /**
+     * var(--transition-slow)
+     */
+    slow: string;
+  };
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats".
+ */
+export interface PayloadJobsStat {
+  id: number;
+  stats?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "header_select".
@@ -2518,6 +4052,102 @@ export interface FooterSelect<T extends boolean = true> {
   createdAt?: T;
   globalType?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "theme_select".
+ */
+export interface ThemeSelect<T extends boolean = true> {
+  colors?:
+    | T
+    | {
+        green?: T;
+        blue?: T;
+        darkNavy?: T;
+        charcoal?: T;
+        white?: T;
+        softGray?: T;
+        skyBlue?: T;
+        lime?: T;
+        muted?: T;
+        error?: T;
+        warning?: T;
+      };
+  typography?:
+    | T
+    | {
+        xs?: T;
+        sm?: T;
+        base?: T;
+        lg?: T;
+        xl?: T;
+        xl2?: T;
+        xl3?: T;
+        xl4?: T;
+        xl5?: T;
+      };
+  spacing?:
+    | T
+    | {
+        unit?: T;
+      };
+  buttons?:
+    | T
+    | {
+        radiusSm?: T;
+        radiusMd?: T;
+        radiusLg?: T;
+        paddingYMd?: T;
+        paddingXMd?: T;
+      };
+  transitions?:
+    | T
+    | {
+        fast?: T;
+        normal?: T;
+        slow?: T;
+      };
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "payload-jobs-stats_select".
+ */
+export interface PayloadJobsStatsSelect<T extends boolean = true> {
+  stats?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskDeleteUnclaimedUploads".
+ */
+export interface TaskDeleteUnclaimedUploads {
+  input?: unknown;
+  output?: unknown;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskDeliverWebhook".
+ */
+export interface TaskDeliverWebhook {
+  input: {
+    delivery: number | WebhookDelivery;
+  };
+  output?: unknown;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskSendFormEmail".
+ */
+export interface TaskSendFormEmail {
+  input: {
+    delivery: number | EmailDelivery;
+  };
+  output?: unknown;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "TaskSchedulePublish".
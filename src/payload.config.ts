@@ -7,14 +7,29 @@ import { buildConfig, PayloadRequest } from 'payload'
 import { fileURLToPath } from 'url'
 
 import { Categories } from './collections/Categories'
+import { EmailDeliveries } from './collections/EmailDeliveries'
+import { FormUploads } from './collections/FormUploads'
+import { Jobs } from './collections/Jobs'
 import { Media } from './collections/Media'
+import { PageTemplates } from './collections/PageTemplates'
 import { Pages } from './collections/Pages'
 import { Posts } from './collections/Posts'
+import { RejectedSubmissions } from './collections/RejectedSubmissions'
+import { Sections } from './collections/Sections'
+import { Testimonials } from './collections/Testimonials'
 import { Users } from './collections/Users'
+import { backfillUserRoles } from './collections/Users/backfillRoles'
+import { WebhookDeliveries } from './collections/WebhookDeliveries'
 import { Footer } from './Footer/config'
 import { Header } from './Header/config'
+import { Theme } from './Theme/config'
+import { getEmailAdapter } from './email/adapters'
+import { deleteUnclaimedUploads } from './jobs/deleteUnclaimedUploads'
+import { deliverWebhook } from './jobs/deliverWebhook'
+import { sendFormEmail } from './jobs/sendFormEmail'
 import { plugins } from './plugins'
 import { defaultLexical } from '@/fields/defaultLexical'
+import { defaultLocale, locales } from '@/i18n/config'
 import { getServerSideURL } from './utilities/getURL'
 
 const filename = fileURLToPath(import.meta.url)
@@ -65,9 +80,33 @@ export default buildConfig({
     },
     push: true, // Temporarily enabled to sync schema with new dbName values
   }),
-  collections: [Pages, Posts, Media, Categories, Users],
+  collections: [
+    Pages,
+    PageTemplates,
+    Posts,
+    Sections,
+    Testimonials,
+    Jobs,
+    Media,
+    FormUploads,
+    EmailDeliveries,
+    RejectedSubmissions,
+    WebhookDeliveries,
+    Categories,
+    Users,
+  ],
   cors: [getServerSideURL()].filter(Boolean),
-  globals: [Header, Footer],
+  email: getEmailAdapter(),
+  globals: [Header, Footer, Theme],
+  localization: {
+    locales: locales.map(({ code, label }) => ({ code, label })),
+    defaultLocale,
+    // Untranslated fields fall back to the default locale
+    fallback: true,
+  },
+  onInit: async (payload) => {
+    await backfillUserRoles(payload)
+  },
   plugins: [
     ...plugins,
     // storage-adapter-placeholder
@@ -90,6 +129,10 @@ export default buildConfig({
         return authHeader === `Bearer ${process.env.CRON_SECRET}`
       },
     },
-    tasks: [],
+    // Long-running servers can process the queue themselves; serverless deployments call
+    // /api/payload-jobs/run from a cron instead
+    autoRun: [{ cron: '* * * * *', queue: 'default' }],
+    shouldAutoRun: () => process.env.PAYLOAD_JOBS_AUTORUN === 'true',
+    tasks: [deleteUnclaimedUploads, deliverWebhook, sendFormEmail],
   },
 })
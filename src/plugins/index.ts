@@ -3,30 +3,58 @@ import { nestedDocsPlugin } from '@payloadcms/plugin-nested-docs'
 import { redirectsPlugin } from '@payloadcms/plugin-redirects'
 import { seoPlugin } from '@payloadcms/plugin-seo'
 import { searchPlugin } from '@payloadcms/plugin-search'
-import { Plugin } from 'payload'
+import { Field, Plugin } from 'payload'
+import { fieldAffectsData } from 'payload/shared'
 import { revalidateRedirects } from '@/hooks/revalidateRedirects'
+import { hasRole } from '@/access/hasRole'
+import { editorsOrApplications } from '@/access/editorsOrApplications'
+import { dropHiddenFields } from '@/blocks/Form/hooks/dropHiddenFields'
+import { queueFormEmails } from '@/blocks/Form/hooks/queueFormEmails'
+import { queueWebhooks } from '@/blocks/Form/hooks/queueWebhooks'
+import { rejectSpam } from '@/blocks/Form/hooks/rejectSpam'
+import { JobSelectField } from '@/blocks/Form/JobSelect/config'
+import { StepField } from '@/blocks/Form/Step/config'
+import { UploadField } from '@/blocks/Form/Upload/config'
+import {
+  claimSubmissionUploads,
+  linkSubmissionUploads,
+} from '@/collections/FormUploads/hooks/linkSubmissionUploads'
+import { linkSubmissionToJob } from '@/collections/Jobs/hooks/linkSubmissionToJob'
+import { populateJobOptions } from '@/collections/Jobs/hooks/populateJobOptions'
 import { GenerateTitle, GenerateURL } from '@payloadcms/plugin-seo/types'
 import { FixedToolbarFeature, HeadingFeature, lexicalEditor } from '@payloadcms/richtext-lexical'
+import { exportSubmissions } from '@/endpoints/exportSubmissions'
+import { formEmailType } from '@/fields/formEmailType'
+import { formWebhooks } from '@/fields/formWebhooks'
+import { showIf } from '@/fields/showIf'
+import { submissionStatus } from '@/fields/submissionStatus'
 import { searchFields } from '@/search/fieldOverrides'
 import { beforeSyncWithSearch } from '@/search/beforeSync'
 
 import { Page, Post } from '@/payload-types'
 import { getServerSideURL } from '@/utilities/getURL'
+import { isLocale, localizePath } from '@/i18n/config'
 
 const generateTitle: GenerateTitle<Post | Page> = ({ doc }) => {
   return doc?.title ? `${doc.title} | Payload Website Template` : 'Payload Website Template'
 }
 
-const generateURL: GenerateURL<Post | Page> = ({ doc }) => {
+const generateURL: GenerateURL<Post | Page> = ({ doc, locale }) => {
   const url = getServerSideURL()
+  const path = localizePath(doc?.slug ? `/${doc.slug}` : '/', isLocale(locale) ? locale : undefined)
 
-  return doc?.slug ? `${url}/${doc.slug}` : url
+  return path === '/' ? url : `${url}${path}`
 }
 
 export const plugins: Plugin[] = [
   redirectsPlugin({
     collections: ['pages', 'posts'],
     overrides: {
+      access: {
+        create: hasRole('admin', 'editor'),
+        delete: hasRole('admin', 'editor'),
+        update: hasRole('admin', 'editor'),
+      },
       // @ts-expect-error - This is a valid override, mapped fields don't resolve to the same type
       fields: ({ defaultFields }) => {
         return defaultFields.map((field) => {
@@ -55,12 +83,23 @@ export const plugins: Plugin[] = [
     generateURL,
   }),
   formBuilderPlugin({
+    // Emails are logged and sent through the job queue so failed deliveries are retried
+    beforeEmail: queueFormEmails,
+    defaultToEmail: process.env.FORM_NOTIFICATION_EMAIL,
     fields: {
+      jobSelect: JobSelectField,
       payment: false,
+      step: StepField,
+      upload: UploadField,
     },
     formOverrides: {
+      access: {
+        create: hasRole('admin', 'editor'),
+        delete: hasRole('admin', 'editor'),
+        update: hasRole('admin', 'editor'),
+      },
       fields: ({ defaultFields }) => {
-        return defaultFields.map((field) => {
+        const fields = defaultFields.map((field) => {
           if ('name' in field && field.name === 'confirmationMessage') {
             return {
               ...field,
@@ -75,8 +114,110 @@ export const plugins: Plugin[] = [
               }),
             }
           }
+          if ('name' in field && field.name === 'emails' && field.type === 'array') {
+            return {
+              ...field,
+              fields: [formEmailType, ...field.fields],
+            }
+          }
+          // Every field except step breaks can be shown conditionally
+          if ('name' in field && field.name === 'fields' && field.type === 'blocks') {
+            return {
+              ...field,
+              blocks: field.blocks.map((block) =>
+                block.slug === 'step' ? block : { ...block, fields: [...block.fields, showIf] },
+              ),
+            }
+          }
           return field
         })
+
+        return [...fields, formWebhooks]
+      },
+      hooks: {
+        afterRead: [populateJobOptions],
+      },
+    },
+    formSubmissionOverrides: {
+      access: {
+        // Recruiters review job applications and track their status, but cannot remove them
+        delete: hasRole('admin', 'editor'),
+        read: editorsOrApplications,
+        update: editorsOrApplications,
+      },
+      admin: {
+        components: {
+          views: {
+            list: {
+              Component: '@/components/admin/SubmissionsDashboard',
+            },
+          },
+        },
+      },
+      endpoints: [exportSubmissions],
+      fields: ({ defaultFields }) => [
+        // What the visitor submitted is kept as is; only the status can change
+        ...defaultFields.map(
+          (field): Field =>
+            fieldAffectsData(field)
+              ? ({ ...field, access: { ...field.access, update: () => false } } as Field)
+              : field,
+        ),
+        submissionStatus,
+        {
+          name: 'job',
+          type: 'relationship',
+          relationTo: 'jobs',
+          admin: {
+            description: 'The job this application was filed against',
+            position: 'sidebar',
+            readOnly: true,
+          },
+        },
+        {
+          name: 'files',
+          type: 'relationship',
+          hasMany: true,
+          relationTo: 'form-uploads',
+          admin: {
+            position: 'sidebar',
+            readOnly: true,
+          },
+        },
+        {
+          name: 'ipHash',
+          type: 'text',
+          // Used for rate limiting only
+          hidden: true,
+          index: true,
+        },
+        {
+          name: 'antiSpam',
+          type: 'group',
+          hidden: true,
+          // Checked by rejectSpam and never stored
+          virtual: true,
+          fields: [
+            {
+              name: 'honeypot',
+              type: 'text',
+            },
+            {
+              name: 'startedAt',
+              type: 'number',
+            },
+            {
+              name: 'challengeToken',
+              type: 'text',
+            },
+          ],
+        },
+      ],
+      hooks: {
+        afterChange: [claimSubmissionUploads, queueWebhooks],
+        // Spam is rejected before anything else runs. Hidden fields are dropped next so the
+        // other hooks only see what the visitor could fill in
+        beforeChange: [rejectSpam, dropHiddenFields, linkSubmissionToJob, linkSubmissionUploads],
       },
     },
   }),
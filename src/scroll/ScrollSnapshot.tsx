@@ -0,0 +1,31 @@
+'use client';
+
+import React, { createContext, useContext } from 'react';
+import { clampProgress } from './progress';
+
+const ScrollSnapshotContext = createContext<number | undefined>(undefined);
+
+/**
+ * Freezes the scroll blocks inside at `progress` (0–1): variants skip ScrollTrigger,
+ * pinning and scroll listeners and render the frame for that point of the animation
+ */
+export function ScrollSnapshot({
+  progress,
+  children,
+}: {
+  progress: number;
+  children: React.ReactNode;
+}) {
+  return (
+    <ScrollSnapshotContext.Provider value={clampProgress(progress)}>
+      {children}
+    </ScrollSnapshotContext.Provider>
+  );
+}
+
+/**
+ * Progress set by the nearest ScrollSnapshot, undefined when the blocks follow the page scroll
+ */
+export function useScrollSnapshot(): number | undefined {
+  return useContext(ScrollSnapshotContext);
+}
@@ -0,0 +1,96 @@
+// Responsive scroll settings
+//
+// Variants list the settings that can be overridden per breakpoint (`responsiveFields` in
+// their definition). The overrides are stored in the `responsive` group of the variant's
+// settings group, converted with the variant's own `toConfig` into `ScrollConfig.breakpoints`
+// and picked at runtime with matchMedia (see useScrollBreakpoint). The breakpoints match the
+// live preview sizes in payload.config.ts, so switching the preview size shows the override.
+// Pure module: no React or Payload imports.
+import type { ScrollConfig } from './types';
+
+export type ScrollBreakpointName = 'mobile' | 'tablet' | 'desktop';
+
+export interface ScrollBreakpoint {
+  name: ScrollBreakpointName;
+  label: string;
+  width: number; // Live preview width
+  query: string; // Media query covering the widths this breakpoint stands for
+}
+
+// Name of the overrides group inside a variant's settings group
+export const RESPONSIVE_GROUP = 'responsive';
+
+export const SCROLL_BREAKPOINTS: ScrollBreakpoint[] = [
+  { name: 'mobile', label: 'Mobile', width: 375, query: '(max-width: 767px)' },
+  {
+    name: 'tablet',
+    label: 'Tablet',
+    width: 768,
+    query: '(min-width: 768px) and (max-width: 1439px)',
+  },
+  { name: 'desktop', label: 'Desktop', width: 1440, query: '(min-width: 1440px)' },
+];
+
+// Breakpoint for a viewport width, the same ranges as the media queries
+export function getScrollBreakpoint(width: number): ScrollBreakpointName {
+  if (width < 768) return 'mobile';
+  if (width < 1440) return 'tablet';
+  return 'desktop';
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+// Empty override fields fall back to the base settings
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+// Overrides are flat, `titleAnimation.pinnedY` is overridden by the group's `pinnedY` field
+export function overrideKey(path: string): string {
+  return path.split('.').pop() as string;
+}
+
+// Whether an override group has at least one value set
+export function hasOverrides(override: unknown): boolean {
+  if (!isPlainObject(override)) return false;
+  return Object.entries(override).some(([key, value]) => key !== 'id' && !isEmpty(value));
+}
+
+// Whether the override sets the setting at `path`
+export function isOverridden(override: unknown, path: string): boolean {
+  return isPlainObject(override) && !isEmpty(override[overrideKey(path)]);
+}
+
+// Copy of `data` with `value` at `path`, copying the groups along the way
+function setPath(
+  data: Record<string, unknown>,
+  [key, ...rest]: string[],
+  value: unknown
+): Record<string, unknown> {
+  const child = isPlainObject(data[key]) ? data[key] : {};
+  return { ...data, [key]: rest.length === 0 ? value : setPath(child, rest, value) };
+}
+
+/**
+ * Settings with the override's values on top. `paths` are the variant's responsive fields,
+ * empty override fields keep the base value
+ */
+export function mergeOverrides<T>(settings: T, override: unknown, paths: string[]): T {
+  if (!isPlainObject(settings)) return settings;
+
+  return paths.reduce<Record<string, unknown>>(
+    (merged, path) =>
+      isOverridden(override, path)
+        ? setPath(merged, path.split('.'), (override as Record<string, unknown>)[overrideKey(path)])
+        : merged,
+    settings
+  ) as T;
+}
+
+// Config for the current breakpoint, the base config until the breakpoint is known
+export function resolveScrollConfig(
+  config: ScrollConfig,
+  breakpoint?: ScrollBreakpointName
+): ScrollConfig {
+  const override = breakpoint ? config.breakpoints?.[breakpoint] : undefined;
+  return override ? { ...config, ...override } : config;
+}
@@ -0,0 +1,37 @@
+import type { ScrollBlock as ScrollBlockType } from '@/payload-types';
+import { convertScrollItems } from '@/blocks/ScrollBlock/utils';
+import { validateItems } from '../validation';
+import { defineScrollVariant } from './define';
+
+type BubbleListSettings = NonNullable<ScrollBlockType['bubbleListSettings']>;
+
+export const bubbleListScrollVariant = defineScrollVariant<BubbleListSettings>({
+  slug: 'bubble-list-scroll',
+  name: 'Bubble List Scroll',
+  description: 'Bubble list with cascading stagger animations and micro-hover effects',
+  icon: '🎈',
+  load: () =>
+    import(
+      /* webpackChunkName: "scroll-variant-bubble-list-scroll" */ '../variants/bubble-list-scroll'
+    ).then((module) => module.BubbleListScroll),
+  // Scroll distance per item plus the four viewports the balloons fade out over
+  placeholderHeight: (config) =>
+    `calc(${(config.items?.length ?? 0) * (config.duration ?? 800)}px + 400vh)`,
+  settings: {
+    duration: 800,
+    smoothness: 1,
+    enableOnMobile: true,
+    useGPU: true
+  },
+  settingsGroup: {
+    name: 'bubbleListSettings',
+    label: 'Bubble List Scroll Settings',
+  },
+  responsiveFields: ['duration'],
+  toConfig: (bubbleListSettings) => ({
+    items: convertScrollItems(bubbleListSettings.items),
+    infinitePhaseText: bubbleListSettings.infinitePhaseText || undefined,
+    duration: bubbleListSettings.duration ?? 800,
+  }),
+  validate: (bubbleListSettings) => validateItems(bubbleListSettings.items, 'items'),
+});
@@ -0,0 +1,11 @@
+import type { ScrollVariantDefinition } from '../types';
+
+/**
+ * Declare a scroll variant. Identity helper that types the variant's
+ * settings group data for its `toConfig` converter.
+ */
+export function defineScrollVariant<TSettings>(
+  definition: ScrollVariantDefinition<TSettings>
+): ScrollVariantDefinition<TSettings> {
+  return definition;
+}
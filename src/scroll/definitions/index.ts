@@ -0,0 +1,197 @@
+// Scroll variant registry
+//
+// Every scroll variant is declared once in this directory with `defineScrollVariant`
+// (component, default settings, Payload settings group and block → ScrollConfig converter).
+// The ScrollBlock config, ScrollRenderer and convertScrollBlockToConfig are all derived
+// from this list, so adding a variant means adding a definition file and listing it below,
+// plus its settings fields in src/blocks/ScrollBlock/variants (checked against this list when
+// the block config loads).
+import type { ScrollBlock as ScrollBlockType } from '@/payload-types';
+import type { ScrollConfig, ScrollValidationIssue, ScrollVariantDefinition } from '../types';
+import { validateBackground } from '../validation';
+import {
+  hasOverrides,
+  isOverridden,
+  mergeOverrides,
+  overrideKey,
+  RESPONSIVE_GROUP,
+  SCROLL_BREAKPOINTS,
+} from '../breakpoints';
+import { bubbleListScrollVariant } from './bubble-list-scroll';
+import { tabsScrollVariant } from './tabs-scroll';
+import { textImageScrollVariant } from './text-image-scroll';
+import { titleScaleScrollVariant } from './title-scale-scroll';
+import { zoomVariant } from './zoom';
+
+export { defineScrollVariant } from './define';
+
+// Order defines the order of the variant select options and settings groups in the admin
+export const scrollVariants: ScrollVariantDefinition[] = [
+  zoomVariant,
+  textImageScrollVariant,
+  tabsScrollVariant,
+  titleScaleScrollVariant,
+  bubbleListScrollVariant,
+];
+
+export const DEFAULT_SCROLL_VARIANT = zoomVariant.slug;
+
+/**
+ * Look up a variant definition by slug
+ */
+export function getScrollVariant(slug?: string | null): ScrollVariantDefinition | undefined {
+  return scrollVariants.find((variant) => variant.slug === slug);
+}
+
+type VariantSettings = Record<string, unknown>;
+
+// Settings group data for a variant (e.g. `block.zoomSettings`)
+function getVariantSettings(
+  block: Partial<ScrollBlockType>,
+  definition: ScrollVariantDefinition
+): VariantSettings {
+  return ((block as VariantSettings)[definition.settingsGroup.name] || {}) as VariantSettings;
+}
+
+// Overrides for one breakpoint (e.g. `block.zoomSettings.responsive.mobile`)
+function getBreakpointOverride(settings: VariantSettings, breakpoint: string): unknown {
+  return (settings[RESPONSIVE_GROUP] as VariantSettings | undefined)?.[breakpoint];
+}
+
+/**
+ * Validate each breakpoint's settings, i.e. the base settings with the overrides on top.
+ * Only issues with an overridden value are reported, at the override's path
+ * (e.g. `responsive.mobile.pinnedY` for `titleAnimation.pinnedY`).
+ */
+function validateOverrides(
+  definition: ScrollVariantDefinition,
+  settings: VariantSettings,
+  block: Partial<ScrollBlockType>
+): ScrollValidationIssue[] {
+  const { responsiveFields, validate } = definition;
+  if (!responsiveFields || !validate) return [];
+
+  return SCROLL_BREAKPOINTS.flatMap(({ name }) => {
+    const override = getBreakpointOverride(settings, name);
+    if (!hasOverrides(override)) return [];
+
+    return validate(mergeOverrides(settings, override, responsiveFields), block)
+      .filter((issue) => isOverridden(override, issue.path))
+      .map((issue) => ({
+        ...issue,
+        path: `${RESPONSIVE_GROUP}.${name}.${overrideKey(issue.path)}`,
+      }));
+  });
+}
+
+// Variant config for each breakpoint that has overrides, converted like the base settings
+function convertOverrides(
+  definition: ScrollVariantDefinition,
+  settings: VariantSettings,
+  block: Partial<ScrollBlockType>
+): ScrollConfig['breakpoints'] {
+  const { responsiveFields } = definition;
+  if (!responsiveFields) return undefined;
+
+  const breakpoints = SCROLL_BREAKPOINTS.flatMap(({ name }) => {
+    const override = getBreakpointOverride(settings, name);
+    if (!hasOverrides(override)) return [];
+
+    return [
+      [name, definition.toConfig(mergeOverrides(settings, override, responsiveFields), block)],
+    ];
+  });
+
+  return breakpoints.length > 0 ? Object.fromEntries(breakpoints) : undefined;
+}
+
+/**
+ * Validate scroll block data: the variant, the shared background and the variant's own settings
+ * with their responsive overrides.
+ * Issue paths are relative to the block, e.g. `zoomSettings.zoomEnd`.
+ */
+export function validateScrollBlock(block: Partial<ScrollBlockType>): ScrollValidationIssue[] {
+  const definition = getScrollVariant(block.variant || DEFAULT_SCROLL_VARIANT);
+  if (!definition) {
+    return [{ path: 'variant', message: `Unknown scroll variant "${block.variant}".` }];
+  }
+
+  const settings = getVariantSettings(block, definition);
+  const variantIssues = [
+    ...(definition.validate?.(settings, block) ?? []),
+    ...validateOverrides(definition, settings, block),
+  ];
+
+  return [
+    ...validateBackground(block.background, 'background'),
+    ...variantIssues.map((issue) => ({
+      ...issue,
+      path: `${definition.settingsGroup.name}.${issue.path}`,
+    })),
+  ];
+}
+
+// Copy `data` with the value at `path` removed
+function omitPath(data: unknown, path: string[]): unknown {
+  if (!data || typeof data !== 'object' || path.length === 0) return data;
+  const [key, ...rest] = path;
+  const copy: Record<string, unknown> | unknown[] = Array.isArray(data) ? [...data] : { ...data };
+  if (rest.length === 0) {
+    delete (copy as Record<string, unknown>)[key];
+  } else {
+    (copy as Record<string, unknown>)[key] = omitPath((data as Record<string, unknown>)[key], rest);
+  }
+  return copy;
+}
+
+export interface GuardedScrollBlock {
+  block: Partial<ScrollBlockType>;
+  issues: ScrollValidationIssue[];
+}
+
+/**
+ * Runtime guard for block data that never went through admin validation (seeds, API writes, drafts).
+ * Invalid values are dropped so the variant converters fall back to their defaults; the issues
+ * are returned rather than logged, as this runs on every client render.
+ */
+export function guardScrollBlock(block: Partial<ScrollBlockType>): GuardedScrollBlock {
+  const issues = validateScrollBlock(block);
+  if (issues.length === 0) return { block, issues };
+
+  return {
+    block: issues.reduce<Partial<ScrollBlockType>>(
+      (guarded, issue) => omitPath(guarded, issue.path.split('.')) as Partial<ScrollBlockType>,
+      block
+    ),
+    issues,
+  };
+}
+
+/**
+ * Convert Payload ScrollBlock to ScrollConfig
+ */
+export function convertScrollBlockToConfig(scrollBlock: Partial<ScrollBlockType>): ScrollConfig {
+  const { block } = guardScrollBlock(scrollBlock);
+  const variant = block.variant || DEFAULT_SCROLL_VARIANT;
+  const settings = block.settings || {};
+  const baseConfig: Partial<ScrollConfig> = {
+    variant: variant as ScrollConfig['variant'],
+    enableOnMobile: settings.enableOnMobile ?? true,
+    reducedMotion: settings.reducedMotion || false,
+    useGPU: settings.useGPU !== false,
+  };
+
+  const definition = getScrollVariant(variant);
+  if (!definition) {
+    return baseConfig as ScrollConfig;
+  }
+
+  const variantSettings = getVariantSettings(block, definition);
+
+  return {
+    ...baseConfig,
+    // Variant-specific configuration comes from the variant's own settings group
+    ...definition.toConfig(variantSettings, block),
+    breakpoints: convertOverrides(definition, variantSettings, block),
+  } as ScrollConfig;
+}
@@ -0,0 +1,91 @@
+import type { ScrollBlock as ScrollBlockType } from '@/payload-types';
+import { convertLandingZone, convertScrollItems } from '@/blocks/ScrollBlock/utils';
+import { validateItems } from '../validation';
+import { defineScrollVariant } from './define';
+
+type TabsSettings = NonNullable<ScrollBlockType['tabsSettings']>;
+
+export const tabsScrollVariant = defineScrollVariant<TabsSettings>({
+  slug: 'tabs-scroll',
+  name: 'Tabs Scroll',
+  description: 'Layered cards that stack from bottom to top with tab navigation',
+  icon: '🗂️',
+  load: () =>
+    import(/* webpackChunkName: "scroll-variant-tabs-scroll" */ '../variants/tabs-scroll').then(
+      (module) => module.TabsScroll
+    ),
+  // 80vh per card plus a 60vh buffer (at least 100vh), and the 100vh the pinned cards take
+  placeholderHeight: (config) =>
+    `${Math.max(100, (config.items?.length ?? 0) * 80 + 60 - 100) + 100}vh`,
+  settings: {
+    duration: 800,
+    smoothness: 1,
+    enableOnMobile: true,
+    useGPU: true,
+    landingZone: {
+      enabled: true,
+      height: 20,
+      backgroundColor: 'transparent',
+      showTitle: false,
+      alignment: 'center',
+      padding: {
+        top: 2,
+        bottom: 2,
+        left: 4,
+        right: 4
+      }
+    },
+    items: [
+      {
+        id: 'service-1',
+        title: 'Language Interpretation',
+        description: 'Scale up your language interpretation teams with our agile solutions.',
+        icon: '/assets/images/interpreters-icon.png'
+      },
+      {
+        id: 'service-2',
+        title: 'Sales',
+        description: 'Add tremendous growth to your company with trained sales agents.',
+        icon: '/assets/images/sales-icon.png'
+      },
+      {
+        id: 'service-3',
+        title: 'Customer Services',
+        description: 'Foster quality communication and support that keeps customers coming back.',
+        icon: '/assets/images/customers-icon.png'
+      },
+      {
+        id: 'service-4',
+        title: 'Billing',
+        description: 'Make accurate and faster billing processes with clients.',
+        icon: '/assets/images/bill-icon.png'
+      },
+      {
+        id: 'service-5',
+        title: 'Collections',
+        description: 'Experienced agents for effective collections and recoveries.',
+        icon: '/assets/images/collections-icon.png'
+      },
+      {
+        id: 'service-6',
+        title: 'Help Desk',
+        description: 'Handle help desk questions from basic to complex.',
+        icon: '/assets/images/helpdesk-icon.png'
+      }
+    ]
+  },
+  settingsGroup: {
+    name: 'tabsSettings',
+    label: 'Tabs Scroll Settings',
+  },
+  responsiveFields: ['duration', 'imagePosition', 'itemLayout'],
+  toConfig: (tabsSettings) => ({
+    items: convertScrollItems(tabsSettings.items),
+    tabClickScrollSpeed: tabsSettings.tabClickScrollSpeed ?? 2,
+    imagePosition: tabsSettings.imagePosition || 'left',
+    itemLayout: tabsSettings.itemLayout || 'split',
+    landingZone: convertLandingZone(tabsSettings.landingZone),
+    duration: tabsSettings.duration ?? 800,
+  }),
+  validate: (tabsSettings) => validateItems(tabsSettings.items, 'items'),
+});
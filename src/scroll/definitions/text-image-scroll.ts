@@ -0,0 +1,82 @@
+import type { ScrollBlock as ScrollBlockType } from '@/payload-types';
+import { convertScrollItems } from '@/blocks/ScrollBlock/utils';
+import { validateItems } from '../validation';
+import { defineScrollVariant } from './define';
+
+type TextImageSettings = NonNullable<ScrollBlockType['textImageSettings']>;
+type RichTextNode = NonNullable<ScrollBlockType['richText']>['root']['children'][number];
+
+export const textImageScrollVariant = defineScrollVariant<TextImageSettings>({
+  slug: 'text-image-scroll',
+  name: 'Text-Image Scroll',
+  description: 'Text on left fades in/out as you scroll, with synced icon on right',
+  icon: '📜',
+  load: () =>
+    import(
+      /* webpackChunkName: "scroll-variant-text-image-scroll" */ '../variants/text-image-scroll'
+    ).then((module) => module.TextImageScroll),
+  // Scroll distance per item plus the half viewport the pin is released over
+  placeholderHeight: (config) =>
+    `calc(${(config.items?.length ?? 0) * (config.duration ?? 800)}px + 50vh)`,
+  settings: {
+    duration: 800,        // Scroll distance per item in pixels
+    smoothness: 1,
+    enableOnMobile: true,
+    useGPU: true,
+    items: [
+      {
+        id: 'value-1',
+        title: 'Attitude',
+        description: 'No matter how upset a customer might be, agents must keep a positive attitude.',
+        icon: '/assets/images/attitude-icon.png'
+      },
+      {
+        id: 'value-2',
+        title: 'Adaptability',
+        description: 'Of the most essential customer service skills, adaptability to changing situations is crucial.',
+        icon: '/assets/images/adaptability-icon.png'
+      },
+      {
+        id: 'value-3',
+        title: 'Organization',
+        description: 'During customer service exchanges, agents must be organized at all times to deliver timely service.',
+        icon: '/assets/images/organization-icon.png'
+      },
+      {
+        id: 'value-4',
+        title: 'Cloud',
+        description: 'Choose the technology that best meets your operational constraints while enjoying the same features.',
+        icon: '/assets/images/cloud-icon.png'
+      },
+      {
+        id: 'value-5',
+        title: 'Process',
+        description: 'We create SLAs geared around our partners\' objectives and quality that go beyond.',
+        icon: '/assets/images/process-icon.png'
+      }
+    ]
+  },
+  settingsGroup: {
+    name: 'textImageSettings',
+    dbName: 'textImg',
+    label: 'Text-Image Scroll Settings',
+  },
+  responsiveFields: ['duration'],
+  toConfig: (textImageSettings, block) => {
+    // Extract title from richText (first heading)
+    let title: string | undefined = undefined;
+    const firstHeading = block.richText?.root?.children?.find((child) => child.type === 'heading');
+    const headingText = (firstHeading?.children as RichTextNode[] | undefined)?.[0]?.text;
+    if (typeof headingText === 'string' && headingText) {
+      title = headingText;
+    }
+    return {
+      items: convertScrollItems(textImageSettings.items),
+      foundationText: textImageSettings.foundationText || undefined,
+      foundationTextVariant: textImageSettings.foundationTextVariant || 'random-chars',
+      duration: textImageSettings.duration ?? 800,
+      title: title,
+    };
+  },
+  validate: (textImageSettings) => validateItems(textImageSettings.items, 'items'),
+});
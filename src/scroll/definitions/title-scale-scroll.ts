@@ -0,0 +1,136 @@
+import type { ScrollBlock as ScrollBlockType } from '@/payload-types';
+import type { BackgroundConfig } from '../types';
+import { convertLandingZone, convertTitleAnimationBackground } from '@/blocks/ScrollBlock/utils';
+import { themeColor } from '@/Theme/tokens';
+import { checkCSSLength, collectIssues, validateBackground } from '../validation';
+import { defineScrollVariant } from './define';
+
+type TitleScaleSettings = NonNullable<ScrollBlockType['titleScaleSettings']>;
+
+const DEFAULT_INITIAL_BACKGROUND: BackgroundConfig = {
+  type: 'GRADIENT',
+  gradient: `linear-gradient(135deg, ${themeColor('darkNavy')} 0%, #1a3a6b 50%, #2c5aa0 100%)`,
+  opacity: 1,
+};
+
+const DEFAULT_FINAL_BACKGROUND: BackgroundConfig = {
+  type: 'GRADIENT',
+  gradient: 'linear-gradient(to bottom right, #eff6ff, #ffffff)',
+  opacity: 1,
+};
+
+// Convert backgrounds - handle both old string format and new structured format
+function resolveBackground(
+  background: unknown,
+  fallback: BackgroundConfig
+): BackgroundConfig | undefined {
+  // Check if backgrounds are in new structured format
+  if (background && typeof background === 'object') {
+    return convertTitleAnimationBackground(
+      background as Parameters<typeof convertTitleAnimationBackground>[0]
+    );
+  }
+  if (typeof background === 'string') {
+    // Legacy format: assume it's a gradient string
+    return {
+      type: 'GRADIENT',
+      gradient: background,
+      opacity: 1,
+    };
+  }
+  return fallback;
+}
+
+export const titleScaleScrollVariant = defineScrollVariant<TitleScaleSettings>({
+  slug: 'title-scale-scroll',
+  name: 'Title Scale Scroll',
+  description: 'Hero title descends, scales, and hands off to next section',
+  icon: '🎯',
+  load: () =>
+    import(
+      /* webpackChunkName: "scroll-variant-title-scale-scroll" */ '../variants/title-scale-scroll'
+    ).then((module) => module.TitleScaleScroll),
+  placeholderHeight: ({ titleAnimation, landingZone }) => {
+    const separator = landingZone?.separatorAfter;
+    const separatorHeight = separator?.enabled ? (separator.height ?? 10) : 0;
+    return `${(titleAnimation?.containerHeight || 150) + separatorHeight}vh`;
+  },
+  settings: {
+    duration: 800,
+    smoothness: 1,
+    enableOnMobile: true,
+    useGPU: true,
+    title: 'Our Services',
+    subtitle: 'We do more than answering your calls',
+    titleAnimation: {
+      enabled: true,
+      variant: 'scale-down',
+      pinPosition: '120vh',
+      initialBackground: DEFAULT_INITIAL_BACKGROUND,
+      finalBackground: DEFAULT_FINAL_BACKGROUND,
+      overlayOpacity: 0.04,
+      textColor: themeColor('white'),
+      darkTextColor: themeColor('darkNavy'),
+      initialScale: 1.8,
+      pinnedY: '-42vw',
+      exitY: '50vh',
+      containerHeight: 150
+    }
+  },
+  settingsGroup: {
+    name: 'titleScaleSettings',
+    dbName: 'titleScale',
+    label: 'Title Scale Scroll Settings',
+  },
+  responsiveFields: [
+    'titleAnimation.initialScale',
+    'titleAnimation.pinnedY',
+    'titleAnimation.containerHeight',
+  ],
+  toConfig: (titleScaleSettings) => {
+    const titleAnimation = titleScaleSettings.titleAnimation || {};
+
+    return {
+      title: titleScaleSettings.title || 'Our Services',
+      subtitle: titleScaleSettings.subtitle || 'We do more than answering your calls',
+      showTitle: true,
+      titleAnimation: titleAnimation.enabled
+        ? {
+            enabled: true,
+            variant: titleAnimation.variant || 'scale-down',
+            pinPosition: titleAnimation.pinPosition || '120vh',
+            initialBackground: resolveBackground(
+              titleAnimation.initialBackground,
+              DEFAULT_INITIAL_BACKGROUND
+            ),
+            finalBackground: resolveBackground(
+              titleAnimation.finalBackground,
+              DEFAULT_FINAL_BACKGROUND
+            ),
+            overlayOpacity: titleAnimation.overlayOpacity ?? 0.04,
+            textColor: titleAnimation.textColor || themeColor('white'),
+            darkTextColor: titleAnimation.darkTextColor || themeColor('darkNavy'),
+            initialScale: titleAnimation.initialScale ?? 1.8,
+            pinnedY: titleAnimation.pinnedY || '42vw',
+            exitY: titleAnimation.exitY || '50vh',
+            containerHeight: titleAnimation.containerHeight ?? 150,
+          }
+        : undefined,
+      landingZone: convertLandingZone(titleScaleSettings.landingZone),
+    };
+  },
+  validate: (titleScaleSettings) => {
+    const titleAnimation = titleScaleSettings.titleAnimation;
+    if (!titleAnimation?.enabled) return [];
+
+    return [
+      ...collectIssues([
+        ['titleAnimation.pinPosition', checkCSSLength(titleAnimation.pinPosition, 'Pin Position')],
+        ['titleAnimation.pinnedY', checkCSSLength(titleAnimation.pinnedY, 'Pinned Y Position')],
+        ['titleAnimation.exitY', checkCSSLength(titleAnimation.exitY, 'Exit Y Position')],
+      ]),
+      ...validateBackground(titleAnimation.initialBackground, 'titleAnimation.initialBackground'),
+      ...validateBackground(titleAnimation.finalBackground, 'titleAnimation.finalBackground'),
+    ];
+  },
+});
@@ -0,0 +1,42 @@
+import type { ScrollBlock as ScrollBlockType } from '@/payload-types';
+import { checkZoomRange, collectIssues } from '../validation';
+import { defineScrollVariant } from './define';
+
+type ZoomSettings = NonNullable<ScrollBlockType['zoomSettings']>;
+
+export const zoomVariant = defineScrollVariant<ZoomSettings>({
+  slug: 'zoom',
+  name: 'Zoom Effect',
+  description: 'Section starts at normal scale and zooms out on scroll',
+  icon: '🔍',
+  load: () =>
+    import(/* webpackChunkName: "scroll-variant-zoom" */ '../variants/zoom').then(
+      (module) => module.ZoomScroll
+    ),
+  placeholderHeight: () => '100vh',
+  settings: {
+    zoomStart: 1,        // Start at normal scale
+    zoomEnd: 0.95,        // Zoom out to smaller scale (95% - less reduction)
+    borderRadius: 0,      // Border radius in px (configurable)
+    duration: 300,        // Scroll distance for zoom out (down scroll) in pixels
+    reverseDuration: 1000, // Scroll distance for zoom in (up scroll) in pixels - smoother
+    smoothness: 1,
+    enableOnMobile: true,
+    useGPU: true
+  },
+  settingsGroup: {
+    name: 'zoomSettings',
+    label: 'Zoom Settings',
+  },
+  responsiveFields: ['zoomStart', 'zoomEnd', 'duration', 'reverseDuration', 'borderRadius'],
+  toConfig: (zoomSettings) => ({
+    zoomStart: zoomSettings.zoomStart ?? 1,
+    zoomEnd: zoomSettings.zoomEnd ?? 0.9,
+    duration: zoomSettings.duration ?? 300,
+    reverseDuration: zoomSettings.reverseDuration ?? 1000,
+    borderRadius: zoomSettings.borderRadius ?? 0,
+    smoothness: zoomSettings.smoothness ?? 1,
+  }),
+  validate: (zoomSettings) =>
+    collectIssues([['zoomEnd', checkZoomRange(zoomSettings.zoomStart, zoomSettings.zoomEnd)]]),
+});
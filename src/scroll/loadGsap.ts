@@ -0,0 +1,25 @@
+import type { gsap as GSAP } from 'gsap';
+import type { ScrollTrigger as GSAPScrollTrigger } from 'gsap/ScrollTrigger';
+
+export interface GsapModules {
+  gsap: typeof GSAP;
+  ScrollTrigger: typeof GSAPScrollTrigger;
+}
+
+let gsapModules: Promise<GsapModules> | undefined;
+
+/**
+ * GSAP with ScrollTrigger registered, downloaded on first use so pages without scroll effects
+ * never load it. Variant components import GSAP directly, they are loaded on demand themselves
+ * (see the `load` of each variant definition).
+ */
+export function loadGsap(): Promise<GsapModules> {
+  gsapModules ??= Promise.all([import('gsap'), import('gsap/ScrollTrigger')]).then(
+    ([{ gsap }, { ScrollTrigger }]) => {
+      gsap.registerPlugin(ScrollTrigger);
+      return { gsap, ScrollTrigger };
+    }
+  );
+
+  return gsapModules;
+}
@@ -0,0 +1,38 @@
+// Externally controlled scroll progress
+//
+// Variants normally follow the page scroll through ScrollTrigger or framer-motion. Given a
+// fixed `progress` (0–1) they render frozen at that point instead, which is what the scroll
+// snapshot route uses for admin thumbnails and deterministic screenshots. Pure module.
+
+// Progress points rendered by the snapshot route when none are requested
+export const DEFAULT_SNAPSHOT_POINTS = [0, 0.5, 1];
+
+// Most points a single snapshot request may render, every point renders each scroll block again
+export const MAX_SNAPSHOT_POINTS = 10;
+
+export function clampProgress(progress: number): number {
+  return Math.min(1, Math.max(0, progress));
+}
+
+/**
+ * Progress points from a query parameter such as `?progress=0,0.25,1` or repeated
+ * `?progress=0&progress=1`. Values are clamped to 0–1, invalid ones are dropped and
+ * duplicates removed; with nothing valid left the default points are used
+ */
+export function parseProgressPoints(value?: string | string[] | null): number[] {
+  const parts = (Array.isArray(value) ? value : [value ?? ''])
+    .flatMap((part) => part.split(','))
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  const points = [
+    ...new Set(
+      parts
+        .map(Number)
+        .filter((point) => Number.isFinite(point))
+        .map(clampProgress)
+    ),
+  ].slice(0, MAX_SNAPSHOT_POINTS);
+
+  return points.length > 0 ? points : DEFAULT_SNAPSHOT_POINTS;
+}
@@ -0,0 +1,245 @@
+// Scroll timelines for the admin timeline editor
+//
+// Each timeline lists the keyframes an editor can drag (paths relative to the variant's
+// settings group) and the animation tracks they shape. Tracks are piecewise-linear curves
+// over scroll progress (0–1), the same curves the variant components animate, so the admin
+// preview shows what the page will do. Pure module: no React or GSAP imports.
+
+// Piecewise-linear curve, `values[i]` is reached at progress `stops[i]`
+export interface ScrollTimelineTrack {
+  stops: number[];
+  values: number[];
+}
+
+/**
+ * A block field the editor can drag:
+ * - `value` keyframes sit on a track at progress `at` and are dragged up and down
+ * - `duration` keyframes set how much scrolling the animation takes and are dragged sideways
+ * CSS length fields (`cssLength`, e.g. `pinnedY: '42vw'`) are edited as numbers and keep their unit
+ */
+export interface ScrollKeyframe {
+  path: string;
+  label: string;
+  kind: 'value' | 'duration';
+  track?: string;
+  at?: number;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  unit?: string;
+  cssLength?: boolean;
+}
+
+export type ScrollKeyframeValues = Record<string, number>;
+
+export interface ScrollTimeline {
+  settingsGroup: string;
+  keyframes: ScrollKeyframe[];
+  tracks: (values: ScrollKeyframeValues) => Record<string, ScrollTimelineTrack>;
+}
+
+// Progress stops of the title-scale-scroll animation, shared with the variant component
+export const TITLE_SCALE_STOPS = {
+  titleY: [0, 0.15, 0.4, 1.0],
+  scale: [0, 0.15, 0.5, 1.0],
+  darkText: [0.15, 0.3, 0.4, 1.0],
+  subtitle: [0.15, 1.0],
+  landingZone: [0.15, 1.0],
+  finalBackground: [0, 0.5, 1.0],
+};
+
+const titleScaleTimeline: ScrollTimeline = {
+  settingsGroup: 'titleScaleSettings',
+  keyframes: [
+    {
+      path: 'titleAnimation.initialScale',
+      label: 'Start Scale',
+      kind: 'value',
+      track: 'scale',
+      at: 0,
+      min: 0.5,
+      max: 3,
+      step: 0.1,
+      defaultValue: 1.8,
+    },
+    {
+      path: 'titleAnimation.pinnedY',
+      label: 'Pin Position',
+      kind: 'value',
+      track: 'titleY',
+      at: TITLE_SCALE_STOPS.titleY[2],
+      min: -100,
+      max: 100,
+      step: 1,
+      defaultValue: 42,
+      unit: 'vw',
+      cssLength: true,
+    },
+    {
+      path: 'titleAnimation.containerHeight',
+      label: 'Scroll Length',
+      kind: 'duration',
+      min: 50,
+      max: 500,
+      step: 10,
+      defaultValue: 150,
+      unit: 'vh',
+    },
+  ],
+  tracks: (values) => {
+    const initialScale = values['titleAnimation.initialScale'];
+    const pinnedY = values['titleAnimation.pinnedY'];
+
+    return {
+      titleY: { stops: TITLE_SCALE_STOPS.titleY, values: [0, 0, pinnedY, pinnedY] },
+      scale: { stops: TITLE_SCALE_STOPS.scale, values: [initialScale, initialScale, 1, 1] },
+      darkText: { stops: TITLE_SCALE_STOPS.darkText, values: [0, 0.5, 1, 1] },
+      subtitle: { stops: TITLE_SCALE_STOPS.subtitle, values: [0, 1] },
+      landingZone: { stops: TITLE_SCALE_STOPS.landingZone, values: [1, 0] },
+      finalBackground: { stops: TITLE_SCALE_STOPS.finalBackground, values: [0, 0, 1] },
+    };
+  },
+};
+
+const zoomTimeline: ScrollTimeline = {
+  settingsGroup: 'zoomSettings',
+  keyframes: [
+    {
+      path: 'zoomStart',
+      label: 'Start Scale',
+      kind: 'value',
+      track: 'scale',
+      at: 0,
+      min: 0.5,
+      max: 3,
+      step: 0.05,
+      defaultValue: 1,
+    },
+    {
+      path: 'zoomEnd',
+      label: 'End Scale',
+      kind: 'value',
+      track: 'scale',
+      at: 1,
+      min: 0.5,
+      max: 3,
+      step: 0.05,
+      defaultValue: 0.9,
+    },
+    {
+      path: 'duration',
+      label: 'Zoom Distance',
+      kind: 'duration',
+      min: 100,
+      max: 2000,
+      step: 50,
+      defaultValue: 300,
+      unit: 'px',
+    },
+    {
+      path: 'reverseDuration',
+      label: 'Reverse Distance',
+      kind: 'duration',
+      min: 100,
+      max: 2000,
+      step: 50,
+      defaultValue: 1000,
+      unit: 'px',
+    },
+  ],
+  // Matches the section zoom in the ScrollBlock component: scale and a 0–24px corner radius
+  tracks: (values) => ({
+    scale: { stops: [0, 1], values: [values.zoomStart, values.zoomEnd] },
+    radius: { stops: [0, 1], values: [0, 24] },
+  }),
+};
+
+// Variants without numeric keyframes (item lists, tabs) have no timeline
+export const scrollTimelines: Record<string, ScrollTimeline> = {
+  'title-scale-scroll': titleScaleTimeline,
+  zoom: zoomTimeline,
+};
+
+export function getScrollTimeline(variant?: string | null): ScrollTimeline | undefined {
+  return variant ? scrollTimelines[variant] : undefined;
+}
+
+/**
+ * Value of a track at `progress`, holding the first and last values outside the stops
+ */
+export function sampleTrack({ stops, values }: ScrollTimelineTrack, progress: number): number {
+  if (progress <= stops[0]) return values[0];
+
+  for (let i = 1; i < stops.length; i++) {
+    if (progress <= stops[i]) {
+      const span = stops[i] - stops[i - 1];
+      const t = span === 0 ? 1 : (progress - stops[i - 1]) / span;
+      return values[i - 1] + (values[i] - values[i - 1]) * t;
+    }
+  }
+
+  return values[values.length - 1];
+}
+
+// Every track of the timeline at `progress`
+export function sampleTimeline(
+  timeline: ScrollTimeline,
+  values: ScrollKeyframeValues,
+  progress: number
+): Record<string, number> {
+  return Object.fromEntries(
+    Object.entries(timeline.tracks(values)).map(([name, track]) => [
+      name,
+      sampleTrack(track, progress),
+    ])
+  );
+}
+
+// Numeric value of a keyframe field, e.g. `'42vw'` → 42. Empty or invalid values use the default
+export function readKeyframe(keyframe: ScrollKeyframe, raw: unknown): number {
+  const value = typeof raw === 'number' ? raw : typeof raw === 'string' ? parseFloat(raw) : NaN;
+  return Number.isFinite(value) ? value : keyframe.defaultValue;
+}
+
+// Numeric values of all keyframes, keyed by path
+export function readKeyframes(
+  timeline: ScrollTimeline,
+  getValue: (path: string) => unknown
+): ScrollKeyframeValues {
+  return Object.fromEntries(
+    timeline.keyframes.map((keyframe) => [
+      keyframe.path,
+      readKeyframe(keyframe, getValue(keyframe.path)),
+    ])
+  );
+}
+
+/**
+ * Field value for a dragged keyframe: clamped, snapped to the step and, for CSS length
+ * fields, written with the unit the field already uses (`-42vw` stays in vw)
+ */
+export function writeKeyframe(
+  keyframe: ScrollKeyframe,
+  value: number,
+  current?: unknown
+): number | string {
+  const clamped = Math.min(keyframe.max, Math.max(keyframe.min, value));
+  const decimals = (String(keyframe.step).split('.')[1] || '').length;
+  const snapped = Number((Math.round(clamped / keyframe.step) * keyframe.step).toFixed(decimals));
+
+  if (!keyframe.cssLength) return snapped;
+
+  const unit = typeof current === 'string' ? current.trim().match(/[a-z%]+$/i)?.[0] : undefined;
+  return `${snapped}${unit || keyframe.unit || ''}`;
+}
+
+// Position of a keyframe value within its range, 0 at `min` and 1 at `max`
+export function keyframeFraction(keyframe: ScrollKeyframe, value: number): number {
+  return Math.min(1, Math.max(0, (value - keyframe.min) / (keyframe.max - keyframe.min)));
+}
+
+// Keyframe value for a position within its range, the inverse of keyframeFraction
+export function keyframeFromFraction(keyframe: ScrollKeyframe, fraction: number): number {
+  return keyframe.min + Math.min(1, Math.max(0, fraction)) * (keyframe.max - keyframe.min);
+}
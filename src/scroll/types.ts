@@ -1,11 +1,10 @@
 // Scroll Section Types and Interfaces
+import type { ScrollBlock as ScrollBlockType } from '@/payload-types';
+import type { ScrollBreakpointName } from './breakpoints';
 
-export type ScrollVariant =
-  | 'zoom'            // Section scales down on scroll (zoom out effect)
-  | 'text-image-scroll' // Text on left, image on right with scroll-triggered fade
-  | 'tabs-scroll'     // Layered cards that stack on top with tab navigation (simplified, no title)
-  | 'title-scale-scroll' // Hero title with dark-to-light background transition, scales 1.8x → 1.0x, color white → black
-  | 'bubble-list-scroll'; // Bubble list with cascading stagger animations and micro-hover effects
+// Variant slugs are derived from the `variant` select built by the variant registry
+// (see src/scroll/definitions), so adding a variant never requires editing this file.
+export type ScrollVariant = ScrollBlockType['variant'];
 
 // Item for text-image-scroll variant
 export type RichTextContent = 
@@ -91,6 +90,7 @@ export interface ScrollConfig {
   // Tabs-scroll options
   tabClickScrollSpeed?: number; // Scroll speed when clicking tabs (default: 1, higher = slower, lower = faster)
   imagePosition?: 'left' | 'right'; // Position of image in tabs-scroll cards (default: 'left')
+  itemLayout?: 'split' | 'stacked'; // Image beside (split) or above (stacked) the text in tabs-scroll cards (default: 'split')
   // Landing zone (tabs-scroll only)
   landingZone?: LandingZoneConfig;
 
@@ -128,10 +128,12 @@ export interface ScrollConfig {
   };
   // Performance options
   enableOnMobile?: boolean;
-  reducedMotion?: boolean;
+  reducedMotion?: boolean;    // Always render the static layout, prefers-reduced-motion gets it regardless
   useGPU?: boolean;
   // Bubble-list-scroll options
   infinitePhaseText?: string; // Text displayed during infinite balloon phase (bubble-list-scroll only)
+  // Variant config per breakpoint for the block's responsive overrides (see src/scroll/breakpoints.ts)
+  breakpoints?: Partial<Record<ScrollBreakpointName, Partial<ScrollConfig>>>;
 }
 
 // Base props for all scroll variant components
@@ -143,6 +145,9 @@ export interface BaseScrollProps {
   style?: React.CSSProperties;
   isEditing?: boolean;
   debugMode?: boolean;
+  // Externally controlled scroll progress (0–1). When set the variant renders frozen at that
+  // point, without ScrollTrigger, pinning or scroll listeners (see src/scroll/progress.ts)
+  progress?: number;
 }
 
 // Variant info for editor display
@@ -152,3 +157,43 @@ export interface ScrollVariantInfo {
   icon: string;
   settings: Partial<ScrollConfig>;
 }
+
+// Validation problem in a scroll block, `path` is relative to the block (e.g. `zoomSettings.zoomEnd`)
+export interface ScrollValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Payload admin group that holds a variant's settings (e.g. `zoomSettings`). Its fields live in
+// src/blocks/ScrollBlock/variants, so the definitions stay free of server-only field config.
+export interface ScrollVariantSettingsGroup {
+  name: string;                // Field name on the scroll block
+  dbName?: string;             // Shortened database name, see scripts/check-enum-lengths.mjs
+  label: string;
+}
+
+/**
+ * Everything the scroll block needs to know about a variant:
+ * - the component rendered by ScrollRenderer, loaded on demand so pages only download the
+ *   variants they use (and their GSAP / Three.js dependencies)
+ * - the height of the placeholder shown until it has loaded
+ * - default settings (used by editors and as the variant info)
+ * - the name of the Payload settings group shown when the variant is selected
+ * - the converter from that group's block data to ScrollConfig
+ * - optional settings that editors can override per breakpoint
+ * - optional validation of that group's data (paths relative to the group)
+ *
+ * `toConfig` and `validate` are methods so definitions typed with their own settings
+ * (see defineScrollVariant) fit in the registry's `ScrollVariantDefinition[]`.
+ */
+export interface ScrollVariantDefinition<TSettings = unknown> extends ScrollVariantInfo {
+  slug: string;
+  load: () => Promise<React.ComponentType<BaseScrollProps>>;
+  // CSS height of the variant's scroll area, so the placeholder takes the same space
+  placeholderHeight: (config: ScrollConfig) => string;
+  settingsGroup: ScrollVariantSettingsGroup;
+  // Settings that can be overridden per breakpoint, paths relative to the group (e.g. `titleAnimation.pinnedY`)
+  responsiveFields?: string[];
+  toConfig(settings: TSettings, block: Partial<ScrollBlockType>): Partial<ScrollConfig>;
+  validate?(settings: TSettings, block: Partial<ScrollBlockType>): ScrollValidationIssue[];
+}
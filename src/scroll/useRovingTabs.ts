@@ -0,0 +1,67 @@
+'use client';
+
+import type React from 'react';
+import { useRef, useState } from 'react';
+
+// Tab the key moves focus to, undefined for keys the tab list doesn't handle
+export function getNextTabIndex(key: string, index: number, count: number): number | undefined {
+  switch (key) {
+    case 'ArrowRight':
+    case 'ArrowDown':
+      return (index + 1) % count;
+    case 'ArrowLeft':
+    case 'ArrowUp':
+      return (index - 1 + count) % count;
+    case 'Home':
+      return 0;
+    case 'End':
+      return count - 1;
+    default:
+      return undefined;
+  }
+}
+
+interface RovingTabsOptions {
+  count: number;
+  // Selected tab, may lag behind the focused one (e.g. until scrolling catches up)
+  activeIndex: number;
+  // Called with the tab the keyboard moved to
+  onSelect: (index: number) => void;
+}
+
+/**
+ * WAI-ARIA tabs keyboard support (roving tabindex)
+ * Arrow keys move focus to the previous/next tab, Home/End to the first/last one.
+ * While the tab list has focus the focused tab is the one in the Tab order, so Tab and
+ * Shift+Tab leave the list from where the keyboard is, even before `activeIndex` follows.
+ * Once focus leaves the list the active tab takes its place again.
+ */
+export function useRovingTabs({ count, activeIndex, onSelect }: RovingTabsOptions) {
+  const tabRefs = useRef<(HTMLElement | null)[]>([]);
+  const [focusedIndex, setFocusedIndex] = useState<number>();
+  const tabStopIndex = focusedIndex ?? activeIndex;
+
+  const getTabProps = (index: number) => ({
+    ref: (element: HTMLElement | null) => {
+      tabRefs.current[index] = element;
+    },
+    tabIndex: index === tabStopIndex ? 0 : -1,
+    onFocus: () => setFocusedIndex(index),
+    onBlur: (event: React.FocusEvent) => {
+      if (!tabRefs.current.includes(event.relatedTarget as HTMLElement | null)) {
+        setFocusedIndex(undefined);
+      }
+    },
+    onKeyDown: (event: React.KeyboardEvent) => {
+      const nextIndex = getNextTabIndex(event.key, index, count);
+      if (nextIndex === undefined) return;
+
+      event.preventDefault();
+      setFocusedIndex(nextIndex);
+      tabRefs.current[nextIndex]?.focus({ preventScroll: true });
+      onSelect(nextIndex);
+    },
+  });
+
+  return { getTabProps };
+}
@@ -0,0 +1,33 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { SCROLL_BREAKPOINTS, type ScrollBreakpointName } from './breakpoints';
+
+/**
+ * The scroll breakpoint the viewport is in, followed with matchMedia so resizing the window or
+ * switching the live preview size picks up the other overrides. Undefined during SSR and the
+ * first client render, where the base settings apply.
+ */
+export function useScrollBreakpoint(): ScrollBreakpointName | undefined {
+  const [breakpoint, setBreakpoint] = useState<ScrollBreakpointName>();
+
+  useEffect(() => {
+    const mediaQueries = SCROLL_BREAKPOINTS.map(({ name, query }) => ({
+      name,
+      mediaQuery: window.matchMedia(query),
+    }));
+
+    const handleChange = () => {
+      setBreakpoint(mediaQueries.find(({ mediaQuery }) => mediaQuery.matches)?.name);
+    };
+
+    handleChange();
+    mediaQueries.forEach(({ mediaQuery }) => mediaQuery.addEventListener('change', handleChange));
+    return () =>
+      mediaQueries.forEach(({ mediaQuery }) =>
+        mediaQuery.removeEventListener('change', handleChange)
+      );
+  }, []);
+
+  return breakpoint;
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { useEffect, type RefObject } from 'react';
+import { useMotionValue, useScroll, type MotionValue } from 'framer-motion';
+
+/**
+ * Scroll progress of `target` as a motion value, from the section's top reaching the viewport
+ * top until its bottom does. With an external `progress` (see BaseScrollProps) the value is
+ * fixed at that point instead of following the page scroll. Pass no target when the section
+ * isn't rendered (a static reduced-motion layout), framer-motion requires a mounted target.
+ */
+export function useScrollProgress(
+  target: RefObject<HTMLElement | null> | undefined,
+  progress?: number
+): MotionValue<number> {
+  const { scrollYProgress } = useScroll({
+    target,
+    offset: ['start start', 'end start'],
+  });
+  const fixedProgress = useMotionValue(progress ?? 0);
+
+  useEffect(() => {
+    if (progress !== undefined) fixedProgress.set(progress);
+  }, [fixedProgress, progress]);
+
+  return progress === undefined ? scrollYProgress : fixedProgress;
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import { usePrefersReducedMotion } from '@/utilities/usePrefersReducedMotion';
+import type { ScrollConfig } from './types';
+
+/**
+ * Whether a scroll variant should render its static layout instead of animating.
+ * True when the visitor's OS asks for reduced motion, or when the block forces it
+ * with `settings.reducedMotion`. Every variant must have a static layout for this case.
+ */
+export function useScrollReducedMotion(config: Pick<ScrollConfig, 'reducedMotion'>): boolean {
+  const prefersReducedMotion = usePrefersReducedMotion();
+  return Boolean(config.reducedMotion) || prefersReducedMotion;
+}
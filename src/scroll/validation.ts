@@ -0,0 +1,159 @@
+// Scroll block validation rules
+//
+// Pure checks shared by the Payload field validators (src/blocks/ScrollBlock/validate.ts),
+// the variant definitions and the runtime guard in convertScrollBlockToConfig.
+// Issue paths are dot paths relative to the scroll block, e.g. `zoomSettings.zoomEnd`.
+import type { ScrollValidationIssue } from './types';
+
+const CSS_LENGTH_PATTERN = /^-?(\d+(\.\d+)?|\.\d+)(px|rem|em|%|vh|vw|svh|lvh|dvh|vmin|vmax)$/;
+const CSS_GRADIENT_PATTERN = /^(repeating-)?(linear|radial|conic)-gradient\((.*)\)$/s;
+
+// Media background types and the upload field each one needs
+const MEDIA_BACKGROUND_FIELDS: Record<string, 'image' | 'video' | 'svg'> = {
+  IMAGE: 'image',
+  VIDEO: 'video',
+  SVG: 'svg',
+};
+
+type ValidatableBackground = {
+  type?: string | null;
+  gradient?: string | null;
+  image?: unknown;
+  video?: unknown;
+  svg?: unknown;
+} | null | undefined;
+
+type ValidatableItem = {
+  enableCTA?: boolean | null;
+  cta?: { text?: string | null; href?: string | null } | null;
+} | null | undefined;
+
+// True when every parenthesis is closed in order
+function hasBalancedParentheses(value: string): boolean {
+  let depth = 0;
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (depth < 0) return false;
+  }
+  return depth === 0;
+}
+
+// Count commas outside of nested functions such as rgba(...)
+function countTopLevelCommas(value: string): number {
+  let depth = 0;
+  let commas = 0;
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) commas++;
+  }
+  return commas;
+}
+
+/**
+ * CSS length such as `120vh`, `-42vw`, `0` or a `calc()` expression
+ */
+export function isCSSLength(value: string): boolean {
+  const trimmed = value.trim();
+  if (trimmed === '0') return true;
+  if (/^calc\(.+\)$/s.test(trimmed)) return hasBalancedParentheses(trimmed);
+  return CSS_LENGTH_PATTERN.test(trimmed);
+}
+
+/**
+ * CSS gradient function with at least two color stops
+ */
+export function isCSSGradient(value: string): boolean {
+  const match = value.trim().match(CSS_GRADIENT_PATTERN);
+  if (!match) return false;
+  const args = match[3];
+  return hasBalancedParentheses(args) && countTopLevelCommas(args) >= 1;
+}
+
+export function checkCSSLength(value: string | null | undefined, label: string): string | undefined {
+  if (!value) return undefined;
+  if (!isCSSLength(value)) {
+    return `${label} must be a CSS length such as 120vh, 42vw, 80px or calc(100vh - 4rem).`;
+  }
+  return undefined;
+}
+
+export function checkGradient(value: string | null | undefined): string | undefined {
+  if (!value) return undefined;
+  if (!isCSSGradient(value)) {
+    return 'Enter a CSS gradient with at least two colors, e.g. linear-gradient(135deg, #667eea 0%, #764ba2 100%).';
+  }
+  return undefined;
+}
+
+export function checkZoomRange(
+  zoomStart: number | null | undefined,
+  zoomEnd: number | null | undefined
+): string | undefined {
+  if (typeof zoomStart !== 'number' || typeof zoomEnd !== 'number') return undefined;
+  if (zoomEnd >= zoomStart) {
+    return `Zoom End (${zoomEnd}) must be smaller than Zoom Start (${zoomStart}) for the section to zoom out.`;
+  }
+  return undefined;
+}
+
+export function checkItems(items: unknown[] | null | undefined): string | undefined {
+  if (!items || items.length === 0) {
+    return 'Add at least one item, this variant has nothing to show without them.';
+  }
+  return undefined;
+}
+
+export function checkBackgroundMedia(
+  background: ValidatableBackground,
+  field: 'image' | 'video' | 'svg'
+): string | undefined {
+  if (!background?.type || MEDIA_BACKGROUND_FIELDS[background.type] !== field) return undefined;
+  if (!background[field]) {
+    return `Select a ${field === 'svg' ? 'SVG file' : field} for the ${background.type.toLowerCase()} background.`;
+  }
+  return undefined;
+}
+
+export function checkCTAField(item: ValidatableItem, field: 'text' | 'href'): string | undefined {
+  if (!item?.enableCTA) return undefined;
+  if (!item.cta?.[field]?.trim()) {
+    return field === 'text' ? 'Button text is required when the CTA is enabled.' : 'URL is required when the CTA is enabled.';
+  }
+  return undefined;
+}
+
+// Collect issues from `[path, message]` pairs, skipping checks that passed
+export function collectIssues(entries: Array<[string, string | undefined]>): ScrollValidationIssue[] {
+  return entries
+    .filter((entry): entry is [string, string] => Boolean(entry[1]))
+    .map(([path, message]) => ({ path, message }));
+}
+
+/**
+ * Validate a background group (block background or title animation backgrounds)
+ */
+export function validateBackground(background: ValidatableBackground, path: string): ScrollValidationIssue[] {
+  if (!background?.type) return [];
+
+  return collectIssues([
+    [`${path}.gradient`, background.type === 'GRADIENT' ? checkGradient(background.gradient) : undefined],
+    [`${path}.image`, checkBackgroundMedia(background, 'image')],
+    [`${path}.video`, checkBackgroundMedia(background, 'video')],
+    [`${path}.svg`, checkBackgroundMedia(background, 'svg')],
+  ]);
+}
+
+/**
+ * Validate a list variant's items: at least one item, and complete CTAs
+ */
+export function validateItems(items: ValidatableItem[] | null | undefined, path: string): ScrollValidationIssue[] {
+  return collectIssues([
+    [path, checkItems(items)],
+    ...(items || []).flatMap((item, index): Array<[string, string | undefined]> => [
+      [`${path}.${index}.cta.text`, checkCTAField(item, 'text')],
+      [`${path}.${index}.cta.href`, checkCTAField(item, 'href')],
+    ]),
+  ]);
+}
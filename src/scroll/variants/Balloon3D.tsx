@@ -11,6 +11,7 @@ interface Balloon3DProps {
   scale: number;
   opacity: number;
   showString?: boolean; // Whether to show the balloon string
+  spin?: boolean; // Off for frozen frames, the spin depends on time rather than progress
 }
 
 export function Balloon3D({
@@ -19,7 +20,8 @@ export function Balloon3D({
   rotationSpeed,
   scale,
   opacity,
-  showString = true // Default to showing string
+  showString = true, // Default to showing string
+  spin = true
 }: Balloon3DProps) {
   const meshRef = useRef<Mesh>(null);
   
@@ -41,7 +43,7 @@ export function Balloon3D({
 
   // Continuous rotation animation (basketball spin on Y-axis)
   useFrame((state, delta) => {
-    if (meshRef.current) {
+    if (spin && meshRef.current) {
       meshRef.current.rotation.y += rotationSpeed * delta;
     }
   });
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ScrollConfig } from '../types';
+import { renderDescription } from './renderDescription';
+
+interface ScrollPlaceholderProps extends React.HTMLAttributes<HTMLDivElement> {
+  config: ScrollConfig;
+  children?: React.ReactNode;
+}
+
+/**
+ * Static version of a scroll block, shown until its variant has loaded: the block's text
+ * (title, items) and content in a box with the variant's height. The variant then adds the
+ * animation, so the content is in the server HTML and readable without JavaScript.
+ */
+export const ScrollPlaceholder = React.forwardRef<HTMLDivElement, ScrollPlaceholderProps>(
+  function ScrollPlaceholder({ config, children, ...props }, ref) {
+    const items = config.items ?? [];
+
+    return (
+      <div ref={ref} {...props}>
+        <div className="container py-16 space-y-12">
+          {(config.title || config.subtitle) && (
+            <header className="space-y-4">
+              {config.title && <h2 className="text-4xl md:text-5xl font-bold">{config.title}</h2>}
+              {config.subtitle && <p className="text-lg md:text-xl">{config.subtitle}</p>}
+            </header>
+          )}
+
+          {items.length > 0 && (
+            <ul className="space-y-8">
+              {items.map((item) => (
+                <li key={item.id}>
+                  <h3 className="text-2xl md:text-3xl font-normal mb-4 prose prose-md md:prose-md">
+                    {item.title}
+                  </h3>
+                  {renderDescription(item.description)}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {children}
+        </div>
+      </div>
+    );
+  }
+);
@@ -3,45 +3,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { ScrollItem } from '../types';
-
-/**
- * Helper function to render rich text description
- */
-const renderDescription = (description: ScrollItem['description']): React.ReactNode => {
-  if (typeof description === 'string') {
-    return <p className="text-base leading-relaxed prose prose-md md:prose-md">{description}</p>;
-  }
-  
-  if (description && typeof description === 'object' && 'type' in description) {
-    const { type, content } = description;
-    
-    if (type === 'paragraph') {
-      return <p className="text-base leading-relaxed prose prose-md md:prose-md">{content as string}</p>;
-    }
-    
-    if (type === 'list') {
-      return (
-        <ul className="text-base leading-relaxed space-y-2 list-disc list-inside prose prose-md md:prose-md">
-          {(content as string[]).map((item, idx) => (
-            <li key={idx}>{item}</li>
-          ))}
-        </ul>
-      );
-    }
-    
-    if (type === 'numbered-list') {
-      return (
-        <ol className="text-base leading-relaxed space-y-2 list-decimal list-inside prose prose-md md:prose-md">
-          {(content as string[]).map((item, idx) => (
-            <li key={idx}>{item}</li>
-          ))}
-        </ol>
-      );
-    }
-  }
-  
-  return <p className="text-base leading-relaxed prose prose-md md:prose-md">{String(description)}</p>;
-};
+import { renderDescription } from './renderDescription';
 
 /**
  * Text Column Component - Left side with scrolling text items
@@ -1,32 +1,95 @@
 'use client';
 
-import React from 'react';
-import { BaseScrollProps } from '../types';
-import { ZoomScroll } from './zoom';
-import { TextImageScroll } from './text-image-scroll';
-import { TabsScroll } from './tabs-scroll';
-import { TitleScaleScroll } from './title-scale-scroll';
-import { BubbleListScroll } from './bubble-list-scroll';
+import React, { Suspense, useEffect, useRef, useState } from 'react';
+import { BaseScrollProps, ScrollVariantDefinition } from '../types';
+import { DEFAULT_SCROLL_VARIANT, getScrollVariant } from '../definitions';
+import { ScrollPlaceholder } from './ScrollPlaceholder';
+
+// Variants start loading once the block is within one viewport height of the screen
+const PRELOAD_MARGIN = '100% 0px';
+
+type LazyVariant = React.LazyExoticComponent<React.ComponentType<BaseScrollProps>>;
+
+// One lazy component per variant, so re-renders never reload or remount a loaded variant
+const lazyVariants = new Map<string, LazyVariant>();
+
+function getLazyVariant(definition: ScrollVariantDefinition): LazyVariant {
+  let VariantComponent = lazyVariants.get(definition.slug);
+  if (!VariantComponent) {
+    VariantComponent = React.lazy(() =>
+      definition.load().then((component) => ({ default: component }))
+    );
+    lazyVariants.set(definition.slug, VariantComponent);
+  }
+  return VariantComponent;
+}
+
+// Whether the element has come near the viewport, stays true once it has
+function useNearViewport(ref: React.RefObject<HTMLElement | null>, initial: boolean): boolean {
+  const [isNear, setIsNear] = useState(initial);
+
+  useEffect(() => {
+    if (isNear) return;
+
+    const element = ref.current;
+    if (!element || typeof IntersectionObserver === 'undefined') {
+      setIsNear(true);
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          setIsNear(true);
+          observer.disconnect();
+        }
+      },
+      { rootMargin: PRELOAD_MARGIN }
+    );
+
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [isNear, ref]);
+
+  return isNear;
+}
 
 /**
- * Registry that maps scroll variants to their corresponding components
+ * Renders the component registered for the config's variant (see src/scroll/definitions).
+ * The server and the first client render show the block's text and children in a placeholder
+ * with the variant's height; the variant's code is downloaded when the block nears the viewport. Snapshots
+ * (a fixed `progress`) render the variant straight away.
  */
 export function ScrollRenderer(props: BaseScrollProps) {
-  const { config } = props;
-
-  switch (config.variant) {
-    case 'zoom':
-      return <ZoomScroll {...props} />;
-    case 'text-image-scroll':
-      return <TextImageScroll {...props} />;
-    case 'tabs-scroll':
-      return <TabsScroll {...props} />;
-    case 'title-scale-scroll':
-      return <TitleScaleScroll {...props} />;
-    case 'bubble-list-scroll':
-      return <BubbleListScroll {...props} />;
-    default:
-      console.warn(`Unknown scroll variant: ${config.variant}`);
-      return <ZoomScroll {...props} />;
+  const { config, children, className, style, progress } = props;
+  const placeholderRef = useRef<HTMLDivElement>(null);
+  const isNearViewport = useNearViewport(placeholderRef, progress !== undefined);
+
+  let definition = getScrollVariant(config.variant);
+  if (!definition) {
+    console.warn(`Unknown scroll variant: ${config.variant}`);
+    definition = getScrollVariant(DEFAULT_SCROLL_VARIANT)!;
   }
+
+  const placeholder = (
+    <ScrollPlaceholder
+      ref={placeholderRef}
+      aria-busy="true"
+      className={className}
+      config={config}
+      data-scroll-placeholder={definition.slug}
+      style={{ ...style, minHeight: definition.placeholderHeight(config) }}
+    >
+      {children}
+    </ScrollPlaceholder>
+  );
+
+  if (!isNearViewport) return placeholder;
+
+  const VariantComponent = getLazyVariant(definition);
+  return (
+    <Suspense fallback={placeholder}>
+      <VariantComponent {...props} />
+    </Suspense>
+  );
 }
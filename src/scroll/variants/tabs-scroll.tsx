@@ -1,12 +1,11 @@
 'use client';
 
-import React, { useRef, useState, useEffect, useMemo } from 'react';
+import React, { useRef, useState, useEffect, useMemo, useId } from 'react';
 import { BaseScrollProps, ScrollItem } from '../types';
+import { themeColor } from '@/Theme/tokens';
 import { 
   motion,
-  useScroll, 
   useTransform,
-  useReducedMotion,
   useMotionValue
 } from 'framer-motion';
 import Image from 'next/image';
@@ -16,6 +15,9 @@ import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 import { Media } from '@/components/Media';
 import type { Media as MediaType } from '@/payload-types';
+import { useScrollReducedMotion } from '../useScrollReducedMotion';
+import { useRovingTabs } from '../useRovingTabs';
+import { useScrollProgress } from '../useScrollProgress';
 
 // Register GSAP plugin
 if (typeof window !== 'undefined') {
@@ -184,11 +186,15 @@ export function TabsScroll({
   className,
   style,
   isEditing = false,
-  children
+  children,
+  progress
 }: BaseScrollProps) {
   const pinnedRef = useRef<HTMLDivElement>(null);
   const scrollTriggerRef = useRef<ScrollTrigger | null>(null);
-  const shouldReduceMotion = useReducedMotion();
+  const shouldReduceMotion = useScrollReducedMotion(config);
+  const idPrefix = useId();
+  const getTabId = (index: number) => `${idPrefix}-tab-${index}`;
+  const getPanelId = (index: number) => `${idPrefix}-panel-${index}`;
   
   // Get items from config
   const items: ScrollItem[] = useMemo(() => config.items || [], [config.items]);
@@ -208,12 +214,13 @@ export function TabsScroll({
   // Get tab-scroll specific configs
   const tabClickScrollSpeed = config.tabClickScrollSpeed ?? 2; // Default: 2 (slower, smoother)
   const imagePosition = config.imagePosition ?? 'left'; // Default: 'left'
+  const isStacked = config.itemLayout === 'stacked'; // Default: 'split', image beside text from md up
   const landingZoneEnabled = config.landingZone?.enabled ?? false;
   const landingZoneHeight = config.landingZone?.height ?? 16;
   const landingZoneBackgroundColor = config.landingZone?.backgroundColor ?? 'transparent';
   const landingZoneShowTitle = config.landingZone?.showTitle ?? false;
   const landingZoneTitleText = config.landingZone?.titleText ?? '';
-  const landingZoneTitleColor = config.landingZone?.titleColor ?? '#0A1F44';
+  const landingZoneTitleColor = config.landingZone?.titleColor ?? themeColor('darkNavy');
   const landingZoneAlignment = config.landingZone?.alignment ?? 'center';
   const landingZonePadding = config.landingZone?.padding ?? {
     top: 2,
@@ -236,11 +243,9 @@ export function TabsScroll({
   // Create a ref for the cards section (where pinning will happen)
   const cardsSectionRef = useRef<HTMLDivElement>(null);
   
-  // Scroll tracking - now on the cards section instead of container
-  const { scrollYProgress } = useScroll({
-    target: cardsSectionRef,
-    offset: ['start start', 'end start']
-  });
+  // Scroll tracking - now on the cards section instead of container, or fixed at an external progress
+  const scrollYProgress = useScrollProgress(shouldReduceMotion ? undefined : cardsSectionRef, progress);
+  const isFrozen = progress !== undefined;
 
   // Calculate ranges for each item
   // Adjust so last item completes before scrollYProgress reaches 1.0, leaving buffer space
@@ -268,7 +273,7 @@ export function TabsScroll({
   // Active index tracking - based on actual card animation ranges for perfect sync
   const [activeIndex, setActiveIndex] = useState(0);
   useEffect(() => {
-    const unsubscribe = scrollYProgress.on('change', (progress) => {
+    const updateActiveIndex = (progress: number) => {
       // Find which range the current progress falls into
       // Card becomes active at its start point
       let newIndex = 0;
@@ -282,13 +287,16 @@ export function TabsScroll({
       // Clamp to valid range
       const clampedIndex = Math.max(0, Math.min(itemCount - 1, newIndex));
       setActiveIndex(clampedIndex);
-    });
-    return unsubscribe;
+    };
+
+    // A fixed progress never changes, so the active tab is set from the current value too
+    updateActiveIndex(scrollYProgress.get());
+    return scrollYProgress.on('change', updateActiveIndex);
   }, [scrollYProgress, itemCount, ranges]);
 
   // Setup GSAP pinning for the cards section
   useEffect(() => {
-    if (!cardsSectionRef.current || !pinnedRef.current || isEditing || shouldReduceMotion) {
+    if (!cardsSectionRef.current || !pinnedRef.current || isEditing || shouldReduceMotion || isFrozen) {
       return;
     }
 
@@ -356,7 +364,7 @@ export function TabsScroll({
         scrollTriggerRef.current = null;
       }
     };
-  }, [itemCount, isEditing, shouldReduceMotion, scrollHeight, ranges]);
+  }, [itemCount, isEditing, shouldReduceMotion, isFrozen, scrollHeight, ranges]);
 
   // Create transform hooks - must call unconditionally (max 6 services)
   const defaultRange = { start: 0, center: 0.5, end: 1 };
@@ -565,7 +573,15 @@ export function TabsScroll({
     requestAnimationFrame(animateScroll);
   };
 
-  // Fallback for reduced motion
+  // Keyboard focus moves immediately and the page scrolls to the card, activeIndex follows
+  // from ScrollTrigger so the selected tab always matches the visible card
+  const { getTabProps } = useRovingTabs({
+    count: itemCount,
+    activeIndex,
+    onSelect: handleTabClick,
+  });
+
+  // Fallback for reduced motion: every tab as a plain stacked list, no pinning or tab bar
   if (shouldReduceMotion) {
     return (
       <div className={`relative ${className || ''}`} style={style}>
@@ -574,15 +590,20 @@ export function TabsScroll({
             {backgroundElement}
           </div>
         )}
+        {children && (
+          <div className="relative z-10 w-full">
+            {children}
+          </div>
+        )}
         <div className="relative z-10 w-full max-w-7xl mx-auto px-4 md:px-8 py-16">
           {title && (
             <h2 className="text-xl md:text-2xl font-semibold text-center mb-12 prose prose-md md:prose-md">
               {title}
             </h2>
           )}
-          <div className="space-y-8">
+          <ul className="space-y-8">
             {items.map((item) => (
-              <div key={item.id} className="bg-white rounded-2xl p-8">
+              <li key={item.id} className="bg-white rounded-2xl p-8">
                 <div className="flex items-center gap-4 mb-4">
                   <div className="relative w-16 h-16">
                     {(() => {
@@ -626,11 +647,15 @@ export function TabsScroll({
                 <div className="text-base leading-relaxed prose prose-md md:prose-md">
                   {renderDescription(item.description)}
                 </div>
-              </div>
+                {item.cta && (
+                  <div className="mt-6">
+                    {renderCTA(item.cta)}
+                  </div>
+                )}
+              </li>
             ))}
-          </div>
+          </ul>
         </div>
-        {children}
       </div>
     );
   }
@@ -672,7 +697,8 @@ export function TabsScroll({
            * Creates scroll space for pinning
            * pinSpacing: true in ScrollTrigger will add proper spacing
            */
-          height: `${scrollHeight}vh`,
+          // Frozen at a progress point only the pinned viewport is shown, no scroll distance
+          height: isFrozen ? 'auto' : `${scrollHeight}vh`,
           overflow: 'visible',
           position: 'relative',
           zIndex: 1, // Ensure it's in the same stacking context
@@ -729,6 +755,12 @@ export function TabsScroll({
               return (
                 <motion.div
                   key={item.id}
+                  id={getPanelId(index)}
+                  role={isEditing ? undefined : 'tabpanel'}
+                  aria-labelledby={isEditing ? undefined : getTabId(index)}
+                  aria-hidden={!isActive}
+                  inert={!isActive}
+                  tabIndex={isActive ? 0 : -1}
                   className="absolute"
                   style={{
                     /**
@@ -755,9 +787,9 @@ export function TabsScroll({
                 >
                   {/* Card with icon and text - constrained width */}
                   <div className="w-full bg-white rounded-2xl overflow-hidden" style={{ transform: 'none' }}>
-                    <div className={`grid grid-cols-1 md:grid-cols-2 min-h-[600px] ${imagePosition === 'right' ? 'md:grid-flow-col-dense' : ''}`}>
+                    <div className={`grid grid-cols-1 min-h-[600px] ${isStacked ? '' : 'md:grid-cols-2'} ${imagePosition === 'right' && !isStacked ? 'md:grid-flow-col-dense' : ''}`}>
                       {/* Image section - position based on config */}
-                      <div className={`flex items-center justify-center p-12 ${imagePosition === 'right' ? 'md:col-start-2' : ''}`}>
+                      <div className={`flex items-center justify-center p-12 ${imagePosition === 'right' && !isStacked ? 'md:col-start-2' : ''}`}>
                         <div className="relative w-full max-w-sm aspect-square">
                           {(() => {
                             // Check if icon is a Media object
@@ -833,22 +865,31 @@ export function TabsScroll({
               zIndex: 10, // Above cards
             }}
           >
-            <div className="bg-white/90 backdrop-blur-sm rounded-full shadow-lg px-2 py-2 flex gap-2">
+            <div
+              role="tablist"
+              aria-label={title || 'Services'}
+              aria-orientation="horizontal"
+              className="bg-white/90 backdrop-blur-sm rounded-full shadow-lg px-2 py-2 flex gap-2"
+            >
               {items.map((item, index) => (
                 <motion.button
                   key={item.id}
-                  className="px-4 py-2 rounded-full font-medium text-sm transition-all duration-300"
+                  {...getTabProps(index)}
+                  type="button"
+                  role="tab"
+                  id={getTabId(index)}
+                  aria-selected={activeIndex === index}
+                  aria-controls={getPanelId(index)}
+                  className="px-4 py-2 rounded-full font-medium text-sm transition-all duration-300 focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-[color:var(--brand-blue)]"
                   style={{
-                    backgroundColor: activeIndex === index ? '#0A1F44' : 'transparent',
-                    color: activeIndex === index ? '#ffffff' : '#6B7280',
+                    backgroundColor: activeIndex === index ? themeColor('darkNavy') : 'transparent',
+                    color: activeIndex === index ? themeColor('white') : themeColor('muted'),
                     scale: activeIndex === index ? 1 : 0.95,
                     opacity: activeIndex === index ? 1 : 0.7
                   }}
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
                   onClick={() => handleTabClick(index)}
-                  aria-label={`View ${item.title}`}
-                  aria-current={activeIndex === index ? 'true' : undefined}
                 >
                   {item.title}
                 </motion.button>
@@ -856,6 +897,11 @@ export function TabsScroll({
             </div>
           </div>
         )}
+
+        {/* Announces the card that scrolling (or a tab) brought into view */}
+        <div className="sr-only" aria-live="polite" aria-atomic="true">
+          {items[activeIndex] ? `${items[activeIndex].title}, ${activeIndex + 1} of ${itemCount}` : ''}
+        </div>
         </div>
       </div>
     </div>
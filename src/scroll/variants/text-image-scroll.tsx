@@ -7,6 +7,7 @@ import { ImageColumn } from './ImageColumn';
 import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 import { Camera } from 'lucide-react';
+import { useScrollReducedMotion } from '../useScrollReducedMotion';
 
 // Register GSAP plugin
 if (typeof window !== 'undefined') {
@@ -33,7 +34,8 @@ export function TextImageScroll({
   className,
   style,
   isEditing = false,
-  children
+  children,
+  progress: fixedProgress
 }: BaseScrollProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const pinnedRef = useRef<HTMLDivElement>(null);
@@ -49,11 +51,10 @@ export function TextImageScroll({
   const enableGPU = config.useGPU !== false;
   const duration = config.duration ?? 800; // Scroll distance per item in pixels
   const title = config.title;
-  const reducedMotion = config.reducedMotion || false;
   const enableOnMobile = config.enableOnMobile ?? true;
   
   // Check for reduced motion preference
-  const shouldReduceMotion = reducedMotion || (typeof window !== 'undefined' && window.matchMedia('(prefers-reduced-motion: reduce)').matches);
+  const shouldReduceMotion = useScrollReducedMotion(config);
   
   // Check for mobile
   const [isMobile, setIsMobile] = useState(false);
@@ -75,6 +76,18 @@ export function TextImageScroll({
   // Active index tracking
   const [activeIndex, setActiveIndex] = useState(0);
   
+  // Calculate container height to match scroll distance exactly
+  // Use state to ensure consistent SSR/client rendering and avoid hydration mismatch
+  // Declared before the reduced motion fallback so hook order never changes between renders
+  const [containerHeight, setContainerHeight] = useState(totalScrollHeight + 500);
+  
+  useEffect(() => {
+    // Update height after mount to match actual viewport
+    if (typeof window !== 'undefined') {
+      setContainerHeight(totalScrollHeight + window.innerHeight * 0.5);
+    }
+  }, [totalScrollHeight]);
+  
   // Setup GSAP ScrollTrigger animations
   useEffect(() => {
     if (!containerRef.current || !pinnedRef.current || isEditing || shouldReduceMotion || itemCount === 0) {
@@ -96,6 +109,201 @@ export function TextImageScroll({
     const extraUnpinDistance = typeof window !== 'undefined' ? window.innerHeight * 0.5 : 500;
     const finalScrollDistance = scrollDistance + extraUnpinDistance;
     
+    // Positions the text and image items for a scroll progress (0–1)
+    const applyProgress = (progress: number) => {
+      // Clamp progress to prevent overshooting
+      const clampedProgress = Math.min(1, Math.max(0, progress));
+      
+      // Calculate which item should be active
+      const itemProgress = clampedProgress * itemCount;
+      const currentItemIndex = Math.min(
+        Math.floor(itemProgress),
+        itemCount - 1
+      );
+      // Update state only when index actually changes to prevent unnecessary re-renders
+      if (currentItemIndex !== activeIndex) {
+        setActiveIndex(currentItemIndex);
+      }
+      
+      // Determine which items to show (previous, active, next)
+      const visibleStartIndex = Math.max(0, currentItemIndex - 1);
+      const visibleEndIndex = Math.min(itemCount - 1, currentItemIndex + 1);
+      
+      // Calculate the continuous list offset (moves up smoothly as we scroll)
+      // Each item takes up 35vh of space (30vh height + 5vh margin)
+      const itemHeightVh = 35; // 30vh height + 5vh margin
+      // Start items at adjusted position based on whether title exists
+      // Position texts lower (down in Y) to center them in their container
+      // When title exists, start items lower to account for title space and center them
+      const containerStartVh = title ? 20 : 25; // Start position from top (lower = more down)
+      // Smooth translation with slight increase for more visible movement
+      const translationMultiplier = 1.1;
+      
+      // Convert vh to pixels for GSAP (GSAP uses pixels, not vh)
+      const vhToPx = window.innerHeight / 100;
+      const itemHeight = itemHeightVh * vhToPx;
+      const containerStart = containerStartVh * vhToPx;
+      
+      // Use smooth continuous progress instead of discrete index jumps
+      // Convert to continuous progress through items (0 to itemCount-1)
+      // Clamp to prevent going beyond the last item
+      const smoothProgress = Math.min(itemProgress, itemCount - 1);
+      const listOffsetVh = containerStartVh - (smoothProgress * itemHeightVh * translationMultiplier);
+      const listOffset = listOffsetVh * vhToPx;
+      
+      // When near the end, prepare for smooth unpinning
+      // Don't interfere with ScrollTrigger's natural unpinning mechanism
+      // The pinSpacing and extraUnpinDistance should handle the transition smoothly
+      
+      // Animate empty div (moves with the list)
+      if (emptyDivRef.current) {
+        // Empty div is positioned before the first item (at -1 * itemHeight)
+        const emptyDivBaseYVh = -itemHeightVh;
+        // Apply smooth continuous movement using the same offset as text items
+        const emptyDivYVh = listOffsetVh + emptyDivBaseYVh;
+        const emptyDivY = emptyDivYVh * vhToPx;
+        gsap.set(emptyDivRef.current, {
+          y: emptyDivY,
+          willChange: enableGPU ? 'transform' : 'auto'
+        });
+      }
+      
+      // Animate text items
+      textItemsRef.current.forEach((textItem, index) => {
+        if (!textItem) return;
+        
+        // Check if this item should be visible (only show previous, active, and next)
+        const isVisible = index >= visibleStartIndex && index <= visibleEndIndex;
+        
+        // Calculate item progress (0 to 1 for each item)
+        const itemStart = index / itemCount;
+        const itemEnd = (index + 1) / itemCount;
+        const itemRange = itemEnd - itemStart;
+        const itemProgress = Math.max(0, Math.min(1, (progress - itemStart) / itemRange));
+        
+        // Opacity: fade in/out for visible items, never reach 0
+        // All texts should reach full opacity when they reach the centered position (where they pin)
+        // The centered position is when itemProgress = 0.5 (middle of the item's scroll range)
+        // Items start from a minimum opacity and reach full opacity, never going to 0
+        const minOpacity = 0.3; // Minimum opacity - never go below this
+        let opacity = minOpacity;
+        if (isVisible) {
+          if (index === currentItemIndex) {
+            // Active item: reaches full opacity at centered position (itemProgress = 0.5)
+            // Fade in as it approaches center, peak at center (0.5), fade out as it leaves (but never below minOpacity)
+            if (itemProgress <= 0.5) {
+              // Fade in from minOpacity to 1 as it approaches center (0 to 0.5)
+              opacity = minOpacity + (itemProgress * 2 * (1 - minOpacity)); // minOpacity to 1
+            } else {
+              // Fade out from 1 to minOpacity as it leaves center (0.5 to 1)
+              opacity = 1 - ((itemProgress - 0.5) * 2 * (1 - minOpacity)); // 1 to minOpacity
+            }
+            opacity = Math.max(minOpacity, Math.min(1, opacity));
+          } else {
+            // Previous or next item: reduced opacity, but never below minOpacity
+            opacity = itemProgress < 0.5 
+              ? minOpacity + (itemProgress * 0.7 * (1 - minOpacity))  // minOpacity to ~0.8
+              : 1 - ((itemProgress - 0.5) * 0.7 * (1 - minOpacity)); // ~0.8 to minOpacity
+            opacity = Math.max(minOpacity, Math.min(0.8, opacity));
+          }
+        } else {
+          // Items outside visible range still maintain minimum opacity
+          opacity = minOpacity;
+        }
+        
+        // Y position: smooth continuous movement based on scroll progress
+        // Items are positioned absolutely at index * itemHeight, then offset to position items
+        // Container start is at adjusted position based on title
+        // Use smooth continuous progress instead of discrete index for fluid movement
+        // All items move together smoothly as we scroll
+        const itemPositionVh = index * itemHeightVh;
+        // Smooth offset: start position minus the continuous progress through all items
+        // All items move up together smoothly as we scroll
+        const smoothOffsetVh = containerStartVh - (smoothProgress * itemHeightVh * translationMultiplier);
+        // Each item's offset is relative to its base position
+        const offsetVh = smoothOffsetVh;
+        // Convert to pixels for GSAP
+        const yOffset = offsetVh * vhToPx;
+        
+        // Scale: slight scale effect when active
+        // Items reach full scale (1) when they're at the centered position
+        const scale = (index === currentItemIndex && isVisible)
+          ? (itemProgress < 0.5
+            ? 0.95 + (itemProgress * 0.1)  // 0.95 to 1
+            : 1 - ((itemProgress - 0.5) * 0.1)) // 1 to 0.95
+          : 0.95;
+        
+        gsap.set(textItem, {
+          opacity: opacity,
+          y: yOffset,
+          scale: scale,
+          transformOrigin: 'center center',
+          willChange: enableGPU ? 'transform, opacity' : 'auto',
+          pointerEvents: isVisible ? 'auto' : 'none',
+          visibility: isVisible ? 'visible' : 'hidden'
+        });
+      });
+      
+      // Show image panel when scroll starts (or immediately if progress is 0)
+      if (imagePanelRef.current) {
+        const panelOpacity = progress >= 0 ? 1 : 0;
+        const panelVisibility = progress >= 0 ? 'visible' : 'hidden';
+        gsap.set(imagePanelRef.current, {
+          opacity: panelOpacity,
+          visibility: panelVisibility
+        });
+      }
+      
+      // Animate image items (crossfade in pinned position)
+      imageItemsRef.current.forEach((imageItem, index) => {
+        if (!imageItem) return;
+        
+        // Calculate item progress (0 to 1 for each item)
+        const itemStart = index / itemCount;
+        const itemEnd = (index + 1) / itemCount;
+        const itemRange = itemEnd - itemStart;
+        const itemProgress = Math.max(0, Math.min(1, (progress - itemStart) / itemRange));
+        
+        // Opacity: crossfade between images
+        const opacity = itemProgress < 0.5
+          ? itemProgress * 2  // 0 to 1
+          : 1 - ((itemProgress - 0.5) * 2); // 1 to 0
+        
+        // Scale: slight scale effect
+        const scale = itemProgress < 0.5
+          ? 0.9 + (itemProgress * 0.1)  // 0.9 to 1
+          : 1 - ((itemProgress - 0.5) * 0.05); // 1 to 0.95
+        
+        // Rotation: subtle rotation effect
+        const rotation = itemProgress < 0.5
+          ? -5 + (itemProgress * 10)  // -5 to 0
+          : 5 * ((itemProgress - 0.5) * 2); // 0 to 5
+        
+        // Y position: slight parallax (images stay centered, slight movement)
+        const y = itemProgress < 0.5
+          ? 0
+          : -20 * ((itemProgress - 0.5) * 2);
+        
+        // Use xPercent and yPercent to maintain centering, then add y offset
+        gsap.set(imageItem, {
+          opacity: Math.max(0, Math.min(1, opacity)),
+          scale: scale,
+          rotation: rotation,
+          xPercent: -50,
+          yPercent: -50,
+          y: y,
+          transformOrigin: 'center center',
+          willChange: enableGPU ? 'transform, opacity' : 'auto'
+        });
+      });
+    };
+
+    // Frozen at an external progress: render that frame without pinning or a scroll listener
+    if (fixedProgress !== undefined) {
+      applyProgress(fixedProgress);
+      return;
+    }
+
     // Pin the viewport section
     // Use 'top top' for proper pinning behavior
     scrollTriggerRef.current = ScrollTrigger.create({
@@ -120,195 +328,7 @@ export function TextImageScroll({
         // When scrolling back up past the start, ensure clean state
         ScrollTrigger.refresh();
       },
-      onUpdate: (self) => {
-        const progress = self.progress;
-        
-        // Clamp progress to prevent overshooting
-        const clampedProgress = Math.min(1, Math.max(0, progress));
-        
-        // Calculate which item should be active
-        const itemProgress = clampedProgress * itemCount;
-        const currentItemIndex = Math.min(
-          Math.floor(itemProgress),
-          itemCount - 1
-        );
-        // Update state only when index actually changes to prevent unnecessary re-renders
-        if (currentItemIndex !== activeIndex) {
-          setActiveIndex(currentItemIndex);
-        }
-        
-        // Determine which items to show (previous, active, next)
-        const visibleStartIndex = Math.max(0, currentItemIndex - 1);
-        const visibleEndIndex = Math.min(itemCount - 1, currentItemIndex + 1);
-        
-        // Calculate the continuous list offset (moves up smoothly as we scroll)
-        // Each item takes up 35vh of space (30vh height + 5vh margin)
-        const itemHeightVh = 35; // 30vh height + 5vh margin
-        // Start items at adjusted position based on whether title exists
-        // Position texts lower (down in Y) to center them in their container
-        // When title exists, start items lower to account for title space and center them
-        const containerStartVh = title ? 20 : 25; // Start position from top (lower = more down)
-        // Smooth translation with slight increase for more visible movement
-        const translationMultiplier = 1.1;
-        
-        // Convert vh to pixels for GSAP (GSAP uses pixels, not vh)
-        const vhToPx = window.innerHeight / 100;
-        const itemHeight = itemHeightVh * vhToPx;
-        const containerStart = containerStartVh * vhToPx;
-        
-        // Use smooth continuous progress instead of discrete index jumps
-        // Convert to continuous progress through items (0 to itemCount-1)
-        // Clamp to prevent going beyond the last item
-        const smoothProgress = Math.min(itemProgress, itemCount - 1);
-        const listOffsetVh = containerStartVh - (smoothProgress * itemHeightVh * translationMultiplier);
-        const listOffset = listOffsetVh * vhToPx;
-        
-        // When near the end, prepare for smooth unpinning
-        // Don't interfere with ScrollTrigger's natural unpinning mechanism
-        // The pinSpacing and extraUnpinDistance should handle the transition smoothly
-        
-        // Animate empty div (moves with the list)
-        if (emptyDivRef.current) {
-          // Empty div is positioned before the first item (at -1 * itemHeight)
-          const emptyDivBaseYVh = -itemHeightVh;
-          // Apply smooth continuous movement using the same offset as text items
-          const emptyDivYVh = listOffsetVh + emptyDivBaseYVh;
-          const emptyDivY = emptyDivYVh * vhToPx;
-          gsap.set(emptyDivRef.current, {
-            y: emptyDivY,
-            willChange: enableGPU ? 'transform' : 'auto'
-          });
-        }
-        
-        // Animate text items
-        textItemsRef.current.forEach((textItem, index) => {
-          if (!textItem) return;
-          
-          // Check if this item should be visible (only show previous, active, and next)
-          const isVisible = index >= visibleStartIndex && index <= visibleEndIndex;
-          
-          // Calculate item progress (0 to 1 for each item)
-          const itemStart = index / itemCount;
-          const itemEnd = (index + 1) / itemCount;
-          const itemRange = itemEnd - itemStart;
-          const itemProgress = Math.max(0, Math.min(1, (progress - itemStart) / itemRange));
-          
-          // Opacity: fade in/out for visible items, never reach 0
-          // All texts should reach full opacity when they reach the centered position (where they pin)
-          // The centered position is when itemProgress = 0.5 (middle of the item's scroll range)
-          // Items start from a minimum opacity and reach full opacity, never going to 0
-          const minOpacity = 0.3; // Minimum opacity - never go below this
-          let opacity = minOpacity;
-          if (isVisible) {
-            if (index === currentItemIndex) {
-              // Active item: reaches full opacity at centered position (itemProgress = 0.5)
-              // Fade in as it approaches center, peak at center (0.5), fade out as it leaves (but never below minOpacity)
-              if (itemProgress <= 0.5) {
-                // Fade in from minOpacity to 1 as it approaches center (0 to 0.5)
-                opacity = minOpacity + (itemProgress * 2 * (1 - minOpacity)); // minOpacity to 1
-              } else {
-                // Fade out from 1 to minOpacity as it leaves center (0.5 to 1)
-                opacity = 1 - ((itemProgress - 0.5) * 2 * (1 - minOpacity)); // 1 to minOpacity
-              }
-              opacity = Math.max(minOpacity, Math.min(1, opacity));
-            } else {
-              // Previous or next item: reduced opacity, but never below minOpacity
-              opacity = itemProgress < 0.5 
-                ? minOpacity + (itemProgress * 0.7 * (1 - minOpacity))  // minOpacity to ~0.8
-                : 1 - ((itemProgress - 0.5) * 0.7 * (1 - minOpacity)); // ~0.8 to minOpacity
-              opacity = Math.max(minOpacity, Math.min(0.8, opacity));
-            }
-          } else {
-            // Items outside visible range still maintain minimum opacity
-            opacity = minOpacity;
-          }
-          
-          // Y position: smooth continuous movement based on scroll progress
-          // Items are positioned absolutely at index * itemHeight, then offset to position items
-          // Container start is at adjusted position based on title
-          // Use smooth continuous progress instead of discrete index for fluid movement
-          // All items move together smoothly as we scroll
-          const itemPositionVh = index * itemHeightVh;
-          // Smooth offset: start position minus the continuous progress through all items
-          // All items move up together smoothly as we scroll
-          const smoothOffsetVh = containerStartVh - (smoothProgress * itemHeightVh * translationMultiplier);
-          // Each item's offset is relative to its base position
-          const offsetVh = smoothOffsetVh;
-          // Convert to pixels for GSAP
-          const yOffset = offsetVh * vhToPx;
-          
-          // Scale: slight scale effect when active
-          // Items reach full scale (1) when they're at the centered position
-          const scale = (index === currentItemIndex && isVisible)
-            ? (itemProgress < 0.5
-              ? 0.95 + (itemProgress * 0.1)  // 0.95 to 1
-              : 1 - ((itemProgress - 0.5) * 0.1)) // 1 to 0.95
-            : 0.95;
-          
-          gsap.set(textItem, {
-            opacity: opacity,
-            y: yOffset,
-            scale: scale,
-            transformOrigin: 'center center',
-            willChange: enableGPU ? 'transform, opacity' : 'auto',
-            pointerEvents: isVisible ? 'auto' : 'none',
-            visibility: isVisible ? 'visible' : 'hidden'
-          });
-        });
-        
-        // Show image panel when scroll starts (or immediately if progress is 0)
-        if (imagePanelRef.current) {
-          const panelOpacity = progress >= 0 ? 1 : 0;
-          const panelVisibility = progress >= 0 ? 'visible' : 'hidden';
-          gsap.set(imagePanelRef.current, {
-            opacity: panelOpacity,
-            visibility: panelVisibility
-          });
-        }
-        
-        // Animate image items (crossfade in pinned position)
-        imageItemsRef.current.forEach((imageItem, index) => {
-          if (!imageItem) return;
-          
-          // Calculate item progress (0 to 1 for each item)
-          const itemStart = index / itemCount;
-          const itemEnd = (index + 1) / itemCount;
-          const itemRange = itemEnd - itemStart;
-          const itemProgress = Math.max(0, Math.min(1, (progress - itemStart) / itemRange));
-          
-          // Opacity: crossfade between images
-          const opacity = itemProgress < 0.5
-            ? itemProgress * 2  // 0 to 1
-            : 1 - ((itemProgress - 0.5) * 2); // 1 to 0
-          
-          // Scale: slight scale effect
-          const scale = itemProgress < 0.5
-            ? 0.9 + (itemProgress * 0.1)  // 0.9 to 1
-            : 1 - ((itemProgress - 0.5) * 0.05); // 1 to 0.95
-          
-          // Rotation: subtle rotation effect
-          const rotation = itemProgress < 0.5
-            ? -5 + (itemProgress * 10)  // -5 to 0
-            : 5 * ((itemProgress - 0.5) * 2); // 0 to 5
-          
-          // Y position: slight parallax (images stay centered, slight movement)
-          const y = itemProgress < 0.5
-            ? 0
-            : -20 * ((itemProgress - 0.5) * 2);
-          
-          // Use xPercent and yPercent to maintain centering, then add y offset
-          gsap.set(imageItem, {
-            opacity: Math.max(0, Math.min(1, opacity)),
-            scale: scale,
-            rotation: rotation,
-            xPercent: -50,
-            yPercent: -50,
-            y: y,
-            transformOrigin: 'center center',
-            willChange: enableGPU ? 'transform, opacity' : 'auto'
-          });
-        });
-      }
+      onUpdate: (self) => applyProgress(self.progress)
     });
     
     return () => {
@@ -317,9 +337,9 @@ export function TextImageScroll({
         scrollTriggerRef.current = null;
       }
     };
-  }, [itemCount, isEditing, shouldReduceMotion, totalScrollHeight, itemScrollHeight, enableGPU, enableOnMobile, isMobile, title]);
+  }, [itemCount, isEditing, shouldReduceMotion, totalScrollHeight, itemScrollHeight, enableGPU, enableOnMobile, isMobile, title, fixedProgress]);
   
-  // Fallback for reduced motion or editing mode
+  // Fallback for reduced motion or editing mode: text and image side by side, one row per item
   if (shouldReduceMotion || isEditing || itemCount === 0) {
     return (
       <div className={`relative ${className || ''}`} style={style}>
@@ -370,21 +390,11 @@ export function TextImageScroll({
     );
   }
   
-  // Calculate container height to match scroll distance exactly
-  // Use state to ensure consistent SSR/client rendering and avoid hydration mismatch
-  const [containerHeight, setContainerHeight] = useState(totalScrollHeight + 500);
-  
-  useEffect(() => {
-    // Update height after mount to match actual viewport
-    if (typeof window !== 'undefined') {
-      setContainerHeight(totalScrollHeight + window.innerHeight * 0.5);
-    }
-  }, [totalScrollHeight]);
-  
   // Build style object without undefined values to prevent hydration mismatches
+  // Frozen at a progress point only the pinned viewport is shown, no scroll distance
   const containerStyle: React.CSSProperties = {
-    minHeight: `${containerHeight}px`,
-    height: `${containerHeight}px`,
+    minHeight: fixedProgress === undefined ? `${containerHeight}px` : undefined,
+    height: fixedProgress === undefined ? `${containerHeight}px` : 'auto',
     overflow: 'visible',
     position: 'relative',
     top: 0,
@@ -2,10 +2,14 @@
 
 import React, { useRef, useEffect, useMemo, useState } from 'react';
 import { BaseScrollProps, BackgroundConfig } from '../types';
-import { motion, useScroll, useTransform, useReducedMotion } from 'framer-motion';
+import { motion, useTransform } from 'framer-motion';
 import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 import { getMediaUrl } from '@/utilities/getMediaUrl';
+import { useScrollReducedMotion } from '../useScrollReducedMotion';
+import { useScrollProgress } from '../useScrollProgress';
+import { themeColor } from '@/Theme/tokens';
+import { TITLE_SCALE_STOPS } from '../timeline';
 
 // Register GSAP plugin
 if (typeof window !== 'undefined') {
@@ -59,12 +63,13 @@ export function TitleScaleScroll({
   style,
   isEditing = false,
   debugMode = false,
-  children
+  children,
+  progress
 }: BaseScrollProps) {
   const containerRef = useRef<HTMLDivElement>(null);
   const pinnedRef = useRef<HTMLDivElement>(null);
   const scrollTriggerRef = useRef<ScrollTrigger | null>(null);
-  const shouldReduceMotion = useReducedMotion();
+  const shouldReduceMotion = useScrollReducedMotion(config);
 
   // Get config options
   const title = config.title || 'Our Services';
@@ -75,7 +80,7 @@ export function TitleScaleScroll({
   const initialBackground = config.titleAnimation?.initialBackground;
   const finalBackground = config.titleAnimation?.finalBackground;
   const overlayOpacity = config.titleAnimation?.overlayOpacity || 0.04;
-  const textColor = config.titleAnimation?.textColor || '#FFFFFF'; // First color (white)
+  const textColor = config.titleAnimation?.textColor || themeColor('white'); // First color (white)
   const darkTextColor = config.titleAnimation?.darkTextColor || '#000000'; // Second color (black)
   const initialScale = config.titleAnimation?.initialScale || 1.8;
   const pinnedY = config.titleAnimation?.pinnedY || '42vw'; // Positive value moves down
@@ -89,7 +94,7 @@ export function TitleScaleScroll({
   const landingZoneBackground = config.landingZone?.backgroundColor ?? 'transparent';
   const landingZoneShowTitle = config.landingZone?.showTitle ?? false;
   const landingZoneTitleText = config.landingZone?.titleText ?? '';
-  const landingZoneTitleColor = config.landingZone?.titleColor ?? '#0A1F44';
+  const landingZoneTitleColor = config.landingZone?.titleColor ?? themeColor('darkNavy');
   const landingZoneAlignment = config.landingZone?.alignment ?? 'center';
   const landingZonePadding = config.landingZone?.padding ?? {
     top: 2,
@@ -232,11 +237,9 @@ export function TitleScaleScroll({
     ? initialBackground.color
     : 'linear-gradient(135deg, #0A1F44 0%, #1a3a6b 50%, #2c5aa0 100%)';
 
-  // Scroll tracking - start when section hits viewport top
-  const { scrollYProgress } = useScroll({
-    target: containerRef,
-    offset: ['start start', 'end start']
-  });
+  // Scroll tracking - start when section hits viewport top, or fixed at an external progress
+  const scrollYProgress = useScrollProgress(shouldReduceMotion ? undefined : containerRef, progress);
+  const isFrozen = progress !== undefined;
 
   // THREE PHASES: 
   // Phase 1 (0-25%): Initial - title at top, large scale, white
@@ -274,7 +277,7 @@ export function TitleScaleScroll({
   // Start moving down earlier (at 0% instead of 25%)
   const titleYBase = useTransform(
     scrollYProgress,
-    [0,    0.15,   0.4,   1.0],
+    TITLE_SCALE_STOPS.titleY,
     ['0vh', '0vh', pinnedYVh, pinnedYVh] // Moves to pinnedY and stays fixed at end of blue zone
   );
 
@@ -282,7 +285,7 @@ export function TitleScaleScroll({
   // Scale completes gradually from 0.15 to 0.5 to ensure smooth transition with Y movement
   const titleScale = useTransform(
     scrollYProgress,
-    [0,           0.15,        0.5,   1.0],
+    TITLE_SCALE_STOPS.scale,
     [initialScale, initialScale, 1.0,  1.0] // Gradual completion prevents jump
   );
 
@@ -304,19 +307,19 @@ export function TitleScaleScroll({
 
   const titleBlueOpacity = useTransform(
     scrollYProgress,
-    [0.15, 0.3, 0.4, 1.0],
+    TITLE_SCALE_STOPS.darkText,
     [0, 0.5, 1, 1] // Starts fading in when title moves down (15%), completes by subtitle (40%)
   );
 
   // Subtitle appears when title color starts changing (0.15) - synchronized with color change
-  const subtitleOpacity = useTransform(scrollYProgress, [0.15, 1.0], [0, 1]);
-  const subtitleY = useTransform(scrollYProgress, [0.15, 1.0], ['100%', '0%']);
+  const subtitleOpacity = useTransform(scrollYProgress, TITLE_SCALE_STOPS.subtitle, [0, 1]);
+  const subtitleY = useTransform(scrollYProgress, TITLE_SCALE_STOPS.subtitle, ['100%', '0%']);
 
   // Landing zone slides up from bottom and pushes background up
   // Starts appearing at 0.15, exactly when title color starts changing
   const landingZoneY = useTransform(
     scrollYProgress,
-    [0.15, 1.0],
+    TITLE_SCALE_STOPS.landingZone,
     [`${landingZoneHeight * 2}vh`, '0vh'] // Slides up from below viewport (2x height)
   );
 
@@ -339,14 +342,14 @@ export function TitleScaleScroll({
   );
   const finalBackgroundOpacity = useTransform(
     scrollYProgress,
-    [0, 0.5, 1.0],
+    TITLE_SCALE_STOPS.finalBackground,
     [0, 0, 1]
   );
 
   // Setup GSAP pinning for the section
   // Pinning ends smoothly to allow smooth transition to next section
   useEffect(() => {
-    if (!containerRef.current || !pinnedRef.current || isEditing || shouldReduceMotion) {
+    if (!containerRef.current || !pinnedRef.current || isEditing || shouldReduceMotion || isFrozen) {
       return;
     }
 
@@ -374,9 +377,10 @@ export function TitleScaleScroll({
         scrollTriggerRef.current = null;
       }
     };
-  }, [isEditing, shouldReduceMotion, containerHeight, debugMode]);
+  }, [isEditing, shouldReduceMotion, isFrozen, containerHeight, debugMode]);
 
-  // Fallback for reduced motion
+  // Fallback for reduced motion: title and subtitle at their final size on the initial background,
+  // followed by the landing zone title
   if (shouldReduceMotion) {
     return (
       <div className={`relative ${className || ''}`} style={style}>
@@ -393,6 +397,32 @@ export function TitleScaleScroll({
             </p>
           </div>
         </div>
+        {landingZoneEnabled && landingZoneShowTitle && landingZoneTitleText && (
+          <div
+            className="relative w-full flex"
+            style={{
+              ...(isGradientBackground
+                ? { background: landingZoneBackground }
+                : { backgroundColor: landingZoneBackground }
+              ),
+              justifyContent: landingZoneJustify,
+              paddingTop: `${landingZonePadding.top ?? 2}rem`,
+              paddingBottom: `${landingZonePadding.bottom ?? 2}rem`,
+              paddingLeft: `${landingZonePadding.left ?? 4}rem`,
+              paddingRight: `${landingZonePadding.right ?? 4}rem`
+            }}
+          >
+            <h2
+              className="text-2xl md:text-3xl font-semibold prose prose-md md:prose-md"
+              style={{
+                color: landingZoneTitleColor,
+                textAlign: landingZoneAlignment as React.CSSProperties['textAlign']
+              }}
+            >
+              {landingZoneTitleText}
+            </h2>
+          </div>
+        )}
         {children}
       </div>
     );
@@ -407,7 +437,8 @@ export function TitleScaleScroll({
       className={`relative w-full title-scale-scroll-container ${className || ''}`}
       data-parallax="trigger"
       style={{
-        height: `${totalContainerHeight}vh`,
+        // Frozen at a progress point only the pinned viewport is shown, no scroll distance
+        height: isFrozen ? 'auto' : `${totalContainerHeight}vh`,
         overflow: 'visible',
         position: 'relative',
         ...style
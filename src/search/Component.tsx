@@ -2,18 +2,20 @@
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import React, { useState, useEffect } from 'react'
+import { useLocalizePath } from '@/i18n/useLocale'
 import { useDebounce } from '@/utilities/useDebounce'
 import { useRouter } from 'next/navigation'
 
 export const Search: React.FC = () => {
   const [value, setValue] = useState('')
   const router = useRouter()
+  const localizePath = useLocalizePath()
 
   const debouncedValue = useDebounce(value)
 
   useEffect(() => {
-    router.push(`/search${debouncedValue ? `?q=${debouncedValue}` : ''}`)
-  }, [debouncedValue, router])
+    router.push(`${localizePath('/search')}${debouncedValue ? `?q=${debouncedValue}` : ''}`)
+  }, [debouncedValue, localizePath, router])
 
   return (
     <div>
@@ -0,0 +1,23 @@
+/**
+ * Prepares field data for copying into another document: array and block rows take their IDs
+ * from `rows` at the same position, or lose them so new ones are generated. Rich text is left as is.
+ */
+export const alignRowIDs = <T>(data: T, rows?: unknown): T => {
+  if (Array.isArray(data)) {
+    const targetRows: unknown[] = Array.isArray(rows) ? rows : []
+    return data.map((item, index) => alignRowIDs(item, targetRows[index])) as T
+  }
+
+  if (!data || typeof data !== 'object' || 'root' in data) return data
+
+  const target = rows && typeof rows === 'object' ? (rows as Record<string, unknown>) : {}
+  const result: Record<string, unknown> = {}
+
+  Object.entries(data).forEach(([key, value]) => {
+    if (key !== 'id') result[key] = alignRowIDs(value, target[key])
+  })
+
+  if (target.id) result.id = target.id
+
+  return result as T
+}
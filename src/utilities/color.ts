@@ -0,0 +1,324 @@
+export type RGBA = {
+  a: number
+  b: number
+  g: number
+  r: number
+}
+
+export type ContrastLevel = 'AA' | 'AA Large' | 'AAA' | 'Fail'
+
+// CSS named colors (CSS Color Module Level 4)
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: '#f0f8ff',
+  antiquewhite: '#faebd7',
+  aqua: '#00ffff',
+  aquamarine: '#7fffd4',
+  azure: '#f0ffff',
+  beige: '#f5f5dc',
+  bisque: '#ffe4c4',
+  black: '#000000',
+  blanchedalmond: '#ffebcd',
+  blue: '#0000ff',
+  blueviolet: '#8a2be2',
+  brown: '#a52a2a',
+  burlywood: '#deb887',
+  cadetblue: '#5f9ea0',
+  chartreuse: '#7fff00',
+  chocolate: '#d2691e',
+  coral: '#ff7f50',
+  cornflowerblue: '#6495ed',
+  cornsilk: '#fff8dc',
+  crimson: '#dc143c',
+  cyan: '#00ffff',
+  darkblue: '#00008b',
+  darkcyan: '#008b8b',
+  darkgoldenrod: '#b8860b',
+  darkgray: '#a9a9a9',
+  darkgreen: '#006400',
+  darkgrey: '#a9a9a9',
+  darkkhaki: '#bdb76b',
+  darkmagenta: '#8b008b',
+  darkolivegreen: '#556b2f',
+  darkorange: '#ff8c00',
+  darkorchid: '#9932cc',
+  darkred: '#8b0000',
+  darksalmon: '#e9967a',
+  darkseagreen: '#8fbc8f',
+  darkslateblue: '#483d8b',
+  darkslategray: '#2f4f4f',
+  darkslategrey: '#2f4f4f',
+  darkturquoise: '#00ced1',
+  darkviolet: '#9400d3',
+  deeppink: '#ff1493',
+  deepskyblue: '#00bfff',
+  dimgray: '#696969',
+  dimgrey: '#696969',
+  dodgerblue: '#1e90ff',
+  firebrick: '#b22222',
+  floralwhite: '#fffaf0',
+  forestgreen: '#228b22',
+  fuchsia: '#ff00ff',
+  gainsboro: '#dcdcdc',
+  ghostwhite: '#f8f8ff',
+  gold: '#ffd700',
+  goldenrod: '#daa520',
+  gray: '#808080',
+  green: '#008000',
+  greenyellow: '#adff2f',
+  grey: '#808080',
+  honeydew: '#f0fff0',
+  hotpink: '#ff69b4',
+  indianred: '#cd5c5c',
+  indigo: '#4b0082',
+  ivory: '#fffff0',
+  khaki: '#f0e68c',
+  lavender: '#e6e6fa',
+  lavenderblush: '#fff0f5',
+  lawngreen: '#7cfc00',
+  lemonchiffon: '#fffacd',
+  lightblue: '#add8e6',
+  lightcoral: '#f08080',
+  lightcyan: '#e0ffff',
+  lightgoldenrodyellow: '#fafad2',
+  lightgray: '#d3d3d3',
+  lightgreen: '#90ee90',
+  lightgrey: '#d3d3d3',
+  lightpink: '#ffb6c1',
+  lightsalmon: '#ffa07a',
+  lightseagreen: '#20b2aa',
+  lightskyblue: '#87cefa',
+  lightslategray: '#778899',
+  lightslategrey: '#778899',
+  lightsteelblue: '#b0c4de',
+  lightyellow: '#ffffe0',
+  lime: '#00ff00',
+  limegreen: '#32cd32',
+  linen: '#faf0e6',
+  magenta: '#ff00ff',
+  maroon: '#800000',
+  mediumaquamarine: '#66cdaa',
+  mediumblue: '#0000cd',
+  mediumorchid: '#ba55d3',
+  mediumpurple: '#9370db',
+  mediumseagreen: '#3cb371',
+  mediumslateblue: '#7b68ee',
+  mediumspringgreen: '#00fa9a',
+  mediumturquoise: '#48d1cc',
+  mediumvioletred: '#c71585',
+  midnightblue: '#191970',
+  mintcream: '#f5fffa',
+  mistyrose: '#ffe4e1',
+  moccasin: '#ffe4b5',
+  navajowhite: '#ffdead',
+  navy: '#000080',
+  oldlace: '#fdf5e6',
+  olive: '#808000',
+  olivedrab: '#6b8e23',
+  orange: '#ffa500',
+  orangered: '#ff4500',
+  orchid: '#da70d6',
+  palegoldenrod: '#eee8aa',
+  palegreen: '#98fb98',
+  paleturquoise: '#afeeee',
+  palevioletred: '#db7093',
+  papayawhip: '#ffefd5',
+  peachpuff: '#ffdab9',
+  peru: '#cd853f',
+  pink: '#ffc0cb',
+  plum: '#dda0dd',
+  powderblue: '#b0e0e6',
+  purple: '#800080',
+  rebeccapurple: '#663399',
+  red: '#ff0000',
+  rosybrown: '#bc8f8f',
+  royalblue: '#4169e1',
+  saddlebrown: '#8b4513',
+  salmon: '#fa8072',
+  sandybrown: '#f4a460',
+  seagreen: '#2e8b57',
+  seashell: '#fff5ee',
+  sienna: '#a0522d',
+  silver: '#c0c0c0',
+  skyblue: '#87ceeb',
+  slateblue: '#6a5acd',
+  slategray: '#708090',
+  slategrey: '#708090',
+  snow: '#fffafa',
+  springgreen: '#00ff7f',
+  steelblue: '#4682b4',
+  tan: '#d2b48c',
+  teal: '#008080',
+  thistle: '#d8bfd8',
+  tomato: '#ff6347',
+  turquoise: '#40e0d0',
+  violet: '#ee82ee',
+  wheat: '#f5deb3',
+  white: '#ffffff',
+  whitesmoke: '#f5f5f5',
+  yellow: '#ffff00',
+  yellowgreen: '#9acd32',
+}
+
+const WHITE: RGBA = { r: 255, g: 255, b: 255, a: 1 }
+const NUMBER_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)(%|deg)?$/
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const parseHex = (hex: string): RGBA | null => {
+  const digits = hex.slice(1)
+  if (!/^([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(digits)) return null
+
+  const full =
+    digits.length <= 4
+      ? digits
+          .split('')
+          .map((digit) => digit + digit)
+          .join('')
+      : digits
+  const channel = (index: number) => parseInt(full.slice(index * 2, index * 2 + 2), 16)
+
+  return {
+    r: channel(0),
+    g: channel(1),
+    b: channel(2),
+    a: full.length === 8 ? channel(3) / 255 : 1,
+  }
+}
+
+// `50%` or `0.5` as a 0–1 alpha value
+const parseAlpha = (value?: string): number | null => {
+  if (value === undefined) return 1
+  const number = parseFloat(value)
+  if (Number.isNaN(number)) return null
+
+  return clamp(value.endsWith('%') ? number / 100 : number, 0, 1)
+}
+
+// Splits `rgb(1, 2, 3 / 50%)` and `rgb(1 2 3 / 0.5)` style arguments into channels and alpha
+const splitArguments = (args: string): { alpha?: string; channels: string[] } | null => {
+  const [channelPart, alphaPart, ...rest] = args.split('/')
+  if (rest.length > 0) return null
+
+  const channels = channelPart
+    .trim()
+    .split(/\s*,\s*|\s+/)
+    .filter(Boolean)
+  const alpha =
+    channels.length === 4 && alphaPart === undefined ? channels.pop() : alphaPart?.trim()
+
+  if (channels.length !== 3) return null
+  if (![...channels, alpha ?? '1'].every((part) => NUMBER_PATTERN.test(part))) return null
+
+  return { alpha, channels }
+}
+
+const hslToRGB = (h: number, s: number, l: number): Omit<RGBA, 'a'> => {
+  const hue = (((h % 360) + 360) % 360) / 360
+  const k = (n: number) => (n + hue * 12) % 12
+  const a = s * Math.min(l, 1 - l)
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1))
+
+  return { r: Math.round(f(0) * 255), g: Math.round(f(8) * 255), b: Math.round(f(4) * 255) }
+}
+
+/**
+ * Parses a CSS color: named colors, `transparent`, 3/4/6/8-digit hex and the rgb()/rgba()/
+ * hsl()/hsla() functions in both comma and space syntax. Returns null for anything else,
+ * e.g. `var()` references or gradients
+ */
+export const parseColor = (value?: string | null): RGBA | null => {
+  if (!value) return null
+  const color = value.trim().toLowerCase()
+
+  if (color === 'transparent') return { r: 0, g: 0, b: 0, a: 0 }
+  if (Object.prototype.hasOwnProperty.call(NAMED_COLORS, color))
+    return parseHex(NAMED_COLORS[color])
+  if (color.startsWith('#')) return parseHex(color)
+
+  const match = color.match(/^(rgba?|hsla?)\((.*)\)$/)
+  if (!match) return null
+
+  const parts = splitArguments(match[2])
+  if (!parts) return null
+
+  const a = parseAlpha(parts.alpha)
+  if (a === null) return null
+
+  if (match[1].startsWith('rgb')) {
+    const [r, g, b] = parts.channels.map((channel) => {
+      const number = parseFloat(channel)
+      return channel.endsWith('%') ? (number / 100) * 255 : number
+    })
+    if ([r, g, b].some(Number.isNaN)) return null
+
+    return {
+      r: clamp(Math.round(r), 0, 255),
+      g: clamp(Math.round(g), 0, 255),
+      b: clamp(Math.round(b), 0, 255),
+      a,
+    }
+  }
+
+  const [h, s, l] = parts.channels.map((channel) => parseFloat(channel))
+  if ([h, s, l].some(Number.isNaN)) return null
+
+  return { ...hslToRGB(h, clamp(s, 0, 100) / 100, clamp(l, 0, 100) / 100), a }
+}
+
+// `#rrggbb` for the native color input, which has no alpha
+export const toHex = ({ r, g, b }: RGBA): string =>
+  `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`
+
+// Paints a translucent color over an opaque one
+const composite = (top: RGBA, bottom: RGBA): RGBA => ({
+  r: Math.round(top.r * top.a + bottom.r * (1 - top.a)),
+  g: Math.round(top.g * top.a + bottom.g * (1 - top.a)),
+  b: Math.round(top.b * top.a + bottom.b * (1 - top.a)),
+  a: 1,
+})
+
+// WCAG 2.x relative luminance
+const relativeLuminance = ({ r, g, b }: RGBA): number => {
+  const [R, G, B] = [r, g, b].map((channel) => {
+    const c = channel / 255
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+  })
+
+  return 0.2126 * R + 0.7152 * G + 0.0722 * B
+}
+
+/**
+ * WCAG contrast ratio (1–21) of text on a background. Translucent backgrounds are shown over
+ * the white page and translucent text over the background, as the browser would paint them
+ */
+export const contrastRatio = (foreground: RGBA, background: RGBA): number => {
+  const solidBackground = composite(background, WHITE)
+  const solidForeground = composite(foreground, solidBackground)
+
+  const [lighter, darker] = [
+    relativeLuminance(solidForeground),
+    relativeLuminance(solidBackground),
+  ].sort((x, y) => y - x)
+
+  return (lighter + 0.05) / (darker + 0.05)
+}
+
+// Highest WCAG level the ratio passes for normal text; `AA Large` only passes for large text
+export const contrastLevel = (ratio: number): ContrastLevel => {
+  if (ratio >= 7) return 'AAA'
+  if (ratio >= 4.5) return 'AA'
+  if (ratio >= 3) return 'AA Large'
+  return 'Fail'
+}
+
+// Color stops of a CSS gradient, e.g. the two colors of `linear-gradient(#fff, rgb(0 0 0))`
+export const gradientColors = (gradient?: string | null): string[] => {
+  if (!gradient) return []
+
+  const inner = gradient.trim().match(/^[\w-]+-gradient\((.*)\)$/s)?.[1]
+  if (!inner) return []
+
+  return (inner.match(/#[0-9a-f]{3,8}\b|(?:rgba?|hsla?|var)\([^()]*\)|\b[a-z]+\b/gi) || []).filter(
+    (token) => token.startsWith('var(') || parseColor(token) !== null,
+  )
+}
@@ -0,0 +1,22 @@
+import type { Job } from '@/payload-types'
+
+const employmentTypeLabels: Record<Job['employmentType'], string> = {
+  'full-time': 'Full-time',
+  'part-time': 'Part-time',
+  contract: 'Contract',
+  temporary: 'Temporary',
+  internship: 'Internship',
+}
+
+// One-line job summary, e.g. "Interpretation · Lima, Peru · Full-time · Remote"
+export const formatJobDetails = (
+  job: Pick<Job, 'department' | 'employmentType' | 'location' | 'remote'>,
+): string =>
+  [
+    job.department,
+    job.location,
+    employmentTypeLabels[job.employmentType],
+    job.remote ? 'Remote' : null,
+  ]
+    .filter(Boolean)
+    .join(' · ')
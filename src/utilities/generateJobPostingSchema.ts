@@ -0,0 +1,50 @@
+import { convertLexicalToPlaintext } from '@payloadcms/richtext-lexical/plaintext'
+
+import type { Job } from '../payload-types'
+
+import { getServerSideURL } from './getURL'
+
+// schema.org employment types for the `employmentType` options on the Jobs collection
+const employmentTypes: Record<Job['employmentType'], string> = {
+  'full-time': 'FULL_TIME',
+  'part-time': 'PART_TIME',
+  contract: 'CONTRACTOR',
+  temporary: 'TEMPORARY',
+  internship: 'INTERN',
+}
+
+/**
+ * JobPosting structured data for search engines,
+ * see https://developers.google.com/search/docs/appearance/structured-data/job-posting
+ */
+export const generateJobPostingSchema = ({ job, url }: { job: Job; url: string }) => {
+  const serverUrl = getServerSideURL()
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'JobPosting',
+    title: job.title,
+    description: convertLexicalToPlaintext({ data: job.description }),
+    datePosted: job.datePosted || job.createdAt,
+    ...(job.validThrough ? { validThrough: job.validThrough } : {}),
+    employmentType: employmentTypes[job.employmentType],
+    hiringOrganization: {
+      '@type': 'Organization',
+      name: 'E-Voque',
+      sameAs: serverUrl,
+    },
+    ...(job.location
+      ? {
+          jobLocation: {
+            '@type': 'Place',
+            address: {
+              '@type': 'PostalAddress',
+              addressLocality: job.location,
+            },
+          },
+        }
+      : {}),
+    ...(job.remote ? { jobLocationType: 'TELECOMMUTE' } : {}),
+    url: serverUrl + url,
+  }
+}
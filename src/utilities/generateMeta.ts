@@ -4,6 +4,7 @@ import type { Media, Page, Post, Config } from '../payload-types'
 
 import { mergeOpenGraph } from './mergeOpenGraph'
 import { getServerSideURL } from './getURL'
+import { defaultLocale, localeCodes, localizePath, type Locale } from '@/i18n/config'
 
 const getImageURL = (image?: Media | Config['db']['defaultIDType'] | null) => {
   const serverUrl = getServerSideURL()
@@ -19,10 +20,28 @@ const getImageURL = (image?: Media | Config['db']['defaultIDType'] | null) => {
   return url
 }
 
+// Canonical URL for the current locale plus `hreflang` alternates for every locale
+export const getAlternates = (path: string, locale: Locale): Metadata['alternates'] => {
+  const serverUrl = getServerSideURL()
+
+  return {
+    canonical: serverUrl + localizePath(path, locale),
+    languages: {
+      ...Object.fromEntries(
+        localeCodes.map((code) => [code, serverUrl + localizePath(path, code)]),
+      ),
+      'x-default': serverUrl + localizePath(path, defaultLocale),
+    },
+  }
+}
+
 export const generateMeta = async (args: {
   doc: Partial<Page> | Partial<Post> | null
+  locale?: Locale
+  // Path without the locale prefix, e.g. `/about` or `/posts/hello-world`
+  path?: string
 }): Promise<Metadata> => {
-  const { doc } = args
+  const { doc, locale = defaultLocale, path } = args
 
   const ogImage = getImageURL(doc?.meta?.image)
 
@@ -31,6 +50,7 @@ export const generateMeta = async (args: {
     : 'Payload Website Template'
 
   return {
+    ...(path ? { alternates: getAlternates(path, locale) } : {}),
     description: doc?.meta?.description,
     openGraph: mergeOpenGraph({
       description: doc?.meta?.description || '',
@@ -41,8 +61,9 @@ export const generateMeta = async (args: {
             },
           ]
         : undefined,
+      locale,
       title,
-      url: Array.isArray(doc?.slug) ? doc?.slug.join('/') : '/',
+      url: path ? localizePath(path, locale) : Array.isArray(doc?.slug) ? doc?.slug.join('/') : '/',
     }),
     title,
   }
@@ -1,5 +1,7 @@
 import { PayloadRequest, CollectionSlug } from 'payload'
 
+import { isLocale, localizePath } from '@/i18n/config'
+
 const collectionPrefixMap: Partial<Record<CollectionSlug, string>> = {
   posts: '/posts',
   pages: '',
@@ -9,9 +11,10 @@ type Props = {
   collection: keyof typeof collectionPrefixMap
   slug: string
   req: PayloadRequest
+  locale?: string
 }
 
-export const generatePreviewPath = ({ collection, slug }: Props) => {
+export const generatePreviewPath = ({ collection, slug, locale }: Props) => {
   // Allow empty strings, e.g. for the homepage
   if (slug === undefined || slug === null) {
     return null
@@ -23,7 +26,10 @@ export const generatePreviewPath = ({ collection, slug }: Props) => {
   const encodedParams = new URLSearchParams({
     slug: encodedSlug,
     collection,
-    path: `${collectionPrefixMap[collection]}/${encodedSlug}`,
+    path: localizePath(
+      `${collectionPrefixMap[collection]}/${encodedSlug}`,
+      isLocale(locale) ? locale : undefined,
+    ),
     previewSecret: process.env.PREVIEW_SECRET || '',
   })
 
@@ -4,23 +4,27 @@ import configPromise from '@payload-config'
 import { getPayload } from 'payload'
 import { unstable_cache } from 'next/cache'
 
+import { defaultLocale, type Locale } from '@/i18n/config'
+
 type Global = keyof Config['globals']
 
-async function getGlobal(slug: Global, depth = 0) {
+async function getGlobal(slug: Global, depth = 0, locale: Locale = defaultLocale) {
   const payload = await getPayload({ config: configPromise })
 
   const global = await payload.findGlobal({
     slug,
     depth,
+    locale,
   })
 
   return global
 }
 
 /**
- * Returns a unstable_cache function mapped with the cache tag for the slug
+ * Returns a unstable_cache function mapped with the cache tag for the slug,
+ * cached per locale so all locales are revalidated together
  */
-export const getCachedGlobal = (slug: Global, depth = 0) =>
-  unstable_cache(async () => getGlobal(slug, depth), [slug], {
+export const getCachedGlobal = (slug: Global, depth = 0, locale: Locale = defaultLocale) =>
+  unstable_cache(async () => getGlobal(slug, depth, locale), [slug, locale], {
     tags: [`global_${slug}`],
   })
@@ -0,0 +1,20 @@
+import { useSyncExternalStore } from 'react'
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)'
+
+const subscribe = (onChange: () => void) => {
+  const mediaQuery = window.matchMedia(REDUCED_MOTION_QUERY)
+  mediaQuery.addEventListener('change', onChange)
+  return () => mediaQuery.removeEventListener('change', onChange)
+}
+
+const getSnapshot = () => window.matchMedia(REDUCED_MOTION_QUERY).matches
+
+const getServerSnapshot = () => false
+
+// Tracks the OS "reduce motion" setting. False during SSR and hydration; components mounted on
+// the client (like lazily loaded scroll variants) get the setting on their first render, so
+// they never start an animation only to drop it
+export function usePrefersReducedMotion(): boolean {
+  return useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot)
+}
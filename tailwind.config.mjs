@@ -51,6 +51,9 @@ const config = {
         'accordion-up': 'accordion-up 0.2s ease-out',
       },
       borderRadius: {
+        button: 'var(--button-radius-md)',
+        'button-lg': 'var(--button-radius-lg)',
+        'button-sm': 'var(--button-radius-sm)',
         lg: 'var(--radius)',
         md: 'calc(var(--radius) - 2px)',
         sm: 'calc(var(--radius) - 4px)',
@@ -61,6 +64,20 @@ const config = {
           foreground: 'hsl(var(--accent-foreground))',
         },
         background: 'hsl(var(--background))',
+        // Brand colors from the `theme` global, see src/Theme/tokens.ts
+        brand: {
+          blue: 'var(--brand-blue)',
+          charcoal: 'var(--brand-charcoal)',
+          'dark-navy': 'var(--brand-dark-navy)',
+          error: 'var(--brand-error)',
+          green: 'var(--brand-green)',
+          lime: 'var(--brand-lime)',
+          muted: 'var(--brand-muted)',
+          'sky-blue': 'var(--brand-sky-blue)',
+          'soft-gray': 'var(--brand-soft-gray)',
+          warning: 'var(--brand-warning)',
+          white: 'var(--brand-white)',
+        },
         border: 'hsla(var(--border))',
         card: {
           DEFAULT: 'hsl(var(--card))',
@@ -93,6 +110,17 @@ const config = {
         error: 'hsl(var(--error))',
         warning: 'hsl(var(--warning))',
       },
+      fontSize: {
+        'brand-xs': 'var(--font-size-xs)',
+        'brand-sm': 'var(--font-size-sm)',
+        'brand-base': 'var(--font-size-base)',
+        'brand-lg': 'var(--font-size-lg)',
+        'brand-xl': 'var(--font-size-xl)',
+        'brand-2xl': 'var(--font-size-2xl)',
+        'brand-3xl': 'var(--font-size-3xl)',
+        'brand-4xl': 'var(--font-size-4xl)',
+        'brand-5xl': 'var(--font-size-5xl)',
+      },
       fontFamily: {
         mono: ['var(--font-geist-mono)'],
         sans: ['var(--font-geist-sans)'],
@@ -107,6 +135,11 @@ const config = {
           to: { height: '0' },
         },
       },
+      transitionDuration: {
+        fast: 'var(--transition-fast)',
+        normal: 'var(--transition-normal)',
+        slow: 'var(--transition-slow)',
+      },
       typography: () => ({
         DEFAULT: {
           css: [
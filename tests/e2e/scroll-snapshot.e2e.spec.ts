@@ -0,0 +1,37 @@
+import { test, expect } from '@playwright/test'
+
+// Frames of the seeded home page's scroll blocks; bubble-list-scroll is covered where a page has one
+const variants = ['bubble-list-scroll', 'tabs-scroll', 'title-scale-scroll']
+const progressPoints = [0, 0.5, 1]
+
+/**
+ * Screenshots of the scroll snapshot route, which renders each scroll block frozen at fixed
+ * progress points. Run against a seeded database; after an intended visual change, update the
+ * baselines with `pnpm test:e2e --update-snapshots`.
+ */
+test.describe('Scroll snapshots', () => {
+  for (const variant of variants) {
+    test(`renders ${variant} the same at fixed progress points`, async ({ page }) => {
+      await page.setViewportSize({ width: 1280, height: 800 })
+      await page.goto(
+        `http://localhost:3000/en/scroll-snapshot/home?progress=${progressPoints.join(',')}`,
+      )
+      await page.waitForLoadState('networkidle')
+
+      const frames = page.locator('[data-scroll-snapshot]', {
+        has: page.locator(`[data-scroll-variant="${variant}"]`),
+      })
+
+      test.skip((await frames.count()) === 0, `The home page has no ${variant} block`)
+
+      for (const progress of progressPoints) {
+        const frame = frames.and(page.locator(`[data-progress="${progress}"]`)).first()
+
+        await expect(frame).toHaveScreenshot(`${variant}-${progress}.png`, {
+          animations: 'disabled',
+          maxDiffPixelRatio: 0.01,
+        })
+      }
+    })
+  }
+})
@@ -0,0 +1,74 @@
+import type { PayloadRequest, Where } from 'payload'
+
+import { describe, it, expect, vi } from 'vitest'
+
+import { adminsOrSelf } from '@/access/adminsOrSelf'
+import { editorsOrApplications } from '@/access/editorsOrApplications'
+import { editorsOrOwnPosts } from '@/access/editorsOrOwnPosts'
+import { hasRole } from '@/access/hasRole'
+import type { FormSubmission, User } from '@/payload-types'
+
+const userWith = (roles: User['roles']) =>
+  ({ id: 7, email: 'user@example.com', roles }) as unknown as User
+
+const accessArgs = (user: User | null) => ({ req: { user } as PayloadRequest })
+
+type Submission = Pick<FormSubmission, 'form' | 'id' | 'job'>
+
+const submissions: Submission[] = [
+  { id: 1, form: 10, job: 4 },
+  { id: 2, form: 10, job: null },
+  { id: 3, form: 20, job: null },
+]
+
+// Enough of the where query syntax for the submission access, so the test checks what it selects
+const matches = (doc: Submission, where: Where): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === 'or') return (condition as Where[]).some((part) => matches(doc, part))
+
+    const value = doc[key as keyof Submission]
+    const { exists, in: within } = condition as { exists?: boolean; in?: unknown[] }
+    if (exists !== undefined && (value != null) !== exists) return false
+    return within === undefined || within.includes(value)
+  })
+
+describe('Role-based access', () => {
+  it('grants access only to the listed roles', () => {
+    const editorsOnly = hasRole('admin', 'editor')
+
+    expect(editorsOnly(accessArgs(userWith(['editor'])))).toBe(true)
+    expect(editorsOnly(accessArgs(userWith(['recruiter'])))).toBe(false)
+    expect(editorsOnly(accessArgs(null))).toBe(false)
+  })
+
+  it('limits authors to the posts they are credited on', () => {
+    expect(editorsOrOwnPosts(accessArgs(userWith(['editor'])))).toBe(true)
+    expect(editorsOrOwnPosts(accessArgs(userWith(['author'])))).toEqual({
+      authors: { in: [7] },
+    })
+    expect(editorsOrOwnPosts(accessArgs(userWith(['recruiter'])))).toBe(false)
+  })
+
+  it('limits non-admins to their own user document', () => {
+    expect(adminsOrSelf(accessArgs(userWith(['admin'])))).toBe(true)
+    expect(adminsOrSelf(accessArgs(userWith(['author'])))).toEqual({ id: { equals: 7 } })
+    expect(adminsOrSelf(accessArgs(null))).toBe(false)
+  })
+
+  it('limits recruiters to job applications', async () => {
+    // Form 10 has a job select field, form 20 is the contact form
+    const find = vi.fn().mockResolvedValue({ docs: [{ id: 10 }] })
+    const submissionAccess = (user: User | null) =>
+      editorsOrApplications({ req: { payload: { find }, user } as unknown as PayloadRequest })
+
+    const where = (await submissionAccess(userWith(['recruiter']))) as Where
+
+    expect(find).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { 'fields.blockType': { equals: 'jobSelect' } } }),
+    )
+    expect(submissions.filter((doc) => matches(doc, where)).map(({ id }) => id)).toEqual([1, 2])
+    expect(await submissionAccess(userWith(['editor']))).toBe(true)
+    expect(await submissionAccess(userWith(['author']))).toBe(false)
+    expect(await submissionAccess(null)).toBe(false)
+  })
+})
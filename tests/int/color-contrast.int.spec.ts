@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+
+import { checkContrast } from '@/components/admin/ColorPicker/contrast'
+import { contrastRatio, gradientColors, parseColor, toHex } from '@/utilities/color'
+
+describe('Color parsing', () => {
+  it('reads every CSS color format', () => {
+    expect(parseColor('rebeccapurple')).toEqual({ r: 102, g: 51, b: 153, a: 1 })
+    expect(parseColor('#0A1F4480')).toEqual({ r: 10, g: 31, b: 68, a: 128 / 255 })
+    expect(parseColor('#fff')).toEqual({ r: 255, g: 255, b: 255, a: 1 })
+    expect(parseColor('rgba(0, 119, 167, 0.5)')).toEqual({ r: 0, g: 119, b: 167, a: 0.5 })
+    expect(parseColor('rgb(0 119 167 / 50%)')).toEqual({ r: 0, g: 119, b: 167, a: 0.5 })
+    expect(toHex(parseColor('hsl(120, 100%, 25%)')!)).toBe('#008000')
+    expect(parseColor('transparent')?.a).toBe(0)
+  })
+
+  it('rejects values that are not plain colors', () => {
+    expect(parseColor('var(--brand-green)')).toBeNull()
+    expect(parseColor('constructor')).toBeNull()
+    expect(parseColor('rgb(1, 2, 3;}body{)')).toBeNull()
+    expect(parseColor('#12345')).toBeNull()
+  })
+
+  it('lists the color stops of a gradient', () => {
+    expect(
+      gradientColors('linear-gradient(135deg, var(--brand-dark-navy) 0%, #1a3a6b 50%, white)'),
+    ).toEqual(['var(--brand-dark-navy)', '#1a3a6b', 'white'])
+  })
+})
+
+describe('Contrast', () => {
+  it('computes the WCAG ratio', () => {
+    expect(contrastRatio(parseColor('#000')!, parseColor('#fff')!)).toBeCloseTo(21)
+    expect(contrastRatio(parseColor('#777')!, parseColor('#fff')!)).toBeCloseTo(4.48, 2)
+  })
+
+  it('grades text against plain, theme-linked and gradient backgrounds', () => {
+    expect(checkContrast('#0A1F44', 'white')?.level).toBe('AAA')
+    expect(checkContrast('#777777', '#ffffff')?.level).toBe('AA Large')
+    expect(checkContrast('var(--brand-white)', 'var(--brand-dark-navy)')?.level).toBe('AAA')
+
+    // The weakest stop decides, white text fails on the white end of the gradient
+    expect(
+      checkContrast('#ffffff', {
+        type: 'GRADIENT',
+        gradient: 'linear-gradient(to bottom right, #0A1F44, #ffffff)',
+      })?.level,
+    ).toBe('Fail')
+  })
+
+  it('skips backgrounds it cannot read', () => {
+    expect(checkContrast('#ffffff', { type: 'IMAGE' })).toBeNull()
+    expect(checkContrast('var(--unknown)', '#ffffff')).toBeNull()
+  })
+})
@@ -0,0 +1,41 @@
+import type { Payload } from 'payload'
+
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { fileEmailAdapter, getEmailAdapter } from '@/email/adapters'
+
+const payload = { logger: { info: vi.fn() } } as unknown as Payload
+
+describe('Email adapters', () => {
+  let outboxDir: string | undefined
+
+  afterEach(async () => {
+    if (outboxDir) await rm(outboxDir, { force: true, recursive: true })
+  })
+
+  it('writes each email to the outbox directory', async () => {
+    outboxDir = await mkdtemp(path.join(tmpdir(), 'outbox-'))
+    const adapter = fileEmailAdapter(outboxDir)({ payload })
+
+    await adapter.sendEmail({ html: '<p>Hi Ada</p>', subject: 'Welcome', to: 'ada@example.com' })
+
+    const [file] = await readdir(outboxDir)
+    const message = JSON.parse(await readFile(path.join(outboxDir, file), 'utf8'))
+
+    expect(adapter.name).toBe('file')
+    expect(message).toMatchObject({
+      html: '<p>Hi Ada</p>',
+      subject: 'Welcome',
+      to: 'ada@example.com',
+    })
+  })
+
+  it('falls back to the console transport', async () => {
+    const adapter = await getEmailAdapter(undefined)
+
+    expect(adapter({ payload }).name).toBe('console')
+  })
+})
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest'
+
+import { getFieldVisibility, getHiddenFieldNames, splitIntoSteps } from '@/blocks/Form/conditions'
+
+const fields = [
+  { blockType: 'step', title: 'About You' },
+  { blockType: 'text', name: 'name' },
+  { blockType: 'step', title: 'Position' },
+  {
+    blockType: 'select',
+    name: 'position',
+    options: [
+      { label: 'Interpreter', value: '4' },
+      { label: 'Billing Specialist', value: '2' },
+    ],
+  },
+  {
+    blockType: 'text',
+    name: 'languages',
+    showIf: { field: 'position', operator: 'equals' as const, value: 'interpreter' },
+  },
+  {
+    blockType: 'text',
+    name: 'certifications',
+    showIf: { field: 'languages', operator: 'isFilled' as const },
+  },
+]
+
+describe('Form conditions', () => {
+  it('matches show-if rules against option values and labels', () => {
+    expect(getFieldVisibility(fields, { position: '4', languages: 'Quechua' })).toEqual([
+      true,
+      true,
+      true,
+      true,
+      true,
+      true,
+    ])
+    expect(getHiddenFieldNames(fields, { position: 'Interpreter' })).toEqual(
+      new Set(['certifications']),
+    )
+  })
+
+  it('hides fields that depend on a hidden field', () => {
+    expect(getHiddenFieldNames(fields, { position: '2', languages: 'Quechua' })).toEqual(
+      new Set(['languages', 'certifications']),
+    )
+  })
+
+  it('splits fields into steps at each step block', () => {
+    expect(splitIntoSteps(fields)).toEqual([
+      { fieldIndexes: [1], title: 'About You' },
+      { fieldIndexes: [3, 4, 5], title: 'Position' },
+    ])
+    expect(splitIntoSteps([{ blockType: 'text', name: 'name' }])).toEqual([{ fieldIndexes: [0] }])
+  })
+})
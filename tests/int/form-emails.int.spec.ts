@@ -0,0 +1,112 @@
+import type { BeforeEmail } from '@payloadcms/plugin-form-builder/types'
+
+import { describe, expect, it, vi } from 'vitest'
+
+import { type FormEmail, renderFormEmail, replacePlaceholders } from '@/blocks/Form/emails'
+import { queueFormEmails } from '@/blocks/Form/hooks/queueFormEmails'
+import type { FormSubmission } from '@/payload-types'
+
+const values = [
+  { field: 'name', value: 'Ada <Lovelace>' },
+  { field: 'email', value: 'ada@example.com' },
+]
+
+const message = (text: string) =>
+  ({
+    root: {
+      type: 'root',
+      children: [
+        {
+          type: 'paragraph',
+          children: [{ type: 'text', format: 0, text, version: 1 }],
+          direction: 'ltr',
+          format: '',
+          indent: 0,
+          version: 1,
+        },
+      ],
+      direction: 'ltr',
+      format: '',
+      indent: 0,
+      version: 1,
+    },
+  }) as FormEmail['message']
+
+const notification: FormEmail = {
+  type: 'notification',
+  emailFrom: 'site@example.com',
+  message: message('From {{name}}: {{*:table}}'),
+  replyTo: '{{email}}',
+  subject: 'New message from {{name}}',
+}
+
+const autoresponder: FormEmail = {
+  type: 'autoresponder',
+  emailFrom: 'site@example.com',
+  emailTo: '{{email}}',
+  message: message('Thanks {{name}}'),
+  subject: 'We got your message',
+}
+
+describe('Form emails', () => {
+  it('fills in field placeholders and leaves unknown ones as their name', () => {
+    expect(replacePlaceholders('Hi {{name}} ({{email}}), {{missing}}', values)).toBe(
+      'Hi Ada <Lovelace> (ada@example.com), missing',
+    )
+    expect(replacePlaceholders('{{*}}', values)).toBe(
+      'name : Ada <Lovelace>, email : ada@example.com',
+    )
+  })
+
+  it('escapes submitted values in the message', () => {
+    const { html } = renderFormEmail(notification, values, 'team@example.com')
+
+    expect(html).toContain('From Ada &lt;Lovelace&gt;: <table')
+    expect(html).toContain('<td>ada@example.com</td>')
+    expect(html).not.toContain('<Lovelace>')
+  })
+
+  it('falls back to the default address and the sender for replies', () => {
+    expect(renderFormEmail(notification, values, 'team@example.com')).toMatchObject({
+      replyTo: 'ada@example.com',
+      subject: 'New message from Ada <Lovelace>',
+      to: 'team@example.com',
+      type: 'notification',
+    })
+    expect(renderFormEmail(autoresponder, values, 'team@example.com')).toMatchObject({
+      replyTo: 'site@example.com',
+      to: 'ada@example.com',
+      type: 'autoresponder',
+    })
+  })
+
+  it('logs each email with the type it was configured with', async () => {
+    vi.stubEnv('FORM_NOTIFICATION_EMAIL', '')
+
+    const payload = {
+      create: vi.fn(async ({ data }) => ({ id: data.type })),
+      email: { defaultFromAddress: 'site@example.com' },
+      findByID: vi.fn().mockResolvedValue({ id: 1, emails: [autoresponder, notification] }),
+      jobs: { queue: vi.fn() },
+    }
+    const doc = { id: 5, form: 1, submissionData: values } as FormSubmission
+
+    const emails = await queueFormEmails([], {
+      doc,
+      req: { locale: 'es', payload },
+    } as unknown as Parameters<BeforeEmail<FormSubmission>>[1])
+
+    expect(emails).toEqual([])
+    expect(payload.findByID).toHaveBeenCalledWith(expect.objectContaining({ locale: 'es' }))
+    expect(payload.create.mock.calls.map(([{ data }]) => [data.type, data.to])).toEqual([
+      ['autoresponder', 'ada@example.com'],
+      ['notification', 'site@example.com'],
+    ])
+    expect(payload.jobs.queue.mock.calls.map(([{ input }]) => input.delivery)).toEqual([
+      'autoresponder',
+      'notification',
+    ])
+
+    vi.unstubAllEnvs()
+  })
+})
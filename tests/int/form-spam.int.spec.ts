@@ -0,0 +1,100 @@
+import type { PayloadRequest } from 'payload'
+
+import { describe, expect, it, vi } from 'vitest'
+
+import { getChallengeProvider } from '@/blocks/Form/Challenge/providers'
+import {
+  checkSpamSignals,
+  getClientIP,
+  hashIP,
+  MIN_SUBMIT_SECONDS,
+  UPLOAD_RATE_LIMIT_MAX,
+} from '@/blocks/Form/spam'
+import { rejectUploadSpam } from '@/collections/FormUploads/hooks/rejectUploadSpam'
+import type { FormUpload } from '@/payload-types'
+
+const now = Date.now()
+
+const upload = (data: Partial<FormUpload>, uploadCount = 0) => {
+  const count = vi.fn().mockResolvedValue({ totalDocs: uploadCount })
+  const result = rejectUploadSpam({
+    data: { fieldName: 'resume', form: 1, ...data },
+    operation: 'create',
+    req: {
+      headers: new Headers({ 'x-real-ip': '203.0.113.7' }),
+      payload: { count, secret: 'secret' },
+      payloadAPI: 'REST',
+    } as unknown as PayloadRequest,
+  } as Parameters<typeof rejectUploadSpam>[0])
+
+  return { count, result }
+}
+
+describe('Form spam protection', () => {
+  it('rejects a filled in honeypot or a missing or too recent start time', () => {
+    const startedAt = now - (MIN_SUBMIT_SECONDS + 1) * 1000
+
+    expect(checkSpamSignals({ startedAt }, now)).toBeUndefined()
+    expect(checkSpamSignals({ honeypot: 'https://spam.example', startedAt }, now)).toBe('honeypot')
+    expect(checkSpamSignals({ startedAt: now - 500 }, now)).toBe('tooFast')
+    expect(checkSpamSignals({}, now)).toBe('tooFast')
+  })
+
+  it('reads the client IP from proxy headers', () => {
+    expect(getClientIP(new Headers({ 'x-forwarded-for': '203.0.113.7' }), 1)).toBe('203.0.113.7')
+    expect(getClientIP(new Headers({ 'x-real-ip': '203.0.113.8' }), 1)).toBe('203.0.113.8')
+    expect(getClientIP(new Headers(), 1)).toBeUndefined()
+  })
+
+  it('ignores X-Forwarded-For entries the client added', () => {
+    const headers = new Headers({
+      'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.1',
+      'x-real-ip': '203.0.113.8',
+    })
+
+    expect(getClientIP(headers, 1)).toBe('10.0.0.1')
+    expect(getClientIP(headers, 2)).toBe('203.0.113.7')
+    // More trusted proxies than entries: the header was not set by them
+    expect(getClientIP(headers, 4)).toBe('203.0.113.8')
+    expect(getClientIP(headers, 0)).toBe('203.0.113.8')
+  })
+
+  it('reads the trusted proxy count from the environment', () => {
+    const headers = new Headers({ 'x-forwarded-for': '198.51.100.1, 203.0.113.7, 10.0.0.1' })
+
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '2')
+    expect(getClientIP(headers)).toBe('203.0.113.7')
+    vi.stubEnv('TRUSTED_PROXY_HOPS', '')
+    expect(getClientIP(headers)).toBe('10.0.0.1')
+    vi.unstubAllEnvs()
+  })
+
+  it('hashes IP addresses with the secret', () => {
+    expect(hashIP('203.0.113.7', 'secret')).toBe(hashIP('203.0.113.7', 'secret'))
+    expect(hashIP('203.0.113.7', 'secret')).not.toBe(hashIP('203.0.113.7', 'other'))
+    expect(hashIP('203.0.113.7', 'secret')).not.toContain('203.0.113.7')
+  })
+
+  it('only uses a challenge provider when a known one is configured', () => {
+    expect(getChallengeProvider('turnstile')?.responseField).toBe('cf-turnstile-response')
+    expect(getChallengeProvider('unknown')).toBeUndefined()
+    expect(getChallengeProvider('')).toBeUndefined()
+  })
+  it('runs the spam and rate checks on uploads and keeps only the IP hash', async () => {
+    const startedAt = now - (MIN_SUBMIT_SECONDS + 1) * 1000
+
+    await expect(upload({ antiSpam: { honeypot: 'x', startedAt } }).result).rejects.toThrow()
+    await expect(upload({ antiSpam: { startedAt: Date.now() } }).result).rejects.toThrow()
+    await expect(
+      upload({ antiSpam: { startedAt } }, UPLOAD_RATE_LIMIT_MAX).result,
+    ).rejects.toMatchObject({ status: 429 })
+
+    const { count, result } = upload({ antiSpam: { startedAt } })
+    expect(await result).toEqual({
+      fieldName: 'resume',
+      form: 1,
+      ipHash: hashIP('203.0.113.7', 'secret'),
+    })
+    expect(count).toHaveBeenCalledWith(expect.objectContaining({ collection: 'form-uploads' }))
+  })
+})
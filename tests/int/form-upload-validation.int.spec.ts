@@ -0,0 +1,56 @@
+import type { PayloadRequest, TaskHandler } from 'payload'
+
+import { describe, it, expect, vi } from 'vitest'
+
+import { checkUploadFile, checkUploadFiles, matchesMimeType } from '@/blocks/Form/Upload/validation'
+import { deleteUnclaimedUploads, UNCLAIMED_UPLOAD_HOURS } from '@/jobs/deleteUnclaimedUploads'
+
+const pdf = { mimeType: 'application/pdf', name: 'resume.pdf', size: 1024 * 1024 }
+
+describe('Form upload validation', () => {
+  it('matches exact and wildcard MIME types', () => {
+    expect(matchesMimeType('application/pdf', ['application/pdf'])).toBe(true)
+    expect(matchesMimeType('image/png', ['image/*'])).toBe(true)
+    expect(matchesMimeType('application/zip', ['application/pdf', 'image/*'])).toBe(false)
+  })
+
+  it('rejects files over the size limit or of the wrong type', () => {
+    const rules = { maxSize: 2, mimeTypes: ['application/pdf' as const] }
+
+    expect(checkUploadFile(pdf, rules)).toBeUndefined()
+    expect(checkUploadFile({ ...pdf, size: 3 * 1024 * 1024 }, rules)).toBe(
+      'resume.pdf is larger than 2 MB.',
+    )
+    expect(checkUploadFile({ ...pdf, mimeType: 'application/zip' }, rules)).toBeDefined()
+  })
+
+  it('limits the number of files and requires one when the field is required', () => {
+    const rules = { maxSize: 5, mimeTypes: ['application/pdf' as const], required: true }
+
+    expect(checkUploadFiles([], rules)).toBe('Please attach a file.')
+    expect(checkUploadFiles([pdf, pdf], rules)).toBe('Please attach a single file.')
+    expect(checkUploadFiles([pdf, pdf], { ...rules, multiple: true, maxFiles: 2 })).toBeUndefined()
+    expect(checkUploadFiles([], { ...rules, required: false })).toBeUndefined()
+  })
+  it('deletes uploads no submission claimed in time', async () => {
+    const payload = {
+      delete: vi.fn().mockResolvedValue({ docs: [{ id: 1 }], errors: [] }),
+      logger: { error: vi.fn(), info: vi.fn() },
+    }
+    const before = Date.now() - UNCLAIMED_UPLOAD_HOURS * 60 * 60 * 1000
+
+    const handler = deleteUnclaimedUploads.handler as TaskHandler<'deleteUnclaimedUploads'>
+
+    await handler({ req: { payload } as unknown as PayloadRequest } as Parameters<
+      typeof handler
+    >[0])
+
+    const [{ collection, where }] = payload.delete.mock.calls[0]
+    const cutoff = Date.parse(where.and[1].createdAt.less_than)
+
+    expect(collection).toBe('form-uploads')
+    expect(where.and[0]).toEqual({ submission: { exists: false } })
+    expect(cutoff).toBeGreaterThanOrEqual(before)
+    expect(cutoff).toBeLessThanOrEqual(Date.now() - UNCLAIMED_UPLOAD_HOURS * 60 * 60 * 1000)
+  })
+})
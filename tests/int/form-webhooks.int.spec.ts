@@ -0,0 +1,82 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import { afterEach, describe, expect, it } from 'vitest'
+
+import {
+  buildWebhookPayload,
+  sendWebhook,
+  verifyWebhookSignature,
+  WebhookDeliveryError,
+} from '@/blocks/Form/webhooks'
+
+type Received = { body: string; headers: IncomingHttpHeaders }
+
+// Local HTTP stub standing in for the CRM
+const startStub = async (status: number) => {
+  const received: Received[] = []
+  const server = createServer((req, res) => {
+    let body = ''
+    req.on('data', (chunk) => (body += chunk))
+    req.on('end', () => {
+      received.push({ body, headers: req.headers })
+      res.writeHead(status).end()
+    })
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return { received, server, url: `http://127.0.0.1:${port}/hook` }
+}
+
+describe('Form webhooks', () => {
+  let server: Server | undefined
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve) ?? resolve(undefined))
+  })
+
+  it('maps submission fields onto the keys the receiver expects', () => {
+    const payload = buildWebhookPayload({
+      form: { id: 1, title: 'Contact' },
+      mapping: [{ field: 'email', key: 'contact_email' }],
+      submission: { createdAt: '2026-01-02T10:00:00.000Z', id: 9 },
+      submissionData: [
+        { field: 'email', value: 'ada@example.com' },
+        { field: 'message', value: 'Hello' },
+      ],
+    })
+
+    expect(payload.data).toEqual({ contact_email: 'ada@example.com' })
+    expect(payload.event).toBe('form.submitted')
+  })
+
+  it('posts a signed body the receiver can verify', async () => {
+    const stub = await startStub(202)
+    server = stub.server
+    const body = JSON.stringify({ hello: 'world' })
+
+    await expect(sendWebhook({ body, secret: 'shh', url: stub.url })).resolves.toBe(202)
+
+    const [{ body: receivedBody, headers }] = stub.received
+    expect(receivedBody).toBe(body)
+    expect(
+      verifyWebhookSignature({
+        body: receivedBody,
+        secret: 'shh',
+        signature: String(headers['x-webhook-signature']),
+        timestamp: Number(headers['x-webhook-timestamp']),
+      }),
+    ).toBe(true)
+  })
+
+  it('throws with the response status when the receiver fails', async () => {
+    const stub = await startStub(503)
+    server = stub.server
+
+    const error = await sendWebhook({ body: '{}', url: stub.url }).catch((err) => err)
+
+    expect(error).toBeInstanceOf(WebhookDeliveryError)
+    expect(error.status).toBe(503)
+  })
+})
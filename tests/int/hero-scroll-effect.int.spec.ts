@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  getFadeOpacity,
+  getHeroScrollEffect,
+  getParallaxOffset,
+  resolveFadeOut,
+  resolveParallax,
+} from '@/heros/ScrollEffect/settings'
+
+const desktop = { isMobile: false, prefersReducedMotion: false }
+const mobile = { isMobile: true, prefersReducedMotion: false }
+
+describe('Hero scroll effects', () => {
+  it('runs the configured effect only when enabled', () => {
+    expect(getHeroScrollEffect({ enabled: true, type: 'fade-out' }, desktop)).toBe('fade-out')
+    expect(getHeroScrollEffect({ enabled: false, type: 'fade-out' }, desktop)).toBeUndefined()
+    expect(getHeroScrollEffect({ enabled: true, type: 'none' }, desktop)).toBeUndefined()
+    expect(getHeroScrollEffect(undefined, desktop)).toBeUndefined()
+  })
+
+  it('keeps the hero static when the user prefers reduced motion', () => {
+    for (const type of ['zoom-out', 'fade-out', 'parallax'] as const) {
+      expect(
+        getHeroScrollEffect(
+          { enabled: true, type },
+          { isMobile: false, prefersReducedMotion: true },
+        ),
+      ).toBeUndefined()
+    }
+  })
+
+  it('runs parallax on mobile only when enabled', () => {
+    expect(getHeroScrollEffect({ enabled: true, type: 'parallax' }, mobile)).toBeUndefined()
+    expect(
+      getHeroScrollEffect(
+        { enabled: true, type: 'parallax', parallax: { enableOnMobile: true } },
+        mobile,
+      ),
+    ).toBe('parallax')
+    expect(getHeroScrollEffect({ enabled: true, type: 'fade-out' }, mobile)).toBe('fade-out')
+    expect(
+      getHeroScrollEffect(
+        { enabled: true, type: 'fade-out', fade: { enableOnMobile: false } },
+        mobile,
+      ),
+    ).toBeUndefined()
+  })
+
+  it('fades between the configured opacities', () => {
+    const fade = resolveFadeOut({ opacityStart: 0.8, opacityEnd: 0.2 })
+
+    expect(fade.duration).toBe(400)
+    expect(getFadeOpacity(fade, 0)).toBe(0.8)
+    expect(getFadeOpacity(fade, 0.5)).toBeCloseTo(0.5)
+    expect(getFadeOpacity(fade, 1)).toBeCloseTo(0.2)
+    expect(getFadeOpacity(resolveFadeOut(undefined), 1)).toBe(0)
+  })
+
+  it('offsets parallax layers by their speed', () => {
+    const { mediaSpeed, contentSpeed, duration } = resolveParallax({ mediaSpeed: 0.6 })
+
+    expect(contentSpeed).toBe(0.2)
+    expect(getParallaxOffset(duration, mediaSpeed, 0.5)).toBeCloseTo(180)
+    expect(getParallaxOffset(duration, contentSpeed, 1)).toBeCloseTo(120)
+    expect(getParallaxOffset(duration, mediaSpeed, 0)).toBe(0)
+  })
+})
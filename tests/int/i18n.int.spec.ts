@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { NextRequest } from 'next/server'
+
+import sitemapConfig from '../../next-sitemap.config.mjs'
+
+import { isLocale, localeCodes, localizeHref, localizePath, splitLocalePath } from '@/i18n/config'
+import { config, middleware } from '@/middleware'
+import { findColumnsToLocalize } from '@/migrations/utilities/localizedColumns'
+
+const request = (path: string) => new NextRequest(new URL(path, 'http://localhost:3000'))
+
+// Next.js compiles the matcher into an anchored regular expression
+const isMatched = (pathname: string) =>
+  config.matcher.some((matcher) => new RegExp(`^${matcher}$`).test(pathname))
+
+describe('Localized routes', () => {
+  it('recognizes configured locales only', () => {
+    expect(isLocale('en')).toBe(true)
+    expect(isLocale('es')).toBe(true)
+    expect(isLocale('fr')).toBe(false)
+    expect(isLocale(undefined)).toBe(false)
+  })
+
+  it('prefixes paths for every locale but the default one', () => {
+    expect(localizePath('/about')).toBe('/about')
+    expect(localizePath('about', 'en')).toBe('/about')
+    expect(localizePath('/about', 'es')).toBe('/es/about')
+    expect(localizePath('/', 'es')).toBe('/es')
+    expect(splitLocalePath('/es/about')).toEqual({ locale: 'es', path: '/about' })
+    expect(splitLocalePath('/estimates')).toEqual({ path: '/estimates' })
+  })
+
+  it('localizes internal link targets only', () => {
+    expect(localizeHref('/posts/hello', 'es')).toBe('/es/posts/hello')
+    expect(localizeHref('/es/posts/hello', 'es')).toBe('/es/posts/hello')
+    expect(localizeHref('https://example.com/about', 'es')).toBe('https://example.com/about')
+    expect(localizeHref('//cdn.example.com/file.pdf', 'es')).toBe('//cdn.example.com/file.pdf')
+  })
+
+  it('lists the pages and posts sitemaps of every locale', () => {
+    const sitemaps = sitemapConfig.robotsTxtOptions?.additionalSitemaps ?? []
+
+    for (const locale of localeCodes) {
+      const path = localizePath('/pages-sitemap.xml', locale)
+
+      expect(sitemaps).toContain(`${sitemapConfig.siteUrl}${path}`)
+      expect(sitemapConfig.exclude).toContain(path)
+      expect(sitemapConfig.exclude).toContain(localizePath('/*', locale))
+    }
+  })
+
+  it('rewrites unprefixed URLs to the default locale', () => {
+    const response = middleware(request('/about?ref=nav'))
+
+    expect(response.headers.get('x-middleware-rewrite')).toBe(
+      'http://localhost:3000/en/about?ref=nav',
+    )
+  })
+
+  it('redirects default locale URLs to their unprefixed form', () => {
+    const response = middleware(request('/en/about'))
+
+    expect(response.status).toBe(308)
+    expect(response.headers.get('location')).toBe('http://localhost:3000/about')
+  })
+
+  it('leaves other locales and static files alone', () => {
+    for (const path of ['/es/about', '/favicon.ico']) {
+      const response = middleware(request(path))
+      expect(response.headers.get('x-middleware-rewrite')).toBeNull()
+      expect(response.headers.get('location')).toBeNull()
+    }
+  })
+
+  it('skips admin, API and Next.js routes but not slugs starting with their names', () => {
+    expect(isMatched('/admin')).toBe(false)
+    expect(isMatched('/api/pages')).toBe(false)
+    expect(isMatched('/next/preview')).toBe(false)
+    expect(isMatched('/_next/static/chunk.js')).toBe(false)
+    expect(isMatched('/apiary')).toBe(true)
+    expect(isMatched('/nextgen')).toBe(true)
+    expect(isMatched('/administration/team')).toBe(true)
+  })
+})
+
+describe('Localization migration', () => {
+  it('moves the columns the database still has on the parent table', () => {
+    const moves = findColumnsToLocalize(
+      [
+        { name: 'pages', columns: { id: { name: 'id' }, slug: { name: 'slug' } } },
+        {
+          name: 'pages_locales',
+          columns: {
+            title: { name: 'title' },
+            metaDescription: { name: 'meta_description' },
+            id: { name: 'id' },
+            _locale: { name: '_locale' },
+            _parentID: { name: '_parent_id' },
+          },
+        },
+        { name: 'posts_locales', columns: { title: { name: 'title' } } },
+      ],
+      {
+        pages: ['id', 'slug', 'title', 'meta_description'],
+        posts: ['id', 'slug'],
+      },
+    )
+
+    expect(moves).toEqual([
+      { table: 'pages', localesTable: 'pages_locales', columns: ['title', 'meta_description'] },
+    ])
+  })
+})
@@ -0,0 +1,131 @@
+import type { PayloadRequest, Where } from 'payload'
+
+import { describe, expect, it, vi } from 'vitest'
+
+import { authenticatedOrPosted } from '@/access/authenticatedOrPosted'
+import { Jobs } from '@/collections/Jobs'
+import { linkSubmissionToJob } from '@/collections/Jobs/hooks/linkSubmissionToJob'
+import { populateJobOptions } from '@/collections/Jobs/hooks/populateJobOptions'
+import type { Form, FormSubmission, Job } from '@/payload-types'
+
+type JobDoc = Pick<Job, 'id' | 'status' | 'title'>
+
+const jobs: JobDoc[] = [
+  { id: 1, status: 'open', title: 'Support Agent' },
+  { id: 2, status: 'closed', title: 'Translator' },
+  { id: 3, status: 'draft', title: 'Team Lead' },
+  { id: 4, status: 'open', title: 'Appointment Setter' },
+]
+
+const form = {
+  id: 10,
+  title: 'Application',
+  fields: [
+    { blockType: 'text', name: 'name' },
+    {
+      blockType: 'jobSelect',
+      name: 'position',
+      required: true,
+      showIf: { field: 'type', operator: 'equals', value: 'job' },
+    },
+    { blockType: 'select', name: 'type', options: [] },
+  ],
+} as unknown as Form
+
+// Enough of the where query syntax for the job queries, so the tests check what they select
+const matches = (doc: Record<string, unknown>, where: Where = {}): boolean =>
+  Object.entries(where).every(([key, condition]) => {
+    if (key === 'and') return (condition as Where[]).every((part) => matches(doc, part))
+
+    const { equals, not_equals } = condition as { equals?: unknown; not_equals?: unknown }
+    const value = String(doc[key])
+    if (equals !== undefined && value !== String(equals)) return false
+    return not_equals === undefined || value !== String(not_equals)
+  })
+
+const fakeRequest = (user: PayloadRequest['user'] = null) =>
+  ({
+    locale: 'en',
+    user,
+    payload: {
+      find: vi.fn(async ({ where }: { where?: Where }) => ({
+        docs: jobs.filter((job) => matches(job, where)),
+      })),
+      findByID: vi.fn(async () => form),
+    },
+  }) as unknown as PayloadRequest
+
+const submit = (submissionData: FormSubmission['submissionData']) =>
+  linkSubmissionToJob({
+    data: { form: form.id, submissionData },
+    operation: 'create',
+    req: fakeRequest(),
+  } as Parameters<typeof linkSubmissionToJob>[0])
+
+describe('Jobs', () => {
+  it('starts new jobs as drafts', () => {
+    const status = Jobs.fields.find((field) => 'name' in field && field.name === 'status')
+
+    expect(status && 'defaultValue' in status && status.defaultValue).toBe('draft')
+  })
+
+  it('hides drafts from visitors but not from signed-in users', () => {
+    const read = (user: PayloadRequest['user']) =>
+      authenticatedOrPosted({ req: fakeRequest(user) } as Parameters<
+        typeof authenticatedOrPosted
+      >[0])
+
+    const visible = jobs.filter((job) => matches(job, read(null) as Where))
+
+    expect(visible.map(({ id }) => id)).toEqual([1, 2, 4])
+    expect(read({ id: 1 } as PayloadRequest['user'])).toBe(true)
+  })
+
+  it('only offers open jobs in the position select', async () => {
+    const doc = (await populateJobOptions({
+      doc: form,
+      req: fakeRequest(),
+    } as Parameters<typeof populateJobOptions>[0])) as Form
+    const field = doc.fields?.find(({ blockType }) => blockType === 'jobSelect')
+
+    expect(field && 'options' in field && field.options).toEqual([
+      { label: 'Support Agent', value: '1' },
+      { label: 'Appointment Setter', value: '4' },
+    ])
+  })
+
+  it('links a submission to the job that was picked', async () => {
+    const data = await submit([
+      { field: 'name', value: 'Ana' },
+      { field: 'type', value: 'job' },
+      { field: 'position', value: '4' },
+    ])
+
+    expect(data?.job).toBe(4)
+    expect(data?.submissionData).toEqual([
+      { field: 'name', value: 'Ana' },
+      { field: 'type', value: 'job' },
+      { field: 'position', value: 'Appointment Setter' },
+    ])
+  })
+
+  it('rejects applications for closed, draft and unknown jobs', async () => {
+    for (const value of ['2', '3', '99']) {
+      await expect(
+        submit([
+          { field: 'type', value: 'job' },
+          { field: 'position', value },
+        ]),
+      ).rejects.toThrow('no longer accepting applications')
+    }
+  })
+
+  it('requires a position only when the job select is shown', async () => {
+    await expect(submit([{ field: 'type', value: 'job' }])).rejects.toThrow(
+      'Please select a position.',
+    )
+
+    const data = await submit([{ field: 'type', value: 'general' }])
+    expect(data?.job).toBeUndefined()
+  })
+})
@@ -0,0 +1,47 @@
+import { cleanup, render, screen, waitFor } from '@testing-library/react'
+import { toast } from '@payloadcms/ui'
+import { createElement } from 'react'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import NewFromTemplate from '@/components/admin/NewFromTemplate'
+
+// The admin UI providers, with routes that differ from the defaults
+vi.mock('@payloadcms/ui', () => ({
+  Button: 'button',
+  toast: { error: vi.fn() },
+  useConfig: () => ({
+    config: { routes: { admin: '/cms', api: '/rest' }, serverURL: 'https://cms.example.com' },
+  }),
+}))
+vi.mock('next/navigation', () => ({ useRouter: () => ({ push: vi.fn() }) }))
+
+describe('New from template', () => {
+  afterEach(() => {
+    cleanup()
+    vi.unstubAllGlobals()
+    vi.clearAllMocks()
+  })
+
+  it('loads the templates from the configured API route', async () => {
+    const fetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ docs: [{ id: 1, title: 'Landing page' }] }),
+    })
+    vi.stubGlobal('fetch', fetch)
+
+    render(createElement(NewFromTemplate))
+
+    expect(await screen.findByRole('option', { name: 'Landing page' })).toBeTruthy()
+    expect(fetch.mock.calls[0][0]).toMatch(/^https:\/\/cms\.example\.com\/rest\/page-templates\?/)
+  })
+
+  it('tells the editor when the templates cannot be loaded', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false }))
+
+    render(createElement(NewFromTemplate))
+
+    await waitFor(() =>
+      expect(toast.error).toHaveBeenCalledWith('Could not load the page templates.'),
+    )
+  })
+})
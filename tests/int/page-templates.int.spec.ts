@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Media } from '@/payload-types'
+
+import { toPageTemplate } from '@/collections/PageTemplates/toPageTemplate'
+import { services } from '@/endpoints/seed/services'
+
+const image = { id: 1, alt: 'Hero' } as Media
+
+describe('Page templates', () => {
+  it('keeps only the hero and layout of a seed page', () => {
+    const page = services({ heroImage: image, metaImage: image })
+    const template = toPageTemplate({ title: 'Services Page' }, page)
+
+    expect(template).toEqual({
+      description: undefined,
+      hero: page.hero,
+      layout: page.layout,
+      title: 'Services Page',
+    })
+    expect(template).not.toHaveProperty('slug')
+  })
+})
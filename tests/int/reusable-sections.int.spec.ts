@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Page, Section } from '@/payload-types'
+
+import { expandReusableSections } from '@/blocks/ReusableSection/expand'
+import { alignRowIDs } from '@/utilities/alignRowIDs'
+
+const cta = {
+  blockType: 'cta',
+  id: 'cta-1',
+  links: [{ id: 'link-1', link: { label: 'Apply', type: 'custom', url: '/careers' } }],
+} as Section['block'][number]
+
+const section = { id: 3, block: [cta], title: 'Apply CTA' } as Section
+
+describe('Reusable sections', () => {
+  it('renders the block a section holds in its place', () => {
+    const layout = [
+      { blockType: 'reusableSection', id: 'a', section },
+      { blockType: 'reusableSection', id: 'b', section: 4 },
+    ] as Page['layout']
+
+    expect(expandReusableSections(layout)).toEqual([cta])
+  })
+
+  it('drops row IDs when detaching so the page gets its own', () => {
+    expect(alignRowIDs(cta)).toEqual({
+      blockType: 'cta',
+      links: [{ link: { label: 'Apply', type: 'custom', url: '/careers' } }],
+    })
+  })
+
+  it('reuses the page row IDs for the other locales and leaves rich text alone', () => {
+    const richText = { root: { children: [{ id: 'node', type: 'paragraph' }] } }
+    const spanish = { ...cta, richText } as unknown as typeof cta
+    const pageRow = { blockType: 'cta', id: 'b', links: [{ id: 'page-link' }] }
+
+    expect(alignRowIDs(spanish, pageRow)).toMatchObject({
+      id: 'b',
+      links: [{ id: 'page-link' }],
+      richText,
+    })
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+
+import type { ScrollConfig } from '@/scroll/types'
+
+import {
+  getScrollBreakpoint,
+  hasOverrides,
+  isOverridden,
+  mergeOverrides,
+  resolveScrollConfig,
+} from '@/scroll/breakpoints'
+
+const titleScalePaths = [
+  'titleAnimation.initialScale',
+  'titleAnimation.pinnedY',
+  'titleAnimation.containerHeight',
+]
+
+describe('Responsive scroll settings', () => {
+  it('maps widths to the live preview breakpoints', () => {
+    expect(getScrollBreakpoint(375)).toBe('mobile')
+    expect(getScrollBreakpoint(767)).toBe('mobile')
+    expect(getScrollBreakpoint(768)).toBe('tablet')
+    expect(getScrollBreakpoint(1439)).toBe('tablet')
+    expect(getScrollBreakpoint(1440)).toBe('desktop')
+  })
+
+  it('ignores empty override fields', () => {
+    expect(hasOverrides({ duration: null, imagePosition: '' })).toBe(false)
+    expect(hasOverrides({ duration: 400 })).toBe(true)
+    expect(hasOverrides(undefined)).toBe(false)
+    expect(isOverridden({ pinnedY: '10vw' }, 'titleAnimation.pinnedY')).toBe(true)
+    expect(isOverridden({ pinnedY: null }, 'titleAnimation.pinnedY')).toBe(false)
+  })
+
+  it('puts flat overrides on top of nested settings', () => {
+    const settings = {
+      title: 'Our Services',
+      titleAnimation: { enabled: true, initialScale: 1.8, pinnedY: '42vw' },
+    }
+    const merged = mergeOverrides(settings, { initialScale: 1.2, pinnedY: null }, titleScalePaths)
+
+    expect(merged).toEqual({
+      title: 'Our Services',
+      titleAnimation: { enabled: true, initialScale: 1.2, pinnedY: '42vw' },
+    })
+    expect(settings.titleAnimation.initialScale).toBe(1.8)
+  })
+
+  it('uses the base config until the breakpoint is known', () => {
+    const config: ScrollConfig = {
+      variant: 'zoom',
+      duration: 300,
+      zoomEnd: 0.9,
+      breakpoints: { mobile: { duration: 150 } },
+    }
+
+    expect(resolveScrollConfig(config)).toBe(config)
+    expect(resolveScrollConfig(config, 'tablet')).toBe(config)
+    expect(resolveScrollConfig(config, 'mobile')).toMatchObject({ duration: 150, zoomEnd: 0.9 })
+  })
+})
@@ -0,0 +1,105 @@
+import type { BlocksField, Field, NumberFieldSingleValidation } from 'payload'
+
+import { cleanup, render, screen } from '@testing-library/react'
+import { createElement, type ReactNode } from 'react'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+
+import { RenderBlocks } from '@/blocks/RenderBlocks'
+import { ScrollBlock as ScrollBlockComponent } from '@/blocks/ScrollBlock/Component'
+import { ScrollBlock } from '@/blocks/ScrollBlock/config'
+import type { Page } from '@/payload-types'
+import { guardScrollBlock } from '@/scroll/definitions'
+
+// Stand-ins for the block components, which need a browser, GSAP or the Payload API
+vi.mock('@/blocks/ScrollBlock/Component', () => ({
+  ScrollBlock: vi.fn(({ children }: { children?: ReactNode }) =>
+    createElement('section', { 'data-testid': 'scroll' }, children),
+  ),
+}))
+vi.mock('@/blocks/Content/Component', () => ({
+  ContentBlock: () => createElement('p', null, 'Services grid'),
+}))
+vi.mock('@/blocks/ArchiveBlock/Component', () => ({ ArchiveBlock: () => null }))
+vi.mock('@/blocks/CallToAction/Component', () => ({ CallToActionBlock: () => null }))
+vi.mock('@/blocks/Form/Component', () => ({ FormBlock: () => null }))
+vi.mock('@/blocks/MediaBlock/Component', () => ({ MediaBlock: () => null }))
+vi.mock('@/blocks/Testimonial/Component', () => ({ TestimonialBlock: () => null }))
+
+const findField = (fields: Field[], name: string): Field | undefined => {
+  for (const field of fields) {
+    if ('name' in field && field.name === name) return field
+
+    const children =
+      field.type === 'tabs'
+        ? field.tabs.flatMap((tab) => tab.fields)
+        : 'fields' in field
+          ? field.fields
+          : []
+    const found = findField(children, name)
+    if (found) return found
+  }
+  return undefined
+}
+
+const nestedField = findField(ScrollBlock.fields, 'content') as BlocksField
+
+const scrollBlock = {
+  blockType: 'scroll',
+  variant: 'title-scale-scroll',
+  content: [{ blockType: 'content', columns: [] }],
+} as unknown as Page['layout'][0]
+
+describe('ScrollBlock nested blocks', () => {
+  afterEach(cleanup)
+
+  it('only nests blocks that render inside a section', () => {
+    expect(nestedField.blocks.map(({ slug }) => slug)).toEqual([
+      'content',
+      'mediaBlock',
+      'testimonial',
+      'cta',
+      'formBlock',
+    ])
+  })
+
+  it('keeps the validation of the nested blocks', () => {
+    const testimonial = nestedField.blocks.find(({ slug }) => slug === 'testimonial')
+    const cardOverlap = testimonial && findField(testimonial.fields, 'cardOverlap')
+    const validate =
+      cardOverlap && 'validate' in cardOverlap
+        ? (cardOverlap.validate as NumberFieldSingleValidation)
+        : undefined
+    const options = (cardWidth: number) =>
+      ({
+        req: { t: (key: string) => key },
+        siblingData: { cardWidth },
+      }) as unknown as Parameters<NumberFieldSingleValidation>[1]
+
+    expect(validate?.(300, options(280))).toMatch('must be smaller than the Card Width')
+    expect(validate?.(65, options(280))).toBe(true)
+  })
+
+  it('leaves nested blocks alone when guarding the scroll settings', () => {
+    const { block, issues } = guardScrollBlock({
+      ...(scrollBlock as object),
+      background: { type: 'GRADIENT', gradient: 'blue' },
+    })
+
+    expect(issues.map(({ path }) => path)).toEqual(['background.gradient'])
+    expect(block.content).toEqual([{ blockType: 'content', columns: [] }])
+  })
+
+  it('renders nested blocks as children of the scroll block without sending their data', () => {
+    render(createElement(RenderBlocks, { blocks: [scrollBlock], locale: 'en' }))
+
+    expect(screen.getByTestId('scroll').textContent).toBe('Services grid')
+
+    const [[props]] = vi.mocked(ScrollBlockComponent).mock.calls
+    expect(props).not.toHaveProperty('content')
+    expect(props).toMatchObject({
+      blockType: 'scroll',
+      locale: 'en',
+      variant: 'title-scale-scroll',
+    })
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  clampProgress,
+  DEFAULT_SNAPSHOT_POINTS,
+  MAX_SNAPSHOT_POINTS,
+  parseProgressPoints,
+} from '@/scroll/progress'
+
+describe('Scroll snapshot progress', () => {
+  it('clamps progress to 0–1', () => {
+    expect(clampProgress(-0.5)).toBe(0)
+    expect(clampProgress(0.25)).toBe(0.25)
+    expect(clampProgress(4)).toBe(1)
+  })
+
+  it('parses comma separated points in order, clamped and without duplicates', () => {
+    expect(parseProgressPoints('0, 0.25,1.5,1')).toEqual([0, 0.25, 1])
+    expect(parseProgressPoints(['0.5', '0.1'])).toEqual([0.5, 0.1])
+  })
+
+  it('falls back to the default points when nothing valid is given', () => {
+    expect(parseProgressPoints(undefined)).toEqual(DEFAULT_SNAPSHOT_POINTS)
+    expect(parseProgressPoints('abc,')).toEqual(DEFAULT_SNAPSHOT_POINTS)
+  })
+
+  it('caps the number of points', () => {
+    const many = Array.from({ length: 20 }, (_, index) => index / 20).join(',')
+    expect(parseProgressPoints(many)).toHaveLength(MAX_SNAPSHOT_POINTS)
+  })
+})
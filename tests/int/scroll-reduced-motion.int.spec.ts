@@ -0,0 +1,156 @@
+import { act, cleanup, render, screen } from '@testing-library/react'
+import gsap from 'gsap'
+import { ScrollTrigger } from 'gsap/ScrollTrigger'
+import { createElement, type ReactNode } from 'react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { ScrollBlock as ScrollBlockType } from '@/payload-types'
+import { convertScrollBlockToConfig, getScrollVariant } from '@/scroll/definitions'
+import { loadGsap } from '@/scroll/loadGsap'
+import type { BaseScrollProps } from '@/scroll/types'
+import { usePrefersReducedMotion } from '@/utilities/usePrefersReducedMotion'
+
+// Spies in place of GSAP, so the tests can check the static layouts never animate
+vi.mock('gsap', () => {
+  const gsap = {
+    registerPlugin: vi.fn(),
+    context: vi.fn(),
+    fromTo: vi.fn(),
+    set: vi.fn(),
+    timeline: vi.fn(),
+    to: vi.fn(),
+  }
+  return { default: gsap, gsap }
+})
+vi.mock('gsap/ScrollTrigger', () => ({
+  ScrollTrigger: { create: vi.fn(), getAll: vi.fn(() => []), refresh: vi.fn(), update: vi.fn() },
+}))
+vi.mock('@/scroll/loadGsap', () => ({ loadGsap: vi.fn() }))
+// The balloons' WebGL canvas needs a browser
+vi.mock('@react-three/fiber', () => ({
+  Canvas: ({ children }: { children?: ReactNode }) =>
+    createElement('div', { 'data-testid': 'canvas' }, children),
+  useFrame: vi.fn(),
+}))
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)'
+
+// matchMedia for a device with the given "reduce motion" setting; other queries never match
+const stubReducedMotion = (reduce: boolean) => {
+  const listeners = new Set<(event: MediaQueryListEvent) => void>()
+
+  vi.stubGlobal(
+    'matchMedia',
+    vi.fn((query: string) => ({
+      matches: reduce && query === REDUCED_MOTION_QUERY,
+      media: query,
+      addEventListener: (_: string, listener: (event: MediaQueryListEvent) => void) =>
+        listeners.add(listener),
+      removeEventListener: (_: string, listener: (event: MediaQueryListEvent) => void) =>
+        listeners.delete(listener),
+    })),
+  )
+
+  return (matches: boolean) => {
+    reduce = matches
+    listeners.forEach((listener) => listener({ matches } as MediaQueryListEvent))
+  }
+}
+
+const items = [
+  { title: 'Inbound calls', description: 'Answered around the clock' },
+  { title: 'Live chat', description: 'Replies in under a minute' },
+]
+
+const blocks: Record<string, Partial<ScrollBlockType>> = {
+  'bubble-list-scroll': { bubbleListSettings: { items } },
+  'tabs-scroll': { tabsSettings: { items } },
+  'text-image-scroll': { textImageSettings: { items } },
+  'title-scale-scroll': {
+    titleScaleSettings: {
+      title: 'Our Services',
+      subtitle: 'More than answering calls',
+      landingZone: { enabled: true, showTitle: true, titleText: 'What we do' },
+    },
+  },
+}
+
+// What each static layout shows in place of the animation
+const staticLayouts: Record<string, () => void> = {
+  'bubble-list-scroll': () => {
+    expect(screen.getAllByRole('listitem')).toHaveLength(items.length)
+    expect(screen.queryByTestId('canvas')).toBeNull()
+  },
+  'tabs-scroll': () => {
+    expect(screen.getAllByRole('listitem')).toHaveLength(items.length)
+    expect(screen.queryByRole('tablist')).toBeNull()
+  },
+  'text-image-scroll': () => {
+    expect(screen.getAllByRole('heading', { level: 3 }).map((h) => h.textContent)).toEqual(
+      items.map(({ title }) => title),
+    )
+  },
+  'title-scale-scroll': () => {
+    expect(screen.getByRole('heading', { level: 1 }).textContent).toBe('Our Services')
+    expect(screen.getByRole('heading', { level: 2 }).textContent).toBe('What we do')
+  },
+}
+
+const renderVariant = async (slug: string, reducedMotion: boolean) => {
+  const definition = getScrollVariant(slug)!
+  const Variant = await definition.load()
+  const config = convertScrollBlockToConfig({
+    variant: slug as ScrollBlockType['variant'],
+    settings: { reducedMotion },
+    ...blocks[slug],
+  })
+
+  render(createElement(Variant, { config } as BaseScrollProps))
+}
+
+const expectNoAnimation = () => {
+  expect(loadGsap).not.toHaveBeenCalled()
+  expect(ScrollTrigger.create).not.toHaveBeenCalled()
+  expect(ScrollTrigger.refresh).not.toHaveBeenCalled()
+  for (const method of ['fromTo', 'set', 'timeline', 'to'] as const) {
+    expect(gsap[method]).not.toHaveBeenCalled()
+  }
+}
+
+describe('Scroll variants with reduced motion', () => {
+  beforeEach(() => vi.clearAllMocks())
+
+  afterEach(() => {
+    cleanup()
+    vi.unstubAllGlobals()
+  })
+
+  for (const slug of Object.keys(staticLayouts)) {
+    it(`renders ${slug} as its static layout when the device asks for reduced motion`, async () => {
+      stubReducedMotion(true)
+      await renderVariant(slug, false)
+
+      staticLayouts[slug]()
+      expectNoAnimation()
+    })
+
+    it(`renders ${slug} as its static layout when the block always reduces motion`, async () => {
+      stubReducedMotion(false)
+      await renderVariant(slug, true)
+
+      staticLayouts[slug]()
+      expectNoAnimation()
+    })
+  }
+
+  it('follows changes to the device setting', () => {
+    const setReducedMotion = stubReducedMotion(false)
+    const Probe = () => createElement('p', null, String(usePrefersReducedMotion()))
+
+    render(createElement(Probe))
+    expect(screen.getByText('false')).toBeTruthy()
+
+    act(() => setReducedMotion(true))
+    expect(screen.getByText('true')).toBeTruthy()
+  })
+})
@@ -0,0 +1,88 @@
+import { createElement } from 'react'
+import { renderToString } from 'react-dom/server'
+import { describe, it, expect } from 'vitest'
+
+import { collectScrollVariantFields, scrollVariantFields } from '@/blocks/ScrollBlock/variants'
+import type { ScrollBlock as ScrollBlockType } from '@/payload-types'
+
+import {
+  DEFAULT_SCROLL_VARIANT,
+  convertScrollBlockToConfig,
+  getScrollVariant,
+  scrollVariants,
+} from '@/scroll/definitions'
+import type { BaseScrollProps } from '@/scroll/types'
+import { ScrollRenderer } from '@/scroll/variants/registry'
+
+describe('Scroll variant registry', () => {
+  it('declares one definition and one settings group per slug', () => {
+    const slugs = scrollVariants.map((variant) => variant.slug)
+    const groups = scrollVariants.map((variant) => variant.settingsGroup.name)
+
+    expect(new Set(slugs).size).toBe(slugs.length)
+    expect(new Set(groups).size).toBe(groups.length)
+    expect(slugs).toContain(DEFAULT_SCROLL_VARIANT)
+  })
+
+  it('keeps the settings fields out of the client-side definitions', () => {
+    for (const variant of scrollVariants) {
+      expect(scrollVariantFields[variant.slug]?.length).toBeGreaterThan(0)
+      expect(variant.settingsGroup).not.toHaveProperty('fields')
+    }
+  })
+
+  it('fails to load a variant registered without settings fields', () => {
+    const parallax = { ...scrollVariants[0], slug: 'parallax' }
+
+    expect(() => collectScrollVariantFields([...scrollVariants, parallax])).toThrow(
+      'Scroll variant "parallax" has no settings fields',
+    )
+  })
+
+  it('looks up variants by slug', () => {
+    for (const variant of scrollVariants) {
+      expect(getScrollVariant(variant.slug)).toBe(variant)
+    }
+    expect(getScrollVariant('parallax')).toBeUndefined()
+    expect(getScrollVariant(null)).toBeUndefined()
+  })
+
+  it('converts block data with the variant settings group', () => {
+    const config = convertScrollBlockToConfig({
+      variant: 'zoom',
+      zoomSettings: { zoomStart: 1.2, zoomEnd: 1 },
+    })
+
+    expect(config).toMatchObject({ variant: 'zoom', zoomStart: 1.2, zoomEnd: 1, duration: 300 })
+  })
+
+  it('falls back to the default variant for unknown slugs', () => {
+    const config = convertScrollBlockToConfig({
+      variant: 'parallax' as ScrollBlockType['variant'],
+    })
+
+    expect(config.variant).toBe(DEFAULT_SCROLL_VARIANT)
+  })
+
+  it('renders the text and children on the server before the variant loads', () => {
+    const config = convertScrollBlockToConfig({
+      variant: 'tabs-scroll',
+      tabsSettings: {
+        items: [{ title: 'Inbound calls', description: 'Answered around the clock' }],
+      },
+    })
+
+    const html = renderToString(
+      createElement(
+        ScrollRenderer,
+        { config } as BaseScrollProps,
+        createElement('p', null, 'Nested content'),
+      ),
+    )
+
+    expect(html).toContain('data-scroll-placeholder="tabs-scroll"')
+    expect(html).toContain('Inbound calls')
+    expect(html).toContain('Answered around the clock')
+    expect(html).toContain('Nested content')
+  })
+})
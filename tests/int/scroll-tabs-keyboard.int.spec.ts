@@ -0,0 +1,68 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { createElement } from 'react'
+import { act, cleanup, fireEvent, render, screen } from '@testing-library/react'
+
+import { getNextTabIndex, useRovingTabs } from '@/scroll/useRovingTabs'
+
+// Tab list whose active tab never follows on its own, like tabs-scroll before scrolling catches up
+function TabList({
+  activeIndex,
+  onSelect,
+}: {
+  activeIndex: number
+  onSelect: (index: number) => void
+}) {
+  const { getTabProps } = useRovingTabs({ count: 3, activeIndex, onSelect })
+
+  return createElement(
+    'div',
+    null,
+    createElement(
+      'div',
+      { role: 'tablist' },
+      ['One', 'Two', 'Three'].map((title, index) =>
+        createElement('button', { key: title, role: 'tab', ...getTabProps(index) }, title),
+      ),
+    ),
+    createElement('a', { href: '#after' }, 'After'),
+  )
+}
+
+const tabIndexes = () => screen.getAllByRole('tab').map((tab) => tab.tabIndex)
+
+describe('Scroll tabs keyboard navigation', () => {
+  afterEach(cleanup)
+
+  it('maps arrow, Home and End keys to tabs', () => {
+    expect(getNextTabIndex('ArrowRight', 2, 3)).toBe(0)
+    expect(getNextTabIndex('ArrowUp', 0, 3)).toBe(2)
+    expect(getNextTabIndex('End', 0, 3)).toBe(2)
+    expect(getNextTabIndex('Home', 2, 3)).toBe(0)
+    expect(getNextTabIndex('Enter', 1, 3)).toBeUndefined()
+  })
+
+  it('moves the tab stop with focus before the active tab follows', () => {
+    const onSelect = vi.fn()
+    render(createElement(TabList, { activeIndex: 0, onSelect }))
+    const [first, second] = screen.getAllByRole('tab')
+
+    act(() => first.focus())
+    fireEvent.keyDown(first, { key: 'ArrowRight' })
+
+    expect(document.activeElement).toBe(second)
+    expect(onSelect).toHaveBeenCalledWith(1)
+    expect(tabIndexes()).toEqual([-1, 0, -1])
+  })
+
+  it('gives the tab stop back to the active tab once focus leaves the list', () => {
+    render(createElement(TabList, { activeIndex: 0, onSelect: () => {} }))
+    const [first] = screen.getAllByRole('tab')
+
+    act(() => first.focus())
+    fireEvent.keyDown(first, { key: 'End' })
+    expect(tabIndexes()).toEqual([-1, -1, 0])
+
+    act(() => screen.getByText('After').focus())
+    expect(tabIndexes()).toEqual([0, -1, -1])
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  getScrollTimeline,
+  keyframeFraction,
+  keyframeFromFraction,
+  readKeyframes,
+  sampleTimeline,
+  sampleTrack,
+  writeKeyframe,
+} from '@/scroll/timeline'
+
+const titleScale = getScrollTimeline('title-scale-scroll')!
+const keyframe = (path: string) =>
+  titleScale.keyframes.find((titleKeyframe) => titleKeyframe.path === path)!
+
+describe('Scroll timelines', () => {
+  it('only exists for variants with numeric keyframes', () => {
+    expect(getScrollTimeline('zoom')?.settingsGroup).toBe('zoomSettings')
+    expect(getScrollTimeline('tabs-scroll')).toBeUndefined()
+    expect(getScrollTimeline(null)).toBeUndefined()
+  })
+
+  it('interpolates tracks between stops and holds outside them', () => {
+    const track = { stops: [0.2, 0.6], values: [10, 30] }
+
+    expect(sampleTrack(track, 0)).toBe(10)
+    expect(sampleTrack(track, 0.4)).toBe(20)
+    expect(sampleTrack(track, 1)).toBe(30)
+  })
+
+  it('reads CSS lengths as numbers and falls back to defaults', () => {
+    const values = readKeyframes(
+      titleScale,
+      (path) =>
+        ({
+          'titleAnimation.initialScale': 2.4,
+          'titleAnimation.pinnedY': '-30vw',
+        })[path],
+    )
+
+    expect(values).toEqual({
+      'titleAnimation.containerHeight': 150,
+      'titleAnimation.initialScale': 2.4,
+      'titleAnimation.pinnedY': -30,
+    })
+  })
+
+  it('samples the title animation from the keyframe values', () => {
+    const values = {
+      'titleAnimation.containerHeight': 150,
+      'titleAnimation.initialScale': 2,
+      'titleAnimation.pinnedY': 40,
+    }
+
+    expect(sampleTimeline(titleScale, values, 0)).toMatchObject({ scale: 2, titleY: 0 })
+    expect(sampleTimeline(titleScale, values, 1)).toMatchObject({
+      finalBackground: 1,
+      landingZone: 0,
+      scale: 1,
+      titleY: 40,
+    })
+  })
+
+  it('writes dragged values snapped to the step, in the unit the field uses', () => {
+    expect(writeKeyframe(keyframe('titleAnimation.initialScale'), 1.87)).toBe(1.9)
+    expect(writeKeyframe(keyframe('titleAnimation.initialScale'), 9)).toBe(3)
+    expect(writeKeyframe(keyframe('titleAnimation.pinnedY'), 35.4, '-42vh')).toBe('35vh')
+    expect(writeKeyframe(keyframe('titleAnimation.pinnedY'), 35.4, null)).toBe('35vw')
+    expect(writeKeyframe(keyframe('titleAnimation.containerHeight'), 203)).toBe(200)
+  })
+
+  it('maps handle positions to values and back', () => {
+    const scale = keyframe('titleAnimation.initialScale')
+
+    expect(keyframeFraction(scale, 1.75)).toBe(0.5)
+    expect(keyframeFromFraction(scale, 0.5)).toBe(1.75)
+    expect(keyframeFromFraction(scale, 2)).toBe(3)
+  })
+})
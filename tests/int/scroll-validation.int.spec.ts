@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest'
+
+import { guardScrollBlock } from '@/scroll/definitions'
+
+import {
+  checkZoomRange,
+  isCSSGradient,
+  isCSSLength,
+  validateBackground,
+  validateItems,
+} from '@/scroll/validation'
+
+describe('Scroll block validation', () => {
+  it('accepts CSS lengths', () => {
+    expect(isCSSLength('120vh')).toBe(true)
+    expect(isCSSLength('-42vw')).toBe(true)
+    expect(isCSSLength('0')).toBe(true)
+    expect(isCSSLength('calc(100vh - 4rem)')).toBe(true)
+    expect(isCSSLength('120')).toBe(false)
+    expect(isCSSLength('12 vh')).toBe(false)
+  })
+
+  it('accepts gradients with at least two color stops', () => {
+    expect(isCSSGradient('linear-gradient(135deg, #0A1F44 0%, rgba(0, 0, 0, 0.5) 100%)')).toBe(true)
+    expect(isCSSGradient('radial-gradient(#fff, #000)')).toBe(true)
+    expect(isCSSGradient('linear-gradient(rgba(0, 0, 0, 0.5))')).toBe(false)
+    expect(isCSSGradient('linear-gradient(135deg, #fff, #000')).toBe(false)
+  })
+
+  it('requires zoom end to be smaller than zoom start', () => {
+    expect(checkZoomRange(1.5, 1)).toBeUndefined()
+    expect(checkZoomRange(1, 1.2)).toBeDefined()
+    expect(checkZoomRange(undefined, 1.2)).toBeUndefined()
+  })
+
+  it('reports missing background media on the matching field', () => {
+    expect(validateBackground({ type: 'IMAGE' }, 'background')).toEqual([
+      expect.objectContaining({ path: 'background.image' }),
+    ])
+    expect(validateBackground({ type: 'GRADIENT', gradient: 'blue' }, 'background')).toEqual([
+      expect.objectContaining({ path: 'background.gradient' }),
+    ])
+    expect(validateBackground({ type: 'COLOR' }, 'background')).toEqual([])
+  })
+
+  it('requires items and complete CTAs for list variants', () => {
+    expect(validateItems([], 'tabsSettings.items')).toEqual([
+      expect.objectContaining({ path: 'tabsSettings.items' }),
+    ])
+
+    const issues = validateItems(
+      [
+        { enableCTA: false },
+        { enableCTA: true, cta: { text: 'Book a demo', href: ' ' } },
+      ],
+      'bubbleListSettings.items',
+    )
+    expect(issues.map((issue) => issue.path)).toEqual(['bubbleListSettings.items.1.cta.href'])
+  })
+
+  it('drops invalid values at render time without logging', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const { block, issues } = guardScrollBlock({
+      variant: 'zoom',
+      zoomSettings: { zoomStart: 1, zoomEnd: 1.2, duration: 500 },
+    })
+
+    expect(issues.map((issue) => issue.path)).toEqual(['zoomSettings.zoomEnd'])
+    expect(block.zoomSettings).toEqual({ zoomStart: 1, duration: 500 })
+    expect(warn).not.toHaveBeenCalled()
+    warn.mockRestore()
+  })
+})
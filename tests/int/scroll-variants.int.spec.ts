@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+
+import type { ScrollConfig } from '@/scroll/types'
+
+import { getScrollVariant, scrollVariants } from '@/scroll/definitions'
+
+const items = (count: number) =>
+  Array.from({ length: count }, (_, index) => ({
+    description: '',
+    icon: '',
+    id: `item-${index}`,
+    title: `Item ${index}`,
+  }))
+
+const placeholderHeight = (config: ScrollConfig) =>
+  getScrollVariant(config.variant)!.placeholderHeight(config)
+
+describe('Scroll variant placeholders', () => {
+  it('loads every variant on demand', () => {
+    for (const variant of scrollVariants) {
+      expect(variant.load).toBeTypeOf('function')
+      expect(variant).not.toHaveProperty('component')
+    }
+  })
+
+  it('takes the scroll distance of the variant', () => {
+    expect(placeholderHeight({ variant: 'zoom' })).toBe('100vh')
+    expect(
+      placeholderHeight({ variant: 'text-image-scroll', duration: 600, items: items(3) }),
+    ).toBe('calc(1800px + 50vh)')
+    expect(placeholderHeight({ variant: 'bubble-list-scroll', items: items(2) })).toBe(
+      'calc(1600px + 400vh)',
+    )
+    expect(placeholderHeight({ variant: 'tabs-scroll', items: items(6) })).toBe('540vh')
+    expect(placeholderHeight({ variant: 'tabs-scroll', items: [] })).toBe('200vh')
+  })
+
+  it('adds the landing zone separator to the title scale height', () => {
+    expect(
+      placeholderHeight({
+        variant: 'title-scale-scroll',
+        titleAnimation: { containerHeight: 200, enabled: true },
+        landingZone: { separatorAfter: { enabled: true, height: 15 } },
+      }),
+    ).toBe('215vh')
+    expect(placeholderHeight({ variant: 'title-scale-scroll' })).toBe('150vh')
+  })
+})
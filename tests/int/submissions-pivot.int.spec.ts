@@ -0,0 +1,115 @@
+import type { ListViewServerProps } from 'payload'
+
+import { describe, expect, it, vi } from 'vitest'
+
+import type { Form, FormSubmission } from '@/payload-types'
+
+import { findSubmissionRows } from '@/components/admin/SubmissionsDashboard/findSubmissionRows'
+import {
+  buildSubmissionsWhere,
+  filterRowsByValue,
+  parseSubmissionFilters,
+  pivotSubmissions,
+  toCSV,
+  toTable,
+} from '@/components/admin/SubmissionsDashboard/pivot'
+
+const form = {
+  id: 1,
+  title: 'Contact',
+  fields: [
+    { blockType: 'text', name: 'name', label: 'Full Name' },
+    { blockType: 'email', name: 'email', label: 'Email' },
+  ],
+} as Pick<Form, 'fields' | 'id' | 'title'>
+
+const submission = (id: number, data: Record<string, string>) =>
+  ({
+    id,
+    createdAt: '2026-01-02T10:00:00.000Z',
+    form: 1,
+    status: 'new',
+    submissionData: Object.entries(data).map(([field, value]) => ({ field, value })),
+  }) as FormSubmission
+
+describe('Submissions dashboard', () => {
+  it('pivots submissions into a column per form field', () => {
+    const { columns, rows } = pivotSubmissions(
+      [
+        submission(1, { email: 'ada@example.com', name: 'Ada' }),
+        submission(2, { name: 'Grace', phone: '555' }),
+      ],
+      [form],
+    )
+
+    expect(columns.map(({ label }) => label)).toEqual(['Full Name', 'Email', 'phone'])
+    expect(rows[0]).toMatchObject({ form: 'Contact', values: { email: 'ada@example.com' } })
+    expect(filterRowsByValue(rows, { field: 'name', value: 'gra' })).toHaveLength(1)
+  })
+
+  it('only keeps valid filters from the query string', () => {
+    expect(
+      parseSubmissionFilters(
+        new URLSearchParams('form=1&from=yesterday&status=spam&to=2026-01-31'),
+      ),
+    ).toEqual({
+      field: undefined,
+      form: '1',
+      from: undefined,
+      status: undefined,
+      to: '2026-01-31',
+      value: undefined,
+    })
+    expect(buildSubmissionsWhere({ form: '1', to: '2026-01-31' })).toEqual({
+      and: [
+        { form: { equals: '1' } },
+        { createdAt: { less_than_equal: '2026-01-31T23:59:59.999Z' } },
+      ],
+    })
+  })
+
+  it('escapes CSV cells and neutralises formulas', () => {
+    const { columns, rows } = pivotSubmissions(
+      [submission(1, { email: '=HYPERLINK("x")', name: 'Lovelace, Ada' })],
+      [form],
+    )
+
+    expect(toCSV(toTable(columns, rows)).split('\r\n')[1]).toBe(
+      `2026-01-02T10:00:00.000Z,Contact,New,"Lovelace, Ada","'=HYPERLINK(""x"")"`,
+    )
+  })
+
+  it('limits the rows after filtering by a field value and counts only the matches', async () => {
+    // Matches for the value come after the dashboard limit in the newest-first order
+    const submissions = [
+      ...Array.from({ length: 3 }, (_, index) => submission(index + 1, { name: 'Ada' })),
+      submission(4, { email: 'grace@example.com', name: 'Grace' }),
+      submission(5, { name: 'Grace Hopper' }),
+    ]
+    const find = vi.fn(async ({ collection }: { collection: string }) =>
+      collection === 'forms'
+        ? { docs: [form], totalDocs: 1 }
+        : { docs: submissions, totalDocs: submissions.length },
+    )
+    const payload = { find } as unknown as ListViewServerProps['payload']
+
+    const { rows, totalDocs } = await findSubmissionRows({
+      filters: { field: 'name', value: 'grace' },
+      limit: 1,
+      payload,
+      user: undefined,
+    })
+
+    expect(find).toHaveBeenCalledWith(
+      expect.objectContaining({ collection: 'form-submissions', pagination: false }),
+    )
+    expect(rows.map(({ id }) => id)).toEqual([4])
+    expect(totalDocs).toBe(2)
+
+    const unfiltered = await findSubmissionRows({ filters: {}, limit: 1, payload, user: undefined })
+    expect(find).toHaveBeenCalledWith(
+      expect.objectContaining({ collection: 'form-submissions', limit: 1 }),
+    )
+    expect(unfiltered.totalDocs).toBe(5)
+  })
+})
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+
+import type { Media, Testimonial } from '@/payload-types'
+
+import {
+  buildTestimonialsWhere,
+  pickApprovedTestimonials,
+  toShowcaseBackground,
+  toShowcaseOptions,
+  toShowcaseTestimonial,
+} from '@/blocks/Testimonial/resolve'
+import { checkCardOverlap } from '@/blocks/Testimonial/validate'
+
+const testimonial = (id: number, status: Testimonial['status']) =>
+  ({
+    id,
+    author: `Author ${id}`,
+    avatar: { id: 9, url: '/media/avatar.webp' },
+    quote: `Quote ${id}`,
+    status,
+  }) as Testimonial
+
+describe('Testimonials', () => {
+  it('only queries approved testimonials, narrowed by industry when given', () => {
+    expect(buildTestimonialsWhere()).toEqual({ and: [{ status: { equals: 'approved' } }] })
+    expect(buildTestimonialsWhere(['finance', 'healthcare'])).toEqual({
+      and: [{ status: { equals: 'approved' } }, { industries: { in: ['finance', 'healthcare'] } }],
+    })
+  })
+
+  it('drops retired, pending and unpopulated picks but keeps the picked order', () => {
+    const selection = [
+      testimonial(3, 'approved'),
+      testimonial(1, 'retired'),
+      7,
+      testimonial(2, 'pending'),
+      testimonial(5, 'approved'),
+    ]
+
+    expect(pickApprovedTestimonials(selection).map(({ id }) => id)).toEqual([3, 5])
+    expect(pickApprovedTestimonials(null)).toEqual([])
+  })
+
+  it('maps a testimonial to the showcase card shape', () => {
+    expect(toShowcaseTestimonial(testimonial(3, 'approved'))).toEqual({
+      author: 'Author 3',
+      avatar: '/media/avatar.webp',
+      cardBackground: undefined,
+      company: undefined,
+      hoverBackground: undefined,
+      hoverVideoUrl: undefined,
+      metric: undefined,
+      modalMedia: undefined,
+      quote: 'Quote 3',
+      title: undefined,
+      videoUrl: undefined,
+    })
+  })
+
+  it('resolves card backgrounds to the media or color they point at', () => {
+    const video = { id: 4, alt: 'Team call', url: '/media/call.mp4' } as Media
+
+    expect(toShowcaseBackground({ type: 'COLOR', color: '#0A1F44' })).toEqual({
+      type: 'COLOR',
+      value: '#0A1F44',
+    })
+    expect(toShowcaseBackground({ type: 'VIDEO', video })).toEqual({
+      alt: 'Team call',
+      type: 'VIDEO',
+      value: '/media/call.mp4',
+    })
+    expect(toShowcaseBackground({ type: 'IMAGE', image: 12 })).toBeUndefined()
+    expect(toShowcaseBackground({ type: 'none' })).toBeUndefined()
+
+    expect(
+      toShowcaseTestimonial({ ...testimonial(3, 'approved'), modalMedia: video }).modalMedia,
+    ).toEqual({ type: 'VIDEO', value: '/media/call.mp4' })
+  })
+
+  it('leaves unset styling options to the showcase defaults', () => {
+    const options = toShowcaseOptions({
+      blockType: 'testimonial',
+      cardSpacing: 'overlap',
+      cardWidth: 300,
+      quoteFontSize: null,
+    })
+
+    expect(options.cardSpacing).toBe('overlap')
+    expect(options.cardWidth).toBe(300)
+    expect(options.quoteFontSize).toBeUndefined()
+  })
+
+  it('keeps the card overlap smaller than the card width', () => {
+    expect(checkCardOverlap(65, 260)).toBeUndefined()
+    expect(checkCardOverlap(260, 260)).toMatch(/must be smaller than the Card Width/)
+    expect(checkCardOverlap(null, 260)).toBeUndefined()
+  })
+})
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+
+import { convertLandingZone } from '@/blocks/ScrollBlock/utils'
+import {
+  getThemeSwatches,
+  resolveThemeColor,
+  resolveThemeTokens,
+  themeColor,
+  themeToCSS,
+} from '@/Theme/tokens'
+
+describe('Theme tokens', () => {
+  it('falls back to the brand defaults until the theme is saved', () => {
+    const tokens = resolveThemeTokens(null)
+
+    expect(tokens['--brand-dark-navy']).toBe('#0A1F44')
+    expect(tokens['--font-size-base']).toBe('16px')
+    expect(tokens['--transition-normal']).toBe('200ms')
+  })
+
+  it('uses saved values and drops ones that could break out of the stylesheet', () => {
+    const css = themeToCSS({
+      colors: { green: 'rgb(0, 160, 80)', darkNavy: 'red;}body{display:none' },
+      typography: { base: '1.125rem' },
+    })
+
+    expect(css.startsWith(':root{')).toBe(true)
+    expect(css).toContain('--brand-green:rgb(0, 160, 80)')
+    expect(css).toContain('--brand-dark-navy:#0A1F44')
+    expect(css).toContain('--font-size-base:1.125rem')
+    expect(css).not.toContain('display:none')
+  })
+
+  it('links colors to the theme through CSS custom properties', () => {
+    expect(themeColor('darkNavy')).toBe('var(--brand-dark-navy)')
+    expect(convertLandingZone({ enabled: true })?.titleColor).toBe('var(--brand-dark-navy)')
+
+    const theme = { colors: { darkNavy: '#101828' } }
+
+    expect(resolveThemeColor('var(--brand-dark-navy)', theme)).toBe('#101828')
+    expect(resolveThemeColor('#ffffff', theme)).toBe('#ffffff')
+    expect(getThemeSwatches(theme)).toContainEqual({
+      label: 'Dark Navy',
+      reference: 'var(--brand-dark-navy)',
+      value: '#101828',
+    })
+  })
+})
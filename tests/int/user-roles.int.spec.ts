@@ -0,0 +1,58 @@
+import type { Payload, PayloadRequest, RelationshipField } from 'payload'
+
+import { describe, it, expect, vi } from 'vitest'
+
+import { Posts } from '@/collections/Posts'
+import { backfillUserRoles } from '@/collections/Users/backfillRoles'
+import type { User } from '@/payload-types'
+
+const fakePayload = (users: Pick<User, 'id' | 'roles'>[]) => ({
+  find: vi.fn().mockResolvedValue({ docs: users }),
+  logger: { error: vi.fn(), info: vi.fn() },
+  update: vi.fn().mockResolvedValue({}),
+})
+
+const asPayload = (payload: ReturnType<typeof fakePayload>) =>
+  payload as unknown as Pick<Payload, 'find' | 'logger' | 'update'>
+
+describe('User roles backfill', () => {
+  it('gives users without roles the admin role', async () => {
+    const payload = fakePayload([
+      { id: 1, roles: [] },
+      { id: 2, roles: ['editor'] },
+      { id: 3, roles: null as unknown as User['roles'] },
+    ])
+
+    expect(await backfillUserRoles(asPayload(payload))).toBe(2)
+    expect(payload.update.mock.calls.map(([args]) => [args.id, args.data])).toEqual([
+      [1, { roles: ['admin'] }],
+      [3, { roles: ['admin'] }],
+    ])
+  })
+
+  it('uses the configured role and ignores unknown ones', async () => {
+    const payload = fakePayload([{ id: 1, roles: [] }])
+
+    await backfillUserRoles(asPayload(payload), 'editor')
+    expect(payload.update).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { roles: ['editor'] } }),
+    )
+
+    payload.update.mockClear()
+    expect(await backfillUserRoles(asPayload(payload), 'owner')).toBe(0)
+    expect(payload.update).not.toHaveBeenCalled()
+    expect(payload.logger.error).toHaveBeenCalled()
+  })
+
+  it('lets only admins and editors change post authors', () => {
+    const authors = Posts.fields.find(
+      (field): field is RelationshipField => 'name' in field && field.name === 'authors',
+    )
+    const update = authors?.access?.update
+    const canUpdate = (roles: User['roles']) =>
+      update?.({ req: { user: { id: 7, roles } } as unknown as PayloadRequest } as never)
+
+    expect(canUpdate(['editor'])).toBe(true)
+    expect(canUpdate(['author'])).toBe(false)
+  })
+})